@@ -1,6 +1,7 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { MongooseModule } from '@nestjs/mongoose';
+import { EventEmitterModule } from '@nestjs/event-emitter';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { validate } from './config/env.validation';
@@ -8,11 +9,16 @@ import { WalletModule } from './wallet/wallet.module';
 import { PassportModule } from '@nestjs/passport';
 import { JwtModule } from '@nestjs/jwt';
 import { GameSessionModule } from './game-session/game-session.module';
+import { MatchmakingModule } from './matchmaking/matchmaking.module';
+import { TournamentModule } from './tournament/tournament.module';
+import { GameRoundModule } from './gam-rounds/game-round-module';
+import { RoundAnswerModule } from './round-answer/round-answer-module';
 import { CommentsModule } from './comments/comments.module';
 import { CategoryModule } from './category/category.module';
 import { UserModule } from './user/user.module';
 import { AuthModule } from './auth/auth.module';
 import { LikesModule } from './likes/likes.module';
+import { LyricModule } from './lyrics/lyric.module';
 
 @Module({
   imports: [
@@ -35,13 +41,18 @@ import { LikesModule } from './likes/likes.module';
         },
       }),
     }),
+    EventEmitterModule.forRoot(),
     PassportModule.register({ defaultStrategy: 'jwt', session: false }),
     JwtModule.register({
       secret: process.env.JWT_SECRET,
     }),
-    // LyricModule,
+    LyricModule,
     WalletModule,
     GameSessionModule,
+    MatchmakingModule,
+    TournamentModule,
+    GameRoundModule,
+    RoundAnswerModule,
     CommentsModule,
     CategoryModule,
     UserModule,
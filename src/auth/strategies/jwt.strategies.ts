@@ -1,6 +1,7 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
+import { INVITE_TOKEN_TYPE } from '../../game-session/game-session-invite.service';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
@@ -12,6 +13,10 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
   }
 
   async validate(payload: any) {
+    // Invite links are not access tokens
+    if (payload?.typ === INVITE_TOKEN_TYPE) {
+      throw new UnauthorizedException();
+    }
     return { userId: payload.sub, username: payload.username, roles: payload.roles };
   }
 }
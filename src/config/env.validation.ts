@@ -12,6 +12,10 @@ class EnvVariables {
 
   @IsString()
   DATABASE_URL!: string;
+
+  // Signs session invite links; keep it different from JWT_SECRET
+  @IsString()
+  SESSION_INVITE_SECRET!: string;
 }
 
 export function validate(config: Record<string, unknown>) {
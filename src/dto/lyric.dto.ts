@@ -14,7 +14,27 @@ import {
 import { Transform } from 'class-transformer';
 import { Type } from 'class-transformer';
 import { PartialType } from '@nestjs/swagger';
-import { Decade, Genre } from 'src/enum/lyric.enum';
+import { Decade, Genre, LyricSectionType } from '../enum/lyric.enum';
+
+export class TimedLyricLineDto {
+  // Milliseconds from the start of the song
+  @IsInt()
+  @Min(0)
+  time!: number;
+
+  @IsString()
+  text!: string;
+}
+
+export class LyricContentDto {
+  @IsString()
+  @IsNotEmpty()
+  content!: string;
+
+  @IsString()
+  @IsOptional()
+  language?: string;
+}
 
 export class CreatelyricDto {
   @IsString()
@@ -42,9 +62,9 @@ export class CreatelyricDto {
   genres?: string[];
 
   @ValidateNested()
-  @Type(() => CreatelyricDto)
+  @Type(() => LyricContentDto)
   @IsOptional()
-  lyrics?: CreatelyricDto;
+  lyrics?: LyricContentDto;
 
   @IsArray()
   @IsOptional()
@@ -56,6 +76,13 @@ export class CreatelyricDto {
   @IsOptional()
   @IsMongoId({ each: true })
   tags?: string[];
+
+  // Synced lyrics; without lyrics they also become the plain lyrics
+  @IsArray()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => TimedLyricLineDto)
+  timedLines?: TimedLyricLineDto[];
 }
 
 export class QuerylyricDto extends PartialType(CreatelyricDto) {
@@ -100,5 +127,26 @@ export class LyricExtractionOptionsDto {
   @IsBoolean()
   @IsOptional()
   includeChorus?: boolean;
+
+  // Only take lines from these sections
+  @IsArray()
+  @IsOptional()
+  @IsEnum(LyricSectionType, { each: true })
+  sections?: LyricSectionType[];
+
+  // Never take lines from these sections
+  @IsArray()
+  @IsOptional()
+  @IsEnum(LyricSectionType, { each: true })
+  excludeSections?: LyricSectionType[];
+}
+ 
+export class ImportLrcDto {
+  @IsString()
+  @IsNotEmpty()
+  lrc!: string;
+
+  @IsString()
+  @IsOptional()
+  language?: string;
 }
- 
\ No newline at end of file
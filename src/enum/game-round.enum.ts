@@ -0,0 +1,85 @@
+export enum RoundQuestionType {
+  SongTitle = 'songTitle',
+  Artist = 'artistName',
+  Album = 'album',
+  Year = 'year',
+  // Players continue the snippet with the line that follows it
+  NextLine = 'nextLine',
+  // Players fill in words blanked out of the snippet
+  MissingWords = 'missingWords',
+}
+
+// Filters song selection dropped because the session settings left too few songs
+export enum SongPoolRelaxation {
+  // Songs of any difficulty were considered
+  Difficulty = 'difficulty',
+  // Songs outside the session genres and decades were considered
+  Categories = 'categories',
+  // Songs already played in the session were considered
+  SessionRepeats = 'sessionRepeats',
+}
+
+// What a hint gives away about the round
+export enum HintType {
+  // Another lyric line around the snippet; can be asked for again until none are left
+  ExtraLine = 'extraLine',
+  // The first letter of the answer, or of each missing word
+  FirstLetter = 'firstLetter',
+  Decade = 'decade',
+  ArtistInitial = 'artistInitial',
+}
+
+// The step of the answer matching pipeline that accepted an answer, from strictest to loosest
+export enum MatchRule {
+  Exact = 'exact',
+  // Equal once case, accents and punctuation are folded away
+  Normalized = 'normalized',
+  // Equal without leading articles such as "the" or "la"
+  Articles = 'articles',
+  // The same artists credited, in any order and joined by feat., & or and
+  ArtistCredits = 'artistCredits',
+  // Equal once number words are written as digits
+  NumberWords = 'numberWords',
+  // Close enough in spelling
+  Fuzzy = 'fuzzy',
+  // Sounds the same
+  Phonetic = 'phonetic',
+  // One contains the other
+  Contains = 'contains',
+}
+
+// What an answer alias stands in for
+export enum AliasKind {
+  // Another accepted title of one song
+  Title = 'title',
+  // Another accepted name of an artist, for all of their songs
+  Artist = 'artist',
+}
+
+export enum AliasStatus {
+  // Proposed by a player and waiting for a moderator
+  Pending = 'pending',
+  // Accepted by validation
+  Approved = 'approved',
+  Rejected = 'rejected',
+  // Taken back after it was approved or proposed
+  Removed = 'removed',
+}
+
+// A change recorded in an alias's audit history
+export enum AliasAction {
+  Proposed = 'proposed',
+  // Added by a moderator, approved from the start
+  Added = 'added',
+  Approved = 'approved',
+  Rejected = 'rejected',
+  Removed = 'removed',
+}
+
+export enum DisputeStatus {
+  // Waiting in the moderator queue
+  Open = 'open',
+  // The answer was wrongly rejected and has been rescored
+  Upheld = 'upheld',
+  Dismissed = 'dismissed',
+}
@@ -3,4 +3,68 @@ export enum SessionStatus {
   Waiting = 'waiting',
   Active = 'active',
   completed = 'completed',
+  Abandoned = 'abandoned',
+}
+
+export enum SessionDifficulty {
+  Easy = 'easy',
+  Medium = 'medium',
+  Hard = 'hard',
+  Mixed = 'mixed',
+}
+
+export enum AnswerMode {
+  Exact = 'exact',
+  Fuzzy = 'fuzzy',
+  MultipleChoice = 'multiple-choice',
+  // Answers containing the accepted one, or contained in it, earn partial credit
+  Contains = 'contains',
+}
+
+export enum SessionVisibility {
+  Public = 'public',
+  Private = 'private',
+}
+
+export enum HostChangeReason {
+  // The host handed the role over themselves
+  Transferred = 'transferred',
+  // The host left or stayed disconnected past the grace period
+  Migrated = 'migrated',
+}
+
+export enum SessionReapReason {
+  // Nothing about the session changed for too long
+  Idle = 'idle',
+  // No connected players were left in the session
+  Empty = 'empty',
+}
+
+export enum RematchInviteStatus {
+  Pending = 'pending',
+  Accepted = 'accepted',
+  Declined = 'declined',
+  // No answer before the rematch deadline; the player is dropped from the rematch
+  Expired = 'expired',
+}
+
+// How much of a correct answer's score comes from answering fast
+export enum ScoringProfile {
+  // Half for being right, half for speed
+  Classic = 'classic',
+  SpeedHeavy = 'speedHeavy',
+  // Speed does not count
+  AccuracyOnly = 'accuracyOnly',
+}
+
+// Optional scoring rules the host can add on top of the profile
+export enum ScoringRule {
+  // Bonus for each correct answer in a row before this one
+  Streak = 'streak',
+  // Bonus for the first correct answer of the round
+  FirstCorrect = 'firstCorrect',
+  // Points taken off for a wrong answer
+  WrongAnswerPenalty = 'wrongAnswerPenalty',
+  // Everything scored in the last round of the session counts twice
+  LastRoundDouble = 'lastRoundDouble',
 }
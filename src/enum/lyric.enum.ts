@@ -33,3 +33,19 @@ export enum Decade {
   '2010s' = '2010s',
   '2020s' = '2020s',
 }
+
+export enum LyricSectionType {
+  Intro = 'intro',
+  Verse = 'verse',
+  PreChorus = 'pre-chorus',
+  Chorus = 'chorus',
+  Bridge = 'bridge',
+  Outro = 'outro',
+}
+
+export enum LyricDifficultySource {
+  // Fitted from how players did on the song's rounds
+  Answers = 'answers',
+  // Guessed from how rare the song's words are, for songs with too few answers
+  Vocabulary = 'vocabulary',
+}
@@ -0,0 +1,5 @@
+export enum MatchmakingTicketStatus {
+  Waiting = 'waiting',
+  Matched = 'matched',
+  Cancelled = 'cancelled',
+}
@@ -0,0 +1,31 @@
+export enum TournamentFormat {
+  SingleElimination = 'single-elimination',
+  Swiss = 'swiss',
+}
+
+export enum TournamentStatus {
+  Registration = 'registration',
+  Active = 'active',
+  Completed = 'completed',
+  // Registration closed without enough players
+  Cancelled = 'cancelled',
+}
+
+export enum TournamentMatchStatus {
+  // Waiting for its game session to be created
+  Pending = 'pending',
+  Active = 'active',
+  Completed = 'completed',
+}
+
+export enum TournamentMatchOutcome {
+  Played = 'played',
+  // Only one player turned up
+  Walkover = 'walkover',
+  // No opponent was drawn
+  Bye = 'bye',
+  // Nobody turned up, so nobody advances
+  Forfeit = 'forfeit',
+  // Set by the organizer
+  Override = 'override',
+}
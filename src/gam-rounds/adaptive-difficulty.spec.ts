@@ -0,0 +1,92 @@
+import { SessionDifficulty } from '../enum/game-session.enum';
+import {
+  adaptiveBounds,
+  nextDifficultyTarget,
+  roomPerformance,
+} from './adaptive-difficulty';
+
+describe('adaptive difficulty', () => {
+  const settings = {
+    difficulty: SessionDifficulty.Medium,
+    minDifficulty: SessionDifficulty.Easy,
+    maxDifficulty: SessionDifficulty.Hard,
+  };
+
+  // `correct` of four players answer correctly, each in `share` of the round
+  const room = (correct: number, share = 0.5) =>
+    roomPerformance(
+      4,
+      Array.from({ length: correct }, () => ({
+        isCorrect: true,
+        responseShare: share,
+      })),
+    );
+
+  it('should start from the session difficulty', () => {
+    const decision = nextDifficultyTarget(settings, null, null);
+
+    expect(decision.level).toBe(SessionDifficulty.Medium);
+    expect(decision.reason).toMatch(/^First adaptive round/);
+    expect(
+      nextDifficultyTarget(
+        { ...settings, difficulty: SessionDifficulty.Mixed },
+        null,
+        null,
+      ).target,
+    ).toBe(0.5);
+  });
+
+  it('should raise the difficulty when the room got it and lower it when it did not', () => {
+    const raised = nextDifficultyTarget(settings, 0.5, room(4));
+    const lowered = nextDifficultyTarget(settings, 0.5, room(0));
+
+    expect(raised.target).toBeGreaterThan(0.5);
+    expect(raised.reason).toBe(
+      '100% of the room answered correctly in 50% of the round: raising the difficulty',
+    );
+    expect(lowered.target).toBeLessThan(0.5);
+    expect(lowered.reason).toMatch(/lowering the difficulty$/);
+  });
+
+  it('should count a fast room as doing better than a slow one', () => {
+    const fast = nextDifficultyTarget(settings, 0.5, room(2, 0.1));
+    const slow = nextDifficultyTarget(settings, 0.5, room(2, 0.9));
+
+    expect(fast.target).toBeGreaterThan(slow.target);
+  });
+
+  it('should keep the difficulty within the host bounds', () => {
+    const capped = {
+      ...settings,
+      maxDifficulty: SessionDifficulty.Medium,
+    };
+    const decision = nextDifficultyTarget(capped, 0.59, room(4));
+
+    expect(adaptiveBounds(capped)).toEqual([0.2, 0.59]);
+    expect(decision.target).toBe(0.59);
+    expect(decision.level).toBe(SessionDifficulty.Medium);
+    expect(decision.reason).toMatch(/already at the maximum difficulty$/);
+  });
+
+  it('should keep the difficulty when the room is on target', () => {
+    const decision = nextDifficultyTarget(
+      settings,
+      0.5,
+      roomPerformance(5, [
+        { isCorrect: true, responseShare: 0.4 },
+        { isCorrect: true, responseShare: 0.5 },
+        { isCorrect: true, responseShare: 0.6 },
+        { isCorrect: false, responseShare: 0.2 },
+      ]),
+    );
+
+    expect(decision.performance).toEqual({
+      players: 5,
+      answered: 4,
+      correct: 3,
+      medianResponseShare: 0.5,
+    });
+    expect(decision.target).toBe(0.5);
+    expect(decision.reason).toMatch(/on target/);
+  });
+});
@@ -0,0 +1,166 @@
+import { SessionDifficulty } from '../enum/game-session.enum';
+import { difficultyLevel } from '../lyrics/lyric-difficulty';
+import type { GameSessionSettings } from '../schemas/game-session.schema';
+import type { QuestionDifficulty } from './round-question-generator';
+
+// Range of song difficulty scores (see LyricDifficulty) each level covers
+export const DIFFICULTY_RANGES: Record<QuestionDifficulty, [number, number]> = {
+  [SessionDifficulty.Easy]: [0.2, 0.39],
+  [SessionDifficulty.Medium]: [0.4, 0.59],
+  [SessionDifficulty.Hard]: [0.6, 0.8],
+};
+
+// Share of the room a well-pitched round should see answer correctly
+const TARGET_ACCURACY = 0.6;
+
+// How far the target moves per point of accuracy off target, and at most per round
+const ADAPT_RATE = 0.4;
+const MAX_STEP = 0.15;
+// Smaller moves than this are noise
+const ON_TARGET_STEP = 0.01;
+
+// How much a fast or slow room counts on top of its accuracy
+const SPEED_WEIGHT = 0.2;
+
+export interface RoomPerformance {
+  players: number;
+  answered: number;
+  correct: number;
+  // Median response time of the correct answers as a share of the round duration
+  medianResponseShare: number | null;
+}
+
+/**
+ * Why a round was pitched where it was; stored in the round metadata so the tuning can be reviewed
+ */
+export interface AdaptiveDifficultyDecision {
+  previousTarget: number | null;
+  target: number;
+  level: QuestionDifficulty;
+  bounds: [number, number];
+  performance: RoomPerformance | null;
+  reason: string;
+}
+
+export function adaptiveBounds(
+  settings: Pick<GameSessionSettings, 'minDifficulty' | 'maxDifficulty'>,
+): [number, number] {
+  return [
+    DIFFICULTY_RANGES[settings.minDifficulty as QuestionDifficulty][0],
+    DIFFICULTY_RANGES[settings.maxDifficulty as QuestionDifficulty][1],
+  ];
+}
+
+/**
+ * Difficulty target for the next round of an adaptive session. The first round starts from
+ * the session difficulty, or the middle of the bounds for mixed sessions; every round after
+ * moves up when the room found the last one easy and down when it struggled.
+ */
+export function nextDifficultyTarget(
+  settings: Pick<
+    GameSessionSettings,
+    'difficulty' | 'minDifficulty' | 'maxDifficulty'
+  >,
+  previousTarget: number | null,
+  performance: RoomPerformance | null,
+): AdaptiveDifficultyDecision {
+  const bounds = adaptiveBounds(settings);
+  const clamp = (value: number) =>
+    round(Math.min(bounds[1], Math.max(bounds[0], value)));
+  const decide = (target: number, reason: string) => ({
+    previousTarget,
+    target,
+    level: difficultyLevel(target),
+    bounds,
+    performance,
+    reason,
+  });
+
+  if (previousTarget === null) {
+    const start =
+      settings.difficulty === SessionDifficulty.Mixed
+        ? (bounds[0] + bounds[1]) / 2
+        : midpoint(settings.difficulty as QuestionDifficulty);
+    return decide(
+      clamp(start),
+      'First adaptive round: starting from the session difficulty',
+    );
+  }
+  if (!performance || performance.players === 0) {
+    return decide(
+      clamp(previousTarget),
+      'No players to learn from: keeping the difficulty',
+    );
+  }
+
+  const accuracy = performance.correct / performance.players;
+  // A room answering in the first half of the round is doing better than its accuracy says
+  const speed =
+    performance.medianResponseShare === null
+      ? 0
+      : SPEED_WEIGHT * (0.5 - performance.medianResponseShare);
+  const step = Math.max(
+    -MAX_STEP,
+    Math.min(MAX_STEP, ADAPT_RATE * (accuracy + speed - TARGET_ACCURACY)),
+  );
+  const target = clamp(previousTarget + step);
+
+  const summary = `${Math.round(accuracy * 100)}% of the room answered correctly${
+    performance.medianResponseShare === null
+      ? ''
+      : ` in ${Math.round(performance.medianResponseShare * 100)}% of the round`
+  }`;
+  if (Math.abs(step) < ON_TARGET_STEP) {
+    return decide(
+      clamp(previousTarget),
+      `${summary}: on target, keeping the difficulty`,
+    );
+  }
+  if (
+    target === clamp(previousTarget) &&
+    (target === bounds[0] || target === bounds[1])
+  ) {
+    return decide(
+      target,
+      `${summary}: already at the ${step > 0 ? 'maximum' : 'minimum'} difficulty`,
+    );
+  }
+  return decide(
+    target,
+    `${summary}: ${step > 0 ? 'raising' : 'lowering'} the difficulty`,
+  );
+}
+
+/**
+ * How the room did on a round; players who did not answer count as wrong
+ */
+export function roomPerformance(
+  players: number,
+  answers: { isCorrect: boolean; responseShare: number }[],
+): RoomPerformance {
+  const correctShares = answers
+    .filter((answer) => answer.isCorrect)
+    .map((answer) => answer.responseShare)
+    .sort((a, b) => a - b);
+  const middle = Math.floor(correctShares.length / 2);
+  return {
+    players: Math.max(players, answers.length),
+    answered: answers.length,
+    correct: correctShares.length,
+    medianResponseShare:
+      correctShares.length === 0
+        ? null
+        : correctShares.length % 2
+          ? correctShares[middle]
+          : (correctShares[middle - 1] + correctShares[middle]) / 2,
+  };
+}
+
+function midpoint(level: QuestionDifficulty): number {
+  const [low, high] = DIFFICULTY_RANGES[level];
+  return (low + high) / 2;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,63 @@
+import { AliasKind, RoundQuestionType } from '../enum/game-round.enum';
+import { aliasKey, aliasKindFor, withApprovedAliases } from './answer-aliases';
+
+describe('answer aliases', () => {
+  const song = {
+    alternateTitles: [
+      'Harbour Lights',
+      'harbor lights',
+      'Lights of the Harbor',
+    ],
+    alternateArtistNames: ['The Tides'],
+  };
+
+  it('should only apply to title and artist questions', () => {
+    expect(aliasKindFor(RoundQuestionType.SongTitle)).toBe(AliasKind.Title);
+    expect(aliasKindFor(RoundQuestionType.Artist)).toBe(AliasKind.Artist);
+    expect(aliasKindFor(RoundQuestionType.Year)).toBeNull();
+    expect(aliasKey('  Beyoncé & JAY-Z ')).toBe('beyonce and jay z');
+  });
+
+  it("should add the song's aliases for the question to the accepted answers once each", () => {
+    const round = {
+      questionType: RoundQuestionType.SongTitle,
+      correctAnswers: ['Harbor Lights'],
+      options: [],
+    };
+
+    expect(withApprovedAliases(round, song)).toEqual([
+      'Harbor Lights',
+      'Harbour Lights',
+      'Lights of the Harbor',
+    ]);
+    expect(
+      withApprovedAliases(
+        {
+          ...round,
+          questionType: RoundQuestionType.Artist,
+          correctAnswers: ['Tides'],
+        },
+        song,
+      ),
+    ).toEqual(['Tides', 'The Tides']);
+    expect(
+      withApprovedAliases(
+        { ...round, questionType: RoundQuestionType.Album },
+        song,
+      ),
+    ).toEqual(['Harbor Lights']);
+  });
+
+  it('should leave multiple-choice rounds to their options', () => {
+    expect(
+      withApprovedAliases(
+        {
+          questionType: RoundQuestionType.SongTitle,
+          correctAnswers: ['o1'],
+          options: [{ id: 'o1', text: 'Harbor Lights' }],
+        },
+        song,
+      ),
+    ).toEqual(['o1']);
+  });
+});
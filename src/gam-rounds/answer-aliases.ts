@@ -0,0 +1,68 @@
+import { AliasKind, RoundQuestionType } from '../enum/game-round.enum';
+import type { lyric } from '../schemas/lyric.schema';
+import { tokenize } from './answer-matching';
+import type { RoundOption } from './round-distractors';
+
+// The question each kind of alias is an answer to
+export const ALIAS_QUESTION_TYPES: Record<AliasKind, RoundQuestionType> = {
+  [AliasKind.Title]: RoundQuestionType.SongTitle,
+  [AliasKind.Artist]: RoundQuestionType.Artist,
+};
+
+// The parts of a round its accepted answers come from
+export interface AliasRound {
+  questionType: string;
+  correctAnswers: string[];
+  options: RoundOption[];
+}
+
+export type AliasSong = Pick<lyric, 'alternateTitles' | 'alternateArtistNames'>;
+
+/**
+ * The kind of alias that can answer a question, or null when aliases do not apply to it
+ */
+export function aliasKindFor(questionType: string): AliasKind | null {
+  const kinds = Object.keys(ALIAS_QUESTION_TYPES) as AliasKind[];
+  return (
+    kinds.find((kind) => ALIAS_QUESTION_TYPES[kind] === questionType) ?? null
+  );
+}
+
+/**
+ * What two aliases must share to be the same one: their words, with case and accents folded away
+ */
+export function aliasKey(text: string): string {
+  return tokenize(text).join(' ');
+}
+
+/**
+ * The round's accepted answers together with the song's approved aliases for its question, so an alias
+ * approved after the round was built counts for it. Multiple-choice rounds are answered by option and
+ * take no aliases.
+ */
+export function withApprovedAliases(
+  round: AliasRound,
+  song: AliasSong,
+): string[] {
+  if (round.options?.length) {
+    return round.correctAnswers;
+  }
+
+  const kind = aliasKindFor(round.questionType);
+  const aliases =
+    kind === AliasKind.Title
+      ? song.alternateTitles
+      : kind === AliasKind.Artist
+        ? song.alternateArtistNames
+        : [];
+  const keys = new Set(round.correctAnswers.map(aliasKey));
+  const added = (aliases ?? []).filter((alias) => {
+    const key = aliasKey(alias);
+    if (key === '' || keys.has(key)) {
+      return false;
+    }
+    keys.add(key);
+    return true;
+  });
+  return [...round.correctAnswers, ...added];
+}
@@ -0,0 +1,64 @@
+import { AnswerMode } from '../enum/game-session.enum';
+import { MatchRule, RoundQuestionType } from '../enum/game-round.enum';
+import { compareWithAccepted, disputeDeadline } from './answer-disputes';
+
+describe('answer disputes', () => {
+  const round = {
+    questionType: RoundQuestionType.SongTitle,
+    options: [],
+    answerMode: AnswerMode.Exact,
+  };
+
+  it('should close disputes the window after the round ends', () => {
+    const endTime = new Date('2026-01-01T12:00:00Z');
+
+    expect(disputeDeadline(endTime, 10)).toEqual(
+      new Date('2026-01-01T12:10:00Z'),
+    );
+    expect(disputeDeadline(endTime, 0)).toBeNull();
+    expect(disputeDeadline(null, 10)).toBeNull();
+  });
+
+  it('should list the accepted answers closest first with the rule that accepts the answer now', () => {
+    const comparison = compareWithAccepted('Harbour Light', round, [
+      'Desert Rain',
+      'Harbor Lights',
+      'Harbour Light',
+    ]);
+
+    expect(comparison.answer).toBe('Harbour Light');
+    expect(
+      comparison.accepted.map(({ accepted, rule }) => [accepted, rule]),
+    ).toEqual([
+      ['Harbour Light', MatchRule.Exact],
+      ['Harbor Lights', null],
+      ['Desert Rain', null],
+    ]);
+    expect(comparison.accepted[1].similarity).toBeCloseTo(11 / 13);
+  });
+
+  it('should compare multiple-choice answers by option text and missing words as a whole', () => {
+    const choice = compareWithAccepted(
+      'o2',
+      {
+        ...round,
+        options: [
+          { id: 'o1', text: 'Harbor Lights' },
+          { id: 'o2', text: 'Harbor Nights' },
+        ],
+      },
+      ['o1'],
+    );
+    expect(choice.answer).toBe('Harbor Nights');
+    expect(choice.accepted[0].accepted).toBe('Harbor Lights');
+
+    const words = compareWithAccepted(
+      'rolling|river',
+      { ...round, questionType: RoundQuestionType.MissingWords },
+      ['rolling', 'rivers'],
+    );
+    expect(words.answer).toBe('rolling river');
+    expect(words.accepted).toHaveLength(1);
+    expect(words.accepted[0].accepted).toBe('rolling rivers');
+  });
+});
@@ -0,0 +1,71 @@
+import { MatchRule, RoundQuestionType } from '../enum/game-round.enum';
+import { AnswerMode } from '../enum/game-session.enum';
+import { matchAnswer } from './answer-matching';
+import { normalizeText, textSimilarity } from './answer-text';
+import type { RoundOption } from './round-distractors';
+
+// The parts of a round a disputed answer is compared with
+export interface DisputeRound {
+  questionType: string;
+  options: RoundOption[];
+  answerMode: AnswerMode;
+}
+
+// How close a disputed answer came to one accepted answer
+export interface AcceptedSimilarity {
+  accepted: string;
+  similarity: number;
+  // The matching rule that accepts the answer now, e.g. since an alias was approved; null when none does
+  rule: MatchRule | null;
+}
+
+export interface DisputeComparison {
+  // The answer as the player saw it: option text for multiple-choice rounds
+  answer: string;
+  // Closest first
+  accepted: AcceptedSimilarity[];
+}
+
+/**
+ * When disputes of a round's answers close, or null when the session takes no disputes or the round
+ * has not ended
+ */
+export function disputeDeadline(
+  endTime: Date | null | undefined,
+  windowMinutes: number,
+): Date | null {
+  if (!endTime || windowMinutes <= 0) {
+    return null;
+  }
+  return new Date(endTime.getTime() + windowMinutes * 60 * 1000);
+}
+
+/**
+ * Compare a disputed answer with each answer the round accepts, for the moderator reviewing it.
+ * Multiple-choice answers are compared by option text and the words of a missing-words round as a whole.
+ */
+export function compareWithAccepted(
+  answer: string,
+  round: DisputeRound,
+  accepted: string[],
+): DisputeComparison {
+  const optionText = new Map(
+    round.options.map((option) => [option.id, option.text]),
+  );
+  const asText = (text: string) => optionText.get(text) ?? text;
+  const missingWords = round.questionType === RoundQuestionType.MissingWords;
+  const given = missingWords ? answer.split('|').join(' ') : asText(answer);
+  const candidates = missingWords ? [accepted.join(' ')] : accepted.map(asText);
+
+  const normalized = normalizeText(given);
+  return {
+    answer: given,
+    accepted: candidates
+      .map((candidate) => ({
+        accepted: candidate,
+        similarity: textSimilarity(normalized, normalizeText(candidate)),
+        rule: matchAnswer(given, [candidate], round.answerMode).rule,
+      }))
+      .sort((a, b) => b.similarity - a.similarity),
+  };
+}
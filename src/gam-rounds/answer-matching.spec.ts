@@ -0,0 +1,69 @@
+import { AnswerMode } from '../enum/game-session.enum';
+import { MatchRule } from '../enum/game-round.enum';
+import { foldText, matchAnswer, metaphone, tokenize } from './answer-matching';
+
+describe('answer matching', () => {
+  const ruleFor = (answer: string, accepted: string, mode = AnswerMode.Exact) =>
+    matchAnswer(answer, [accepted], mode).rule;
+
+  it('should report the strictest rule that accepted the answer', () => {
+    expect(ruleFor('Halo', 'Halo')).toBe(MatchRule.Exact);
+    expect(ruleFor('beyonce', 'Beyoncé')).toBe(MatchRule.Normalized);
+    expect(ruleFor('Killers', 'The Killers')).toBe(MatchRule.Articles);
+    expect(ruleFor('La Bamba', 'bamba')).toBe(MatchRule.Articles);
+    expect(
+      ruleFor('Rihanna & Calvin Harris', 'Calvin Harris feat. Rihanna'),
+    ).toBe(MatchRule.ArtistCredits);
+    expect(ruleFor('Twenty One Pilots', '21 Pilots')).toBe(
+      MatchRule.NumberWords,
+    );
+    expect(ruleFor('ninety nine problems', '99 Problems')).toBe(
+      MatchRule.NumberWords,
+    );
+    expect(matchAnswer('Yesterday', ['Halo'])).toEqual({
+      isCorrect: false,
+      rule: null,
+      matched: null,
+    });
+  });
+
+  it('should keep non-Latin scripts instead of dropping them', () => {
+    expect(tokenize('Кино — Группа крови')).toEqual([
+      'кино',
+      'группа',
+      'крови',
+    ]);
+    expect(tokenize('千と千尋')).toEqual(['千', 'と', '千', '尋']);
+    expect(foldText('Ёлка')).toBe('елка');
+    expect(foldText('أُغْنِيَة')).toBe('اغنيه');
+    expect(ruleFor('فيروز', 'فَيْروز')).toBe(MatchRule.Normalized);
+    expect(ruleFor('Группа крови', 'Группа крови!')).toBe(MatchRule.Normalized);
+    expect(ruleFor('Кино', 'Кина')).toBeNull();
+  });
+
+  it('should accept close spellings and answers that sound right in fuzzy mode only', () => {
+    const fuzzy = matchAnswer('Beyonse', ['Beyoncé'], AnswerMode.Fuzzy);
+    expect(fuzzy.rule).toBe(MatchRule.Fuzzy);
+    expect(fuzzy.partialCredit).toBeCloseTo(6 / 7);
+    expect(matchAnswer('千と千尋の', ['千と千尋'], AnswerMode.Fuzzy).rule).toBe(
+      MatchRule.Fuzzy,
+    );
+
+    expect(metaphone('Knight')).toBe(metaphone('Nite'));
+    expect(metaphone('Phoenix')).toBe(metaphone('Feenix'));
+    expect(matchAnswer('Feenix', ['Phoenix'], AnswerMode.Fuzzy)).toMatchObject({
+      rule: MatchRule.Phonetic,
+      matched: 'Phoenix',
+    });
+    expect(ruleFor('Feenix', 'Phoenix')).toBeNull();
+  });
+
+  it('should give partial credit for answers that contain the accepted one', () => {
+    expect(
+      matchAnswer('the song is halo', ['Halo'], AnswerMode.Contains),
+    ).toMatchObject({
+      rule: MatchRule.Contains,
+      partialCredit: 0.7,
+    });
+  });
+});
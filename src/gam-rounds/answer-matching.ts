@@ -0,0 +1,403 @@
+import { AnswerMode } from '../enum/game-session.enum';
+import { MatchRule } from '../enum/game-round.enum';
+import { textSimilarity } from './answer-text';
+
+// How close in spelling a fuzzy answer has to be
+export const MIN_FUZZY_SIMILARITY = 0.8;
+
+// Credit for an answer that only sounds right
+export const PHONETIC_CREDIT = 0.9;
+
+// Least credit a "contains" match earns however much longer one side is
+export const MIN_CONTAINS_CREDIT = 0.7;
+
+export interface AnswerMatch {
+  isCorrect: boolean;
+  // Null when nothing matched
+  rule: MatchRule | null;
+  // The accepted answer it matched
+  matched: string | null;
+  partialCredit?: number;
+}
+
+// Leading articles dropped before comparing, in the languages songs are most often in
+const ARTICLES = new Set(
+  `the a an el la los las un una le les une der die das ein eine il lo gli o os`.split(
+    ' ',
+  ),
+);
+
+// Words joining the artists of a credit, after "&" became "and"
+const CREDIT_JOINERS = new Set([
+  'feat',
+  'ft',
+  'featuring',
+  'and',
+  'x',
+  'with',
+  'vs',
+]);
+
+// English number words; each word's value is its position
+const NUMBER_UNITS =
+  `zero one two three four five six seven eight nine ten eleven twelve thirteen
+  fourteen fifteen sixteen seventeen eighteen nineteen`.split(/\s+/);
+const NUMBER_TENS =
+  `twenty thirty forty fifty sixty seventy eighty ninety`.split(' ');
+const NUMBER_SCALES: Record<string, number> = {
+  hundred: 100,
+  thousand: 1000,
+  million: 1000000,
+};
+
+// Letters that do not come apart into a base letter and an accent
+const LETTER_FOLDS: Record<string, string> = {
+  ß: 'ss',
+  æ: 'ae',
+  œ: 'oe',
+  ø: 'o',
+  ł: 'l',
+  đ: 'd',
+  ð: 'd',
+  þ: 'th',
+  ı: 'i',
+};
+
+// Scripts written without spaces between words; every character is a token of its own
+const UNSPACED = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー]/u;
+const TOKEN =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー]|(?:(?![\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー])[\p{L}\p{N}\p{M}])+/gu;
+
+/**
+ * Whether an answer matches one of the accepted ones under the round's answer mode, trying each
+ * rule of the pipeline from the strictest and reporting the first one that accepted it
+ */
+export function matchAnswer(
+  answer: string,
+  accepted: string[],
+  mode: AnswerMode = AnswerMode.Exact,
+): AnswerMatch {
+  const candidates = accepted.filter((text) => text.trim() !== '');
+  const strict = matchStrict(answer, candidates);
+  if (strict) {
+    return strict;
+  }
+
+  const given = canonicalTokens(answer).join(' ');
+  if (given === '') {
+    return noMatch();
+  }
+
+  if (mode === AnswerMode.Fuzzy) {
+    let best: AnswerMatch = noMatch();
+    for (const candidate of candidates) {
+      const expected = canonicalTokens(candidate).join(' ');
+      const similarity = textSimilarity(unspaced(given), unspaced(expected));
+      if (
+        similarity >= MIN_FUZZY_SIMILARITY &&
+        similarity > (best.partialCredit ?? 0)
+      ) {
+        best = {
+          isCorrect: true,
+          rule: MatchRule.Fuzzy,
+          matched: candidate,
+          partialCredit: similarity,
+        };
+      }
+    }
+    if (best.isCorrect) {
+      return best;
+    }
+
+    const sound = phoneticKey(answer);
+    const heard =
+      sound && candidates.find((candidate) => phoneticKey(candidate) === sound);
+    if (heard) {
+      return {
+        isCorrect: true,
+        rule: MatchRule.Phonetic,
+        matched: heard,
+        partialCredit: PHONETIC_CREDIT,
+      };
+    }
+  }
+
+  if (mode === AnswerMode.Contains) {
+    for (const candidate of candidates) {
+      const expected = canonicalTokens(candidate).join(' ');
+      if (
+        expected !== '' &&
+        (` ${given} `.includes(` ${expected} `) ||
+          ` ${expected} `.includes(` ${given} `))
+      ) {
+        const ratio = Math.min(
+          given.length / expected.length,
+          expected.length / given.length,
+        );
+        return {
+          isCorrect: true,
+          rule: MatchRule.Contains,
+          matched: candidate,
+          partialCredit: Math.max(MIN_CONTAINS_CREDIT, ratio),
+        };
+      }
+    }
+  }
+
+  return noMatch();
+}
+
+/**
+ * Lowercase, compatibility-normalized text with Latin accents folded away and Arabic and Cyrillic
+ * spelling variants made the same. Other scripts keep their marks: they change the letter.
+ */
+export function foldText(text: string): string {
+  return (
+    text
+      .normalize('NFKD')
+      .replace(/(\p{Script=Latin})\p{M}+/gu, '$1')
+      .normalize('NFC')
+      .toLowerCase()
+      .replace(/[ßæœøłđðþı]/g, (letter) => LETTER_FOLDS[letter])
+      // Cyrillic: ё is written е in most lyrics
+      .replace(/\u0451/g, '\u0435')
+      // Arabic: vowel marks and tatweel are optional, and alef and yeh have several forms
+      .replace(/[\u064B-\u0652\u0670\u0640]/g, '')
+      .replace(/[\u0622\u0623\u0625\u0671]/g, '\u0627')
+      .replace(/\u0649/g, '\u064A')
+      .replace(/\u0629/g, '\u0647')
+  );
+}
+
+/**
+ * Words of the folded text; characters of scripts written without spaces each count as a word
+ */
+export function tokenize(text: string): string[] {
+  return foldText(text.replace(/&|\+/g, ' and ')).match(TOKEN) ?? [];
+}
+
+/**
+ * Metaphone-style key of a Latin word: words that sound alike share it
+ */
+export function metaphone(word: string): string {
+  let w = foldText(word).replace(/[^a-z]/g, '');
+  if (w === '') {
+    return '';
+  }
+  w = w
+    .replace(/^(kn|gn|pn|ae|wr)/, (start) => start.slice(1))
+    .replace(/^x/, 's')
+    .replace(/^wh/, 'w');
+
+  const vowel = (c: string | undefined) =>
+    c !== undefined && 'aeiou'.includes(c);
+  let key = '';
+  for (let i = 0; i < w.length; i++) {
+    const c = w[i];
+    const prev = w[i - 1];
+    const next = w[i + 1];
+    const after = w[i + 2];
+    // Doubled letters sound once, except "cc" as in "accent"
+    if (c === prev && c !== 'c') {
+      continue;
+    }
+    switch (c) {
+      case 'a':
+      case 'e':
+      case 'i':
+      case 'o':
+      case 'u':
+        if (i === 0) key += c;
+        break;
+      case 'b':
+        if (!(prev === 'm' && i === w.length - 1)) key += 'b';
+        break;
+      case 'c':
+        if (next === 'i' && after === 'a') key += 'x';
+        else if (next === 'h') key += prev === 's' ? 'k' : 'x';
+        else if (next && 'iey'.includes(next)) {
+          if (prev !== 's') key += 's';
+        } else key += 'k';
+        break;
+      case 'd':
+        key += next === 'g' && after && 'iey'.includes(after) ? 'j' : 't';
+        break;
+      case 'g':
+        if (next === 'h' && !vowel(after) && i + 2 < w.length) break;
+        if (next === 'n' && (i + 2 === w.length || w.slice(i + 1) === 'ned'))
+          break;
+        key += next && 'iey'.includes(next) && prev !== 'g' ? 'j' : 'k';
+        break;
+      case 'h':
+        if (vowel(next) && !(prev && 'cgpst'.includes(prev))) key += 'h';
+        break;
+      case 'k':
+        if (prev !== 'c') key += 'k';
+        break;
+      case 'p':
+        key += next === 'h' ? 'f' : 'p';
+        break;
+      case 'q':
+        key += 'k';
+        break;
+      case 's':
+        key +=
+          next === 'h' || (next === 'i' && (after === 'o' || after === 'a'))
+            ? 'x'
+            : 's';
+        break;
+      case 't':
+        if (next === 'i' && (after === 'o' || after === 'a')) key += 'x';
+        else if (next === 'h') key += '0';
+        else if (!(next === 'c' && after === 'h')) key += 't';
+        break;
+      case 'v':
+        key += 'f';
+        break;
+      case 'w':
+      case 'y':
+        if (vowel(next)) key += c;
+        break;
+      case 'x':
+        key += 'ks';
+        break;
+      case 'z':
+        key += 's';
+        break;
+      default:
+        key += c;
+    }
+  }
+  return key;
+}
+
+/**
+ * The rules that need no tolerance, tried in order; every step builds on the one before
+ */
+function matchStrict(answer: string, candidates: string[]): AnswerMatch | null {
+  const steps: [MatchRule, (text: string) => string][] = [
+    [MatchRule.Exact, (text) => text.trim()],
+    [MatchRule.Normalized, (text) => tokenize(text).join(' ')],
+    [MatchRule.Articles, (text) => withoutArticles(tokenize(text)).join(' ')],
+    [
+      MatchRule.ArtistCredits,
+      (text) => credits(withoutArticles(tokenize(text))).join(' + '),
+    ],
+    [MatchRule.NumberWords, (text) => canonicalTokens(text).join(' ')],
+  ];
+  for (const [rule, canonical] of steps) {
+    const given = canonical(answer);
+    if (given === '') {
+      continue;
+    }
+    const matched = candidates.find(
+      (candidate) => canonical(candidate) === given,
+    );
+    if (matched !== undefined) {
+      return { isCorrect: true, rule, matched };
+    }
+  }
+  return null;
+}
+
+// Every canonicalization at once, for the tolerant rules
+function canonicalTokens(text: string): string[] {
+  return numbersAsDigits(withoutArticles(tokenize(text)));
+}
+
+function withoutArticles(tokens: string[]): string[] {
+  // "L'amour" and "d'amour" elide the article into the word
+  const [first, ...rest] = tokens;
+  if (first && /^[ld]$/.test(first) && rest.length > 0) {
+    return rest;
+  }
+  return tokens.length > 1 && ARTICLES.has(first) ? rest : tokens;
+}
+
+/**
+ * The artists of a credit, sorted, so "B & A" and "A feat. B" agree
+ */
+function credits(tokens: string[]): string[] {
+  const names: string[][] = [[]];
+  for (const token of tokens) {
+    if (CREDIT_JOINERS.has(token)) {
+      names.push([]);
+    } else {
+      names[names.length - 1].push(token);
+    }
+  }
+  return names
+    .filter((name) => name.length > 0)
+    .map((name) => withoutArticles(name).join(' '))
+    .sort();
+}
+
+/**
+ * English number words written as digits: "twenty one pilots" becomes "21 pilots"
+ */
+function numbersAsDigits(tokens: string[]): string[] {
+  const result: string[] = [];
+  let total = 0;
+  let current = 0;
+  let inNumber = false;
+  const flush = () => {
+    if (inNumber) {
+      result.push(String(total + current));
+    }
+    total = 0;
+    current = 0;
+    inNumber = false;
+  };
+
+  for (const token of tokens) {
+    if (NUMBER_UNITS.includes(token)) {
+      current += NUMBER_UNITS.indexOf(token);
+    } else if (NUMBER_TENS.includes(token)) {
+      current += 20 + 10 * NUMBER_TENS.indexOf(token);
+    } else if (token in NUMBER_SCALES && inNumber) {
+      const scale = NUMBER_SCALES[token];
+      if (scale === 100) {
+        current = Math.max(1, current) * scale;
+      } else {
+        total += Math.max(1, current) * scale;
+        current = 0;
+      }
+    } else {
+      flush();
+      result.push(token);
+      continue;
+    }
+    inNumber = true;
+  }
+  flush();
+  return result;
+}
+
+/**
+ * Key of the whole answer when it is written in Latin letters and digits only, or null
+ */
+function phoneticKey(text: string): string | null {
+  const tokens = canonicalTokens(text);
+  if (
+    tokens.length === 0 ||
+    !tokens.every((token) => /^[a-z0-9]+$/.test(token))
+  ) {
+    return null;
+  }
+  return tokens
+    .map((token) => (/^\d+$/.test(token) ? token : metaphone(token)))
+    .join(' ');
+}
+
+// Spaces between the characters of unspaced scripts would count as spelling differences
+function unspaced(text: string): string {
+  return text.replace(/ (?=\S)/g, (space, offset) =>
+    UNSPACED.test(text[offset - 1]) && UNSPACED.test(text[offset + 1])
+      ? ''
+      : space,
+  );
+}
+
+function noMatch(): AnswerMatch {
+  return { isCorrect: false, rule: null, matched: null };
+}
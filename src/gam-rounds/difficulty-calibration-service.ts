@@ -0,0 +1,119 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Model } from 'mongoose';
+import { GameRound, GameRoundDocument, GameRoundStatus } from './game-round-schema';
+import { lyric, lyricDocument } from '../schemas/lyric.schema';
+import { AnswerOutcome, calibrateSongDifficulties, vocabularyDifficulty } from '../lyrics/lyric-difficulty';
+
+// Only answers from rounds this recent count, so ratings follow the current player base
+const CALIBRATION_WINDOW_DAYS = 180;
+
+const WRITE_BATCH_SIZE = 500;
+
+type LyricWrite = Parameters<Model<lyricDocument>['bulkWrite']>[0][number];
+
+/**
+ * Rates how hard each song is from how players did on its rounds. Songs with too few answers
+ * keep a rating from their vocabulary, which new songs get when they are saved.
+ */
+@Injectable()
+export class DifficultyCalibrationService {
+  private readonly logger = new Logger(DifficultyCalibrationService.name);
+  private running = false;
+
+  constructor(
+    @InjectModel(GameRound.name) private gameRoundModel: Model<GameRoundDocument>,
+    @InjectModel(lyric.name) private lyricModel: Model<lyricDocument>
+  ) {}
+
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async calibrate(): Promise<{ calibrated: number; rated: number }> {
+    if (this.running) {
+      return { calibrated: 0, rated: 0 };
+    }
+    this.running = true;
+
+    try {
+      const now = new Date();
+      const difficulties = calibrateSongDifficulties(await this.loadOutcomes(now), now);
+      const calibrated = await this.write(
+        [...difficulties.entries()].map(([songId, difficulty]) => ({
+          updateOne: { filter: { _id: songId }, update: { $set: { difficulty } } }
+        }))
+      );
+
+      // Songs saved before ratings existed, and never played often enough to calibrate
+      let rated = 0;
+      let batch: LyricWrite[] = [];
+      const unrated = this.lyricModel
+        .find({ difficulty: null }, { 'lyrics.content': 1 })
+        .lean()
+        .cursor();
+      for await (const song of unrated) {
+        batch.push({
+          updateOne: {
+            filter: { _id: song._id },
+            update: { $set: { difficulty: vocabularyDifficulty(song.lyrics?.content ?? '', now) } }
+          }
+        });
+        if (batch.length === WRITE_BATCH_SIZE) {
+          rated += await this.write(batch);
+          batch = [];
+        }
+      }
+      rated += await this.write(batch);
+
+      this.logger.log(`Calibrated ${calibrated} songs from answers and rated ${rated} by vocabulary`);
+      return { calibrated, rated };
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Every answer of recent completed rounds with a generated question
+   */
+  private async loadOutcomes(now: Date): Promise<AnswerOutcome[]> {
+    const since = new Date(now.getTime() - CALIBRATION_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    const rows = await this.gameRoundModel.aggregate([
+      {
+        $match: {
+          status: GameRoundStatus.COMPLETED,
+          questionType: { $ne: null },
+          endTime: { $gte: since }
+        }
+      },
+      { $lookup: { from: 'roundanswers', localField: '_id', foreignField: 'roundId', as: 'answer' } },
+      { $unwind: '$answer' },
+      {
+        $project: {
+          _id: 0,
+          songId: 1,
+          questionType: 1,
+          durationSeconds: 1,
+          playerId: '$answer.playerId',
+          isCorrect: '$answer.isCorrect',
+          responseTimeMs: '$answer.responseTimeMs'
+        }
+      }
+    ]).allowDiskUse(true).exec();
+
+    return rows.map((row) => ({
+      songId: String(row.songId),
+      questionType: row.questionType,
+      playerId: String(row.playerId),
+      isCorrect: Boolean(row.isCorrect),
+      responseShare: row.durationSeconds ? (row.responseTimeMs ?? 0) / (row.durationSeconds * 1000) : 1
+    }));
+  }
+
+  private async write(operations: LyricWrite[]): Promise<number> {
+    let written = 0;
+    for (let start = 0; start < operations.length; start += WRITE_BATCH_SIZE) {
+      const result = await this.lyricModel.bulkWrite(operations.slice(start, start + WRITE_BATCH_SIZE));
+      written += result.modifiedCount;
+    }
+    return written;
+  }
+}
@@ -0,0 +1,137 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { GameRoundClockService } from './game-round-clock-service';
+import { GameRound, GameRoundStatus } from './game-round-schema';
+
+describe('GameRoundClockService', () => {
+  let clock: GameRoundClockService;
+  let gameRoundModel: { find: jest.Mock; findOneAndUpdate: jest.Mock };
+  let eventEmitter: { emit: jest.Mock };
+
+  const now = new Date('2025-01-01T12:00:00.000Z');
+
+  const withExec = (value: any) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const mockRound = (roundId: string, startTime: Date, durationSeconds = 10) =>
+    ({
+      roundId,
+      sessionId: 'session-oid',
+      status: GameRoundStatus.ACTIVE,
+      startTime,
+      durationSeconds,
+    }) as any;
+
+  const emitted = (event: string) =>
+    eventEmitter.emit.mock.calls
+      .filter(([name]) => name === event)
+      .map(([, payload]) => payload);
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now });
+
+    gameRoundModel = {
+      find: jest.fn().mockReturnValue(withExec([])),
+      findOneAndUpdate: jest.fn(),
+    };
+    eventEmitter = { emit: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GameRoundClockService,
+        { provide: getModelToken(GameRound.name), useValue: gameRoundModel },
+        { provide: EventEmitter2, useValue: eventEmitter },
+      ],
+    }).compile();
+
+    clock = module.get<GameRoundClockService>(GameRoundClockService);
+  });
+
+  afterEach(() => {
+    clock.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  it('should tick every second and count down the final seconds', () => {
+    clock.start(mockRound('round-1', now));
+
+    jest.advanceTimersByTime(9000);
+
+    expect(
+      emitted('gameRound.tick').map((event) => event.remainingSeconds),
+    ).toEqual([10, 9, 8, 7, 6, 5, 4, 3, 2, 1]);
+    expect(
+      emitted('gameRound.finalSeconds').map((event) => event.remainingSeconds),
+    ).toEqual([5, 4, 3, 2, 1]);
+  });
+
+  it('should close the round at its deadline', async () => {
+    gameRoundModel.findOneAndUpdate.mockReturnValue(
+      withExec({ roundId: 'round-1', status: GameRoundStatus.COMPLETED }),
+    );
+    clock.start(mockRound('round-1', now));
+
+    jest.advanceTimersByTime(9999);
+    expect(gameRoundModel.findOneAndUpdate).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+
+    expect(gameRoundModel.findOneAndUpdate).toHaveBeenCalledWith(
+      { roundId: 'round-1', status: GameRoundStatus.ACTIVE },
+      {
+        $set: expect.objectContaining({
+          status: GameRoundStatus.COMPLETED,
+          endTime: new Date(now.getTime() + 10000),
+        }),
+      },
+      { new: true },
+    );
+    expect(emitted('gameRound.ended')).toEqual([
+      expect.objectContaining({ timedOut: true }),
+    ]);
+  });
+
+  it('should not announce a round that was ended before its deadline', async () => {
+    gameRoundModel.findOneAndUpdate.mockReturnValue(withExec(null));
+    clock.start(mockRound('round-1', now));
+
+    await jest.advanceTimersByTimeAsync(10000);
+
+    expect(emitted('gameRound.ended')).toEqual([]);
+  });
+
+  it('should recover clocks from the start time after a restart', async () => {
+    gameRoundModel.find.mockReturnValue(
+      withExec([
+        mockRound('running', new Date(now.getTime() - 7500)),
+        mockRound('overdue', new Date(now.getTime() - 60000)),
+      ]),
+    );
+    gameRoundModel.findOneAndUpdate.mockReturnValue(withExec(null));
+
+    await clock.onModuleInit();
+
+    expect(emitted('gameRound.tick')).toEqual([
+      expect.objectContaining({ roundId: 'running', remainingSeconds: 3 }),
+    ]);
+    expect(gameRoundModel.findOneAndUpdate).toHaveBeenCalledWith(
+      { roundId: 'overdue', status: GameRoundStatus.ACTIVE },
+      expect.anything(),
+      { new: true },
+    );
+  });
+
+  it('should stop every clock of an abandoned session', () => {
+    clock.start(mockRound('round-1', now));
+    clock.start(mockRound('round-2', now));
+
+    expect(clock.stopSession('session-oid')).toBe(2);
+
+    eventEmitter.emit.mockClear();
+    jest.advanceTimersByTime(20000);
+    expect(eventEmitter.emit).not.toHaveBeenCalled();
+    expect(gameRoundModel.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,190 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Model } from 'mongoose';
+import {
+  GameRound,
+  GameRoundDocument,
+  GameRoundStatus,
+} from './game-round-schema';
+import {
+  GameRoundEndedEvent,
+  GameRoundFinalSecondsEvent,
+  GameRoundTickEvent,
+} from './game-round-events';
+
+// Seconds before the deadline during which clients get the final countdown
+export const FINAL_SECONDS = 5;
+
+interface RoundClock {
+  roundId: string;
+  sessionId: string;
+  deadline: Date;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * When a round stops accepting answers, or null if it has not started
+ */
+export function roundDeadline(
+  round: Pick<GameRound, 'startTime' | 'durationSeconds'>,
+): Date | null {
+  if (!round.startTime) {
+    return null;
+  }
+  return new Date(
+    new Date(round.startTime).getTime() + round.durationSeconds * 1000,
+  );
+}
+
+/**
+ * Server-side clock for active rounds. Ticks once a second on the second boundary
+ * before the deadline and closes the round at the deadline itself.
+ * Clocks live in memory, so they are rebuilt from the stored rounds on startup.
+ */
+@Injectable()
+export class GameRoundClockService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(GameRoundClockService.name);
+  private readonly clocks = new Map<string, RoundClock>();
+
+  constructor(
+    @InjectModel(GameRound.name)
+    private readonly gameRoundModel: Model<GameRoundDocument>,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  async onModuleInit() {
+    const recovered = await this.recoverClocks();
+    if (recovered > 0) {
+      this.logger.log(`Recovered clocks for ${recovered} active rounds`);
+    }
+  }
+
+  onModuleDestroy() {
+    for (const roundId of [...this.clocks.keys()]) {
+      this.stop(roundId);
+    }
+  }
+
+  /**
+   * Restart the clock of every active round; rounds whose deadline passed while
+   * the server was down are closed straight away
+   */
+  async recoverClocks(): Promise<number> {
+    const rounds = await this.gameRoundModel
+      .find({ status: GameRoundStatus.ACTIVE, startTime: { $ne: null } })
+      .exec();
+
+    rounds.forEach((round) => this.start(round));
+    return rounds.length;
+  }
+
+  start(round: GameRoundDocument): void {
+    const deadline = roundDeadline(round);
+    if (!deadline) {
+      return;
+    }
+
+    this.stop(round.roundId);
+    const clock = {
+      roundId: round.roundId,
+      sessionId: String(round.sessionId),
+      deadline,
+    } as RoundClock;
+    this.clocks.set(round.roundId, clock);
+    this.advance(clock);
+  }
+
+  stop(roundId: string): boolean {
+    const clock = this.clocks.get(roundId);
+    if (!clock) {
+      return false;
+    }
+    clearTimeout(clock.timer);
+    return this.clocks.delete(roundId);
+  }
+
+  stopSession(sessionId: string): number {
+    let stopped = 0;
+    for (const clock of [...this.clocks.values()]) {
+      if (clock.sessionId === sessionId && this.stop(clock.roundId)) {
+        stopped++;
+      }
+    }
+    return stopped;
+  }
+
+  private advance(clock: RoundClock): void {
+    const msLeft = clock.deadline.getTime() - Date.now();
+    if (msLeft <= 0) {
+      void this.close(clock);
+      return;
+    }
+
+    const remainingSeconds = Math.ceil(msLeft / 1000);
+    this.eventEmitter.emit(
+      'gameRound.tick',
+      new GameRoundTickEvent(
+        clock.roundId,
+        clock.sessionId,
+        remainingSeconds,
+        clock.deadline,
+      ),
+    );
+    if (remainingSeconds <= FINAL_SECONDS) {
+      this.eventEmitter.emit(
+        'gameRound.finalSeconds',
+        new GameRoundFinalSecondsEvent(
+          clock.roundId,
+          clock.sessionId,
+          remainingSeconds,
+          clock.deadline,
+        ),
+      );
+    }
+
+    // Wake up when the next whole second is left, which for the last one is the deadline
+    clock.timer = setTimeout(
+      () => this.advance(clock),
+      msLeft - (remainingSeconds - 1) * 1000,
+    );
+  }
+
+  private async close(clock: RoundClock): Promise<void> {
+    this.clocks.delete(clock.roundId);
+
+    try {
+      // Only an active round is closed; one ended or cancelled meanwhile is left alone
+      const round = await this.gameRoundModel
+        .findOneAndUpdate(
+          { roundId: clock.roundId, status: GameRoundStatus.ACTIVE },
+          {
+            $set: {
+              status: GameRoundStatus.COMPLETED,
+              endTime: clock.deadline,
+              updatedAt: new Date(),
+            },
+          },
+          { new: true },
+        )
+        .exec();
+
+      if (round) {
+        this.eventEmitter.emit(
+          'gameRound.ended',
+          new GameRoundEndedEvent(round, true),
+        );
+      }
+    } catch (error: any) {
+      this.logger.error(
+        `Could not close round ${clock.roundId} at its deadline: ${error?.message}`,
+        error?.stack,
+      );
+    }
+  }
+}
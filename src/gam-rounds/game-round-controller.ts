@@ -19,25 +19,35 @@ import {
   ApiBearerAuth,
 } from '@nestjs/swagger';
 
-import { GameRoundService } from './game-round.service';
-import { GameRound } from './game-round.schema';
+import { GameRoundService } from './game-round-service';
+import { RoundHint, RoundHintService } from './round-hint-service';
+import { RoundResultsService } from './round-results-service';
+import { RoundResult } from './round-result-schema';
+import { GameRound } from './game-round-schema';
 import {
   CreateGameRoundDto,
   UpdateGameRoundDto,
   GameRoundQueryDto,
   StartRoundDto,
   EndRoundDto,
-} from './game-round.dto';
+  UseHintDto,
+} from './game-round-dtos';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { RoundOption } from './round-distractors';
 
 @ApiTags('game-rounds')
 @Controller('game-rounds')
 @UseGuards(JwtAuthGuard)
 @ApiBearerAuth()
 export class GameRoundController {
-  constructor(private readonly gameRoundService: GameRoundService) {}
+  constructor(
+    private readonly gameRoundService: GameRoundService,
+    private readonly roundHintService: RoundHintService,
+    private readonly roundResultsService: RoundResultsService,
+  ) {}
 
   @Post()
   @UseGuards(RolesGuard)
@@ -79,6 +89,59 @@ export class GameRoundController {
     return this.gameRoundService.findOne(roundId);
   }
 
+  @Get(':roundId/options')
+  @ApiOperation({ summary: 'Get the options of a multiple-choice round in this player\'s order' })
+  @ApiParam({ name: 'roundId', description: 'Round ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Return the round options, shuffled the same way on every request.',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'The round is not multiple choice.',
+  })
+  async getOptions(
+    @Param('roundId') roundId: string,
+    @CurrentUser('userId') userId: string,
+  ): Promise<RoundOption[]> {
+    return this.gameRoundService.getPlayerOptions(roundId, userId);
+  }
+
+  @Get(':roundId/results')
+  @ApiOperation({ summary: 'Get the results and statistics of a completed round' })
+  @ApiParam({ name: 'roundId', description: 'Round ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Return the round results, the same on every request.',
+    type: RoundResult,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'The round has not completed.',
+  })
+  async getResults(@Param('roundId') roundId: string): Promise<RoundResult> {
+    return this.roundResultsService.getResults(roundId);
+  }
+
+  @Post(':roundId/hints')
+  @ApiOperation({ summary: 'Take a hint for an active round, lowering this player\'s maximum score' })
+  @ApiParam({ name: 'roundId', description: 'Round ID' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Return what the hint reveals and how many hints are left.',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'The round is not active, no hints are left or the hint has nothing to reveal.',
+  })
+  async useHint(
+    @Param('roundId') roundId: string,
+    @CurrentUser('userId') userId: string,
+    @Body() useHintDto: UseHintDto,
+  ): Promise<RoundHint> {
+    return this.roundHintService.useHint(roundId, userId, useHintDto.type);
+  }
+
   @Patch(':roundId')
   @UseGuards(RolesGuard)
   @Roles('admin', 'moderator')
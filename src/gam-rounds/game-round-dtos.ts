@@ -11,7 +11,8 @@ import {
   IsMongoId
 } from 'class-validator';
 import { Type } from 'class-transformer';
-import { GameRoundStatus } from './game-round.schema';
+import { GameRoundStatus } from './game-round-schema';
+import { HintType } from '../enum/game-round.enum';
 
 export class CreateGameRoundDto {
   @ApiPropertyOptional()
@@ -23,27 +24,23 @@ export class CreateGameRoundDto {
   @IsMongoId()
   sessionId: string;
 
-  @ApiProperty({ description: 'Song ID for this round' })
+  @ApiPropertyOptional({ description: 'Song (lyric) ID the round question is generated from (default: a song picked for the session settings and difficulty)' })
   @IsMongoId()
-  songId: string;
+  @IsOptional()
+  songId?: string;
 
   @ApiPropertyOptional({ description: 'Round number within the session' })
   @IsNumber()
   @IsOptional()
   roundNumber?: number;
 
-  @ApiPropertyOptional({ description: 'Round duration in seconds' })
+  @ApiPropertyOptional({ description: 'Round duration in seconds (default: the session secondsPerRound setting)' })
   @IsNumber()
   @Min(10)
   @Max(300)
   @IsOptional()
   durationSeconds?: number;
 
-  @ApiPropertyOptional({ description: 'Round configuration' })
-  @IsObject()
-  @IsOptional()
-  roundConfig?: Record<string, any>;
-
   @ApiPropertyOptional({ description: 'Additional metadata' })
   @IsObject()
   @IsOptional()
@@ -97,11 +94,6 @@ export class UpdateGameRoundDto {
   @IsOptional()
   correctAnswerCount?: number;
 
-  @ApiPropertyOptional({ description: 'Round configuration' })
-  @IsObject()
-  @IsOptional()
-  roundConfig?: Record<string, any>;
-
   @ApiPropertyOptional({ description: 'Additional metadata' })
   @IsObject()
   @IsOptional()
@@ -188,3 +180,9 @@ export class EndRoundDto {
   @IsOptional()
   results?: Record<string, any>;
 }
+
+export class UseHintDto {
+  @ApiProperty({ enum: HintType, description: 'What the hint should reveal' })
+  @IsEnum(HintType)
+  type: HintType;
+}
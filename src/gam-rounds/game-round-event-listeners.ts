@@ -0,0 +1,51 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { GameRoundService } from './game-round-service';
+import { GameRoundClockService } from './game-round-clock-service';
+import {
+  GameRoundCancelledEvent,
+  GameRoundEndedEvent,
+  GameRoundStartedEvent,
+} from './game-round-events';
+import { GameSessionAbandonedEvent } from '../game-session/game-session.events';
+
+@Injectable()
+export class GameRoundEventListeners {
+  private readonly logger = new Logger(GameRoundEventListeners.name);
+
+  constructor(
+    private readonly gameRoundService: GameRoundService,
+    private readonly roundClock: GameRoundClockService,
+  ) {}
+
+  @OnEvent('gameRound.started')
+  handleRoundStarted(event: GameRoundStartedEvent) {
+    this.roundClock.start(event.round);
+  }
+
+  // The round's answers are scored and its results written by the round answer listeners
+  @OnEvent('gameRound.ended')
+  handleRoundEnded(event: GameRoundEndedEvent) {
+    this.roundClock.stop(event.round.roundId);
+  }
+
+  @OnEvent('gameRound.cancelled')
+  handleRoundCancelled(event: GameRoundCancelledEvent) {
+    this.roundClock.stop(event.round.roundId);
+  }
+
+  @OnEvent('gameSession.abandoned')
+  async handleSessionAbandoned(event: GameSessionAbandonedEvent) {
+    const sessionId = String(event.session._id);
+    this.roundClock.stopSession(sessionId);
+
+    const cancelled =
+      await this.gameRoundService.cancelSessionRounds(sessionId);
+
+    if (cancelled > 0) {
+      this.logger.log(
+        `Cancelled ${cancelled} unfinished rounds of abandoned session ${event.session.id}`,
+      );
+    }
+  }
+}
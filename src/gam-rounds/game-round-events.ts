@@ -0,0 +1,63 @@
+import { GameRoundDocument } from './game-round-schema';
+import type { SongSelectionReport } from './song-selection';
+import type { HintType } from '../enum/game-round.enum';
+import type { RoundResult } from './round-result-schema';
+
+export class GameRoundStartedEvent {
+  constructor(public readonly round: GameRoundDocument) {}
+}
+
+export class GameRoundEndedEvent {
+  constructor(
+    public readonly round: GameRoundDocument,
+    // True when the round clock closed the round rather than an explicit end call
+    public readonly timedOut: boolean,
+  ) {}
+}
+
+export class GameRoundCancelledEvent {
+  constructor(public readonly round: GameRoundDocument) {}
+}
+
+export class GameRoundTickEvent {
+  constructor(
+    public readonly roundId: string,
+    public readonly sessionId: string,
+    public readonly remainingSeconds: number,
+    public readonly deadline: Date,
+  ) {}
+}
+
+export class GameRoundFinalSecondsEvent {
+  constructor(
+    public readonly roundId: string,
+    public readonly sessionId: string,
+    public readonly remainingSeconds: number,
+    public readonly deadline: Date,
+  ) {}
+}
+
+export class GameRoundSongPoolLowEvent {
+  constructor(
+    public readonly sessionId: string,
+    public readonly hostId: string,
+    public readonly report: SongSelectionReport,
+  ) {}
+}
+
+export class GameRoundHintUsedEvent {
+  constructor(
+    public readonly roundId: string,
+    public readonly sessionId: string,
+    public readonly userId: string,
+    public readonly hintType: HintType,
+    public readonly hintsLeft: number,
+  ) {}
+}
+
+export class GameRoundResultsReadyEvent {
+  constructor(
+    public readonly sessionId: string,
+    public readonly result: RoundResult,
+  ) {}
+}
@@ -1,19 +1,41 @@
 import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
-import { GameRoundService } from './game-round.service';
-import { GameRoundController } from './game-round.controller';
-import { GameRound, GameRoundSchema } from './game-round.schema';
+import { GameRoundService } from './game-round-service';
+import { GameRoundController } from './game-round-controller';
+import { GameRoundEventListeners } from './game-round-event-listeners';
+import { GameRoundClockService } from './game-round-clock-service';
+import { DifficultyCalibrationService } from './difficulty-calibration-service';
+import { SongSelectionService } from './song-selection-service';
+import { RoundHintService } from './round-hint-service';
+import { RoundResultsService } from './round-results-service';
+import { GameRound, GameRoundSchema } from './game-round-schema';
+import { RoundResult, RoundResultSchema } from './round-result-schema';
 import { AuthModule } from '../auth/auth.module';
+import { GameSession, GameSessionSchema } from '../schemas/game-session.schema';
+import { lyric, lyricschema } from '../schemas/lyric.schema';
+import { Player, PlayerSchema } from '../player/schemas/player.schema';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
-      { name: GameRound.name, schema: GameRoundSchema }
+      { name: GameRound.name, schema: GameRoundSchema },
+      { name: RoundResult.name, schema: RoundResultSchema },
+      { name: GameSession.name, schema: GameSessionSchema },
+      { name: lyric.name, schema: lyricschema },
+      { name: Player.name, schema: PlayerSchema }
     ]),
     AuthModule
   ],
   controllers: [GameRoundController],
-  providers: [GameRoundService],
-  exports: [GameRoundService]
+  providers: [
+    GameRoundService,
+    GameRoundClockService,
+    DifficultyCalibrationService,
+    SongSelectionService,
+    RoundHintService,
+    RoundResultsService,
+    GameRoundEventListeners
+  ],
+  exports: [GameRoundService, GameRoundClockService, DifficultyCalibrationService, RoundHintService, RoundResultsService]
 })
 export class GameRoundModule {}
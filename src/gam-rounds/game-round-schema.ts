@@ -1,6 +1,12 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Schema as MongooseSchema } from 'mongoose';
 import * as mongoose from 'mongoose';
+import { AnswerMode, SessionDifficulty } from '../enum/game-session.enum';
+import { HintType, RoundQuestionType } from '../enum/game-round.enum';
+import type { RoundOption } from './round-distractors';
+import type { RoundBlank } from './missing-words';
+import type { LineTiming } from '../lyrics/lyric-timing';
+import type { UsedHint } from './round-hints';
 
 export enum GameRoundStatus {
   PENDING = 'pending',
@@ -19,6 +25,10 @@ export type GameRoundDocument = GameRound & Document;
     transform: (doc, ret) => {
       delete ret._id;
       delete ret.__v;
+      // Players must not see the answers while the round can still be played
+      if ([GameRoundStatus.PENDING, GameRoundStatus.ACTIVE].includes(ret.status)) {
+        delete ret.correctAnswers;
+      }
       return ret;
     }
   }
@@ -42,7 +52,7 @@ export class GameRound {
 
   @Prop({
     type: mongoose.Schema.Types.ObjectId,
-    ref: 'Song',
+    ref: 'lyric',
     required: true,
     index: true
   })
@@ -95,10 +105,98 @@ export class GameRound {
   correctAnswerCount: number;
 
   @Prop({
-    type: Object,
-    default: {}
+    type: String,
+    enum: Object.values(RoundQuestionType),
+    default: null
+  })
+  questionType: RoundQuestionType;
+
+  @Prop({
+    type: String,
+    default: null
+  })
+  prompt: string;
+
+  @Prop({
+    type: [String],
+    default: []
+  })
+  snippet: string[];
+
+  // Where the snippet starts among the song's lyric lines, so hints can reveal the lines around it
+  @Prop({
+    type: Number,
+    default: null
+  })
+  snippetStart: number | null;
+
+  // Missing-words rounds only: where each masked word sits in the snippet
+  @Prop({
+    type: [{ _id: false, line: Number, start: Number, end: Number }],
+    default: []
+  })
+  blanks: RoundBlank[];
+
+  // Songs with synced lyrics only: when each snippet line is sung, in milliseconds, to pace the reveal
+  @Prop({
+    type: [{ _id: false, start: Number, end: Number }],
+    default: []
+  })
+  timings: LineTiming[];
+
+  @Prop({
+    type: [String],
+    default: []
+  })
+  correctAnswers: string[];
+
+  // Multiple-choice rounds only; correctAnswers then holds the id of the right option
+  @Prop({
+    type: [{ _id: false, id: String, text: String }],
+    default: []
+  })
+  options: RoundOption[];
+
+  @Prop({
+    type: String,
+    enum: Object.values(AnswerMode),
+    default: AnswerMode.Fuzzy
+  })
+  answerMode: AnswerMode;
+
+  @Prop({
+    type: String,
+    enum: Object.values(SessionDifficulty),
+    default: SessionDifficulty.Mixed
+  })
+  difficulty: SessionDifficulty;
+
+  // Points a correct answer starts from before speed, difficulty and bonuses
+  @Prop({
+    type: Number,
+    default: 100
+  })
+  baseScore: number;
+
+  // From the song's calibrated difficulty; scales the score of correct answers
+  @Prop({
+    type: Number,
+    default: 1
+  })
+  difficultyMultiplier: number;
+
+  // Hints players took during the round; copied onto each player's answer when they submit it
+  @Prop({
+    type: [{
+      _id: false,
+      userId: String,
+      type: { type: String, enum: Object.values(HintType) },
+      cost: Number,
+      usedAt: Date
+    }],
+    default: []
   })
-  roundConfig: Record<string, any>;
+  hintsUsed: UsedHint[];
 
   @Prop({
     type: Object,
@@ -1,23 +1,43 @@
 import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { Model, Types } from 'mongoose';
 import { v4 as uuidv4 } from 'uuid';
 
-import { GameRound, GameRoundDocument, GameRoundStatus } from './game-round.schema';
+import { GameRound, GameRoundDocument, GameRoundStatus } from './game-round-schema';
+import { GameSession, GameSessionDocument, GameSessionSettings } from '../schemas/game-session.schema';
+import { lyric, lyricDocument } from '../schemas/lyric.schema';
+import { resolveGameSessionSettings } from '../game-session/game-session-settings';
+import { RoundQuestion, generateRoundQuestion } from './round-question-generator';
+import { RoundOption, buildRoundOptions, optionsForPlayer } from './round-distractors';
+import { difficultyMultiplier } from '../lyrics/lyric-difficulty';
+import { AdaptiveDifficultyDecision, nextDifficultyTarget, roomPerformance } from './adaptive-difficulty';
+import { SongSelectionService } from './song-selection-service';
+import type { SongSelectionReport } from './song-selection';
+import { AnswerMode, SessionDifficulty } from '../enum/game-session.enum';
+import { RoundQuestionType } from '../enum/game-round.enum';
+import { GameRoundCancelledEvent, GameRoundEndedEvent, GameRoundStartedEvent } from './game-round-events';
 import { 
   CreateGameRoundDto, 
   UpdateGameRoundDto, 
   GameRoundQueryDto,
   StartRoundDto,
   EndRoundDto
-} from './game-round.dto';
+} from './game-round-dtos';
+
+// Songs sampled per search when looking for multiple-choice distractors
+const SIMILAR_SONG_SAMPLE = 30;
 
 @Injectable()
 export class GameRoundService {
   private readonly logger = new Logger(GameRoundService.name);
 
   constructor(
-    @InjectModel(GameRound.name) private gameRoundModel: Model<GameRoundDocument>
+    @InjectModel(GameRound.name) private gameRoundModel: Model<GameRoundDocument>,
+    @InjectModel(GameSession.name) private gameSessionModel: Model<GameSessionDocument>,
+    @InjectModel(lyric.name) private lyricModel: Model<lyricDocument>,
+    private songSelectionService: SongSelectionService,
+    private eventEmitter: EventEmitter2
   ) {}
 
   /**
@@ -29,7 +49,56 @@ export class GameRoundService {
       
       // Convert string IDs to MongoDB ObjectIds
       const sessionId = new Types.ObjectId(createGameRoundDto.sessionId);
-      const songId = new Types.ObjectId(createGameRoundDto.songId);
+      
+      // Round timing and answer rules come from the session settings
+      const session = await this.gameSessionModel.findById(sessionId).exec();
+      if (!session) {
+        throw new NotFoundException(`Game session with ID ${createGameRoundDto.sessionId} not found`);
+      }
+      const settings = resolveGameSessionSettings(session.settings);
+      
+      // The question is generated from the song's lyrics when the round is created
+      // Adaptive sessions pitch each round by how the room did on the one before
+      const adaptive = settings.adaptiveDifficulty ? await this.adaptDifficulty(session, settings) : null;
+      let song: lyricDocument | null;
+      let songSelection: SongSelectionReport | null = null;
+      if (createGameRoundDto.songId) {
+        song = await this.lyricModel.findById(createGameRoundDto.songId).exec();
+      } else {
+        const selected = await this.songSelectionService.selectSong(session, settings, adaptive?.target ?? null);
+        song = selected.song;
+        songSelection = selected.report;
+      }
+      if (!song) {
+        throw new NotFoundException(`Song with ID ${createGameRoundDto.songId} not found`);
+      }
+      const songId = song._id as Types.ObjectId;
+      // Mixed sessions ask each song at the level players found it
+      let difficulty = settings.difficulty;
+      if (adaptive) {
+        difficulty = adaptive.level;
+      } else if (settings.difficulty === SessionDifficulty.Mixed && song.difficulty) {
+        difficulty = song.difficulty.level;
+      }
+      const multipleChoice = settings.answerMode === AnswerMode.MultipleChoice;
+      const question = generateRoundQuestion(
+        song,
+        difficulty,
+        Math.random,
+        multipleChoice ? [RoundQuestionType.NextLine, RoundQuestionType.MissingWords] : []
+      );
+      if (!question) {
+        throw new BadRequestException(`Song ${songId} has no lyrics to build a question from`);
+      }
+      
+      // Multiple-choice rounds are answered with an option id, so that is what gets accepted
+      let options: RoundOption[] = [];
+      let correctAnswers = question.correctAnswers;
+      if (multipleChoice) {
+        const choices = await this.buildChoices(sessionId, song, question);
+        options = choices.options;
+        correctAnswers = [choices.correctOptionId];
+      }
       
       // Determine round number if not provided
       let roundNumber = createGameRoundDto.roundNumber;
@@ -50,9 +119,23 @@ export class GameRoundService {
         songId,
         roundNumber,
         status: GameRoundStatus.PENDING,
-        durationSeconds: createGameRoundDto.durationSeconds || 60,
-        roundConfig: createGameRoundDto.roundConfig || {},
-        metadata: createGameRoundDto.metadata || {}
+        durationSeconds: createGameRoundDto.durationSeconds || settings.secondsPerRound,
+        answerMode: settings.answerMode,
+        difficulty: question.difficulty,
+        difficultyMultiplier: difficultyMultiplier(song.difficulty),
+        questionType: question.questionType,
+        prompt: question.prompt,
+        snippet: question.snippet,
+        snippetStart: question.snippetStart,
+        blanks: question.blanks,
+        timings: question.timings,
+        correctAnswers,
+        options,
+        metadata: {
+          ...createGameRoundDto.metadata,
+          ...(adaptive && { adaptiveDifficulty: adaptive }),
+          ...(songSelection && { songSelection })
+        }
       });
       
       return newRound.save();
@@ -214,7 +297,12 @@ export class GameRoundService {
       round.startTime = startRoundDto?.startTime || new Date();
       round.updatedAt = new Date();
       
-      return round.save();
+      const started = await round.save();
+      
+      // The round clock takes it from here and closes the round at its deadline
+      this.eventEmitter.emit('gameRound.started', new GameRoundStartedEvent(started));
+      
+      return started;
     } catch (error) {
       this.logger.error(`Error starting game round: ${error.message}`, error.stack);
       throw error;
@@ -259,7 +347,10 @@ export class GameRoundService {
         };
       }
       
-      return round.save();
+      const ended = await round.save();
+      this.eventEmitter.emit('gameRound.ended', new GameRoundEndedEvent(ended, false));
+      
+      return ended;
     } catch (error) {
       this.logger.error(`Error ending game round: ${error.message}`, error.stack);
       throw error;
@@ -286,13 +377,54 @@ export class GameRoundService {
       round.status = GameRoundStatus.CANCELLED;
       round.updatedAt = new Date();
       
-      return round.save();
+      const cancelled = await round.save();
+      this.eventEmitter.emit('gameRound.cancelled', new GameRoundCancelledEvent(cancelled));
+      
+      return cancelled;
     } catch (error) {
       this.logger.error(`Error cancelling game round: ${error.message}`, error.stack);
       throw error;
     }
   }
 
+  /**
+   * Cancel every round of a session that has not finished yet, e.g. when the session is abandoned
+   */
+  async cancelSessionRounds(sessionId: string): Promise<number> {
+    try {
+      const now = new Date();
+      const result = await this.gameRoundModel.updateMany(
+        {
+          sessionId: new Types.ObjectId(sessionId),
+          status: { $in: [GameRoundStatus.PENDING, GameRoundStatus.ACTIVE] }
+        },
+        { $set: { status: GameRoundStatus.CANCELLED, endTime: now, updatedAt: now } }
+      ).exec();
+
+      return result.modifiedCount;
+    } catch (error: any) {
+      this.logger.error(`Error cancelling session rounds: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * The options of a multiple-choice round in the order this player sees them
+   */
+  async getPlayerOptions(roundId: string, userId: string): Promise<RoundOption[]> {
+    const round = await this.gameRoundModel.findOne({ roundId }, { options: 1 }).exec();
+    
+    if (!round) {
+      throw new NotFoundException(`Game round with ID ${roundId} not found`);
+    }
+    
+    if (round.options.length === 0) {
+      throw new BadRequestException(`Game round ${roundId} is not multiple choice`);
+    }
+    
+    return optionsForPlayer(round.options, roundId, userId);
+  }
+
   /**
    * Get active rounds for a session
    */
@@ -347,4 +479,98 @@ export class GameRoundService {
       throw error;
     }
   }
+
+  /**
+   * Options for a multiple-choice round, with wrong answers taken from similar songs
+   */
+  private async buildChoices(
+    sessionId: Types.ObjectId,
+    song: lyricDocument,
+    question: RoundQuestion
+  ): Promise<{ options: RoundOption[]; correctOptionId: string }> {
+    const earlierRounds = await this.gameRoundModel.find({ sessionId }, { options: 1 }).exec();
+    const usedInSession = earlierRounds.flatMap((round) => round.options.map((option) => option.text));
+    
+    const choices = buildRoundOptions(question, await this.findSimilarSongs(song), usedInSession);
+    if (!choices) {
+      throw new BadRequestException(`Not enough similar songs to offer choices for song ${song._id}`);
+    }
+    
+    return choices;
+  }
+
+  /**
+   * Where the next round of an adaptive session is pitched, from the target of the last
+   * completed round and how the room did on it
+   */
+  private async adaptDifficulty(
+    session: GameSessionDocument,
+    settings: GameSessionSettings
+  ): Promise<AdaptiveDifficultyDecision> {
+    const [previous] = await this.gameRoundModel.aggregate([
+      { $match: { sessionId: session._id, status: GameRoundStatus.COMPLETED } },
+      { $sort: { roundNumber: -1 } },
+      { $limit: 1 },
+      { $lookup: { from: 'roundanswers', localField: '_id', foreignField: 'roundId', as: 'answers' } },
+      {
+        $project: {
+          durationSeconds: 1,
+          'metadata.adaptiveDifficulty.target': 1,
+          'answers.isCorrect': 1,
+          'answers.responseTimeMs': 1
+        }
+      }
+    ]).exec();
+    
+    const durationMs = (previous?.durationSeconds ?? settings.secondsPerRound) * 1000;
+    return nextDifficultyTarget(
+      settings,
+      previous?.metadata?.adaptiveDifficulty?.target ?? null,
+      previous
+        ? roomPerformance(
+            session.players.length,
+            previous.answers.map((answer) => ({
+              isCorrect: Boolean(answer.isCorrect),
+              responseShare: (answer.responseTimeMs ?? durationMs) / durationMs
+            }))
+          )
+        : null
+    );
+  }
+
+  /**
+   * A sample of songs in the same language, genre and decade as the given one,
+   * dropping the decade and then the genre when too few songs match
+   */
+  private async findSimilarSongs(song: lyricDocument): Promise<lyric[]> {
+    const language = song.lyrics?.language ?? 'en';
+    const filters = [
+      { genre: song.genre, decade: song.decade },
+      { genre: song.genre },
+      {}
+    ];
+    
+    const similar = new Map<string, lyric>();
+    for (const filter of filters) {
+      const match: Record<string, any> = { _id: { $ne: song._id }, 'lyrics.language': language };
+      for (const [key, value] of Object.entries(filter)) {
+        if (value) {
+          match[key] = value;
+        }
+      }
+      
+      const sample = await this.lyricModel.aggregate([
+        { $match: match },
+        { $sample: { size: SIMILAR_SONG_SAMPLE } },
+        { $project: { title: 1, artist: 1, album: 1, releaseYear: 1 } }
+      ]).exec();
+      sample.forEach((candidate) => similar.set(String(candidate._id), candidate));
+      
+      if (similar.size >= SIMILAR_SONG_SAMPLE) {
+        break;
+      }
+    }
+    
+    return [...similar.values()];
+  }
 }
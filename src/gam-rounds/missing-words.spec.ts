@@ -0,0 +1,104 @@
+import { SessionDifficulty } from '../enum/game-session.enum';
+import {
+  difficultyForRarity,
+  maskMissingWords,
+  scoreMissingWords,
+  wordRarity,
+} from './missing-words';
+
+describe('missing words', () => {
+  const snippet = [
+    'I saw the lighthouse in the harbour',
+    'And love was on fire',
+  ];
+
+  it('should rate common and repeated words easier than rare ones', () => {
+    expect(wordRarity('love')).toBeLessThan(wordRarity('lighthouse'));
+    expect(wordRarity('lighthouse', 4)).toBeLessThan(wordRarity('lighthouse'));
+    expect(difficultyForRarity([0.2, 0.3])).toBe(SessionDifficulty.Easy);
+    expect(difficultyForRarity([0.85])).toBe(SessionDifficulty.Hard);
+  });
+
+  it('should mask predictable words in easy rounds and rare ones in hard rounds', () => {
+    const easy = maskMissingWords(
+      snippet,
+      snippet,
+      SessionDifficulty.Easy,
+      () => 0,
+    )!;
+    const hard = maskMissingWords(
+      snippet,
+      snippet,
+      SessionDifficulty.Hard,
+      () => 0,
+    )!;
+
+    expect(easy.words).toHaveLength(1);
+    expect(['love', 'fire', 'saw']).toContain(easy.words[0]);
+    expect(hard.words).toHaveLength(3);
+    expect(hard.words).toContain('lighthouse');
+    expect(hard.difficulty).not.toBe(SessionDifficulty.Easy);
+  });
+
+  it('should never mask stopwords', () => {
+    const masked = maskMissingWords(
+      ['You and I were there', 'Waiting'],
+      [],
+      SessionDifficulty.Hard,
+    )!;
+
+    expect(masked.words).toEqual(['Waiting']);
+    expect(masked.snippet).toEqual(['You and I were there', '_____']);
+  });
+
+  it('should report where each mask sits in the snippet', () => {
+    const masked = maskMissingWords(
+      ['Silver rivers carry midnight'],
+      [],
+      SessionDifficulty.Hard,
+      () => 0,
+    )!;
+
+    expect(masked.snippet).toEqual(['_____ _____ carry _____']);
+    expect(masked.blanks).toEqual([
+      { line: 0, start: 0, end: 5 },
+      { line: 0, start: 6, end: 11 },
+      { line: 0, start: 18, end: 23 },
+    ]);
+    expect(masked.words).toEqual(['Silver', 'rivers', 'midnight']);
+  });
+
+  it('should score each blank separately', () => {
+    const { credits, credit } = scoreMissingWords('lighthouse | | fire', [
+      'lighthouse',
+      'harbour',
+      'fire',
+    ]);
+
+    expect(credits).toEqual([1, 0, 1]);
+    expect(credit).toBeCloseTo(2 / 3);
+  });
+
+  it('should accept contractions, slang and British spellings', () => {
+    expect(
+      scoreMissingWords('runnin|gonna|color|cause', [
+        "runnin'",
+        'going to',
+        'colour',
+        "'cause",
+      ]).credits,
+    ).toEqual([1, 1, 1, 1]);
+    expect(scoreMissingWords('running', ["runnin'"]).credits).toEqual([1]);
+  });
+
+  it('should give partial credit for a near miss and none for a wrong word', () => {
+    const [nearMiss, wrong] = scoreMissingWords('lighthose|water', [
+      'lighthouse',
+      'fire',
+    ]).credits;
+
+    expect(nearMiss).toBeGreaterThan(0.75);
+    expect(nearMiss).toBeLessThan(1);
+    expect(wrong).toBe(0);
+  });
+});
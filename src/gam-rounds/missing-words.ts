@@ -0,0 +1,288 @@
+import type { QuestionDifficulty } from './round-question-generator';
+import { normalizeText, textSimilarity } from './answer-text';
+import { SessionDifficulty } from '../enum/game-session.enum';
+
+// Shown in place of each masked word
+export const BLANK_MASK = '_____';
+
+// Players answer several blanks in one go, in order, separated by this
+export const BLANK_SEPARATOR = '|';
+
+// Blanks masked per snippet at each difficulty
+export const BLANKS_PER_DIFFICULTY: Record<QuestionDifficulty, number> = {
+  [SessionDifficulty.Easy]: 1,
+  [SessionDifficulty.Medium]: 2,
+  [SessionDifficulty.Hard]: 3,
+};
+
+// Below this similarity a misspelt word earns nothing
+const MIN_SPELLING_SIMILARITY = 0.75;
+
+// Never masked: guessing them is trivial. Kept in normalized form, so without apostrophes.
+const STOPWORDS = new Set(
+  `a about above after again against all am an and any are as at be because been before
+  being below between both but by can could did do does doing down during each few for from
+  further had has have having he her here hers herself him himself his how i if in into is it
+  its itself just me more most my myself no nor not now of off on once only or other our ours
+  ourselves out over own same she should so some such than that the their theirs them
+  themselves then there these they this those through to too under until up very was we were
+  what when where which while who whom why will with would you your yours yourself yourselves
+  im ive ill id youre youve youll youd hes shes were theyre theyve theyll dont doesnt didnt
+  cant wont isnt arent wasnt werent aint couldnt wouldnt shouldnt thats whats lets gonna wanna
+  gotta oh ooh ah yeah yea hey la na da uh whoa`.split(/\s+/),
+);
+
+// Content words every other song uses; masking them makes for an easy blank
+const COMMON_LYRIC_WORDS = new Set(
+  `love baby heart know time night feel say go come want need never away life day way make
+  take see got get let like tell back one right good girl boy world long little think give
+  keep find look home light eyes mind hold still dance stay gone tonight everything nothing
+  something everybody somebody nobody man woman free fire run walk said told made came went
+  call believe forever babe dream dreams sky sun rain`.split(/\s+/),
+);
+
+// Contractions and slang spelt out, applied before normalizing
+const CONTRACTIONS: [RegExp, string][] = [
+  [/\bcan't\b/g, 'can not'],
+  [/\bcannot\b/g, 'can not'],
+  [/\bwon't\b/g, 'will not'],
+  [/\bain't\b/g, 'is not'],
+  [/n't\b/g, ' not'],
+  [/'re\b/g, ' are'],
+  [/'m\b/g, ' am'],
+  [/'ll\b/g, ' will'],
+  [/'ve\b/g, ' have'],
+  [/'d\b/g, ' would'],
+  [/\bgonna\b/g, 'going to'],
+  [/\bwanna\b/g, 'want to'],
+  [/\bgotta\b/g, 'got to'],
+  [/(^|\s)'?till?\b/g, '$1until'],
+  [/(^|\s)(?:'cause|cause|cuz|cos)\b/g, '$1because'],
+  [/(^|\s)'em\b/g, '$1them'],
+  // Dropped g's, with or without the apostrophe: runnin', runnin
+  [/\b(\w{2,})in'?(?=\s|$)/g, '$1ing'],
+];
+
+// British spellings folded into American ones so either is accepted
+const SPELLING_VARIANTS: [RegExp, string][] = [
+  [/our\b/g, 'or'],
+  [/ise\b/g, 'ize'],
+  [/yse\b/g, 'yze'],
+  [/tre\b/g, 'ter'],
+  [/ll(ed|ing)\b/g, 'l$1'],
+];
+
+export interface RoundBlank {
+  // Snippet line the blank is on
+  line: number;
+  // Character range of the mask within that line
+  start: number;
+  end: number;
+}
+
+export interface MissingWords {
+  snippet: string[];
+  blanks: RoundBlank[];
+  words: string[];
+  difficulty: QuestionDifficulty;
+}
+
+interface WordToken {
+  line: number;
+  text: string;
+  normalized: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * How hard a word is to fill in, from 0 to 1: words every song uses, and words the song
+ * itself keeps repeating, are easy; long uncommon ones are hard
+ */
+export function wordRarity(word: string, timesInSong = 1): number {
+  const normalized = normalizeText(word);
+  const base = COMMON_LYRIC_WORDS.has(normalized) ? 0.2 : 0.6;
+  const length = Math.min(0.3, Math.max(0, normalized.length - 4) * 0.05);
+  const repetition = Math.min(0.4, Math.max(0, timesInSong - 1) * 0.1);
+  return Math.min(1, Math.max(0, base + length - repetition));
+}
+
+/**
+ * Difficulty of a set of blanks from the average rarity of the masked words
+ */
+export function difficultyForRarity(rarities: number[]): QuestionDifficulty {
+  const average =
+    rarities.reduce((sum, rarity) => sum + rarity, 0) /
+    Math.max(1, rarities.length);
+  if (average < 0.45) {
+    return SessionDifficulty.Easy;
+  }
+  return average < 0.7 ? SessionDifficulty.Medium : SessionDifficulty.Hard;
+}
+
+/**
+ * Average rarity of the distinct content words of a song, 0 when it has none
+ */
+export function vocabularyRarity(songLines: string[]): number {
+  const counts = new Map<string, { text: string; count: number }>();
+  for (const token of songLines.flatMap((line, index) =>
+    tokenize(line, index),
+  )) {
+    if (isContentWord(token.normalized)) {
+      const seen = counts.get(token.normalized);
+      counts.set(token.normalized, {
+        text: token.text,
+        count: (seen?.count ?? 0) + 1,
+      });
+    }
+  }
+  const rarities = [...counts.values()].map(({ text, count }) =>
+    wordRarity(text, count),
+  );
+  return rarities.length === 0
+    ? 0
+    : rarities.reduce((sum, rarity) => sum + rarity, 0) / rarities.length;
+}
+
+/**
+ * Mask content words of a snippet: easy rounds mask the most predictable ones, hard rounds
+ * the rarest. `songLines` are all lines of the song, used to see how often a word repeats.
+ * Returns null when the snippet has no content word to mask.
+ */
+export function maskMissingWords(
+  snippet: string[],
+  songLines: string[],
+  difficulty: QuestionDifficulty,
+  random: () => number = Math.random,
+): MissingWords | null {
+  const counts = new Map<string, number>();
+  for (const token of songLines.flatMap((line, index) =>
+    tokenize(line, index),
+  )) {
+    counts.set(token.normalized, (counts.get(token.normalized) ?? 0) + 1);
+  }
+
+  // One candidate per distinct word, so the same word is never masked twice
+  const candidates = new Map<string, { token: WordToken; rarity: number }>();
+  for (const token of snippet.flatMap((line, index) => tokenize(line, index))) {
+    if (!candidates.has(token.normalized) && isContentWord(token.normalized)) {
+      candidates.set(token.normalized, {
+        token,
+        rarity: wordRarity(token.text, counts.get(token.normalized)),
+      });
+    }
+  }
+  if (candidates.size === 0) {
+    return null;
+  }
+
+  // Split the candidates by rarity into thirds and draw from the one matching the difficulty
+  const ranked = [...candidates.values()].sort((a, b) => a.rarity - b.rarity);
+  const count = Math.min(BLANKS_PER_DIFFICULTY[difficulty], ranked.length);
+  const band = Math.max(count, Math.ceil(ranked.length / 3));
+  const offset = {
+    [SessionDifficulty.Easy]: 0,
+    [SessionDifficulty.Medium]: Math.floor((ranked.length - band) / 2),
+    [SessionDifficulty.Hard]: ranked.length - band,
+  }[difficulty];
+  const pool = ranked.slice(offset, offset + band);
+
+  const chosen: typeof pool = [];
+  while (chosen.length < count) {
+    const [pick] = pool.splice(Math.floor(random() * pool.length), 1);
+    chosen.push(pick);
+  }
+  // Blanks are answered in reading order
+  chosen.sort(
+    (a, b) => a.token.line - b.token.line || a.token.start - b.token.start,
+  );
+
+  const masked = [...snippet];
+  const blanks: RoundBlank[] = [];
+  for (const { token } of [...chosen].reverse()) {
+    const line = masked[token.line];
+    masked[token.line] =
+      line.slice(0, token.start) + BLANK_MASK + line.slice(token.end);
+  }
+  // Mask offsets shift by the difference in length of every earlier blank on the same line
+  const shift = new Map<number, number>();
+  for (const { token } of chosen) {
+    const start = token.start + (shift.get(token.line) ?? 0);
+    blanks.push({ line: token.line, start, end: start + BLANK_MASK.length });
+    shift.set(
+      token.line,
+      (shift.get(token.line) ?? 0) +
+        BLANK_MASK.length -
+        (token.end - token.start),
+    );
+  }
+
+  return {
+    snippet: masked,
+    blanks,
+    words: chosen.map(({ token }) => token.text),
+    difficulty: difficultyForRarity(chosen.map(({ rarity }) => rarity)),
+  };
+}
+
+/**
+ * Credit for each blank between 0 and 1, and their average. Contractions, slang and British
+ * spellings count as the word itself; other misspellings get credit by how close they are.
+ */
+export function scoreMissingWords(
+  answer: string,
+  words: string[],
+): { credits: number[]; credit: number } {
+  const given = answer.split(BLANK_SEPARATOR);
+  const credits = words.map((word, index) => {
+    const expected = canonicalWord(word);
+    const actual = canonicalWord(given[index] ?? '');
+    if (actual === '') {
+      return 0;
+    }
+    if (actual === expected) {
+      return 1;
+    }
+    const closeness = textSimilarity(actual, expected);
+    return closeness >= MIN_SPELLING_SIMILARITY
+      ? Math.round(closeness * 100) / 100
+      : 0;
+  });
+
+  return {
+    credits,
+    credit:
+      credits.reduce((sum, credit) => sum + credit, 0) /
+      Math.max(1, credits.length),
+  };
+}
+
+function isContentWord(normalized: string): boolean {
+  return (
+    normalized.length > 1 &&
+    !STOPWORDS.has(normalized) &&
+    !/^\d+$/.test(normalized)
+  );
+}
+
+function canonicalWord(word: string): string {
+  let text = word.toLowerCase().replace(/’/g, "'").trim();
+  for (const [pattern, replacement] of CONTRACTIONS) {
+    text = text.replace(pattern, replacement);
+  }
+  text = normalizeText(text);
+  for (const [pattern, replacement] of SPELLING_VARIANTS) {
+    text = text.replace(pattern, replacement);
+  }
+  return text;
+}
+
+function tokenize(line: string, index: number): WordToken[] {
+  return [...line.matchAll(/[\p{L}\p{N}][\p{L}\p{N}'’]*/gu)].map((match) => ({
+    line: index,
+    text: match[0],
+    normalized: normalizeText(match[0]),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+}
@@ -0,0 +1,88 @@
+import { RoundQuestionType } from '../enum/game-round.enum';
+import {
+  DISTRACTOR_COUNT,
+  buildRoundOptions,
+  isNearDuplicate,
+  optionsForPlayer,
+  pickDistractors,
+} from './round-distractors';
+
+describe('round distractors', () => {
+  // Swaps every item with itself, so shuffles keep the given order
+  const noShuffle = () => 0.999;
+
+  it('should treat spelling variants and containment as near-duplicates', () => {
+    expect(isNearDuplicate('Dont Stop Me Now', "Don't stop me now!")).toBe(
+      true,
+    );
+    expect(isNearDuplicate('Yesterday', 'Yesterday (Remastered 2009)')).toBe(
+      true,
+    );
+    expect(isNearDuplicate('Hello', 'Halo')).toBe(false);
+  });
+
+  it('should skip near-duplicates of the answer and of each other', () => {
+    const picked = pickDistractors(
+      ['Golden Hour'],
+      ['Golden Hours', 'Silver Moon', 'Silver Moon (Live)', 'Red Sky', 'Blue'],
+      [],
+      DISTRACTOR_COUNT,
+      noShuffle,
+    );
+
+    expect(picked).toEqual(['Silver Moon', 'Red Sky', 'Blue']);
+  });
+
+  it('should only repeat distractors from the session as a last resort', () => {
+    const picked = pickDistractors(
+      ['Golden Hour'],
+      ['Silver Moon', 'Red Sky', 'Blue', 'Green'],
+      ['Silver Moon', 'red sky'],
+      DISTRACTOR_COUNT,
+      noShuffle,
+    );
+
+    expect(picked).toEqual(['Blue', 'Green', 'Silver Moon']);
+  });
+
+  it('should make up nearby years when too few similar songs have one', () => {
+    const choices = buildRoundOptions(
+      { questionType: RoundQuestionType.Year, correctAnswers: ['2005'] },
+      [{ releaseYear: 2005 }, { releaseYear: 2001 }],
+      [],
+    )!;
+
+    const texts = choices.options.map((option) => option.text);
+    expect(texts).toHaveLength(DISTRACTOR_COUNT + 1);
+    expect(texts).toContain('2001');
+    expect(new Set(texts).size).toBe(texts.length);
+    expect(
+      choices.options.find((option) => option.id === choices.correctOptionId)
+        ?.text,
+    ).toBe('2005');
+  });
+
+  it('should give up when no wrong answer is available', () => {
+    expect(
+      buildRoundOptions(
+        { questionType: RoundQuestionType.Artist, correctAnswers: ['Nova'] },
+        [{ artist: 'Nova' }],
+        [],
+      ),
+    ).toBeNull();
+  });
+
+  it('should keep each player on a stable order of their own', () => {
+    const options = ['a', 'b', 'c', 'd'].map((id) => ({ id, text: id }));
+    const orderFor = (userId: string) =>
+      optionsForPlayer(options, 'round-1', userId).map((option) => option.id);
+
+    expect(orderFor('player-1')).toEqual(orderFor('player-1'));
+    expect(orderFor('player-1').sort()).toEqual(['a', 'b', 'c', 'd']);
+    expect(
+      ['player-2', 'player-3', 'player-4', 'player-5'].some(
+        (userId) => orderFor(userId).join() !== orderFor('player-1').join(),
+      ),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,187 @@
+import { randomBytes } from 'crypto';
+import { RoundQuestionType } from '../enum/game-round.enum';
+import { QuestionSource, RoundQuestion } from './round-question-generator';
+import { normalizeText, textSimilarity } from './answer-text';
+
+export const DISTRACTOR_COUNT = 3;
+
+// Wrong answers this similar to the right one are too easy to mistake for it
+const NEAR_DUPLICATE_SIMILARITY = 0.8;
+
+// How far either side of the release year made-up year options may land
+const YEAR_SPREAD = 5;
+
+export interface RoundOption {
+  id: string;
+  text: string;
+}
+
+/**
+ * What a song offers as a wrong answer for a question type. Next-line questions have no
+ * sensible wrong answers from other songs, so they are not asked as multiple choice.
+ */
+export function distractorValue(
+  questionType: RoundQuestionType,
+  song: Partial<QuestionSource>,
+): string | null {
+  switch (questionType) {
+    case RoundQuestionType.SongTitle:
+      return song.title ?? null;
+    case RoundQuestionType.Artist:
+      return song.artist ?? null;
+    case RoundQuestionType.Album:
+      return song.album ?? null;
+    case RoundQuestionType.Year:
+      return song.releaseYear ? String(song.releaseYear) : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Whether two answers are the same thing written differently, or one contains the other
+ */
+export function isNearDuplicate(a: string, b: string): boolean {
+  const left = normalizeText(a);
+  const right = normalizeText(b);
+  if (left === '' || right === '') {
+    return left === right;
+  }
+  if (
+    ` ${left} `.includes(` ${right} `) ||
+    ` ${right} `.includes(` ${left} `)
+  ) {
+    return true;
+  }
+  return textSimilarity(left, right) >= NEAR_DUPLICATE_SIMILARITY;
+}
+
+/**
+ * Pick wrong answers from the candidates. Near-duplicates of the right answer or of each
+ * other are skipped, and answers already offered earlier in the session are a last resort.
+ */
+export function pickDistractors(
+  correctAnswers: string[],
+  candidates: string[],
+  usedInSession: string[],
+  count = DISTRACTOR_COUNT,
+  random: () => number = Math.random,
+): string[] {
+  const used = new Set(usedInSession.map(normalizeText));
+  const [fresh, stale] = partition(
+    shuffle(candidates, random),
+    (candidate) => !used.has(normalizeText(candidate)),
+  );
+
+  const picked: string[] = [];
+  for (const candidate of [...fresh, ...stale]) {
+    if (picked.length === count) {
+      break;
+    }
+    if (
+      [...correctAnswers, ...picked].every(
+        (other) => !isNearDuplicate(candidate, other),
+      )
+    ) {
+      picked.push(candidate);
+    }
+  }
+  return picked;
+}
+
+/**
+ * Options for a multiple-choice round in a random canonical order, or null when not a
+ * single wrong answer could be found. Year questions fall back to nearby made-up years.
+ */
+export function buildRoundOptions(
+  question: Pick<RoundQuestion, 'questionType' | 'correctAnswers'>,
+  similarSongs: Partial<QuestionSource>[],
+  usedInSession: string[],
+  random: () => number = Math.random,
+): { options: RoundOption[]; correctOptionId: string } | null {
+  const [answer] = question.correctAnswers;
+  const candidates = similarSongs
+    .map((song) => distractorValue(question.questionType, song))
+    .filter((value): value is string => Boolean(value));
+
+  const distractors = pickDistractors(
+    question.correctAnswers,
+    candidates,
+    usedInSession,
+    DISTRACTOR_COUNT,
+    random,
+  );
+  if (
+    question.questionType === RoundQuestionType.Year &&
+    distractors.length < DISTRACTOR_COUNT
+  ) {
+    const year = Number(answer);
+    const nearby = Array.from({ length: YEAR_SPREAD * 2 + 1 }, (_, i) =>
+      String(year - YEAR_SPREAD + i),
+    ).filter((candidate) => Number(candidate) <= new Date().getFullYear());
+    distractors.push(
+      ...pickDistractors(
+        [...question.correctAnswers, ...distractors],
+        nearby,
+        usedInSession,
+        DISTRACTOR_COUNT - distractors.length,
+        random,
+      ),
+    );
+  }
+  if (!answer || distractors.length === 0) {
+    return null;
+  }
+
+  const options = shuffle([answer, ...distractors], random).map((text) => ({
+    id: randomBytes(4).toString('hex'),
+    text,
+  }));
+  return {
+    options,
+    correctOptionId: options.find((option) => option.text === answer)!.id,
+  };
+}
+
+/**
+ * The options in the order one player sees them: shuffled per player, but the same
+ * order every time that player asks
+ */
+export function optionsForPlayer(
+  options: RoundOption[],
+  roundId: string,
+  userId: string,
+): RoundOption[] {
+  return shuffle(options, seededRandom(`${roundId}:${userId}`));
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+function partition<T>(items: T[], predicate: (item: T) => boolean): [T[], T[]] {
+  return [
+    items.filter((item) => predicate(item)),
+    items.filter((item) => !predicate(item)),
+  ];
+}
+
+// FNV-1a hash of the seed driving a mulberry32 generator
+function seededRandom(seed: string): () => number {
+  let state = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 16777619);
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
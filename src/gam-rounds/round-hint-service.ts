@@ -0,0 +1,119 @@
+import { BadRequestException, ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Model } from 'mongoose';
+import { GameRound, GameRoundDocument, GameRoundStatus } from './game-round-schema';
+import { GameSession, GameSessionDocument } from '../schemas/game-session.schema';
+import { lyric, lyricDocument } from '../schemas/lyric.schema';
+import { HintType } from '../enum/game-round.enum';
+import { resolveGameSessionSettings } from '../game-session/game-session-settings';
+import { UsedHint, hintScoreShare, revealHint } from './round-hints';
+import { GameRoundHintUsedEvent } from './game-round-events';
+
+export interface RoundHint {
+  roundId: string;
+  type: HintType;
+  text: string;
+  cost: number;
+  hintsLeft: number;
+  // Share of the maximum score the player's answer can still earn
+  maxScoreShare: number;
+}
+
+/**
+ * Gives players hints during a round. Each hint costs a share of the maximum score of the
+ * player's answer, as set by the host, and the number of hints per round is capped.
+ */
+@Injectable()
+export class RoundHintService {
+  constructor(
+    @InjectModel(GameRound.name) private gameRoundModel: Model<GameRoundDocument>,
+    @InjectModel(GameSession.name) private gameSessionModel: Model<GameSessionDocument>,
+    @InjectModel(lyric.name) private lyricModel: Model<lyricDocument>,
+    private eventEmitter: EventEmitter2
+  ) {}
+
+  /**
+   * Reveal a hint for an active round to a player of its session
+   */
+  async useHint(roundId: string, userId: string, type: HintType): Promise<RoundHint> {
+    const round = await this.gameRoundModel.findOne({ roundId }).exec();
+    if (!round) {
+      throw new NotFoundException(`Game round with ID ${roundId} not found`);
+    }
+    if (round.status !== GameRoundStatus.ACTIVE) {
+      throw new BadRequestException('Hints can only be taken while the round is active');
+    }
+
+    const session = await this.gameSessionModel.findById(round.sessionId).exec();
+    if (!session) {
+      throw new NotFoundException(`Game session with ID ${round.sessionId} not found`);
+    }
+    if (!session.players.includes(userId)) {
+      throw new ForbiddenException('Only players of the session can take hints');
+    }
+
+    const settings = resolveGameSessionSettings(session.settings);
+    const used = round.hintsUsed.filter((hint) => hint.userId === userId);
+    if (used.length >= settings.hintsPerRound) {
+      throw new BadRequestException(
+        settings.hintsPerRound === 0
+          ? 'Hints are turned off for this session'
+          : `No hints left: ${settings.hintsPerRound} allowed per round`
+      );
+    }
+
+    const song = await this.lyricModel.findById(round.songId).exec();
+    if (!song) {
+      throw new NotFoundException(`Song with ID ${round.songId} not found`);
+    }
+    const text = revealHint(type, round, song, used.map((hint) => hint.type));
+    if (text === null) {
+      throw new BadRequestException(`There is no ${type} hint left for this round`);
+    }
+
+    const hint: UsedHint = { userId, type, cost: settings.hintCosts[type], usedAt: new Date() };
+    const takenOfType = used.filter((usedHint) => usedHint.type === type).length;
+    const takenBy = (cond: object) => ({ $size: { $filter: { input: '$hintsUsed', cond } } });
+    // Checked again on write so two requests at once cannot both take the last hint, nor both be
+    // charged for the same one: the player must still hold as many hints of this type as were read
+    const updated = await this.gameRoundModel.findOneAndUpdate(
+      {
+        _id: round._id,
+        status: GameRoundStatus.ACTIVE,
+        $expr: {
+          $and: [
+            { $lt: [takenBy({ $eq: ['$$this.userId', userId] }), settings.hintsPerRound] },
+            {
+              $eq: [
+                takenBy({ $and: [{ $eq: ['$$this.userId', userId] }, { $eq: ['$$this.type', type] }] }),
+                takenOfType
+              ]
+            }
+          ]
+        }
+      },
+      { $push: { hintsUsed: hint } },
+      { new: true }
+    ).exec();
+    if (!updated) {
+      throw new BadRequestException('The round ended, no hints are left or this hint was just taken');
+    }
+
+    const taken = updated.hintsUsed.filter((usedHint) => usedHint.userId === userId);
+    const hintsLeft = settings.hintsPerRound - taken.length;
+    this.eventEmitter.emit(
+      'gameRound.hintUsed',
+      new GameRoundHintUsedEvent(roundId, String(round.sessionId), userId, type, hintsLeft)
+    );
+
+    return {
+      roundId,
+      type,
+      text,
+      cost: hint.cost,
+      hintsLeft,
+      maxScoreShare: hintScoreShare(taken)
+    };
+  }
+}
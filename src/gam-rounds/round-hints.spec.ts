@@ -0,0 +1,86 @@
+import { HintType, RoundQuestionType } from '../enum/game-round.enum';
+import { HintRound, HintSong, hintScoreShare, revealHint } from './round-hints';
+
+describe('round hints', () => {
+  const song = {
+    title: 'Harbor',
+    artist: 'the Tides',
+    releaseYear: 1994,
+    decade: undefined,
+    lyrics: { content: 'One\nTwo\nThree\nFour\nHarbor lights\nSix' },
+  } as unknown as HintSong;
+
+  const round: HintRound = {
+    questionType: RoundQuestionType.NextLine,
+    snippet: ['Two', 'Three'],
+    snippetStart: 1,
+    correctAnswers: ['Four'],
+    options: [],
+  };
+
+  it('should reveal the lines around the snippet without the answer line', () => {
+    const lines = [0, 1, 2].map((shown) =>
+      revealHint(
+        HintType.ExtraLine,
+        round,
+        song,
+        Array(shown).fill(HintType.ExtraLine),
+      ),
+    );
+
+    expect(lines).toEqual(['One', '_____ lights', 'Six']);
+    expect(
+      revealHint(
+        HintType.ExtraLine,
+        round,
+        song,
+        Array(3).fill(HintType.ExtraLine),
+      ),
+    ).toBeNull();
+  });
+
+  it('should give the first letter of the answer or of each missing word', () => {
+    expect(revealHint(HintType.FirstLetter, round, song, [])).toBe('F');
+    expect(
+      revealHint(
+        HintType.FirstLetter,
+        {
+          ...round,
+          questionType: RoundQuestionType.MissingWords,
+          correctAnswers: ['two', 'three'],
+        },
+        song,
+        [],
+      ),
+    ).toBe('T T');
+    expect(
+      revealHint(
+        HintType.FirstLetter,
+        {
+          ...round,
+          correctAnswers: ['b'],
+          options: [
+            { id: 'a', text: 'Wrong' },
+            { id: 'b', text: 'Four' },
+          ],
+        },
+        song,
+        [],
+      ),
+    ).toBe('F');
+  });
+
+  it('should give the decade and artist initial once', () => {
+    expect(revealHint(HintType.Decade, round, song, [])).toBe('1990s');
+    expect(revealHint(HintType.ArtistInitial, round, song, [])).toBe('T');
+    expect(
+      revealHint(HintType.Decade, round, song, [HintType.Decade]),
+    ).toBeNull();
+  });
+
+  it('should lower the maximum score by the cost of every hint', () => {
+    expect(hintScoreShare([])).toBe(1);
+    expect(hintScoreShare([{ cost: 0.2 }, { cost: 0.3 }])).toBeCloseTo(0.5);
+    expect(hintScoreShare([{ cost: 0.7 }, { cost: 0.7 }])).toBe(0);
+  });
+});
@@ -0,0 +1,115 @@
+import { HintType, RoundQuestionType } from '../enum/game-round.enum';
+import type { lyric } from '../schemas/lyric.schema';
+import type { RoundOption } from './round-distractors';
+import { lyricLines, maskTitle } from './round-question-generator';
+
+// A hint as stored on the round while it is played
+export interface UsedHint {
+  userId: string;
+  type: HintType;
+  // Share of the maximum score it took off, fixed when the hint was taken
+  cost: number;
+  usedAt: Date;
+}
+
+// A hint as recorded on the answer it was taken for
+export type AnswerHint = Pick<UsedHint, 'type' | 'cost'>;
+
+// The parts of a round a hint is worked out from
+export interface HintRound {
+  questionType: RoundQuestionType;
+  snippet: string[];
+  snippetStart: number | null;
+  correctAnswers: string[];
+  options: RoundOption[];
+}
+
+export type HintSong = Pick<
+  lyric,
+  'title' | 'artist' | 'releaseYear' | 'decade' | 'lyrics'
+>;
+
+/**
+ * What a hint reveals about the round, or null when it has nothing (left) to give.
+ * `earlier` holds the hints the player already took this round, oldest first.
+ */
+export function revealHint(
+  type: HintType,
+  round: HintRound,
+  song: HintSong,
+  earlier: HintType[],
+): string | null {
+  // Asking twice would only reveal the same thing again
+  if (type !== HintType.ExtraLine && earlier.includes(type)) {
+    return null;
+  }
+
+  switch (type) {
+    case HintType.ExtraLine: {
+      const shown = earlier.filter((hint) => hint === HintType.ExtraLine);
+      return extraLines(round, song)[shown.length] ?? null;
+    }
+    case HintType.FirstLetter:
+      return firstLetters(round);
+    case HintType.Decade:
+      if (song.decade) {
+        return song.decade;
+      }
+      return song.releaseYear
+        ? `${Math.floor(song.releaseYear / 10) * 10}s`
+        : null;
+    case HintType.ArtistInitial:
+      return initial(song.artist);
+    default:
+      return null;
+  }
+}
+
+/**
+ * How much of the maximum score an answer can still earn after its hints
+ */
+export function hintScoreShare(hints: Pick<AnswerHint, 'cost'>[]): number {
+  return Math.max(0, 1 - hints.reduce((total, hint) => total + hint.cost, 0));
+}
+
+/**
+ * Lines around the snippet in the order extra-line hints give them: the ones before it nearest first,
+ * then the ones after it. A next-line round never gives away the line it asks for.
+ */
+function extraLines(round: HintRound, song: HintSong): string[] {
+  if (round.snippetStart === null) {
+    return [];
+  }
+  const lines = lyricLines(song.lyrics?.content ?? '');
+  const end = round.snippetStart + round.snippet.length;
+  const after =
+    round.questionType === RoundQuestionType.NextLine ? end + 1 : end;
+
+  return [
+    ...lines.slice(0, round.snippetStart).reverse(),
+    ...lines.slice(after),
+  ].map((line) => maskTitle(line, song.title));
+}
+
+function firstLetters(round: HintRound): string | null {
+  // Multiple-choice rounds accept the id of the right option; its text is the answer
+  const answers = round.options.length
+    ? round.options
+        .filter((option) => round.correctAnswers.includes(option.id))
+        .map((option) => option.text)
+    : round.correctAnswers;
+  if (answers.length === 0) {
+    return null;
+  }
+
+  // Every blank of a missing-words round gets its own letter
+  if (round.questionType === RoundQuestionType.MissingWords) {
+    const letters = answers.map(initial).filter(Boolean);
+    return letters.length ? letters.join(' ') : null;
+  }
+  return initial(answers[0]);
+}
+
+function initial(text: string | undefined): string | null {
+  return text?.match(/[\p{L}\p{N}]/u)?.[0].toUpperCase() ?? null;
+}
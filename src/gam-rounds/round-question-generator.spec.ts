@@ -0,0 +1,157 @@
+import { SessionDifficulty } from '../enum/game-session.enum';
+import { RoundQuestionType } from '../enum/game-round.enum';
+import {
+  QuestionSource,
+  acceptedTitles,
+  generateRoundQuestion,
+  lyricLines,
+  revealsTitle,
+} from './round-question-generator';
+
+describe('round question generator', () => {
+  const song = (content: string, overrides: Partial<QuestionSource> = {}) =>
+    ({
+      title: 'Golden Hour (Remastered)',
+      artist: 'Nova feat. Echo',
+      album: 'Daybreak',
+      releaseYear: 2019,
+      lyrics: { content, language: 'en' },
+      ...overrides,
+    }) as QuestionSource;
+
+  // Returns the given values in turn, then keeps returning the last one
+  const sequence =
+    (...values: number[]) =>
+    () =>
+      values.length > 1 ? values.shift()! : values[0];
+
+  it('should drop blank lines and section headers', () => {
+    expect(
+      lyricLines('[Chorus]\nFirst line\n\n(Verse 2)\r\nSecond line'),
+    ).toEqual(['First line', 'Second line']);
+  });
+
+  it('should recognise the title regardless of case, accents and suffixes', () => {
+    expect(acceptedTitles('Golden Hour (Remastered)')).toEqual([
+      'Golden Hour (Remastered)',
+      'Golden Hour',
+    ]);
+    expect(
+      revealsTitle('We met in the GOLDEN hour!', 'Golden Hour (Remastered)'),
+    ).toBe(true);
+    expect(revealsTitle('Café nights', 'Cafe')).toBe(true);
+    expect(revealsTitle('Goldeneye hours', 'Golden Hour')).toBe(false);
+  });
+
+  it('should pick a snippet that does not give the title away', () => {
+    const question = generateRoundQuestion(
+      song('In the golden hour\nWe ran\nAcross the sand\nUnder skies'),
+      SessionDifficulty.Hard,
+      sequence(0, 0),
+    )!;
+
+    expect(question.questionType).toBe(RoundQuestionType.SongTitle);
+    expect(question.snippet).toEqual(['We ran', 'Across the sand']);
+    expect(question.correctAnswers).toEqual([
+      'Golden Hour (Remastered)',
+      'Golden Hour',
+    ]);
+  });
+
+  it('should mask the title when every snippet contains it', () => {
+    const question = generateRoundQuestion(
+      song('Golden hour, golden hour\nIt is the golden-hour'),
+      SessionDifficulty.Easy,
+      sequence(0),
+    )!;
+
+    expect(question.snippet).toEqual(['_____, _____', 'It is the _____']);
+  });
+
+  it('should hold the following line back as the answer to a next-line question', () => {
+    const question = generateRoundQuestion(
+      song('One\nTwo\nThree\nFour'),
+      SessionDifficulty.Medium,
+      sequence(0.7, 0),
+    )!;
+
+    expect(question.questionType).toBe(RoundQuestionType.NextLine);
+    expect(question.snippet).toEqual(['One', 'Two', 'Three']);
+    expect(question.correctAnswers).toEqual(['Four']);
+    expect(question.timings).toEqual([]);
+  });
+
+  it('should say where a next-line question picks up in songs with synced lyrics', () => {
+    const timedLines = ['One', 'Two', 'Three', 'Four'].map((text, index) => ({
+      time: 60000 + index * 7500,
+      text,
+    }));
+    const question = generateRoundQuestion(
+      song('One\nTwo\nThree\nFour', { timedLines }),
+      SessionDifficulty.Medium,
+      sequence(0.7, 0),
+    )!;
+
+    expect(question.prompt).toBe('What comes next after 1:15?');
+    expect(question.timings).toEqual([
+      { start: 60000, end: 67500 },
+      { start: 67500, end: 75000 },
+      { start: 75000, end: 82500 },
+    ]);
+  });
+
+  it('should only ask about facts the song has', () => {
+    for (const draw of [0, 0.25, 0.5, 0.75, 0.99]) {
+      const question = generateRoundQuestion(
+        song('Only line', { album: undefined, releaseYear: undefined }),
+        SessionDifficulty.Hard,
+        sequence(draw),
+      )!;
+
+      expect([
+        RoundQuestionType.SongTitle,
+        RoundQuestionType.MissingWords,
+      ]).toContain(question.questionType);
+    }
+  });
+
+  it('should accept the lead artist without the featured one', () => {
+    const question = generateRoundQuestion(
+      song('One\nTwo'),
+      SessionDifficulty.Easy,
+      sequence(0.5, 0),
+    )!;
+
+    expect(question.questionType).toBe(RoundQuestionType.Artist);
+    expect(question.correctAnswers).toEqual(['Nova feat. Echo', 'Nova']);
+  });
+
+  it('should blank out words for a missing-words question', () => {
+    const question = generateRoundQuestion(
+      song('We dance along the shoreline'),
+      SessionDifficulty.Easy,
+      sequence(0.9, 0),
+    )!;
+
+    expect(question.questionType).toBe(RoundQuestionType.MissingWords);
+    expect(question.snippet).toEqual(['We _____ along the shoreline']);
+    expect(question.blanks).toEqual([{ line: 0, start: 3, end: 8 }]);
+    expect(question.correctAnswers).toEqual(['dance']);
+  });
+
+  it('should ask something else when the snippet has only stopwords', () => {
+    const question = generateRoundQuestion(
+      song('Oh yeah\nNa na na'),
+      SessionDifficulty.Easy,
+      sequence(0.9, 0),
+    )!;
+
+    expect(question.questionType).not.toBe(RoundQuestionType.MissingWords);
+  });
+
+  it('should not build a question from a song without lyrics', () => {
+    expect(
+      generateRoundQuestion(song('[Instrumental]'), SessionDifficulty.Easy),
+    ).toBeNull();
+  });
+});
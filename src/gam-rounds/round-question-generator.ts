@@ -0,0 +1,290 @@
+import { SessionDifficulty } from '../enum/game-session.enum';
+import { RoundQuestionType } from '../enum/game-round.enum';
+import type { lyric } from '../schemas/lyric.schema';
+import { normalizeText } from './answer-text';
+import { RoundBlank, maskMissingWords } from './missing-words';
+import { parseLyricSections, selectSectionLines } from '../lyrics/lyric-sections';
+import { LineTiming, formatSongTime, lineTimings } from '../lyrics/lyric-timing';
+
+// The parts of a song a question can be built from
+export type QuestionSource = Pick<
+  lyric,
+  'title' | 'artist' | 'album' | 'releaseYear' | 'lyrics'
+> &
+  Partial<Pick<lyric, 'timedLines'>>;
+
+export type QuestionDifficulty = Exclude<
+  SessionDifficulty,
+  SessionDifficulty.Mixed
+>;
+
+export interface RoundQuestion {
+  questionType: RoundQuestionType;
+  difficulty: QuestionDifficulty;
+  prompt: string;
+  snippet: string[];
+  // Index of the first snippet line among the song's lyric lines
+  snippetStart: number;
+  // Where the masked words are in the snippet of a missing-words question
+  blanks: RoundBlank[];
+  // When each snippet line is sung, for songs with synced lyrics; empty otherwise
+  timings: LineTiming[];
+  correctAnswers: string[];
+}
+
+// Harder questions show less of the song and ask about less obvious facts
+export const QUESTION_PLANS: Record<
+  QuestionDifficulty,
+  { snippetLines: number; questionTypes: RoundQuestionType[] }
+> = {
+  [SessionDifficulty.Easy]: {
+    snippetLines: 4,
+    questionTypes: [
+      RoundQuestionType.SongTitle,
+      RoundQuestionType.Artist,
+      RoundQuestionType.MissingWords,
+    ],
+  },
+  [SessionDifficulty.Medium]: {
+    snippetLines: 3,
+    questionTypes: [
+      RoundQuestionType.SongTitle,
+      RoundQuestionType.Artist,
+      RoundQuestionType.Year,
+      RoundQuestionType.NextLine,
+      RoundQuestionType.MissingWords,
+    ],
+  },
+  [SessionDifficulty.Hard]: {
+    snippetLines: 2,
+    questionTypes: [
+      RoundQuestionType.SongTitle,
+      RoundQuestionType.Album,
+      RoundQuestionType.Year,
+      RoundQuestionType.NextLine,
+      RoundQuestionType.MissingWords,
+    ],
+  },
+};
+
+export const QUESTION_PROMPTS: Record<RoundQuestionType, string> = {
+  [RoundQuestionType.SongTitle]: 'Which song are these lyrics from?',
+  [RoundQuestionType.Artist]: 'Who performs the song with these lyrics?',
+  [RoundQuestionType.Album]: 'Which album is the song with these lyrics on?',
+  [RoundQuestionType.Year]:
+    'In which year was the song with these lyrics released?',
+  [RoundQuestionType.NextLine]: 'What is the next line?',
+  [RoundQuestionType.MissingWords]: 'Fill in the missing words',
+};
+
+const TITLE_MASK = '_____';
+
+/**
+ * Playable lines of a lyric in song order: blank lines and section headers such as "[Chorus]" are dropped
+ */
+export function lyricLines(content: string): string[] {
+  return selectSectionLines(parseLyricSections(content));
+}
+
+/**
+ * The title plus its core without bracketed or dashed suffixes: "Song (feat. X) - Remastered" also accepts "Song"
+ */
+export function acceptedTitles(title: string): string[] {
+  const core = title
+    .replace(/\s*[([].*?[)\]]/g, '')
+    .replace(/\s+-\s+.*$/, '')
+    .trim();
+  return [...new Set([title.trim(), core].filter(Boolean))];
+}
+
+/**
+ * The credited artist plus the lead artist without any featured ones
+ */
+export function acceptedArtists(artist: string): string[] {
+  const lead = artist.split(/\s+(?:feat\.?|ft\.?|featuring)\s+/i)[0].trim();
+  return [...new Set([artist.trim(), lead].filter(Boolean))];
+}
+
+/**
+ * Whether a line contains the title, ignoring case, accents and punctuation
+ */
+export function revealsTitle(line: string, title: string): boolean {
+  const haystack = ` ${normalizeText(line)} `;
+  return acceptedTitles(title).some((candidate) => {
+    const needle = normalizeText(candidate);
+    return needle !== '' && haystack.includes(` ${needle} `);
+  });
+}
+
+/**
+ * Build a question for one round. Returns null when the song has no lyrics to show.
+ * `random` is injectable so tests can pin the choices.
+ */
+export function generateRoundQuestion(
+  song: QuestionSource,
+  difficulty: SessionDifficulty,
+  random: () => number = Math.random,
+  excludedTypes: RoundQuestionType[] = [],
+): RoundQuestion | null {
+  const lines = lyricLines(song.lyrics?.content ?? '');
+  if (lines.length === 0) {
+    return null;
+  }
+  const songTimings = lineTimings(song.timedLines ?? [], lines);
+
+  const level =
+    difficulty === SessionDifficulty.Mixed
+      ? pick(Object.keys(QUESTION_PLANS) as QuestionDifficulty[], random)
+      : difficulty;
+  const plan = QUESTION_PLANS[level];
+
+  const questionTypes = plan.questionTypes.filter((type) => {
+    if (excludedTypes.includes(type)) {
+      return false;
+    }
+    switch (type) {
+      case RoundQuestionType.Album:
+        return Boolean(song.album);
+      case RoundQuestionType.Year:
+        return Boolean(song.releaseYear);
+      case RoundQuestionType.NextLine:
+        // There has to be a line left after the snippet
+        return lines.length > 1;
+      default:
+        return true;
+    }
+  });
+  const questionType = pick(questionTypes, random);
+
+  // A next-line question keeps the line after the snippet back as the answer
+  const reserved = questionType === RoundQuestionType.NextLine ? 1 : 0;
+  const snippetLength = Math.min(plan.snippetLines, lines.length - reserved);
+  const starts = Array.from(
+    { length: lines.length - snippetLength - reserved + 1 },
+    (_, start) => start,
+  );
+
+  const clean = starts.filter((start) =>
+    lines
+      .slice(start, start + snippetLength)
+      .every((line) => !revealsTitle(line, song.title)),
+  );
+  const start = pick(clean.length > 0 ? clean : starts, random);
+  // Some songs repeat their title everywhere; blank it out rather than give it away
+  const snippet = lines
+    .slice(start, start + snippetLength)
+    .map((line) => maskTitle(line, song.title));
+  const timings = songTimings?.slice(start, start + snippetLength) ?? [];
+
+  if (questionType === RoundQuestionType.MissingWords) {
+    const missing = maskMissingWords(snippet, lines, level, random);
+    if (!missing) {
+      // Nothing but stopwords in the snippet; ask something else instead
+      return generateRoundQuestion(song, level, random, [
+        ...excludedTypes,
+        RoundQuestionType.MissingWords,
+      ]);
+    }
+    // The rarity of the masked words decides how hard the round really is
+    return {
+      questionType,
+      difficulty: missing.difficulty,
+      prompt: QUESTION_PROMPTS[questionType],
+      snippet: missing.snippet,
+      snippetStart: start,
+      blanks: missing.blanks,
+      timings,
+      correctAnswers: missing.words,
+    };
+  }
+
+  return {
+    questionType,
+    difficulty: level,
+    prompt: promptFor(questionType, timings),
+    snippet,
+    snippetStart: start,
+    blanks: [],
+    timings,
+    correctAnswers: correctAnswersFor(
+      questionType,
+      song,
+      lines[start + snippetLength],
+    ),
+  };
+}
+
+// With synced lyrics a next-line question says where in the song it picks up
+function promptFor(
+  questionType: RoundQuestionType,
+  timings: LineTiming[],
+): string {
+  const last = timings[timings.length - 1];
+  return questionType === RoundQuestionType.NextLine && last
+    ? `What comes next after ${formatSongTime(last.start)}?`
+    : QUESTION_PROMPTS[questionType];
+}
+
+function correctAnswersFor(
+  questionType: RoundQuestionType,
+  song: QuestionSource,
+  nextLine: string | undefined,
+): string[] {
+  switch (questionType) {
+    case RoundQuestionType.SongTitle:
+      return acceptedTitles(song.title);
+    case RoundQuestionType.Artist:
+      return acceptedArtists(song.artist);
+    case RoundQuestionType.Album:
+      return [song.album];
+    case RoundQuestionType.Year:
+      return [String(song.releaseYear)];
+    case RoundQuestionType.NextLine:
+      return nextLine ? [nextLine] : [];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Blank out the title wherever it appears in a line
+ */
+export function maskTitle(line: string, title: string): string {
+  const words = [...line.matchAll(/[\p{L}\p{N}'’]+/gu)].map((match) => ({
+    text: normalizeText(match[0]),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+  // Longest form first so "Song (Remix)" is masked whole rather than just "Song"
+  const titles = acceptedTitles(title)
+    .map((candidate) => normalizeText(candidate).split(' '))
+    .filter((candidate) => candidate[0] !== '')
+    .sort((a, b) => b.length - a.length);
+
+  const spans: { start: number; end: number }[] = [];
+  for (let i = 0; i < words.length; ) {
+    const match = titles.find((candidate) =>
+      candidate.every((word, offset) => words[i + offset]?.text === word),
+    );
+    if (match) {
+      spans.push({
+        start: words[i].start,
+        end: words[i + match.length - 1].end,
+      });
+      i += match.length;
+    } else {
+      i++;
+    }
+  }
+
+  // Right to left so the earlier offsets stay valid
+  return spans.reduceRight(
+    (masked, span) =>
+      masked.slice(0, span.start) + TITLE_MASK + masked.slice(span.end),
+    line,
+  );
+}
+
+function pick<T>(items: T[], random: () => number): T {
+  return items[Math.min(items.length - 1, Math.floor(random() * items.length))];
+}
@@ -0,0 +1,98 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import * as mongoose from 'mongoose';
+import type {
+  PlayerRanking,
+  ResultPlayer,
+  RoundResultStats,
+  ScoreDistribution
+} from './round-results';
+
+export type RoundResultDocument = RoundResult & Document;
+
+/**
+ * What a round ended with, written once when it completes and never changed afterwards. When an
+ * upheld dispute changes a score, a new revision is written next to the old ones.
+ */
+@Schema({
+  collection: 'round_results',
+  toJSON: {
+    transform: (doc, ret) => {
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+})
+export class RoundResult implements RoundResultStats {
+  @Prop({
+    type: String,
+    required: true,
+    immutable: true
+  })
+  roundId: string;
+
+  // 0 for the results written when the round completed; the latest revision is the one shown
+  @Prop({ type: Number, default: 0, immutable: true })
+  revision: number;
+
+  // Why the results were revised; null for the first revision
+  @Prop({ type: String, default: null, immutable: true })
+  revisionReason: string | null;
+
+  @Prop({
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'GameSession',
+    required: true,
+    index: true,
+    immutable: true
+  })
+  sessionId: mongoose.Types.ObjectId;
+
+  @Prop({ type: Number, required: true, immutable: true })
+  roundNumber: number;
+
+  @Prop({ type: Number, required: true, immutable: true })
+  players: number;
+
+  @Prop({ type: Number, required: true, immutable: true })
+  answered: number;
+
+  @Prop({ type: Number, required: true, immutable: true })
+  correct: number;
+
+  @Prop({ type: Number, required: true, immutable: true })
+  accuracy: number;
+
+  @Prop({ type: Number, default: null, immutable: true })
+  medianCorrectResponseMs: number | null;
+
+  @Prop({ type: Object, default: null, immutable: true })
+  fastestCorrect: (ResultPlayer & { responseTimeMs: number }) | null;
+
+  @Prop({ type: Object, default: null, immutable: true })
+  scoreDistribution: ScoreDistribution | null;
+
+  @Prop({ type: [Object], default: [], immutable: true })
+  rankings: PlayerRanking[];
+
+  @Prop({ type: Object, default: null, immutable: true })
+  firstToAnswer: (ResultPlayer & { responseTimeMs: number; isCorrect: boolean }) | null;
+
+  @Prop({ type: Object, default: null, immutable: true })
+  closestWrongAnswer: (ResultPlayer & { answer: string; similarity: number }) | null;
+
+  @Prop({ type: Date, default: Date.now, immutable: true })
+  computedAt: Date;
+}
+
+export const RoundResultSchema = SchemaFactory.createForClass(RoundResult);
+
+RoundResultSchema.index({ roundId: 1, revision: -1 }, { unique: true });
+
+// `immutable` only guards documents that are saved again; refuse query updates outright
+for (const operation of ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'] as const) {
+  RoundResultSchema.pre(operation, function (next) {
+    next(new Error('Round results cannot be changed once written'));
+  });
+}
@@ -0,0 +1,208 @@
+import { BadRequestException, ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Model, Types } from 'mongoose';
+import { GameRound, GameRoundDocument, GameRoundStatus } from './game-round-schema';
+import { RoundResult, RoundResultDocument } from './round-result-schema';
+import { Player, PlayerDocument } from '../player/schemas/player.schema';
+import { ResultAnswer, RoundResultStats, computeRoundResults } from './round-results';
+import { GameRoundResultsReadyEvent } from './game-round-events';
+
+// Mongo duplicate key error, raised when another call wrote the results first
+const DUPLICATE_KEY = 11000;
+
+// Times a revision is retried when others are written for the same round at once
+const MAX_REVISION_ATTEMPTS = 3;
+
+interface RoundWithAnswers {
+  _id: Types.ObjectId;
+  roundNumber: number;
+  answers: (Omit<ResultAnswer, 'playerId'> & { playerId: Types.ObjectId })[];
+}
+
+/**
+ * Works out the statistics of each round once it completes and keeps them as a result document
+ * that is never rewritten, so the results screen shows the same thing however often it is opened.
+ * Corrections are written as new revisions.
+ */
+@Injectable()
+export class RoundResultsService {
+  private readonly logger = new Logger(RoundResultsService.name);
+
+  constructor(
+    @InjectModel(GameRound.name) private gameRoundModel: Model<GameRoundDocument>,
+    @InjectModel(RoundResult.name) private roundResultModel: Model<RoundResultDocument>,
+    @InjectModel(Player.name) private playerModel: Model<PlayerDocument>,
+    private eventEmitter: EventEmitter2
+  ) {}
+
+  /**
+   * The results of a completed round, written the first time they are asked for
+   */
+  async getResults(roundId: string): Promise<RoundResult> {
+    const existing = await this.latestResults(roundId);
+    if (existing) {
+      return existing;
+    }
+
+    const round = await this.gameRoundModel.findOne({ roundId }).exec();
+    if (!round) {
+      throw new NotFoundException(`Game round with ID ${roundId} not found`);
+    }
+    return this.processRoundResults(round);
+  }
+
+  /**
+   * Compute and store the results of a completed round and send them to the session.
+   * Calling it again returns the stored results unchanged.
+   */
+  async processRoundResults(round: GameRoundDocument): Promise<RoundResult> {
+    if (round.status !== GameRoundStatus.COMPLETED) {
+      throw new BadRequestException(`Cannot process results for a game round with status ${round.status}`);
+    }
+
+    const existing = await this.latestResults(round.roundId);
+    if (existing) {
+      return existing;
+    }
+
+    const stats = await this.computeStats(round);
+    let result: RoundResult;
+    try {
+      result = await this.roundResultModel.create({
+        roundId: round.roundId,
+        sessionId: round.sessionId,
+        roundNumber: round.roundNumber,
+        ...stats
+      });
+    } catch (error: any) {
+      if (error?.code !== DUPLICATE_KEY) {
+        throw error;
+      }
+      // The round ended and its results were asked for at the same moment
+      return (await this.latestResults(round.roundId))!;
+    }
+
+    this.logger.log(`Round ${round.roundId} results: ${stats.correct}/${stats.answered} correct`);
+    this.eventEmitter.emit(
+      'gameRound.resultsReady',
+      new GameRoundResultsReadyEvent(String(round.sessionId), result)
+    );
+    return result;
+  }
+
+  /**
+   * Write new revisions of a round's results after one of its answers was rescored, and of every
+   * completed round after it, whose rankings build on its scores. Earlier revisions stay as they were.
+   */
+  async reviseResults(round: GameRoundDocument, reason: string): Promise<RoundResult[]> {
+    const rounds = await this.gameRoundModel
+      .find({
+        sessionId: round.sessionId,
+        status: GameRoundStatus.COMPLETED,
+        roundNumber: { $gte: round.roundNumber }
+      })
+      .sort({ roundNumber: 1 })
+      .exec();
+
+    const revised: RoundResult[] = [];
+    for (const completed of rounds) {
+      const stats = await this.computeStats(completed);
+      let result: RoundResult | null = null;
+      // Another revision written at the same moment takes the number; take the next one
+      for (let attempt = 0; !result && attempt < MAX_REVISION_ATTEMPTS; attempt++) {
+        const latest = await this.latestResults(completed.roundId);
+        try {
+          result = await this.roundResultModel.create({
+            roundId: completed.roundId,
+            sessionId: completed.sessionId,
+            roundNumber: completed.roundNumber,
+            revision: latest ? latest.revision + 1 : 0,
+            revisionReason: reason,
+            ...stats
+          });
+        } catch (error: any) {
+          if (error?.code !== DUPLICATE_KEY) {
+            throw error;
+          }
+        }
+      }
+      if (!result) {
+        throw new ConflictException(`Could not revise the results of game round ${completed.roundId}`);
+      }
+
+      this.logger.log(`Round ${completed.roundId} results revised to revision ${result.revision}: ${reason}`);
+      this.eventEmitter.emit(
+        'gameRound.resultsReady',
+        new GameRoundResultsReadyEvent(String(completed.sessionId), result)
+      );
+      revised.push(result);
+    }
+    return revised;
+  }
+
+  private latestResults(roundId: string): Promise<RoundResultDocument | null> {
+    return this.roundResultModel.findOne({ roundId }).sort({ revision: -1 }).exec();
+  }
+
+  /**
+   * The statistics of a round from its answers, with the standings of the completed rounds before it
+   */
+  private async computeStats(round: GameRoundDocument): Promise<RoundResultStats> {
+    // This round and every completed one before it, for the standings before and after
+    const [rounds, players] = await Promise.all([
+      this.gameRoundModel.aggregate<RoundWithAnswers>([
+        {
+          $match: {
+            sessionId: round.sessionId,
+            $or: [
+              { _id: round._id },
+              { status: GameRoundStatus.COMPLETED, roundNumber: { $lt: round.roundNumber } }
+            ]
+          }
+        },
+        { $lookup: { from: 'roundanswers', localField: '_id', foreignField: 'roundId', as: 'answers' } },
+        {
+          $project: {
+            roundNumber: 1,
+            'answers.playerId': 1,
+            'answers.answer': 1,
+            'answers.isCorrect': 1,
+            'answers.score': 1,
+            'answers.responseTimeMs': 1,
+            'answers.submittedAt': 1
+          }
+        }
+      ]).exec(),
+      this.playerModel.find({ sessionId: round.sessionId }, { userId: 1 }).lean().exec()
+    ]);
+
+    const previousTotals: Record<string, number> = {};
+    const answers: ResultAnswer[] = [];
+    for (const { _id, answers: roundAnswers } of rounds) {
+      const current = String(_id) === String(round._id);
+      for (const answer of roundAnswers) {
+        const playerId = String(answer.playerId);
+        if (current) {
+          answers.push({
+            playerId,
+            answer: answer.answer ?? '',
+            isCorrect: Boolean(answer.isCorrect),
+            score: answer.score ?? 0,
+            responseTimeMs: answer.responseTimeMs ?? 0,
+            submittedAt: new Date(answer.submittedAt)
+          });
+        } else {
+          previousTotals[playerId] = (previousTotals[playerId] ?? 0) + (answer.score ?? 0);
+        }
+      }
+    }
+
+    return computeRoundResults(
+      round,
+      players.map((player) => ({ playerId: String(player._id), userId: String(player.userId) })),
+      answers,
+      rounds.length > 1 ? previousTotals : null
+    );
+  }
+}
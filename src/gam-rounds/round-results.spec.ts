@@ -0,0 +1,158 @@
+import { RoundQuestionType } from '../enum/game-round.enum';
+import { ScoringProfile, ScoringRule } from '../enum/game-session.enum';
+import { ResultAnswer, computeRoundResults } from './round-results';
+import { scoreAnswer } from './round-scoring';
+
+describe('round results', () => {
+  const round = {
+    questionType: RoundQuestionType.SongTitle,
+    correctAnswers: ['Harbor Lights'],
+    options: [],
+  };
+  const players = ['a', 'b', 'c', 'd'].map((id) => ({
+    playerId: id,
+    userId: `user-${id}`,
+  }));
+  const answer = (
+    playerId: string,
+    text: string,
+    score: number,
+    responseTimeMs: number,
+  ): ResultAnswer => ({
+    playerId,
+    answer: text,
+    isCorrect: score > 0,
+    score,
+    responseTimeMs,
+    submittedAt: new Date(1000 + responseTimeMs),
+  });
+  const answers = [
+    answer('a', 'Harbor Lights', 80, 4000),
+    answer('b', 'Harbour Light', 0, 2000),
+    answer('c', 'Harbor Lights', 100, 3000),
+    answer('d', 'Something else', 0, 9000),
+  ];
+
+  it('should sum up how the room answered', () => {
+    const results = computeRoundResults(round, players, answers, null);
+
+    expect(results).toMatchObject({
+      players: 4,
+      answered: 4,
+      correct: 2,
+      accuracy: 0.5,
+      medianCorrectResponseMs: 3500,
+      fastestCorrect: { userId: 'user-c', responseTimeMs: 3000 },
+      firstToAnswer: { userId: 'user-b', isCorrect: false },
+      closestWrongAnswer: { userId: 'user-b', answer: 'Harbour Light' },
+    });
+    expect(results.scoreDistribution).toEqual({
+      min: 0,
+      max: 100,
+      mean: 45,
+      median: 40,
+      buckets: [
+        { from: 0, to: 20, count: 2 },
+        { from: 21, to: 41, count: 0 },
+        { from: 42, to: 62, count: 0 },
+        { from: 63, to: 83, count: 1 },
+        { from: 84, to: 104, count: 1 },
+      ],
+    });
+  });
+
+  it('should rank players and say how far they moved since the last round', () => {
+    const { rankings } = computeRoundResults(round, players, answers, {
+      a: 50,
+      b: 200,
+      d: 50,
+    });
+
+    expect(
+      rankings.map(({ userId, totalScore, rank, previousRank, rankChange }) => [
+        userId,
+        totalScore,
+        rank,
+        previousRank,
+        rankChange,
+      ]),
+    ).toEqual([
+      ['user-b', 200, 1, 1, 0],
+      ['user-a', 130, 2, 2, 0],
+      ['user-c', 100, 3, 4, 1],
+      ['user-d', 50, 4, 2, -2],
+    ]);
+  });
+
+  it('should count penalised answers below zero in the distribution and rankings', () => {
+    const penalised = scoreAnswer({
+      profile: ScoringProfile.Classic,
+      rules: [ScoringRule.WrongAnswerPenalty, ScoringRule.LastRoundDouble],
+      baseScore: 100,
+      isCorrect: false,
+      responseShare: 0.5,
+      difficultyMultiplier: 1,
+      hintShare: 1,
+      streak: 0,
+      firstCorrect: false,
+      lastRound: true,
+    });
+    const results = computeRoundResults(
+      round,
+      players,
+      [
+        answer('a', 'Harbor Lights', 80, 4000),
+        answer('b', 'Something else', penalised.score, 2000),
+      ],
+      { a: 0, b: 20 },
+    );
+
+    expect(penalised.score).toBe(-50);
+    expect(results.scoreDistribution).toEqual({
+      min: -50,
+      max: 80,
+      mean: 15,
+      median: 15,
+      buckets: [
+        { from: -50, to: -24, count: 1 },
+        { from: -23, to: 3, count: 0 },
+        { from: 4, to: 30, count: 0 },
+        { from: 31, to: 57, count: 0 },
+        { from: 58, to: 84, count: 1 },
+      ],
+    });
+    expect(
+      results.rankings.map(({ userId, totalScore }) => [userId, totalScore]),
+    ).toEqual([
+      ['user-a', 80],
+      ['user-c', 0],
+      ['user-d', 0],
+      ['user-b', -30],
+    ]);
+  });
+
+  it('should compare multiple-choice answers by option text', () => {
+    const results = computeRoundResults(
+      {
+        ...round,
+        correctAnswers: ['o1'],
+        options: [
+          { id: 'o1', text: 'Harbor Lights' },
+          { id: 'o2', text: 'Harbor Nights' },
+          { id: 'o3', text: 'Desert Rain' },
+        ],
+      },
+      players,
+      [answer('a', 'o3', 0, 1000), answer('b', 'o2', 0, 2000)],
+      null,
+    );
+
+    expect(results.closestWrongAnswer).toMatchObject({
+      userId: 'user-b',
+      answer: 'Harbor Nights',
+    });
+    expect(
+      results.rankings.every((ranking) => ranking.previousRank === null),
+    ).toBe(true);
+  });
+});
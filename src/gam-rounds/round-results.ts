@@ -0,0 +1,239 @@
+import { RoundQuestionType } from '../enum/game-round.enum';
+import type { RoundOption } from './round-distractors';
+import { normalizeText, textSimilarity } from './answer-text';
+
+// Equal-width score ranges the distribution is counted in
+export const SCORE_BUCKETS = 5;
+
+export interface ResultPlayer {
+  playerId: string;
+  userId: string;
+}
+
+export interface ResultAnswer {
+  playerId: string;
+  answer: string;
+  isCorrect: boolean;
+  score: number;
+  responseTimeMs: number;
+  submittedAt: Date;
+}
+
+// The parts of a round its results are worked out from
+export interface ResultRound {
+  questionType: RoundQuestionType;
+  correctAnswers: string[];
+  options: RoundOption[];
+}
+
+export interface ScoreDistribution {
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  buckets: { from: number; to: number; count: number }[];
+}
+
+export interface PlayerRanking extends ResultPlayer {
+  roundScore: number;
+  totalScore: number;
+  rank: number;
+  // Null on the first round of the session
+  previousRank: number | null;
+  // Places moved up since the last round; negative when the player dropped
+  rankChange: number;
+}
+
+export interface RoundResultStats {
+  players: number;
+  answered: number;
+  correct: number;
+  // Share of the submitted answers that were correct
+  accuracy: number;
+  medianCorrectResponseMs: number | null;
+  fastestCorrect: (ResultPlayer & { responseTimeMs: number }) | null;
+  // Over the submitted answers only; null when nobody answered
+  scoreDistribution: ScoreDistribution | null;
+  rankings: PlayerRanking[];
+  firstToAnswer:
+    | (ResultPlayer & { responseTimeMs: number; isCorrect: boolean })
+    | null;
+  closestWrongAnswer:
+    | (ResultPlayer & { answer: string; similarity: number })
+    | null;
+}
+
+/**
+ * Statistics of a completed round. `previousTotals` holds each player's session score before the
+ * round, keyed by player id, or null when it is the first round of the session.
+ */
+export function computeRoundResults(
+  round: ResultRound,
+  players: ResultPlayer[],
+  answers: ResultAnswer[],
+  previousTotals: Record<string, number> | null,
+): RoundResultStats {
+  const userIds = new Map(
+    players.map((player) => [player.playerId, player.userId]),
+  );
+  const ref = (playerId: string): ResultPlayer => ({
+    playerId,
+    userId: userIds.get(playerId) ?? '',
+  });
+
+  const correct = answers.filter((answer) => answer.isCorrect);
+  const correctTimes = correct
+    .map((answer) => answer.responseTimeMs)
+    .sort((a, b) => a - b);
+  const fastest = [...correct].sort(
+    (a, b) => a.responseTimeMs - b.responseTimeMs,
+  )[0];
+  const first = [...answers].sort(
+    (a, b) => a.submittedAt.getTime() - b.submittedAt.getTime(),
+  )[0];
+  const closest = closestWrongAnswer(round, answers);
+
+  return {
+    players: Math.max(players.length, answers.length),
+    answered: answers.length,
+    correct: correct.length,
+    accuracy: answers.length ? correct.length / answers.length : 0,
+    medianCorrectResponseMs: median(correctTimes),
+    fastestCorrect: fastest
+      ? { ...ref(fastest.playerId), responseTimeMs: fastest.responseTimeMs }
+      : null,
+    scoreDistribution: scoreDistribution(answers.map((answer) => answer.score)),
+    rankings: rankPlayers(players, answers, previousTotals),
+    firstToAnswer: first
+      ? {
+          ...ref(first.playerId),
+          responseTimeMs: first.responseTimeMs,
+          isCorrect: first.isCorrect,
+        }
+      : null,
+    closestWrongAnswer: closest
+      ? { ...ref(closest.playerId), ...closest }
+      : null,
+  };
+}
+
+/**
+ * Competition ranking ("1, 2, 2, 4") by total score, before and after the round
+ */
+function rankPlayers(
+  players: ResultPlayer[],
+  answers: ResultAnswer[],
+  previousTotals: Record<string, number> | null,
+): PlayerRanking[] {
+  const roundScores = new Map<string, number>();
+  for (const answer of answers) {
+    roundScores.set(
+      answer.playerId,
+      (roundScores.get(answer.playerId) ?? 0) + answer.score,
+    );
+  }
+
+  const before = players.map(
+    (player) => previousTotals?.[player.playerId] ?? 0,
+  );
+  const after = players.map(
+    (player, i) => before[i] + (roundScores.get(player.playerId) ?? 0),
+  );
+  const rankOf = (totals: number[], i: number) =>
+    1 + totals.filter((total) => total > totals[i]).length;
+
+  return players
+    .map((player, i) => {
+      const rank = rankOf(after, i);
+      const previousRank = previousTotals ? rankOf(before, i) : null;
+      return {
+        ...player,
+        roundScore: roundScores.get(player.playerId) ?? 0,
+        totalScore: after[i],
+        rank,
+        previousRank,
+        rankChange: previousRank === null ? 0 : previousRank - rank,
+      };
+    })
+    .sort((a, b) => a.rank - b.rank || b.roundScore - a.roundScore);
+}
+
+function scoreDistribution(scores: number[]): ScoreDistribution | null {
+  if (scores.length === 0) {
+    return null;
+  }
+  const sorted = [...scores].sort((a, b) => a - b);
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  // The ranges start at zero, or at the lowest score when wrong answers were penalised below it
+  const start = Math.min(0, min);
+  const width = Math.max(1, Math.ceil((max - start + 1) / SCORE_BUCKETS));
+  const buckets = Array.from({ length: SCORE_BUCKETS }, (_, i) => ({
+    from: start + i * width,
+    to: start + (i + 1) * width - 1,
+    count: 0,
+  }));
+  for (const score of sorted) {
+    buckets[Math.min(SCORE_BUCKETS - 1, Math.floor((score - start) / width))]
+      .count++;
+  }
+
+  return {
+    min,
+    max,
+    mean: sorted.reduce((sum, score) => sum + score, 0) / sorted.length,
+    median: median(sorted)!,
+    buckets,
+  };
+}
+
+/**
+ * The wrong answer most like an accepted one. Multiple-choice answers are compared by option text
+ * and the words of a missing-words round as a whole.
+ */
+function closestWrongAnswer(
+  round: ResultRound,
+  answers: ResultAnswer[],
+): { playerId: string; answer: string; similarity: number } | null {
+  const optionText = new Map(
+    round.options.map((option) => [option.id, option.text]),
+  );
+  const asText = (answer: string) => optionText.get(answer) ?? answer;
+  const accepted =
+    round.questionType === RoundQuestionType.MissingWords
+      ? [round.correctAnswers.join(' ')]
+      : round.correctAnswers.map(asText);
+  const normalizedAccepted = accepted.map(normalizeText).filter(Boolean);
+  if (normalizedAccepted.length === 0) {
+    return null;
+  }
+
+  let closest: { playerId: string; answer: string; similarity: number } | null =
+    null;
+  for (const answer of answers) {
+    const text = asText(answer.answer);
+    const normalized = normalizeText(text);
+    if (answer.isCorrect || normalized === '') {
+      continue;
+    }
+    const similarity = Math.max(
+      ...normalizedAccepted.map((candidate) =>
+        textSimilarity(normalized, candidate),
+      ),
+    );
+    if (!closest || similarity > closest.similarity) {
+      closest = { playerId: answer.playerId, answer: text, similarity };
+    }
+  }
+  return closest;
+}
+
+function median(sorted: number[]): number | null {
+  if (sorted.length === 0) {
+    return null;
+  }
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
@@ -0,0 +1,107 @@
+import { ScoringProfile, ScoringRule } from '../enum/game-session.enum';
+import { ScoreInput, scoreAnswer } from './round-scoring';
+
+describe('round scoring', () => {
+  const input: ScoreInput = {
+    profile: ScoringProfile.Classic,
+    rules: [],
+    baseScore: 100,
+    isCorrect: true,
+    responseShare: 0.4,
+    difficultyMultiplier: 1,
+    hintShare: 1,
+    streak: 0,
+    firstCorrect: false,
+    lastRound: false,
+  };
+  const total = (breakdown: { points: number }[]) =>
+    breakdown.reduce((sum, entry) => sum + entry.points, 0);
+
+  it('should split a correct answer into accuracy and speed by profile', () => {
+    const classic = scoreAnswer(input);
+    const speedHeavy = scoreAnswer({
+      ...input,
+      profile: ScoringProfile.SpeedHeavy,
+    });
+    const accuracyOnly = scoreAnswer({
+      ...input,
+      profile: ScoringProfile.AccuracyOnly,
+    });
+
+    expect(
+      classic.breakdown.map(({ component, points }) => [component, points]),
+    ).toEqual([
+      ['base', 50],
+      ['speed', 30],
+    ]);
+    expect(speedHeavy.score).toBe(68);
+    expect(accuracyOnly.score).toBe(100);
+  });
+
+  it('should scale by difficulty, partial credit and hints', () => {
+    const scored = scoreAnswer({
+      ...input,
+      difficultyMultiplier: 1.5,
+      partialCredit: 0.5,
+      hintShare: 0.8,
+    });
+
+    expect(scored.score).toBe(48);
+    expect(scored.breakdown.map((entry) => entry.component)).toEqual([
+      'base',
+      'speed',
+      'difficulty',
+      'partialCredit',
+      'hints',
+    ]);
+    expect(total(scored.breakdown)).toBe(scored.score);
+  });
+
+  it('should add streak and first-correct bonuses and double the last round', () => {
+    const scored = scoreAnswer({
+      ...input,
+      rules: [
+        ScoringRule.Streak,
+        ScoringRule.FirstCorrect,
+        ScoringRule.LastRoundDouble,
+      ],
+      streak: 7,
+      firstCorrect: true,
+      lastRound: true,
+    });
+
+    expect(scored.breakdown.slice(2)).toEqual([
+      {
+        component: ScoringRule.Streak,
+        points: 50,
+        detail: '8 correct in a row',
+      },
+      {
+        component: ScoringRule.FirstCorrect,
+        points: 20,
+        detail: 'First correct answer of the round',
+      },
+      {
+        component: ScoringRule.LastRoundDouble,
+        points: 150,
+        detail: 'Last round counts double',
+      },
+    ]);
+    expect(scored.score).toBe(300);
+  });
+
+  it('should only take points off a wrong answer when the penalty rule is on', () => {
+    expect(scoreAnswer({ ...input, isCorrect: false })).toEqual({
+      score: 0,
+      breakdown: [],
+    });
+    expect(
+      scoreAnswer({
+        ...input,
+        isCorrect: false,
+        rules: [ScoringRule.WrongAnswerPenalty, ScoringRule.LastRoundDouble],
+        lastRound: true,
+      }).score,
+    ).toBe(-50);
+  });
+});
@@ -0,0 +1,129 @@
+import { ScoringProfile, ScoringRule } from '../enum/game-session.enum';
+
+// Share of the base score a correct answer earns for speed; the rest it earns for being right
+export const SPEED_SHARES: Record<ScoringProfile, number> = {
+  [ScoringProfile.Classic]: 0.5,
+  [ScoringProfile.SpeedHeavy]: 0.8,
+  [ScoringProfile.AccuracyOnly]: 0,
+};
+
+// Rule bonuses and penalties, as shares of the base score
+export const STREAK_BONUS_STEP = 0.1;
+export const STREAK_BONUS_CAP = 0.5;
+export const FIRST_CORRECT_BONUS = 0.2;
+export const WRONG_ANSWER_PENALTY = 0.25;
+
+export type ScoreComponent =
+  | 'base'
+  | 'speed'
+  | 'difficulty'
+  | 'partialCredit'
+  | 'hints'
+  | ScoringRule;
+
+export interface ScoreBreakdownEntry {
+  component: ScoreComponent;
+  points: number;
+  detail: string;
+}
+
+export interface ScoreInput {
+  profile: ScoringProfile;
+  rules: ScoringRule[];
+  baseScore: number;
+  isCorrect: boolean;
+  // How far into the round the answer came, from 0 to 1
+  responseShare: number;
+  difficultyMultiplier: number;
+  partialCredit?: number;
+  // From hintScoreShare: what the hints left of the maximum score
+  hintShare: number;
+  // Correct answers the player gave in a row in the rounds before this one
+  streak: number;
+  // No earlier answer in the round was correct
+  firstCorrect: boolean;
+  lastRound: boolean;
+}
+
+export interface ScoredAnswer {
+  score: number;
+  // The score is the sum of the points of every entry
+  breakdown: ScoreBreakdownEntry[];
+}
+
+/**
+ * Score an answer under the session's profile and rules, saying what each part was worth
+ */
+export function scoreAnswer(input: ScoreInput): ScoredAnswer {
+  const breakdown: ScoreBreakdownEntry[] = [];
+  let score = 0;
+  // Each step scales or adds to the running score; the entry records the difference it made
+  const apply = (component: ScoreComponent, next: number, detail: string) => {
+    const points = Math.round(next) - score;
+    if (points !== 0) {
+      breakdown.push({ component, points, detail });
+    }
+    score += points;
+  };
+
+  if (input.isCorrect) {
+    const speedShare = SPEED_SHARES[input.profile];
+    const speedFactor = Math.min(1, Math.max(0, 1 - input.responseShare));
+    apply('base', input.baseScore * (1 - speedShare), 'Correct answer');
+    apply(
+      'speed',
+      input.baseScore * (1 - speedShare + speedShare * speedFactor),
+      `Answered ${Math.round(speedFactor * 100)}% of the round early`,
+    );
+    if (input.difficultyMultiplier) {
+      apply(
+        'difficulty',
+        score * input.difficultyMultiplier,
+        `Song difficulty x${input.difficultyMultiplier}`,
+      );
+    }
+    if (input.partialCredit) {
+      apply(
+        'partialCredit',
+        score * input.partialCredit,
+        `${Math.round(input.partialCredit * 100)}% of the answer right`,
+      );
+    }
+    apply(
+      'hints',
+      score * input.hintShare,
+      `Hints left ${Math.round(input.hintShare * 100)}% of the score`,
+    );
+
+    if (input.rules.includes(ScoringRule.Streak) && input.streak > 0) {
+      const share = Math.min(
+        STREAK_BONUS_CAP,
+        STREAK_BONUS_STEP * input.streak,
+      );
+      apply(
+        ScoringRule.Streak,
+        score + input.baseScore * share,
+        `${input.streak + 1} correct in a row`,
+      );
+    }
+    if (input.rules.includes(ScoringRule.FirstCorrect) && input.firstCorrect) {
+      apply(
+        ScoringRule.FirstCorrect,
+        score + input.baseScore * FIRST_CORRECT_BONUS,
+        'First correct answer of the round',
+      );
+    }
+  } else if (input.rules.includes(ScoringRule.WrongAnswerPenalty)) {
+    apply(
+      ScoringRule.WrongAnswerPenalty,
+      -input.baseScore * WRONG_ANSWER_PENALTY,
+      'Wrong answer',
+    );
+  }
+
+  if (input.rules.includes(ScoringRule.LastRoundDouble) && input.lastRound) {
+    apply(ScoringRule.LastRoundDouble, score * 2, 'Last round counts double');
+  }
+
+  return { score, breakdown };
+}
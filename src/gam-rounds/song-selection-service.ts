@@ -0,0 +1,161 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Model, Types } from 'mongoose';
+import { GameRound, GameRoundDocument } from './game-round-schema';
+import { GameSessionDocument, GameSessionSettings } from '../schemas/game-session.schema';
+import { lyric, lyricDocument } from '../schemas/lyric.schema';
+import { Player, PlayerDocument } from '../player/schemas/player.schema';
+import { SessionDifficulty } from '../enum/game-session.enum';
+import { SongPoolRelaxation } from '../enum/game-round.enum';
+import { difficultyLevel } from '../lyrics/lyric-difficulty';
+import { RECENT_GAMES, SongSelectionReport, pickSong, songsSeenByMajority } from './song-selection';
+import { GameRoundSongPoolLowEvent } from './game-round-events';
+
+// Songs drawn from per pick; the recently seen ones among them are down-weighted
+const SELECTION_SAMPLE = 50;
+
+// How far from an adaptive session's target a song's difficulty score may be
+const ADAPTIVE_SCORE_WINDOW = 0.1;
+
+/**
+ * Picks the song of a round that was created without one. Songs already played in the session
+ * are left out and songs most of the room saw in their recent games rarely come up. When the
+ * session settings leave no song, the filters are dropped one by one and the host is told.
+ */
+@Injectable()
+export class SongSelectionService {
+  private readonly logger = new Logger(SongSelectionService.name);
+
+  constructor(
+    @InjectModel(GameRound.name) private gameRoundModel: Model<GameRoundDocument>,
+    @InjectModel(lyric.name) private lyricModel: Model<lyricDocument>,
+    @InjectModel(Player.name) private playerModel: Model<PlayerDocument>,
+    private eventEmitter: EventEmitter2
+  ) {}
+
+  /**
+   * A song for the next round of the session, in its genres and decades and rated at its
+   * difficulty. Adaptive sessions look for songs close to their target score first.
+   */
+  async selectSong(
+    session: GameSessionDocument,
+    settings: GameSessionSettings,
+    target: number | null
+  ): Promise<{ song: lyricDocument; report: SongSelectionReport }> {
+    const [playedSongIds, roundsPlayed] = await Promise.all([
+      this.gameRoundModel.distinct('songId', { sessionId: session._id }).exec(),
+      this.gameRoundModel.countDocuments({ sessionId: session._id }).exec()
+    ]);
+    const withLyrics: Record<string, any> = { 'lyrics.content': { $exists: true, $ne: '' } };
+    const unplayed = { _id: { $nin: playedSongIds } };
+    const inCategories: Record<string, any> = { ...withLyrics, ...unplayed };
+    if (settings.genres.length > 0) {
+      inCategories.genre = { $in: settings.genres };
+    }
+    if (settings.decades.length > 0) {
+      inCategories.decade = { $in: settings.decades };
+    }
+
+    const tiers: { filter: Record<string, any>; relaxed: SongPoolRelaxation[] }[] = [];
+    if (target !== null) {
+      tiers.push({
+        filter: {
+          ...inCategories,
+          'difficulty.score': { $gte: target - ADAPTIVE_SCORE_WINDOW, $lte: target + ADAPTIVE_SCORE_WINDOW }
+        },
+        relaxed: []
+      });
+      tiers.push({ filter: { ...inCategories, 'difficulty.level': difficultyLevel(target) }, relaxed: [] });
+    } else if (settings.difficulty !== SessionDifficulty.Mixed) {
+      tiers.push({ filter: { ...inCategories, 'difficulty.level': settings.difficulty }, relaxed: [] });
+    }
+    const anyDifficulty = tiers.length > 0 ? [SongPoolRelaxation.Difficulty] : [];
+    tiers.push(
+      { filter: inCategories, relaxed: anyDifficulty },
+      { filter: { ...withLyrics, ...unplayed }, relaxed: [...anyDifficulty, SongPoolRelaxation.Categories] },
+      {
+        filter: withLyrics,
+        relaxed: [...anyDifficulty, SongPoolRelaxation.Categories, SongPoolRelaxation.SessionRepeats]
+      }
+    );
+
+    const [poolSize, recentlySeen] = await Promise.all([
+      this.lyricModel.countDocuments(inCategories).exec(),
+      this.findRecentlySeenSongs(session)
+    ]);
+
+    for (const { filter, relaxed } of tiers) {
+      const sample: { _id: Types.ObjectId }[] = await this.lyricModel.aggregate([
+        { $match: filter },
+        { $sample: { size: SELECTION_SAMPLE } },
+        { $project: { _id: 1 } }
+      ]).exec();
+      if (sample.length === 0) {
+        continue;
+      }
+
+      const songId = pickSong(sample.map((candidate) => String(candidate._id)), recentlySeen);
+      const song = await this.lyricModel.findById(songId).exec();
+      if (!song) {
+        continue;
+      }
+
+      const report: SongSelectionReport = {
+        poolSize,
+        roundsLeft: Math.max(1, settings.roundCount - roundsPlayed),
+        relaxed,
+        recentlySeen: sample.filter((candidate) => recentlySeen.has(String(candidate._id))).length,
+        pickedRecentlySeen: recentlySeen.has(songId)
+      };
+      // Too narrow settings: the host is told so they can widen them
+      if (report.poolSize < report.roundsLeft) {
+        this.logger.warn(`Session ${session.id} has ${poolSize} songs left for ${report.roundsLeft} rounds`);
+        this.eventEmitter.emit(
+          'gameRound.songPoolLow',
+          new GameRoundSongPoolLowEvent(String(session._id), session.host, report)
+        );
+      }
+      return { song, report };
+    }
+
+    throw new BadRequestException('There are no songs with lyrics to pick from');
+  }
+
+  /**
+   * Songs most current players of the session saw in their last few games, from their answers
+   */
+  private async findRecentlySeenSongs(session: GameSessionDocument): Promise<Set<string>> {
+    const userIds = session.players
+      .filter((userId) => Types.ObjectId.isValid(userId))
+      .map((userId) => new Types.ObjectId(userId));
+    if (userIds.length === 0) {
+      return new Set();
+    }
+
+    const history: { _id: Types.ObjectId; games: Types.ObjectId[][] }[] = await this.playerModel.aggregate([
+      { $match: { userId: { $in: userIds }, sessionId: { $ne: session._id } } },
+      { $sort: { joinedAt: -1 } },
+      { $group: { _id: '$userId', games: { $push: '$answers.questionId' } } },
+      { $project: { games: { $slice: ['$games', RECENT_GAMES] } } }
+    ]).exec();
+
+    const roundIds = history.flatMap((player) => player.games.flat());
+    const rounds = await this.gameRoundModel
+      .find({ _id: { $in: roundIds } }, { songId: 1 })
+      .lean()
+      .exec();
+    const songOfRound = new Map(rounds.map((round) => [String(round._id), String(round.songId)]));
+
+    return songsSeenByMajority(
+      history.map((player) => ({
+        userId: String(player._id),
+        songIds: player.games
+          .flat()
+          .map((roundId) => songOfRound.get(String(roundId)))
+          .filter((songId): songId is string => Boolean(songId))
+      })),
+      session.players.length
+    );
+  }
+}
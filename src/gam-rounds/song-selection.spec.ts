@@ -0,0 +1,42 @@
+import { pickSong, songsSeenByMajority } from './song-selection';
+
+describe('song selection', () => {
+  it('should only count songs more than half of the room saw', () => {
+    const seen = songsSeenByMajority(
+      [
+        { userId: 'a', songIds: ['s1', 's2', 's1'] },
+        { userId: 'b', songIds: ['s1', 's3'] },
+        { userId: 'c', songIds: ['s2'] },
+      ],
+      4,
+    );
+
+    expect([...seen]).toEqual([]);
+    expect([
+      ...songsSeenByMajority(
+        [
+          { userId: 'a', songIds: ['s1', 's2'] },
+          { userId: 'b', songIds: ['s1'] },
+        ],
+        3,
+      ),
+    ]).toEqual(['s1']);
+  });
+
+  it('should rarely pick a song the room saw recently', () => {
+    const recentlySeen = new Set(['seen']);
+    let picks = 0;
+    for (let draw = 0; draw < 1; draw += 0.01) {
+      if (pickSong(['seen', 'fresh'], recentlySeen, () => draw) === 'seen') {
+        picks++;
+      }
+    }
+
+    expect(picks).toBeGreaterThan(0);
+    expect(picks).toBeLessThan(15);
+  });
+
+  it('should still pick from songs the room all saw when nothing else is left', () => {
+    expect(pickSong(['seen'], new Set(['seen']), () => 0.99)).toBe('seen');
+  });
+});
@@ -0,0 +1,62 @@
+import { SongPoolRelaxation } from '../enum/game-round.enum';
+
+// Games of each player's history that count as recent
+export const RECENT_GAMES = 5;
+
+// Chance of a song most of the room saw recently, relative to a song they did not
+export const RECENTLY_SEEN_WEIGHT = 0.1;
+
+/**
+ * How a round's song was picked; stored in the round metadata and sent to the host when
+ * the settings leave too few songs
+ */
+export interface SongSelectionReport {
+  // Songs matching the session genres and decades not yet played in the session
+  poolSize: number;
+  roundsLeft: number;
+  relaxed: SongPoolRelaxation[];
+  // Songs drawn from that most current players saw in their recent games
+  recentlySeen: number;
+  pickedRecentlySeen: boolean;
+}
+
+/**
+ * Songs more than half of the players saw in their recent games
+ */
+export function songsSeenByMajority(
+  history: { userId: string; songIds: string[] }[],
+  playerCount: number,
+): Set<string> {
+  const seenBy = new Map<string, Set<string>>();
+  for (const { userId, songIds } of history) {
+    for (const songId of songIds) {
+      seenBy.set(songId, (seenBy.get(songId) ?? new Set()).add(userId));
+    }
+  }
+  return new Set(
+    [...seenBy.entries()]
+      .filter(([, users]) => users.size > playerCount / 2)
+      .map(([songId]) => songId),
+  );
+}
+
+/**
+ * Draw one candidate, with songs the room saw recently far less likely than the rest
+ */
+export function pickSong(
+  candidates: string[],
+  recentlySeen: Set<string>,
+  random: () => number = Math.random,
+): string {
+  const weights = candidates.map((songId) =>
+    recentlySeen.has(songId) ? RECENTLY_SEEN_WEIGHT : 1,
+  );
+  let draw = random() * weights.reduce((sum, weight) => sum + weight, 0);
+  for (let i = 0; i < candidates.length; i++) {
+    draw -= weights[i];
+    if (draw < 0) {
+      return candidates[i];
+    }
+  }
+  return candidates[candidates.length - 1];
+}
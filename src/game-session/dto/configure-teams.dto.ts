@@ -0,0 +1,37 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { GAME_SESSION_SETTINGS_LIMITS as LIMITS } from '../game-session-settings';
+
+export class SessionTeamDto {
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(32)
+  name: string;
+}
+
+export class ConfigureTeamsDto {
+  @IsArray()
+  @ArrayMinSize(LIMITS.teams.min)
+  @ArrayMaxSize(LIMITS.teams.max)
+  @ValidateNested({ each: true })
+  @Type(() => SessionTeamDto)
+  teams: SessionTeamDto[];
+
+  @IsOptional()
+  @IsBoolean()
+  firstCorrectOnly?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  captainsAnswer?: boolean;
+}
@@ -1,4 +1,15 @@
-import { IsNotEmpty, IsString, IsOptional, IsObject, IsArray } from 'class-validator';
+import {
+  IsNotEmpty,
+  IsString,
+  IsOptional,
+  IsArray,
+  ValidateNested,
+  IsEnum,
+  Length,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { GameSessionSettingsDto } from './game-session-settings.dto';
+import { SessionVisibility } from '../../enum/game-session.enum';
 
 export class CreateGameSessionDto {
   @IsNotEmpty()
@@ -14,6 +25,16 @@ export class CreateGameSessionDto {
   players?: string[];
 
   @IsOptional()
-  @IsObject()
-  settings?: Record<string, any>;
+  @ValidateNested()
+  @Type(() => GameSessionSettingsDto)
+  settings?: GameSessionSettingsDto;
+
+  @IsOptional()
+  @IsEnum(SessionVisibility)
+  visibility?: SessionVisibility;
+
+  @IsOptional()
+  @IsString()
+  @Length(4, 32)
+  passcode?: string;
 }
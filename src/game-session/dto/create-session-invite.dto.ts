@@ -0,0 +1,15 @@
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export class CreateSessionInviteDto {
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(7 * 24 * 60)
+  expiresInMinutes?: number = 24 * 60;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  maxUses?: number;
+}
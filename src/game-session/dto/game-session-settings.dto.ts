@@ -0,0 +1,141 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsMongoId,
+  IsNumber,
+  IsOptional,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  AnswerMode,
+  ScoringProfile,
+  ScoringRule,
+  SessionDifficulty,
+} from '../../enum/game-session.enum';
+import { Decade, Genre } from '../../enum/lyric.enum';
+import { HintType } from '../../enum/game-round.enum';
+import {
+  ADAPTIVE_DIFFICULTY_LEVELS,
+  GAME_SESSION_SETTINGS_LIMITS as LIMITS,
+  GAME_SESSION_SETTINGS_VERSION,
+} from '../game-session-settings';
+
+// Every kind of hint needs a cost so a partial object cannot leave one free
+export class HintCostsDto implements Record<HintType, number> {
+  @IsNumber()
+  @Min(LIMITS.hintCost.min)
+  @Max(LIMITS.hintCost.max)
+  extraLine: number;
+
+  @IsNumber()
+  @Min(LIMITS.hintCost.min)
+  @Max(LIMITS.hintCost.max)
+  firstLetter: number;
+
+  @IsNumber()
+  @Min(LIMITS.hintCost.min)
+  @Max(LIMITS.hintCost.max)
+  decade: number;
+
+  @IsNumber()
+  @Min(LIMITS.hintCost.min)
+  @Max(LIMITS.hintCost.max)
+  artistInitial: number;
+}
+
+export class GameSessionSettingsDto {
+  @IsOptional()
+  @IsIn([GAME_SESSION_SETTINGS_VERSION])
+  version?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(LIMITS.roundCount.min)
+  @Max(LIMITS.roundCount.max)
+  roundCount?: number;
+
+  @IsOptional()
+  @IsArray()
+  @IsMongoId({ each: true })
+  categories?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsEnum(Genre, { each: true })
+  genres?: Genre[];
+
+  @IsOptional()
+  @IsArray()
+  @IsEnum(Decade, { each: true })
+  decades?: Decade[];
+
+  @IsOptional()
+  @IsEnum(SessionDifficulty)
+  difficulty?: SessionDifficulty;
+
+  @IsOptional()
+  @IsInt()
+  @Min(LIMITS.secondsPerRound.min)
+  @Max(LIMITS.secondsPerRound.max)
+  secondsPerRound?: number;
+
+  @IsOptional()
+  @IsEnum(AnswerMode)
+  answerMode?: AnswerMode;
+
+  @IsOptional()
+  @IsInt()
+  @Min(LIMITS.maxPlayers.min)
+  @Max(LIMITS.maxPlayers.max)
+  maxPlayers?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(LIMITS.wagerAmount.min)
+  @Max(LIMITS.wagerAmount.max)
+  wagerAmount?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  adaptiveDifficulty?: boolean;
+
+  @IsOptional()
+  @IsIn(ADAPTIVE_DIFFICULTY_LEVELS)
+  minDifficulty?: SessionDifficulty;
+
+  @IsOptional()
+  @IsIn(ADAPTIVE_DIFFICULTY_LEVELS)
+  maxDifficulty?: SessionDifficulty;
+
+  @IsOptional()
+  @IsInt()
+  @Min(LIMITS.hintsPerRound.min)
+  @Max(LIMITS.hintsPerRound.max)
+  hintsPerRound?: number;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => HintCostsDto)
+  hintCosts?: HintCostsDto;
+
+  @IsOptional()
+  @IsEnum(ScoringProfile)
+  scoringProfile?: ScoringProfile;
+
+  @IsOptional()
+  @IsArray()
+  @IsEnum(ScoringRule, { each: true })
+  scoringRules?: ScoringRule[];
+
+  @IsOptional()
+  @IsInt()
+  @Min(LIMITS.disputeWindowMinutes.min)
+  @Max(LIMITS.disputeWindowMinutes.max)
+  disputeWindowMinutes?: number;
+}
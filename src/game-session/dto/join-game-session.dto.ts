@@ -0,0 +1,18 @@
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class JoinGameSessionDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(32)
+  passcode?: string;
+
+  @IsOptional()
+  @IsString()
+  inviteToken?: string;
+}
+
+export class JoinByInviteDto {
+  @IsNotEmpty()
+  @IsString()
+  inviteToken: string;
+}
@@ -1,4 +1,7 @@
-import { IsArray, IsObject, IsOptional, IsString } from "class-validator";
+import { IsEnum, IsOptional, IsString, Length, ValidateNested } from "class-validator";
+import { Type } from "class-transformer";
+import { GameSessionSettingsDto } from "./game-session-settings.dto";
+import { SessionVisibility } from "../../enum/game-session.enum";
 
 export class UpdateGameSessionDto {
     @IsOptional()
@@ -6,10 +9,16 @@ export class UpdateGameSessionDto {
     name?: string;
   
     @IsOptional()
-    @IsArray()
-    players?: string[];
-  
+    @ValidateNested()
+    @Type(() => GameSessionSettingsDto)
+    settings?: GameSessionSettingsDto;
+
     @IsOptional()
-    @IsObject()
-    settings?: Record<string, any>;
+    @IsEnum(SessionVisibility)
+    visibility?: SessionVisibility;
+
+    @IsOptional()
+    @IsString()
+    @Length(4, 32)
+    passcode?: string;
   }
\ No newline at end of file
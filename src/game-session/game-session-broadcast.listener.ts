@@ -0,0 +1,274 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { Types } from 'mongoose';
+import { GameSessionGateway } from './game-session.gateway';
+import { GameSessionService } from './game-session.service';
+import {
+  GameSessionHostChangedEvent,
+  GameSessionRematchCreatedEvent,
+  GameSessionRematchExpiredEvent,
+  GameSessionRematchRespondedEvent,
+  GameSessionTeamsConfiguredEvent,
+} from './game-session.events';
+import { GameSession } from '../schemas/game-session.schema';
+import { PlayerStatus } from '../player/schemas/player.schema';
+import { TeamLeaderboardEntryDto } from '../player/dto/player-response.dto';
+import {
+  GameRoundEndedEvent,
+  GameRoundFinalSecondsEvent,
+  GameRoundHintUsedEvent,
+  GameRoundResultsReadyEvent,
+  GameRoundSongPoolLowEvent,
+  GameRoundTickEvent,
+} from '../gam-rounds/game-round-events';
+
+/**
+ * Pushes session and round changes to the players' sockets
+ */
+@Injectable()
+export class GameSessionBroadcastListener {
+  private readonly logger = new Logger(GameSessionBroadcastListener.name);
+
+  constructor(
+    private readonly gameSessionGateway: GameSessionGateway,
+    private readonly gameSessionService: GameSessionService,
+  ) {}
+
+  @OnEvent('player.joined')
+  @OnEvent('player.rejoined')
+  handlePlayerJoined(event: { sessionId: string; userId: string }) {
+    this.gameSessionGateway.joinSession(
+      event.userId.toString(),
+      event.sessionId.toString(),
+    );
+  }
+
+  @OnEvent('player.status.updated')
+  handlePlayerStatusUpdated(event: {
+    sessionId: Types.ObjectId;
+    userId: Types.ObjectId;
+    status: PlayerStatus;
+  }) {
+    if (event.status === PlayerStatus.LEFT) {
+      this.gameSessionGateway.leaveSession(
+        event.userId.toString(),
+        event.sessionId.toString(),
+      );
+    }
+  }
+
+  @OnEvent('gameSession.hostChanged')
+  handleHostChanged(event: GameSessionHostChangedEvent) {
+    const { session, previousHost, reason } = event;
+    this.logger.log(
+      `Host of session ${session.id} changed from ${previousHost} to ${session.host} (${reason})`,
+    );
+
+    this.gameSessionGateway.sendToSession(
+      session._id.toString(),
+      'host.changed',
+      {
+        sessionId: session.id,
+        hostId: session.host,
+        previousHostId: previousHost,
+        reason,
+      },
+    );
+  }
+
+  @OnEvent('gameSession.rematchCreated')
+  async handleRematchCreated(event: GameSessionRematchCreatedEvent) {
+    const { previousSession, rematch, requestedBy } = event;
+    this.logger.log(
+      `Rematch ${rematch.id} of session ${previousSession.id} requested by ${requestedBy}`,
+    );
+
+    // Everyone who played the previous session is invited; the reaper drops whoever misses the deadline
+    const invitees = [
+      ...new Set([previousSession.host, ...previousSession.players]),
+    ].filter((userId) => userId !== requestedBy);
+    try {
+      await this.gameSessionService.addRematchInvites(rematch.id, invitees);
+    } catch (error: any) {
+      this.logger.error(
+        `Failed to invite players to rematch ${rematch.id}: ${error?.message}`,
+        error?.stack,
+      );
+      return;
+    }
+
+    for (const userId of invitees) {
+      this.gameSessionGateway.sendToPlayer(userId, 'rematch.invited', {
+        previousSessionId: previousSession.id,
+        sessionId: rematch.id,
+        requestedBy,
+        deadline: rematch.rematchDeadline,
+      });
+    }
+  }
+
+  @OnEvent('gameSession.rematchResponded')
+  handleRematchResponded(event: GameSessionRematchRespondedEvent) {
+    this.logger.log(
+      `Player ${event.userId} ${event.accepted ? 'accepted' : 'declined'} rematch ${event.rematch.id}`,
+    );
+
+    this.sendToRematchInvitees(event.rematch, 'rematch.responded', {
+      sessionId: event.rematch.id,
+      userId: event.userId,
+      accepted: event.accepted,
+    });
+  }
+
+  @OnEvent('gameSession.rematchExpired')
+  handleRematchExpired(event: GameSessionRematchExpiredEvent) {
+    this.logger.log(
+      `Dropped ${event.droppedUserIds.length} players who did not answer rematch ${event.rematch.id}`,
+    );
+
+    this.sendToRematchInvitees(event.rematch, 'rematch.dropped', {
+      sessionId: event.rematch.id,
+      droppedUserIds: event.droppedUserIds,
+    });
+  }
+
+  @OnEvent('gameSession.teamsConfigured')
+  handleTeamsConfigured(event: GameSessionTeamsConfiguredEvent) {
+    const { session } = event;
+    this.logger.log(
+      `Session ${session.id} now has ${session.teams.length} teams`,
+    );
+
+    this.gameSessionGateway.sendToSession(
+      session._id.toString(),
+      'teams.updated',
+      {
+        sessionId: session.id,
+        teams: session.teams,
+        teamRules: session.teamRules,
+      },
+    );
+  }
+
+  @OnEvent('player.team.changed')
+  handlePlayerTeamChanged(event: {
+    playerId: Types.ObjectId;
+    sessionId: Types.ObjectId;
+    userId: Types.ObjectId;
+    teamId: string;
+    previousTeamId: string | null;
+    isCaptain: boolean;
+  }) {
+    this.gameSessionGateway.sendToSession(
+      event.sessionId.toString(),
+      'team.changed',
+      {
+        playerId: event.playerId.toString(),
+        userId: event.userId.toString(),
+        teamId: event.teamId,
+        previousTeamId: event.previousTeamId,
+        isCaptain: event.isCaptain,
+      },
+    );
+  }
+
+  @OnEvent('session.leaderboard.updated')
+  handleLeaderboardUpdated(event: {
+    sessionId: string;
+    players: any[];
+    teams: TeamLeaderboardEntryDto[];
+  }) {
+    this.gameSessionGateway.sendToSession(event.sessionId, 'leaderboard', {
+      players: event.players,
+    });
+
+    // Free-for-all sessions have no team standings to send
+    if (event.teams.length > 0) {
+      this.gameSessionGateway.sendToSession(
+        event.sessionId,
+        'teamLeaderboard',
+        { teams: event.teams },
+      );
+    }
+  }
+
+  @OnEvent('gameRound.tick')
+  handleRoundTick(event: GameRoundTickEvent) {
+    this.gameSessionGateway.sendToSession(event.sessionId, 'round.tick', {
+      roundId: event.roundId,
+      remainingSeconds: event.remainingSeconds,
+      deadline: event.deadline,
+    });
+  }
+
+  @OnEvent('gameRound.finalSeconds')
+  handleRoundFinalSeconds(event: GameRoundFinalSecondsEvent) {
+    this.gameSessionGateway.sendToSession(
+      event.sessionId,
+      'round.finalSeconds',
+      {
+        roundId: event.roundId,
+        remainingSeconds: event.remainingSeconds,
+        deadline: event.deadline,
+      },
+    );
+  }
+
+  @OnEvent('gameRound.ended')
+  handleRoundEnded(event: GameRoundEndedEvent) {
+    const { round } = event;
+
+    this.gameSessionGateway.sendToSession(
+      round.sessionId.toString(),
+      'round.ended',
+      {
+        roundId: round.roundId,
+        endTime: round.endTime,
+        timedOut: event.timedOut,
+      },
+    );
+  }
+
+  @OnEvent('gameRound.songPoolLow')
+  handleSongPoolLow(event: GameRoundSongPoolLowEvent) {
+    // Only the host can widen the settings, so only they hear about it
+    this.gameSessionGateway.sendToPlayer(event.hostId, 'round.songPoolLow', {
+      sessionId: event.sessionId,
+      ...event.report,
+    });
+  }
+
+  @OnEvent('gameRound.resultsReady')
+  handleRoundResultsReady(event: GameRoundResultsReadyEvent) {
+    // Everything the results screen shows, so clients do not have to fetch it
+    this.gameSessionGateway.sendToSession(
+      event.sessionId,
+      'round.results',
+      event.result,
+    );
+  }
+
+  @OnEvent('gameRound.hintUsed')
+  handleHintUsed(event: GameRoundHintUsedEvent) {
+    // What the hint revealed stays with the player who took it
+    this.gameSessionGateway.sendToSession(event.sessionId, 'round.hintUsed', {
+      roundId: event.roundId,
+      userId: event.userId,
+      hintType: event.hintType,
+      hintsLeft: event.hintsLeft,
+    });
+  }
+
+  /**
+   * Rematch invitees are not in a shared socket room yet, so message each of them
+   */
+  private sendToRematchInvitees(
+    rematch: GameSession,
+    event: string,
+    data: any,
+  ) {
+    for (const invite of rematch.rematchInvites) {
+      this.gameSessionGateway.sendToPlayer(invite.userId, event, data);
+    }
+  }
+}
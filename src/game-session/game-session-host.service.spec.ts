@@ -0,0 +1,128 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  GameSessionHostService,
+  HOST_MIGRATION_GRACE_MS,
+} from './game-session-host.service';
+import { GameSessionService } from './game-session.service';
+import { PlayerService } from '../player/services/player.service';
+import { PlayerStatus } from '../player/schemas/player.schema';
+
+describe('GameSessionHostService', () => {
+  let hostService: GameSessionHostService;
+  let gameSessionService: Record<string, jest.Mock>;
+  let playerService: { findHostSuccessor: jest.Mock };
+
+  const mockSession = (id: string, host: string) => ({
+    _id: `oid-${id}`,
+    id,
+    host,
+  });
+
+  beforeEach(async () => {
+    gameSessionService = {
+      findByDocumentId: jest.fn().mockResolvedValue(null),
+      findSessionsWithAbsentHost: jest.fn().mockResolvedValue([]),
+      migrateHost: jest.fn().mockResolvedValue({}),
+      markHostDisconnected: jest.fn().mockResolvedValue(undefined),
+      markHostReconnected: jest.fn().mockResolvedValue(undefined),
+    };
+    playerService = {
+      findHostSuccessor: jest.fn().mockResolvedValue('player-1'),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GameSessionHostService,
+        { provide: GameSessionService, useValue: gameSessionService },
+        { provide: PlayerService, useValue: playerService },
+      ],
+    }).compile();
+
+    hostService = module.get<GameSessionHostService>(GameSessionHostService);
+  });
+
+  it('should hand the role on as soon as the host leaves', async () => {
+    gameSessionService.findByDocumentId.mockResolvedValue(
+      mockSession('session-1', 'host-1'),
+    );
+
+    await hostService.handlePlayerStatusUpdated({
+      sessionId: 'oid-session-1',
+      userId: 'host-1',
+      status: PlayerStatus.LEFT,
+    });
+
+    expect(playerService.findHostSuccessor).toHaveBeenCalledWith(
+      'oid-session-1',
+      'host-1',
+    );
+    expect(gameSessionService.migrateHost).toHaveBeenCalledWith(
+      'session-1',
+      'host-1',
+      'player-1',
+    );
+  });
+
+  it('should leave the host alone when another player leaves', async () => {
+    gameSessionService.findByDocumentId.mockResolvedValue(
+      mockSession('session-1', 'host-1'),
+    );
+
+    await hostService.handlePlayerStatusUpdated({
+      sessionId: 'oid-session-1',
+      userId: 'player-2',
+      status: PlayerStatus.LEFT,
+    });
+    await hostService.handlePlayerStatusUpdated({
+      sessionId: 'oid-session-1',
+      userId: 'host-1',
+      status: PlayerStatus.READY,
+    });
+
+    expect(gameSessionService.migrateHost).not.toHaveBeenCalled();
+  });
+
+  it('should migrate hosts who stayed away past the grace period', async () => {
+    gameSessionService.findSessionsWithAbsentHost.mockResolvedValue([
+      mockSession('session-1', 'host-1'),
+    ]);
+    const before = Date.now();
+
+    const migrated = await hostService.migrateAbsentHosts();
+
+    expect(migrated).toBe(1);
+    const [disconnectedBefore] =
+      gameSessionService.findSessionsWithAbsentHost.mock.calls[0];
+    expect(disconnectedBefore.getTime()).toBeLessThanOrEqual(
+      Date.now() - HOST_MIGRATION_GRACE_MS,
+    );
+    expect(disconnectedBefore.getTime()).toBeGreaterThanOrEqual(
+      before - HOST_MIGRATION_GRACE_MS,
+    );
+    expect(gameSessionService.migrateHost).toHaveBeenCalledWith(
+      'session-1',
+      'host-1',
+      'player-1',
+    );
+  });
+
+  it('should keep the host when nobody is left to take over', async () => {
+    gameSessionService.findSessionsWithAbsentHost.mockResolvedValue([
+      mockSession('alone', 'host-1'),
+      mockSession('session-2', 'host-2'),
+    ]);
+    playerService.findHostSuccessor
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce('player-3');
+
+    const migrated = await hostService.migrateAbsentHosts();
+
+    expect(migrated).toBe(1);
+    expect(gameSessionService.migrateHost).toHaveBeenCalledTimes(1);
+    expect(gameSessionService.migrateHost).toHaveBeenCalledWith(
+      'session-2',
+      'host-2',
+      'player-3',
+    );
+  });
+});
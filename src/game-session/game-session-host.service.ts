@@ -0,0 +1,130 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Types } from 'mongoose';
+import { GameSessionService } from './game-session.service';
+import { PlayerService } from '../player/services/player.service';
+import { PlayerStatus } from '../player/schemas/player.schema';
+import { GameSessionDocument } from '../schemas/game-session.schema';
+
+// How long a disconnected host has to come back before the role moves to another player
+export const HOST_MIGRATION_GRACE_MS = 30 * 1000;
+
+const MIGRATION_BATCH_SIZE = 100;
+
+/**
+ * Hands the host role to the longest-standing player when the host leaves a live session,
+ * or stays disconnected past the grace period. Disconnects are kept on the session, so a
+ * restart does not lose a pending migration.
+ */
+@Injectable()
+export class GameSessionHostService {
+  private readonly logger = new Logger(GameSessionHostService.name);
+  private running = false;
+
+  constructor(
+    private readonly gameSessionService: GameSessionService,
+    private readonly playerService: PlayerService,
+  ) {}
+
+  /**
+   * Called by the gateway once the user's last socket is gone
+   */
+  async hostDisconnected(userId: string): Promise<void> {
+    await this.gameSessionService.markHostDisconnected(userId);
+  }
+
+  /**
+   * Called by the gateway whenever the user connects
+   */
+  async hostReconnected(userId: string): Promise<void> {
+    await this.gameSessionService.markHostReconnected(userId);
+  }
+
+  @OnEvent('player.status.updated')
+  async handlePlayerStatusUpdated(event: {
+    sessionId: Types.ObjectId | string;
+    userId: Types.ObjectId | string;
+    status: PlayerStatus;
+  }): Promise<void> {
+    if (event.status !== PlayerStatus.LEFT) {
+      return;
+    }
+
+    // A host who leaves on purpose is not coming back, so hand the role on right away
+    try {
+      const session = await this.gameSessionService.findByDocumentId(
+        event.sessionId.toString(),
+      );
+      if (session && session.host === event.userId.toString()) {
+        await this.migrate(session);
+      }
+    } catch (error: any) {
+      this.logger.error(
+        `Host migration failed for session ${event.sessionId}: ${error?.message}`,
+        error?.stack,
+      );
+    }
+  }
+
+  @Cron(CronExpression.EVERY_10_SECONDS)
+  async migrateAbsentHosts(): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+    this.running = true;
+
+    try {
+      const sessions = await this.gameSessionService.findSessionsWithAbsentHost(
+        new Date(Date.now() - HOST_MIGRATION_GRACE_MS),
+        MIGRATION_BATCH_SIZE,
+      );
+
+      let migrated = 0;
+      for (const session of sessions) {
+        try {
+          if (await this.migrate(session)) {
+            migrated++;
+          }
+        } catch (error: any) {
+          // Picked up again next run while the host is still away
+          this.logger.warn(
+            `Could not migrate the host of session ${session.id}: ${error?.message}`,
+          );
+        }
+      }
+      return migrated;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Helper method to move the role off the current host; false if nobody can take it or it already moved
+   */
+  private async migrate(session: GameSessionDocument): Promise<boolean> {
+    const departedUserId = session.host;
+    const newHostId = await this.playerService.findHostSuccessor(
+      String(session._id),
+      departedUserId,
+    );
+    if (!newHostId) {
+      this.logger.debug(
+        `No player left to take over as host of session ${session.id}`,
+      );
+      return false;
+    }
+
+    const updated = await this.gameSessionService.migrateHost(
+      session.id,
+      departedUserId,
+      newHostId,
+    );
+    if (updated) {
+      this.logger.log(
+        `Host of session ${session.id} moved from ${departedUserId} to ${newHostId}`,
+      );
+    }
+    return !!updated;
+  }
+}
@@ -0,0 +1,71 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { ForbiddenException } from '@nestjs/common';
+import { GameSessionInviteService } from './game-session-invite.service';
+import { GameSession } from '../schemas/game-session.schema';
+import { SessionStatus } from '../enum/game-session.enum';
+
+describe('GameSessionInviteService', () => {
+  let service: GameSessionInviteService;
+  const jwtService = new JwtService({ secret: 'access-secret' });
+
+  beforeEach(async () => {
+    const session = {
+      id: 'session-1',
+      host: 'host-1',
+      status: SessionStatus.Waiting,
+    };
+    const model = {
+      findOne: jest.fn().mockReturnValue({
+        select: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue(session),
+      }),
+      updateOne: jest.fn().mockReturnValue({ exec: jest.fn() }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GameSessionInviteService,
+        { provide: getModelToken(GameSession.name), useValue: model },
+        { provide: JwtService, useValue: jwtService },
+        {
+          provide: ConfigService,
+          useValue: { getOrThrow: jest.fn().mockReturnValue('invite-secret') },
+        },
+      ],
+    }).compile();
+
+    service = module.get<GameSessionInviteService>(GameSessionInviteService);
+  });
+
+  it('should verify the invite tokens it signs', async () => {
+    const { token, tokenId } = await service.createInvite(
+      'host-1',
+      'session-1',
+      {},
+    );
+
+    expect(service.verifyInviteToken(token)).toEqual({
+      sessionId: 'session-1',
+      tokenId,
+    });
+  });
+
+  it('should not let invite tokens pass as access tokens', async () => {
+    const { token } = await service.createInvite('host-1', 'session-1', {});
+
+    expect(() => jwtService.verify(token)).toThrow();
+  });
+
+  it('should reject invite claims signed with the access token secret', () => {
+    const forged = jwtService.sign({
+      sid: 'session-1',
+      jti: 'token-1',
+      typ: 'session-invite',
+    });
+
+    expect(() => service.verifyInviteToken(forged)).toThrow(ForbiddenException);
+  });
+});
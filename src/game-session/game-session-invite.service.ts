@@ -0,0 +1,179 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { JwtService, JwtSignOptions } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { Model } from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  GameSession,
+  GameSessionDocument,
+  SessionInvite,
+} from '../schemas/game-session.schema';
+import { SessionStatus } from '../enum/game-session.enum';
+import { CreateSessionInviteDto } from './dto/create-session-invite.dto';
+
+export const INVITE_TOKEN_TYPE = 'session-invite';
+
+// Invites are signed apart from access tokens, so neither can stand in for the other
+const INVITE_TOKEN_AUDIENCE = 'game-session-invite';
+
+export interface SessionInviteTokenPayload {
+  sessionId: string;
+  tokenId: string;
+}
+
+@Injectable()
+export class GameSessionInviteService {
+  constructor(
+    @InjectModel(GameSession.name)
+    private readonly gameSessionModel: Model<GameSessionDocument>,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Mint a signed invite link for a session; only the host may do this
+   */
+  async createInvite(
+    userId: string,
+    sessionId: string,
+    createSessionInviteDto: CreateSessionInviteDto,
+  ) {
+    const session = await this.findHostedSession(userId, sessionId);
+    if (
+      session.status === SessionStatus.completed ||
+      session.status === SessionStatus.Abandoned
+    ) {
+      throw new BadRequestException(
+        'Cannot invite players to a session that has ended',
+      );
+    }
+
+    const expiresInMinutes = createSessionInviteDto.expiresInMinutes ?? 24 * 60;
+    const invite: SessionInvite = {
+      tokenId: uuidv4(),
+      createdBy: userId,
+      createdAt: new Date(),
+      expiresAt: new Date(Date.now() + expiresInMinutes * 60 * 1000),
+      usesLeft: createSessionInviteDto.maxUses ?? null,
+      uses: 0,
+      revokedAt: null,
+    };
+
+    await this.gameSessionModel
+      .updateOne({ id: sessionId }, { $push: { invites: invite } })
+      .exec();
+
+    const token = this.jwtService.sign(
+      { sid: sessionId, jti: invite.tokenId, typ: INVITE_TOKEN_TYPE },
+      { ...this.signingOptions(), expiresIn: expiresInMinutes * 60 },
+    );
+
+    return {
+      tokenId: invite.tokenId,
+      token,
+      expiresAt: invite.expiresAt,
+      maxUses: createSessionInviteDto.maxUses ?? null,
+    };
+  }
+
+  /**
+   * List the invites minted for a session, without the tokens themselves
+   */
+  async listInvites(
+    userId: string,
+    sessionId: string,
+  ): Promise<SessionInvite[]> {
+    const session = await this.findHostedSession(userId, sessionId);
+    return session.invites;
+  }
+
+  /**
+   * Revoke an invite so its link stops working immediately
+   */
+  async revokeInvite(
+    userId: string,
+    sessionId: string,
+    tokenId: string,
+  ): Promise<void> {
+    await this.findHostedSession(userId, sessionId);
+
+    const result = await this.gameSessionModel
+      .updateOne(
+        {
+          id: sessionId,
+          invites: { $elemMatch: { tokenId, revokedAt: null } },
+        },
+        { $set: { 'invites.$.revokedAt': new Date() } },
+      )
+      .exec();
+
+    if (result.matchedCount === 0) {
+      throw new NotFoundException('Invite not found or already revoked');
+    }
+  }
+
+  /**
+   * Check the signature and expiry of an invite token and return what it points at
+   */
+  verifyInviteToken(token: string): SessionInviteTokenPayload {
+    let payload: any;
+    try {
+      payload = this.jwtService.verify(token, this.signingOptions());
+    } catch {
+      throw new ForbiddenException('Invite link is invalid or has expired');
+    }
+
+    if (payload?.typ !== INVITE_TOKEN_TYPE || !payload.sid || !payload.jti) {
+      throw new ForbiddenException('Invite link is invalid or has expired');
+    }
+
+    return { sessionId: payload.sid, tokenId: payload.jti };
+  }
+
+  /**
+   * Find the stored invite that a token refers to, if it can still be used
+   */
+  findUsableInvite(
+    session: GameSession,
+    tokenId: string,
+  ): SessionInvite | undefined {
+    const now = new Date();
+    return (session.invites || []).find(
+      (invite) =>
+        invite.tokenId === tokenId &&
+        !invite.revokedAt &&
+        invite.expiresAt > now &&
+        (invite.usesLeft === null || invite.usesLeft > 0),
+    );
+  }
+
+  private signingOptions(): Pick<JwtSignOptions, 'secret' | 'audience'> {
+    return {
+      secret: this.configService.getOrThrow<string>('SESSION_INVITE_SECRET'),
+      audience: INVITE_TOKEN_AUDIENCE,
+    };
+  }
+
+  private async findHostedSession(
+    userId: string,
+    sessionId: string,
+  ): Promise<GameSession> {
+    const session = await this.gameSessionModel
+      .findOne({ id: sessionId })
+      .select('+invites')
+      .exec();
+    if (!session) {
+      throw new NotFoundException('Game session not found');
+    }
+    if (session.host !== userId) {
+      throw new ForbiddenException('Only the session host can manage invites');
+    }
+    return session;
+  }
+}
@@ -0,0 +1,156 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ConflictException } from '@nestjs/common';
+import { GameSessionReaperService } from './game-session-reaper.service';
+import { GameSessionService } from './game-session.service';
+import { PlayerService } from '../player/services/player.service';
+import { SessionReapReason, SessionStatus } from '../enum/game-session.enum';
+
+describe('GameSessionReaperService', () => {
+  let reaper: GameSessionReaperService;
+  let gameSessionService: Record<string, jest.Mock>;
+  let playerService: { countActivePlayersBySession: jest.Mock };
+
+  const minutesAgo = (minutes: number) =>
+    new Date(Date.now() - minutes * 60 * 1000);
+
+  const mockSession = (
+    id: string,
+    updatedAt: Date,
+    players: string[] = [],
+  ) => ({
+    _id: `oid-${id}`,
+    id,
+    status: SessionStatus.Waiting,
+    players,
+    updatedAt,
+  });
+
+  beforeEach(async () => {
+    gameSessionService = {
+      pruneSessionAttempts: jest.fn(),
+      findInactiveSessions: jest.fn().mockResolvedValue([]),
+      expire: jest.fn().mockResolvedValue(undefined),
+      findExpiredRematches: jest.fn().mockResolvedValue([]),
+      expireRematchInvites: jest.fn().mockResolvedValue([]),
+    };
+    playerService = {
+      countActivePlayersBySession: jest.fn().mockResolvedValue(new Map()),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GameSessionReaperService,
+        { provide: GameSessionService, useValue: gameSessionService },
+        { provide: PlayerService, useValue: playerService },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue: number) =>
+              key === 'SESSION_IDLE_TIMEOUT_MINUTES' ? '30' : defaultValue,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    reaper = module.get<GameSessionReaperService>(GameSessionReaperService);
+  });
+
+  it('should abandon sessions idle past the configured threshold', async () => {
+    gameSessionService.findInactiveSessions.mockResolvedValue([
+      mockSession('idle', minutesAgo(45), ['a', 'b']),
+    ]);
+    playerService.countActivePlayersBySession.mockResolvedValue(
+      new Map([['oid-idle', 2]]),
+    );
+
+    const reaped = await reaper.reapSessions();
+
+    expect(reaped).toBe(1);
+    expect(gameSessionService.expire).toHaveBeenCalledWith(
+      'idle',
+      SessionReapReason.Idle,
+    );
+  });
+
+  it('should abandon empty sessions sooner than idle ones', async () => {
+    gameSessionService.findInactiveSessions.mockResolvedValue([
+      mockSession('empty', minutesAgo(15)),
+      mockSession('busy', minutesAgo(15), ['a']),
+    ]);
+    playerService.countActivePlayersBySession.mockResolvedValue(
+      new Map([['oid-busy', 1]]),
+    );
+
+    await reaper.reapSessions();
+
+    expect(gameSessionService.expire).toHaveBeenCalledTimes(1);
+    expect(gameSessionService.expire).toHaveBeenCalledWith(
+      'empty',
+      SessionReapReason.Empty,
+    );
+  });
+
+  it('should treat players who left as not connected', async () => {
+    gameSessionService.findInactiveSessions.mockResolvedValue([
+      mockSession('deserted', minutesAgo(15), ['a']),
+    ]);
+    playerService.countActivePlayersBySession.mockResolvedValue(new Map());
+
+    await reaper.reapSessions();
+
+    expect(gameSessionService.expire).toHaveBeenCalledWith(
+      'deserted',
+      SessionReapReason.Empty,
+    );
+  });
+
+  it('should keep going when a session changed while being reaped', async () => {
+    gameSessionService.findInactiveSessions.mockResolvedValue([
+      mockSession('raced', minutesAgo(45)),
+      mockSession('stale', minutesAgo(45)),
+    ]);
+    gameSessionService.expire
+      .mockRejectedValueOnce(new ConflictException())
+      .mockResolvedValueOnce(undefined);
+
+    const reaped = await reaper.reapSessions();
+
+    expect(reaped).toBe(1);
+    expect(gameSessionService.pruneSessionAttempts).toHaveBeenCalled();
+  });
+
+  it('should drop rematch invitees who let the deadline pass', async () => {
+    gameSessionService.findExpiredRematches.mockResolvedValue([
+      mockSession('rematch', minutesAgo(1)),
+    ]);
+    gameSessionService.expireRematchInvites.mockResolvedValue(['b']);
+
+    const expired = await reaper.expireRematches();
+
+    expect(expired).toBe(1);
+    expect(gameSessionService.findExpiredRematches).toHaveBeenCalledWith(
+      expect.any(Date),
+      100,
+    );
+    expect(gameSessionService.expireRematchInvites).toHaveBeenCalledWith(
+      'rematch',
+    );
+  });
+
+  it('should keep expiring rematches when one of them fails', async () => {
+    gameSessionService.findExpiredRematches.mockResolvedValue([
+      mockSession('gone', minutesAgo(1)),
+      mockSession('rematch', minutesAgo(1)),
+    ]);
+    gameSessionService.expireRematchInvites
+      .mockRejectedValueOnce(new Error('Game session not found'))
+      .mockResolvedValueOnce(['c']);
+
+    const expired = await reaper.expireRematches();
+
+    expect(expired).toBe(1);
+    expect(gameSessionService.expireRematchInvites).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,137 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { GameSessionService } from './game-session.service';
+import { PlayerService } from '../player/services/player.service';
+import { SessionReapReason } from '../enum/game-session.enum';
+
+const REAPER_BATCH_SIZE = 100;
+
+/**
+ * Abandons sessions nobody is using any more. Abandoning releases the room code,
+ * and listeners of `gameSession.abandoned` end the rounds and refund the wagers.
+ * Also drops rematch invitees who let the response deadline pass.
+ */
+@Injectable()
+export class GameSessionReaperService {
+  private readonly logger = new Logger(GameSessionReaperService.name);
+  private running = false;
+  private expiringRematches = false;
+
+  constructor(
+    private readonly gameSessionService: GameSessionService,
+    private readonly playerService: PlayerService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async reapSessions(): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+    this.running = true;
+
+    try {
+      this.gameSessionService.pruneSessionAttempts();
+
+      const now = Date.now();
+      const idleCutoff = new Date(
+        now - this.getThresholdMs('SESSION_IDLE_TIMEOUT_MINUTES', 60),
+      );
+      const emptyCutoff = new Date(
+        now - this.getThresholdMs('SESSION_EMPTY_TIMEOUT_MINUTES', 10),
+      );
+
+      // The shorter threshold picks up every candidate; idle ones are a subset of these
+      const candidates = await this.gameSessionService.findInactiveSessions(
+        new Date(Math.max(idleCutoff.getTime(), emptyCutoff.getTime())),
+        REAPER_BATCH_SIZE,
+      );
+      if (candidates.length === 0) {
+        return 0;
+      }
+
+      const connected = await this.playerService.countActivePlayersBySession(
+        candidates.map((session) => String(session._id)),
+      );
+
+      let reaped = 0;
+      for (const session of candidates) {
+        const { updatedAt } = session;
+        // Sessions where everyone left have no entry in the counts
+        const playerCount = connected.get(String(session._id)) ?? 0;
+
+        let reason: SessionReapReason | null = null;
+        if (updatedAt < idleCutoff) {
+          reason = SessionReapReason.Idle;
+        } else if (updatedAt < emptyCutoff && playerCount === 0) {
+          reason = SessionReapReason.Empty;
+        }
+        if (!reason) {
+          continue;
+        }
+
+        try {
+          await this.gameSessionService.expire(session.id, reason);
+          reaped++;
+        } catch (error: any) {
+          // Usually the session changed status since it was read; it is picked up again next run if still stale
+          this.logger.warn(
+            `Could not reap session ${session.id}: ${error?.message}`,
+          );
+        }
+      }
+
+      if (reaped > 0) {
+        this.logger.log(`Reaped ${reaped} stale game sessions`);
+      }
+      return reaped;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  @Cron(CronExpression.EVERY_10_SECONDS)
+  async expireRematches(): Promise<number> {
+    if (this.expiringRematches) {
+      return 0;
+    }
+    this.expiringRematches = true;
+
+    try {
+      const rematches = await this.gameSessionService.findExpiredRematches(
+        new Date(),
+        REAPER_BATCH_SIZE,
+      );
+
+      let expired = 0;
+      for (const rematch of rematches) {
+        try {
+          const dropped = await this.gameSessionService.expireRematchInvites(
+            rematch.id,
+          );
+          if (dropped.length > 0) {
+            expired++;
+          }
+        } catch (error: any) {
+          // Picked up again next run while invites are still pending
+          this.logger.warn(
+            `Could not expire invites of rematch ${rematch.id}: ${error?.message}`,
+          );
+        }
+      }
+      return expired;
+    } finally {
+      this.expiringRematches = false;
+    }
+  }
+
+  private getThresholdMs(key: string, defaultMinutes: number): number {
+    const minutes = Number(this.configService.get(key, defaultMinutes));
+    return (
+      (Number.isFinite(minutes) && minutes > 0 ? minutes : defaultMinutes) *
+      60 *
+      1000
+    );
+  }
+}
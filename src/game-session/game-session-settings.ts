@@ -0,0 +1,105 @@
+import {
+  AnswerMode,
+  ScoringProfile,
+  ScoringRule,
+  SessionDifficulty,
+} from '../enum/game-session.enum';
+import { Decade, Genre } from '../enum/lyric.enum';
+import { HintType } from '../enum/game-round.enum';
+import type { GameSessionSettings } from '../schemas/game-session.schema';
+
+// Bump when the shape of GameSessionSettings changes so stored sessions can be migrated
+export const GAME_SESSION_SETTINGS_VERSION = 1;
+
+export const GAME_SESSION_SETTINGS_LIMITS = {
+  roundCount: { min: 1, max: 50 },
+  secondsPerRound: { min: 10, max: 300 },
+  maxPlayers: { min: 2, max: 16 },
+  wagerAmount: { min: 0, max: 10000 },
+  teams: { min: 2, max: 4 },
+  hintsPerRound: { min: 0, max: 5 },
+  hintCost: { min: 0, max: 1 },
+  disputeWindowMinutes: { min: 0, max: 1440 },
+};
+
+export const DEFAULT_GAME_SESSION_SETTINGS: GameSessionSettings = {
+  version: GAME_SESSION_SETTINGS_VERSION,
+  roundCount: 10,
+  categories: [],
+  genres: [],
+  decades: [],
+  difficulty: SessionDifficulty.Mixed,
+  secondsPerRound: 30,
+  answerMode: AnswerMode.Fuzzy,
+  maxPlayers: 8,
+  wagerAmount: 0,
+  adaptiveDifficulty: false,
+  minDifficulty: SessionDifficulty.Easy,
+  maxDifficulty: SessionDifficulty.Hard,
+  hintsPerRound: 2,
+  hintCosts: {
+    [HintType.ExtraLine]: 0.2,
+    [HintType.FirstLetter]: 0.3,
+    [HintType.Decade]: 0.15,
+    [HintType.ArtistInitial]: 0.15,
+  },
+  scoringProfile: ScoringProfile.Classic,
+  scoringRules: [],
+  disputeWindowMinutes: 10,
+};
+
+// Adaptive difficulty moves between these, easiest first
+export const ADAPTIVE_DIFFICULTY_LEVELS = [
+  SessionDifficulty.Easy,
+  SessionDifficulty.Medium,
+  SessionDifficulty.Hard,
+];
+
+/**
+ * Fill in any missing setting from the base (defaults unless given) so callers always get a complete object
+ */
+export function resolveGameSessionSettings(
+  overrides?: Partial<GameSessionSettings> | null,
+  base: GameSessionSettings = DEFAULT_GAME_SESSION_SETTINGS,
+): GameSessionSettings {
+  const resolved = {} as GameSessionSettings;
+  for (const key of Object.keys(DEFAULT_GAME_SESSION_SETTINGS)) {
+    resolved[key] = overrides?.[key] ?? base[key];
+  }
+  resolved.version = GAME_SESSION_SETTINGS_VERSION;
+  return resolved;
+}
+
+/**
+ * Why the settings cannot be used together, or null when they can
+ */
+export function gameSessionSettingsProblem(
+  settings: GameSessionSettings,
+): string | null {
+  if (
+    ADAPTIVE_DIFFICULTY_LEVELS.indexOf(settings.minDifficulty) >
+    ADAPTIVE_DIFFICULTY_LEVELS.indexOf(settings.maxDifficulty)
+  ) {
+    return 'settings.minDifficulty cannot be harder than settings.maxDifficulty';
+  }
+  return null;
+}
+
+/**
+ * Allowed values and ranges, for clients building a settings form
+ */
+export function getGameSessionSettingsOptions() {
+  return {
+    version: GAME_SESSION_SETTINGS_VERSION,
+    defaults: DEFAULT_GAME_SESSION_SETTINGS,
+    limits: GAME_SESSION_SETTINGS_LIMITS,
+    genres: Object.values(Genre),
+    decades: Object.values(Decade),
+    difficulties: Object.values(SessionDifficulty),
+    adaptiveDifficultyLevels: ADAPTIVE_DIFFICULTY_LEVELS,
+    answerModes: Object.values(AnswerMode),
+    hintTypes: Object.values(HintType),
+    scoringProfiles: Object.values(ScoringProfile),
+    scoringRules: Object.values(ScoringRule),
+  };
+}
@@ -1,17 +1,49 @@
-import { Controller, Get, Post, Body, Patch, Param, Delete } from '@nestjs/common';
+import { Controller, Get, Post, Put, Body, Patch, Param, Delete, UseGuards } from '@nestjs/common';
 import { GameSessionService } from './game-session.service';
 import { CreateGameSessionDto } from './dto/create-game-session.dto';
 import { UpdateGameSessionDto } from './dto/update-game-session.dto';
+import { AbandonGameSessionDto } from './dto/abandon-game-session.dto';
+import { TransferHostDto } from './dto/transfer-host.dto';
+import { ConfigureTeamsDto } from './dto/configure-teams.dto';
+import { JoinByInviteDto, JoinGameSessionDto } from './dto/join-game-session.dto';
+import { CreateSessionInviteDto } from './dto/create-session-invite.dto';
+import { GameSessionInviteService } from './game-session-invite.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
 
 @Controller('game-session')
 export class GameSessionController {
-  constructor(private readonly gameSessionService: GameSessionService) {}
+  constructor(
+    private readonly gameSessionService: GameSessionService,
+    private readonly gameSessionInviteService: GameSessionInviteService,
+  ) {}
 
   @Post()
   create(@Body() createGameSessionDto: CreateGameSessionDto, @Param('userId') userId: string) {
     return this.gameSessionService.create(userId, createGameSessionDto);
   }
 
+  @Post('join/:roomCode')
+  @UseGuards(JwtAuthGuard)
+  joinByRoomCode(
+    @CurrentUser('userId') userId: string,
+    @Param('roomCode') roomCode: string,
+    @Body() joinGameSessionDto: JoinGameSessionDto,
+  ) {
+    return this.gameSessionService.joinByRoomCode(userId, roomCode, joinGameSessionDto);
+  }
+
+  @Post('invites/accept')
+  @UseGuards(JwtAuthGuard)
+  joinByInvite(@CurrentUser('userId') userId: string, @Body() joinByInviteDto: JoinByInviteDto) {
+    return this.gameSessionService.joinByInvite(userId, joinByInviteDto.inviteToken);
+  }
+
+  @Get('settings/options')
+  getSettingsOptions() {
+    return this.gameSessionService.getSettingsOptions();
+  }
+
   @Get()
   findAll() {
     return this.gameSessionService.findAll();
@@ -31,4 +63,90 @@ export class GameSessionController {
   remove(@Param('userId') userId: string, @Param('id') id: string) {
     return this.gameSessionService.remove(userId, id);
   }
+
+  @Post(':id/lobby')
+  @UseGuards(JwtAuthGuard)
+  openLobby(@CurrentUser('userId') userId: string, @Param('id') id: string) {
+    return this.gameSessionService.openLobby(userId, id);
+  }
+
+  @Post(':id/start')
+  @UseGuards(JwtAuthGuard)
+  start(@CurrentUser('userId') userId: string, @Param('id') id: string) {
+    return this.gameSessionService.start(userId, id);
+  }
+
+  @Post(':id/finish')
+  @UseGuards(JwtAuthGuard)
+  finish(@CurrentUser('userId') userId: string, @Param('id') id: string) {
+    return this.gameSessionService.finish(userId, id);
+  }
+
+  @Post(':id/abandon')
+  @UseGuards(JwtAuthGuard)
+  abandon(
+    @CurrentUser('userId') userId: string,
+    @Param('id') id: string,
+    @Body() abandonGameSessionDto: AbandonGameSessionDto,
+  ) {
+    return this.gameSessionService.abandon(userId, id, abandonGameSessionDto.reason);
+  }
+
+  @Post(':id/rematch')
+  @UseGuards(JwtAuthGuard)
+  createRematch(@CurrentUser('userId') userId: string, @Param('id') id: string) {
+    return this.gameSessionService.createRematch(userId, id);
+  }
+
+  @Post(':id/host')
+  @UseGuards(JwtAuthGuard)
+  transferHost(
+    @CurrentUser('userId') userId: string,
+    @Param('id') id: string,
+    @Body() transferHostDto: TransferHostDto,
+  ) {
+    return this.gameSessionService.transferHost(userId, id, transferHostDto.newHostId);
+  }
+
+  @Put(':id/teams')
+  @UseGuards(JwtAuthGuard)
+  configureTeams(
+    @CurrentUser('userId') userId: string,
+    @Param('id') id: string,
+    @Body() configureTeamsDto: ConfigureTeamsDto,
+  ) {
+    return this.gameSessionService.configureTeams(userId, id, configureTeamsDto);
+  }
+
+  @Delete(':id/teams')
+  @UseGuards(JwtAuthGuard)
+  clearTeams(@CurrentUser('userId') userId: string, @Param('id') id: string) {
+    return this.gameSessionService.clearTeams(userId, id);
+  }
+
+  @Post(':id/invites')
+  @UseGuards(JwtAuthGuard)
+  createInvite(
+    @CurrentUser('userId') userId: string,
+    @Param('id') id: string,
+    @Body() createSessionInviteDto: CreateSessionInviteDto,
+  ) {
+    return this.gameSessionInviteService.createInvite(userId, id, createSessionInviteDto);
+  }
+
+  @Get(':id/invites')
+  @UseGuards(JwtAuthGuard)
+  listInvites(@CurrentUser('userId') userId: string, @Param('id') id: string) {
+    return this.gameSessionInviteService.listInvites(userId, id);
+  }
+
+  @Delete(':id/invites/:tokenId')
+  @UseGuards(JwtAuthGuard)
+  revokeInvite(
+    @CurrentUser('userId') userId: string,
+    @Param('id') id: string,
+    @Param('tokenId') tokenId: string,
+  ) {
+    return this.gameSessionInviteService.revokeInvite(userId, id, tokenId);
+  }
 }
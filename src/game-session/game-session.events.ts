@@ -0,0 +1,77 @@
+import { HostChangeReason, SessionStatus } from '../enum/game-session.enum';
+import {
+  GameSession,
+  GameSessionDocument,
+} from '../schemas/game-session.schema';
+
+export class GameSessionStatusChangedEvent {
+  constructor(
+    public readonly session: GameSession,
+    public readonly previousStatus: SessionStatus,
+    public readonly changedBy: string,
+  ) {}
+}
+
+export class GameSessionLobbyOpenedEvent {
+  constructor(public readonly session: GameSession) {}
+}
+
+export class GameSessionStartedEvent {
+  constructor(public readonly session: GameSession) {}
+}
+
+export class GameSessionCompletedEvent {
+  constructor(public readonly session: GameSessionDocument) {}
+}
+
+export class GameSessionAbandonedEvent {
+  constructor(
+    public readonly session: GameSessionDocument,
+    public readonly reason?: string,
+  ) {}
+}
+
+export class GameSessionPlayerJoinedEvent {
+  constructor(
+    public readonly session: GameSession,
+    public readonly userId: string,
+  ) {}
+}
+
+export class GameSessionHostChangedEvent {
+  constructor(
+    public readonly session: GameSessionDocument,
+    public readonly previousHost: string,
+    public readonly reason: HostChangeReason,
+  ) {}
+}
+
+export class GameSessionTeamsConfiguredEvent {
+  constructor(
+    public readonly session: GameSessionDocument,
+    public readonly configuredBy: string,
+  ) {}
+}
+
+export class GameSessionRematchCreatedEvent {
+  constructor(
+    public readonly previousSession: GameSessionDocument,
+    public readonly rematch: GameSessionDocument,
+    public readonly requestedBy: string,
+  ) {}
+}
+
+export class GameSessionRematchRespondedEvent {
+  constructor(
+    public readonly rematch: GameSessionDocument,
+    public readonly userId: string,
+    public readonly accepted: boolean,
+  ) {}
+}
+
+export class GameSessionRematchExpiredEvent {
+  constructor(
+    public readonly rematch: GameSessionDocument,
+    public readonly droppedUserIds: string[],
+  ) {}
+}
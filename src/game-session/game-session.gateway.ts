@@ -0,0 +1,163 @@
+import { Logger } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import {
+  ConnectedSocket,
+  MessageBody,
+  OnGatewayConnection,
+  OnGatewayDisconnect,
+  SubscribeMessage,
+  WebSocketGateway,
+  WebSocketServer,
+} from '@nestjs/websockets';
+import { Server, Socket } from 'socket.io';
+import { GameSessionService } from './game-session.service';
+import { GameSessionHostService } from './game-session-host.service';
+import { PlayerService } from '../player/services/player.service';
+import { RoundHintService } from '../gam-rounds/round-hint-service';
+import { HintType } from '../enum/game-round.enum';
+import { INVITE_TOKEN_TYPE } from './game-session-invite.service';
+
+// Every socket of a user joins the user's own room, so direct messages reach all their devices
+const userRoom = (userId: string) => `user:${userId}`;
+
+// Socket rooms of a session are keyed by the session document ID
+const sessionRoom = (sessionId: string) => `session:${sessionId}`;
+
+@WebSocketGateway({
+  namespace: 'game',
+  cors: {
+    origin: '*', // In production, restrict this to your frontend domain
+  },
+})
+export class GameSessionGateway
+  implements OnGatewayConnection, OnGatewayDisconnect
+{
+  private readonly logger = new Logger(GameSessionGateway.name);
+
+  @WebSocketServer()
+  server: Server;
+
+  constructor(
+    private readonly jwtService: JwtService,
+    private readonly gameSessionService: GameSessionService,
+    private readonly gameSessionHostService: GameSessionHostService,
+    private readonly playerService: PlayerService,
+    private readonly roundHintService: RoundHintService,
+  ) {}
+
+  async handleConnection(client: Socket): Promise<void> {
+    const userId = await this.authenticate(client);
+    if (!userId) {
+      client.disconnect();
+      return;
+    }
+    client.data.userId = userId;
+    client.join(userRoom(userId));
+
+    // Pick the sessions back up after a reconnect
+    const sessionIds = await this.playerService.findCurrentSessionIds(userId);
+    client.join(sessionIds.map(sessionRoom));
+
+    await this.gameSessionHostService.hostReconnected(userId);
+  }
+
+  async handleDisconnect(client: Socket): Promise<void> {
+    const userId: string | undefined = client.data.userId;
+    if (!userId) {
+      return;
+    }
+
+    // Another tab or device still holds the connection
+    const sockets = await this.server.in(userRoom(userId)).fetchSockets();
+    if (sockets.length === 0) {
+      await this.gameSessionHostService.hostDisconnected(userId);
+    }
+  }
+
+  @SubscribeMessage('respondToRematch')
+  async handleRespondToRematch(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { sessionId: string; accept: boolean },
+  ): Promise<any> {
+    try {
+      // Listeners tell the other invitees
+      const session = await this.gameSessionService.respondToRematch(
+        client.data.userId,
+        data.sessionId,
+        data.accept,
+      );
+      return { success: true, session };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  @SubscribeMessage('requestHint')
+  async handleRequestHint(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { roundId: string; type: HintType },
+  ): Promise<any> {
+    try {
+      // Only the asking player sees the hint; listeners tell the session one was taken
+      const hint = await this.roundHintService.useHint(
+        data.roundId,
+        client.data.userId,
+        data.type,
+      );
+      return { success: true, hint };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Send an event to every connection of a user
+   */
+  sendToPlayer(userId: string, event: string, data: any): void {
+    this.server.to(userRoom(userId)).emit(event, data);
+  }
+
+  /**
+   * Send an event to everyone in a session
+   */
+  sendToSession(sessionId: string, event: string, data: any): void {
+    this.server.to(sessionRoom(sessionId)).emit(event, data);
+  }
+
+  /**
+   * Add every connection of a user to a session's room
+   */
+  joinSession(userId: string, sessionId: string): void {
+    this.server.in(userRoom(userId)).socketsJoin(sessionRoom(sessionId));
+  }
+
+  /**
+   * Take every connection of a user out of a session's room
+   */
+  leaveSession(userId: string, sessionId: string): void {
+    this.server.in(userRoom(userId)).socketsLeave(sessionRoom(sessionId));
+  }
+
+  /**
+   * Helper method to read the user from the access token sent with the handshake
+   */
+  private async authenticate(client: Socket): Promise<string | null> {
+    const token =
+      client.handshake.auth?.token || client.handshake.headers?.authorization;
+    if (!token) {
+      return null;
+    }
+
+    try {
+      const payload = await this.jwtService.verifyAsync<{
+        sub: string;
+        typ?: string;
+      }>(String(token).replace(/^Bearer /, ''));
+      // Invite links are not access tokens
+      return payload.typ === INVITE_TOKEN_TYPE ? null : (payload.sub ?? null);
+    } catch (error: any) {
+      this.logger.debug(`Rejected socket ${client.id}: ${error?.message}`);
+      return null;
+    }
+  }
+}
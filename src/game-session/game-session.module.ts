@@ -1,9 +1,41 @@
 import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { JwtModule } from '@nestjs/jwt';
+import { ScheduleModule } from '@nestjs/schedule';
 import { GameSessionService } from './game-session.service';
 import { GameSessionController } from './game-session.controller';
+import { GameSessionInviteService } from './game-session-invite.service';
+import { GameSessionReaperService } from './game-session-reaper.service';
+import { GameSessionHostService } from './game-session-host.service';
+import { GameSessionGateway } from './game-session.gateway';
+import { GameSessionBroadcastListener } from './game-session-broadcast.listener';
+import { GameSession, GameSessionSchema } from '../schemas/game-session.schema';
+import { PlayerModule } from '../player/player.module';
+import { WalletModule } from '../wallet/wallet.module';
+import { GameRoundModule } from '../gam-rounds/game-round-module';
 
 @Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: GameSession.name, schema: GameSessionSchema },
+    ]),
+    JwtModule.register({
+      secret: process.env.JWT_SECRET,
+    }),
+    ScheduleModule.forRoot(),
+    PlayerModule,
+    WalletModule,
+    GameRoundModule,
+  ],
   controllers: [GameSessionController],
-  providers: [GameSessionService],
+  providers: [
+    GameSessionService,
+    GameSessionInviteService,
+    GameSessionReaperService,
+    GameSessionHostService,
+    GameSessionGateway,
+    GameSessionBroadcastListener,
+  ],
+  exports: [GameSessionService],
 })
 export class GameSessionModule {}
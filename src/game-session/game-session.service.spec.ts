@@ -0,0 +1,774 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import * as bcrypt from 'bcrypt';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { GameSessionService } from './game-session.service';
+import { GameSessionInviteService } from './game-session-invite.service';
+import { PlayerService } from '../player/services/player.service';
+import { WalletService } from '../wallet/wallet.service';
+import { GameSession } from '../schemas/game-session.schema';
+import {
+  AnswerMode,
+  HostChangeReason,
+  SessionDifficulty,
+  SessionStatus,
+  SessionVisibility,
+} from '../enum/game-session.enum';
+import {
+  DEFAULT_GAME_SESSION_SETTINGS,
+  resolveGameSessionSettings,
+} from './game-session-settings';
+
+describe('GameSessionService', () => {
+  let service: GameSessionService;
+  let model: {
+    find: jest.Mock;
+    findOne: jest.Mock;
+    findOneAndUpdate: jest.Mock;
+    updateOne: jest.Mock;
+    deleteOne: jest.Mock;
+  };
+  let eventEmitter: { emit: jest.Mock };
+  let inviteService: {
+    verifyInviteToken: jest.Mock;
+    findUsableInvite: jest.Mock;
+  };
+  let playerService: { balanceTeams: jest.Mock };
+  let walletService: { lockWager: jest.Mock; refundWager: jest.Mock };
+
+  const hostId = 'host-1';
+  const sessionId = 'session-1';
+
+  const mockSession = (status: SessionStatus) => ({
+    id: sessionId,
+    name: 'Friday night',
+    host: hostId,
+    roomCode: 'ABC123',
+    players: [],
+    settings: {},
+    status,
+  });
+
+  const withExec = (value: any) => ({
+    select: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  beforeEach(async () => {
+    model = {
+      find: jest.fn(),
+      findOne: jest.fn(),
+      findOneAndUpdate: jest.fn(),
+      updateOne: jest.fn().mockReturnValue({ exec: jest.fn() }),
+      deleteOne: jest.fn().mockReturnValue({ exec: jest.fn() }),
+    };
+    eventEmitter = { emit: jest.fn() };
+    inviteService = {
+      verifyInviteToken: jest.fn(),
+      findUsableInvite: jest.fn(),
+    };
+    playerService = { balanceTeams: jest.fn().mockResolvedValue(undefined) };
+    walletService = {
+      lockWager: jest.fn().mockResolvedValue({ _id: 'lock-1' }),
+      refundWager: jest.fn().mockResolvedValue(true),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GameSessionService,
+        { provide: getModelToken(GameSession.name), useValue: model },
+        { provide: EventEmitter2, useValue: eventEmitter },
+        { provide: GameSessionInviteService, useValue: inviteService },
+        { provide: PlayerService, useValue: playerService },
+        { provide: WalletService, useValue: walletService },
+      ],
+    }).compile();
+
+    service = module.get<GameSessionService>(GameSessionService);
+  });
+
+  it('should open the lobby of a created session and emit events', async () => {
+    const updated = {
+      ...mockSession(SessionStatus.Waiting),
+      lobbyOpenedAt: new Date(),
+    };
+    model.findOne.mockReturnValue(withExec(mockSession(SessionStatus.Created)));
+    model.findOneAndUpdate.mockReturnValue(withExec(updated));
+
+    const result = await service.openLobby(hostId, sessionId);
+
+    expect(result).toBe(updated);
+    expect(model.findOneAndUpdate).toHaveBeenCalledWith(
+      { id: sessionId, status: SessionStatus.Created },
+      {
+        $set: {
+          status: SessionStatus.Waiting,
+          lobbyOpenedAt: expect.any(Date),
+        },
+      },
+      { new: true },
+    );
+    expect(eventEmitter.emit).toHaveBeenCalledWith(
+      'gameSession.statusChanged',
+      expect.anything(),
+    );
+    expect(eventEmitter.emit).toHaveBeenCalledWith(
+      'gameSession.lobbyOpened',
+      expect.anything(),
+    );
+  });
+
+  it('should reject starting a session whose lobby was never opened', async () => {
+    model.findOne.mockReturnValue(withExec(mockSession(SessionStatus.Created)));
+
+    await expect(service.start(hostId, sessionId)).rejects.toThrow(
+      BadRequestException,
+    );
+    expect(model.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should not allow leaving a terminal status', async () => {
+    model.findOne.mockReturnValue(
+      withExec(mockSession(SessionStatus.completed)),
+    );
+
+    await expect(service.abandon(hostId, sessionId)).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('should only let the host change the status', async () => {
+    model.findOne.mockReturnValue(withExec(mockSession(SessionStatus.Waiting)));
+
+    await expect(service.start('someone-else', sessionId)).rejects.toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('should report a conflict when the status changed concurrently', async () => {
+    model.findOne.mockReturnValue(withExec(mockSession(SessionStatus.Active)));
+    model.findOneAndUpdate.mockReturnValue(withExec(null));
+
+    await expect(service.finish(hostId, sessionId)).rejects.toThrow(
+      ConflictException,
+    );
+    expect(eventEmitter.emit).not.toHaveBeenCalled();
+  });
+
+  it('should release the room code when a session ends', async () => {
+    model.findOne.mockReturnValue(withExec(mockSession(SessionStatus.Active)));
+    model.findOneAndUpdate.mockReturnValue(
+      withExec({ ...mockSession(SessionStatus.completed), roomCode: null }),
+    );
+
+    await service.finish(hostId, sessionId);
+
+    expect(model.findOneAndUpdate).toHaveBeenCalledWith(
+      { id: sessionId, status: SessionStatus.Active },
+      {
+        $set: expect.objectContaining({
+          status: SessionStatus.completed,
+          roomCode: null,
+        }),
+      },
+      { new: true },
+    );
+  });
+
+  it('should let the server abandon a session without a host', async () => {
+    model.findOne.mockReturnValue(withExec(mockSession(SessionStatus.Waiting)));
+    model.findOneAndUpdate.mockReturnValue(
+      withExec({ ...mockSession(SessionStatus.Abandoned), roomCode: null }),
+    );
+
+    await service.expire(sessionId, 'idle');
+
+    expect(eventEmitter.emit).toHaveBeenCalledWith(
+      'gameSession.statusChanged',
+      expect.objectContaining({ changedBy: 'system' }),
+    );
+    expect(eventEmitter.emit).toHaveBeenCalledWith(
+      'gameSession.abandoned',
+      expect.objectContaining({ reason: 'idle' }),
+    );
+  });
+
+  describe('joinByRoomCode', () => {
+    it('should add the player to the session behind the code', async () => {
+      const joined = {
+        ...mockSession(SessionStatus.Waiting),
+        players: ['player-1'],
+      };
+      model.findOne.mockReturnValue(
+        withExec(mockSession(SessionStatus.Waiting)),
+      );
+      model.findOneAndUpdate.mockReturnValue(withExec(joined));
+
+      const result = await service.joinByRoomCode('player-1', ' abc123 ');
+
+      expect(result).toBe(joined);
+      expect(model.findOne).toHaveBeenCalledWith({ roomCode: 'ABC123' });
+      expect(model.findOneAndUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: sessionId,
+          players: { $ne: 'player-1' },
+        }),
+        { $addToSet: { players: 'player-1' } },
+        { new: true },
+      );
+      expect(eventEmitter.emit).toHaveBeenCalledWith(
+        'gameSession.playerJoined',
+        expect.anything(),
+      );
+    });
+
+    it('should reject unknown codes', async () => {
+      model.findOne.mockReturnValue(withExec(null));
+
+      await expect(
+        service.joinByRoomCode('player-1', 'ZZZZZZ'),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should reject sessions that already started', async () => {
+      model.findOne.mockReturnValue(
+        withExec(mockSession(SessionStatus.Active)),
+      );
+
+      await expect(
+        service.joinByRoomCode('player-1', 'ABC123'),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject full sessions', async () => {
+      model.findOne.mockReturnValue(
+        withExec({
+          ...mockSession(SessionStatus.Waiting),
+          players: ['a', 'b'],
+          settings: { maxPlayers: 2 },
+        }),
+      );
+
+      await expect(
+        service.joinByRoomCode('player-1', 'ABC123'),
+      ).rejects.toThrow('Game session is full');
+      expect(model.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should hold the wager of a player who joins', async () => {
+      const wagered = {
+        ...mockSession(SessionStatus.Waiting),
+        settings: { wagerAmount: 50 },
+      };
+      model.findOne.mockReturnValue(withExec(wagered));
+      model.findOneAndUpdate.mockReturnValue(
+        withExec({ ...wagered, players: ['player-1'] }),
+      );
+
+      await service.joinByRoomCode('player-1', 'ABC123');
+
+      expect(walletService.lockWager).toHaveBeenCalledWith(
+        'player-1',
+        sessionId,
+        50,
+      );
+      expect(walletService.refundWager).not.toHaveBeenCalled();
+    });
+
+    it('should give the wager back when the player is not let in', async () => {
+      model.findOne.mockReturnValue(
+        withExec({
+          ...mockSession(SessionStatus.Waiting),
+          settings: { wagerAmount: 50 },
+        }),
+      );
+      model.findOneAndUpdate.mockReturnValue(withExec(null));
+
+      await expect(
+        service.joinByRoomCode('player-1', 'ABC123'),
+      ).rejects.toThrow(ConflictException);
+      expect(walletService.refundWager).toHaveBeenCalledWith({
+        _id: 'lock-1',
+      });
+    });
+
+    it('should not touch wallets when the session has no wager', async () => {
+      model.findOne.mockReturnValue(
+        withExec(mockSession(SessionStatus.Waiting)),
+      );
+      model.findOneAndUpdate.mockReturnValue(
+        withExec({ ...mockSession(SessionStatus.Waiting), players: ['a'] }),
+      );
+
+      await service.joinByRoomCode('a', 'ABC123');
+
+      expect(walletService.lockWager).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('private sessions', () => {
+    const privateSession = (passcodeHash: string | null = null) => ({
+      ...mockSession(SessionStatus.Waiting),
+      visibility: SessionVisibility.Private,
+      passcodeHash,
+      invites: [],
+    });
+
+    it('should reject joining without a passcode or invite', async () => {
+      model.findOne.mockReturnValue(withExec(privateSession()));
+
+      await expect(
+        service.joinByRoomCode('player-1', 'ABC123'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(model.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should let players in with the right passcode', async () => {
+      const passcodeHash = await bcrypt.hash('secret', 4);
+      model.findOne.mockReturnValue(withExec(privateSession(passcodeHash)));
+      model.findOneAndUpdate.mockReturnValue(
+        withExec({ ...privateSession(), players: ['player-1'] }),
+      );
+
+      await expect(
+        service.joinByRoomCode('player-1', 'ABC123', { passcode: 'wrong' }),
+      ).rejects.toThrow(ForbiddenException);
+
+      const result = await service.joinByRoomCode('player-1', 'ABC123', {
+        passcode: 'secret',
+      });
+
+      expect(result.players).toEqual(['player-1']);
+    });
+
+    it('should consume a use of the invite it was joined with', async () => {
+      const invite = { tokenId: 'invite-1', usesLeft: 3 };
+      model.findOne.mockReturnValue(withExec(privateSession()));
+      model.findOneAndUpdate.mockReturnValue(
+        withExec({ ...privateSession(), players: ['player-1'] }),
+      );
+      inviteService.verifyInviteToken.mockReturnValue({
+        sessionId,
+        tokenId: invite.tokenId,
+      });
+      inviteService.findUsableInvite.mockReturnValue(invite);
+
+      await service.joinByInvite('player-1', 'signed-token');
+
+      expect(model.findOneAndUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          invites: {
+            $elemMatch: expect.objectContaining({ tokenId: invite.tokenId }),
+          },
+        }),
+        expect.objectContaining({
+          $inc: { 'invites.$.uses': 1, 'invites.$.usesLeft': -1 },
+        }),
+        { new: true },
+      );
+    });
+
+    it('should only list public sessions', async () => {
+      model.find.mockReturnValue(withExec([]));
+
+      await service.findAll();
+
+      expect(model.find).toHaveBeenCalledWith({
+        visibility: SessionVisibility.Public,
+      });
+    });
+  });
+
+  describe('host changes', () => {
+    it('should let the host hand the role to another player', async () => {
+      const updated = {
+        ...mockSession(SessionStatus.Waiting),
+        host: 'player-1',
+        players: [hostId, 'player-1'],
+      };
+      model.findOne.mockReturnValue(
+        withExec({
+          ...mockSession(SessionStatus.Waiting),
+          players: [hostId, 'player-1'],
+        }),
+      );
+      model.findOneAndUpdate.mockReturnValue(withExec(updated));
+
+      const result = await service.transferHost(hostId, sessionId, 'player-1');
+
+      expect(result).toBe(updated);
+      expect(model.findOneAndUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ id: sessionId, host: hostId }),
+        { $set: { host: 'player-1', hostDisconnectedAt: null } },
+        { new: true },
+      );
+      expect(eventEmitter.emit).toHaveBeenCalledWith(
+        'gameSession.hostChanged',
+        expect.objectContaining({
+          previousHost: hostId,
+          reason: HostChangeReason.Transferred,
+        }),
+      );
+    });
+
+    it('should only hand the role to players in the session', async () => {
+      model.findOne.mockReturnValue(
+        withExec(mockSession(SessionStatus.Waiting)),
+      );
+
+      await expect(
+        service.transferHost(hostId, sessionId, 'stranger'),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.transferHost('player-1', sessionId, hostId),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should not migrate a host role that already moved', async () => {
+      model.findOneAndUpdate.mockReturnValue(withExec(null));
+
+      const result = await service.migrateHost(sessionId, hostId, 'player-1');
+
+      expect(result).toBeNull();
+      expect(eventEmitter.emit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('teams', () => {
+    it('should set up teams and spread the players over them', async () => {
+      model.findOne.mockReturnValue(
+        withExec(mockSession(SessionStatus.Waiting)),
+      );
+      model.findOneAndUpdate.mockImplementation((filter, update) =>
+        withExec({
+          ...mockSession(SessionStatus.Waiting),
+          _id: 'oid-1',
+          ...update.$set,
+        }),
+      );
+
+      const result = await service.configureTeams(hostId, sessionId, {
+        teams: [{ name: 'Red' }, { name: ' Blue ' }],
+        firstCorrectOnly: true,
+      });
+
+      expect(result.teams.map((team) => team.name)).toEqual(['Red', 'Blue']);
+      expect(result.teamRules).toEqual({
+        firstCorrectOnly: true,
+        captainsAnswer: false,
+      });
+      expect(playerService.balanceTeams).toHaveBeenCalledWith(
+        'oid-1',
+        result.teams.map((team) => team.teamId),
+      );
+      expect(eventEmitter.emit).toHaveBeenCalledWith(
+        'gameSession.teamsConfigured',
+        expect.objectContaining({ configuredBy: hostId }),
+      );
+    });
+
+    it('should reject duplicate team names', async () => {
+      await expect(
+        service.configureTeams(hostId, sessionId, {
+          teams: [{ name: 'Red' }, { name: 'red' }],
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(playerService.balanceTeams).not.toHaveBeenCalled();
+    });
+
+    it('should not change teams once the game has started', async () => {
+      model.findOne.mockReturnValue(
+        withExec(mockSession(SessionStatus.Active)),
+      );
+
+      await expect(service.clearTeams(hostId, sessionId)).rejects.toThrow(
+        BadRequestException,
+      );
+      await expect(
+        service.configureTeams('someone-else', sessionId, {
+          teams: [{ name: 'Red' }, { name: 'Blue' }],
+        }),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('rematch', () => {
+    const finished = () => ({
+      ...mockSession(SessionStatus.completed),
+      players: [hostId, 'player-1'],
+      rematchSessionId: null,
+      rematchInvites: [],
+    });
+
+    it('should clone a finished session and link the two', async () => {
+      const rematch = {
+        ...finished(),
+        id: 'rematch-1',
+        players: [],
+        status: SessionStatus.Created,
+      };
+      model.findOne.mockReturnValue(withExec(finished()));
+      jest.spyOn(service, 'create').mockResolvedValue(rematch as any);
+      model.findOneAndUpdate
+        .mockReturnValueOnce(
+          withExec({ ...finished(), rematchSessionId: 'rematch-1' }),
+        )
+        .mockReturnValueOnce(withExec({ ...rematch, rematchOf: sessionId }))
+        .mockReturnValueOnce(
+          withExec({ ...rematch, rematchOf: sessionId, players: ['player-1'] }),
+        );
+
+      const result = await service.createRematch('player-1', sessionId);
+
+      expect(service.create).toHaveBeenCalledWith(
+        'player-1',
+        expect.objectContaining({ host: 'player-1', name: 'Friday night' }),
+      );
+      expect(model.findOneAndUpdate).toHaveBeenNthCalledWith(
+        1,
+        { id: sessionId, rematchSessionId: null },
+        { $set: { rematchSessionId: 'rematch-1' } },
+        { new: true },
+      );
+      expect(model.findOneAndUpdate).toHaveBeenNthCalledWith(
+        3,
+        expect.objectContaining({
+          id: 'rematch-1',
+          'players.7': { $exists: false },
+        }),
+        { $addToSet: { players: 'player-1' } },
+        { new: true },
+      );
+      expect(result.rematchOf).toBe(sessionId);
+      expect(result.players).toEqual(['player-1']);
+      expect(eventEmitter.emit).toHaveBeenCalledWith(
+        'gameSession.rematchCreated',
+        expect.objectContaining({ requestedBy: 'player-1' }),
+      );
+    });
+
+    it('should drop the rematch when the requester cannot stake the wager', async () => {
+      const rematch = {
+        ...finished(),
+        id: 'rematch-1',
+        players: [],
+        settings: { wagerAmount: 50 },
+        status: SessionStatus.Created,
+      };
+      model.findOne.mockReturnValue(withExec(finished()));
+      jest.spyOn(service, 'create').mockResolvedValue(rematch as any);
+      model.findOneAndUpdate
+        .mockReturnValueOnce(
+          withExec({ ...finished(), rematchSessionId: 'rematch-1' }),
+        )
+        .mockReturnValueOnce(withExec({ ...rematch, rematchOf: sessionId }));
+      walletService.lockWager.mockRejectedValue(
+        new BadRequestException('Insufficient balance'),
+      );
+
+      await expect(
+        service.createRematch('player-1', sessionId),
+      ).rejects.toThrow('Insufficient balance');
+      expect(model.updateOne).toHaveBeenCalledWith(
+        { id: sessionId, rematchSessionId: 'rematch-1' },
+        { $set: { rematchSessionId: null } },
+      );
+      expect(model.deleteOne).toHaveBeenCalledWith({ id: 'rematch-1' });
+    });
+
+    it('should only rematch finished sessions', async () => {
+      model.findOne.mockReturnValue(
+        withExec({ ...finished(), status: SessionStatus.Active }),
+      );
+
+      await expect(service.createRematch(hostId, sessionId)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    const openRematch = (overrides: Record<string, any> = {}) => ({
+      ...mockSession(SessionStatus.Created),
+      id: 'rematch-1',
+      players: [hostId],
+      settings: { maxPlayers: 2, wagerAmount: 50 },
+      rematchDeadline: new Date(Date.now() + 60 * 1000),
+      rematchInvites: [
+        { userId: 'player-1', status: 'pending', respondedAt: null },
+      ],
+      ...overrides,
+    });
+
+    it('should seat an accepting player and hold their wager', async () => {
+      model.findOne.mockReturnValue(withExec(openRematch()));
+      model.findOneAndUpdate.mockReturnValue(
+        withExec(openRematch({ players: [hostId, 'player-1'] })),
+      );
+
+      await service.respondToRematch('player-1', 'rematch-1', true);
+
+      expect(walletService.lockWager).toHaveBeenCalledWith(
+        'player-1',
+        'rematch-1',
+        50,
+      );
+      expect(model.findOneAndUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          'players.1': { $exists: false },
+          rematchDeadline: { $gt: expect.any(Date) },
+        }),
+        expect.objectContaining({ $addToSet: { players: 'player-1' } }),
+        { new: true },
+      );
+      expect(walletService.refundWager).not.toHaveBeenCalled();
+    });
+
+    it('should not seat an accepting player in a full rematch', async () => {
+      model.findOne.mockReturnValue(
+        withExec(openRematch({ players: [hostId, 'player-2'] })),
+      );
+
+      await expect(
+        service.respondToRematch('player-1', 'rematch-1', true),
+      ).rejects.toThrow('Game session is full');
+      expect(walletService.lockWager).not.toHaveBeenCalled();
+    });
+
+    it('should give the wager back when the accept does not go through', async () => {
+      model.findOne.mockReturnValue(withExec(openRematch()));
+      model.findOneAndUpdate.mockReturnValue(withExec(null));
+
+      await expect(
+        service.respondToRematch('player-1', 'rematch-1', true),
+      ).rejects.toThrow(ConflictException);
+      expect(walletService.refundWager).toHaveBeenCalledWith({
+        _id: 'lock-1',
+      });
+    });
+
+    it('should reject answers after the rematch deadline', async () => {
+      model.findOne.mockReturnValue(
+        withExec(openRematch({ rematchDeadline: new Date(Date.now() - 1) })),
+      );
+
+      await expect(
+        service.respondToRematch('player-1', 'rematch-1', true),
+      ).rejects.toThrow(BadRequestException);
+      expect(walletService.lockWager).not.toHaveBeenCalled();
+      expect(model.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('settings', () => {
+    it('should fill missing settings with defaults', () => {
+      const settings = resolveGameSessionSettings({
+        answerMode: AnswerMode.Exact,
+      });
+
+      expect(settings).toEqual({
+        ...DEFAULT_GAME_SESSION_SETTINGS,
+        answerMode: AnswerMode.Exact,
+      });
+    });
+
+    it('should merge updated settings over the stored ones', async () => {
+      const stored = {
+        ...mockSession(SessionStatus.Created),
+        settings: { ...DEFAULT_GAME_SESSION_SETTINGS, roundCount: 5 },
+      };
+      model.findOne.mockReturnValue(withExec(stored));
+      model.findOneAndUpdate.mockImplementation((filter, update) =>
+        withExec({ ...stored, ...update.$set }),
+      );
+
+      const result = await service.update(hostId, sessionId, {
+        settings: { secondsPerRound: 45 },
+      });
+
+      expect(result.settings.roundCount).toBe(5);
+      expect(result.settings.secondsPerRound).toBe(45);
+    });
+
+    it('should only write the sent fields while the session is as it was read', async () => {
+      model.findOne.mockReturnValue(
+        withExec(mockSession(SessionStatus.Waiting)),
+      );
+      model.findOneAndUpdate.mockReturnValue(
+        withExec({ ...mockSession(SessionStatus.Waiting), name: 'Late show' }),
+      );
+
+      await service.update(hostId, sessionId, { name: 'Late show' });
+
+      expect(model.findOneAndUpdate).toHaveBeenCalledWith(
+        { id: sessionId, host: hostId, status: SessionStatus.Waiting },
+        { $set: { name: 'Late show' } },
+        { new: true },
+      );
+    });
+
+    it('should not overwrite a session that changed while updating', async () => {
+      model.findOne.mockReturnValue(
+        withExec(mockSession(SessionStatus.Waiting)),
+      );
+      model.findOneAndUpdate.mockReturnValue(withExec(null));
+
+      await expect(
+        service.update(hostId, sessionId, { name: 'Late show' }),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should not change settings once the lobby is open', async () => {
+      model.findOne.mockReturnValue(
+        withExec(mockSession(SessionStatus.Waiting)),
+      );
+
+      await expect(
+        service.update(hostId, sessionId, { settings: { wagerAmount: 50 } }),
+      ).rejects.toThrow('lobby is open');
+      expect(model.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should not change the wager once players have staked it', async () => {
+      model.findOne.mockReturnValue(
+        withExec({ ...mockSession(SessionStatus.Created), players: ['a'] }),
+      );
+
+      await expect(
+        service.update(hostId, sessionId, { settings: { wagerAmount: 50 } }),
+      ).rejects.toThrow('settings.wagerAmount');
+    });
+
+    it('should not lower maxPlayers below the players already joined', async () => {
+      model.findOne.mockReturnValue(
+        withExec({
+          ...mockSession(SessionStatus.Created),
+          players: ['a', 'b', 'c'],
+        }),
+      );
+
+      await expect(
+        service.update(hostId, sessionId, { settings: { maxPlayers: 2 } }),
+      ).rejects.toThrow('settings.maxPlayers');
+    });
+
+    it('should not let the adaptive difficulty bounds cross', async () => {
+      model.findOne.mockReturnValue(
+        withExec(mockSession(SessionStatus.Created)),
+      );
+
+      await expect(
+        service.update(hostId, sessionId, {
+          settings: {
+            minDifficulty: SessionDifficulty.Hard,
+            maxDifficulty: SessionDifficulty.Medium,
+          },
+        }),
+      ).rejects.toThrow('settings.minDifficulty');
+    });
+  });
+});
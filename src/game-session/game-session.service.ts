@@ -1,12 +1,46 @@
-import { Injectable, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
+import { Injectable, NotFoundException, ForbiddenException, BadRequestException, ConflictException } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
-import { GameSession, GameSessionDocument } from '../schemas/game-session.schema';
+import { GameSession, GameSessionDocument, SessionTeam, SessionTeamRules } from '../schemas/game-session.schema';
 import { CreateGameSessionDto } from '../game-session/dto/create-game-session.dto';
 import { v4 as uuidv4 } from 'uuid';
+import { randomInt } from 'crypto';
+import * as bcrypt from 'bcrypt';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import rateLimit from 'express-rate-limit';
 import { UpdateGameSessionDto } from './dto/update-game-session.dto';
+import { HostChangeReason, RematchInviteStatus, SessionStatus, SessionVisibility } from '../enum/game-session.enum';
+import {
+  GameSessionStatusChangedEvent,
+  GameSessionLobbyOpenedEvent,
+  GameSessionStartedEvent,
+  GameSessionCompletedEvent,
+  GameSessionAbandonedEvent,
+  GameSessionPlayerJoinedEvent,
+  GameSessionHostChangedEvent,
+  GameSessionRematchCreatedEvent,
+  GameSessionRematchRespondedEvent,
+  GameSessionRematchExpiredEvent,
+  GameSessionTeamsConfiguredEvent,
+} from './game-session.events';
+import { resolveGameSessionSettings, getGameSessionSettingsOptions, gameSessionSettingsProblem } from './game-session-settings';
+import { GameSessionInviteService } from './game-session-invite.service';
+import { JoinGameSessionDto } from './dto/join-game-session.dto';
+import { ConfigureTeamsDto } from './dto/configure-teams.dto';
+import { PlayerService } from '../player/services/player.service';
+import { WalletService } from '../wallet/wallet.service';
+
+// Room codes skip characters that are easy to misread (0/O, 1/I/L)
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const ROOM_CODE_LENGTH = 6;
+const ROOM_CODE_MAX_ATTEMPTS = 5;
+const JOINABLE_STATUSES = [SessionStatus.Created, SessionStatus.Waiting];
+const LIVE_STATUSES = [SessionStatus.Created, SessionStatus.Waiting, SessionStatus.Active];
+const RATE_LIMIT_WINDOW_MS = 15 * 60 * 1000;
+// Recorded as the actor when the server itself changes a session
+const SYSTEM_ACTOR = 'system';
+// How long invited players have to accept a rematch before they are dropped from it
+export const REMATCH_RESPONSE_WINDOW_MS = 60 * 1000;
 
 const limiter = rateLimit({
 	windowMs: 15 * 60 * 1000, // 15 minutes
@@ -22,13 +56,16 @@ export class GameSessionService {
   constructor(
     @InjectModel(GameSession.name) private readonly gameSessionModel: Model<GameSessionDocument>,
     private readonly eventEmitter: EventEmitter2,
+    private readonly gameSessionInviteService: GameSessionInviteService,
+    private readonly playerService: PlayerService,
+    private readonly walletService: WalletService,
   ) {}
 
   private checkRateLimit(userId: string): void {
     const currentTime = Date.now();
     const userAttempts = this.sessionAttempts.get(userId) || { count: 0, timestamp: currentTime };
     
-    if (currentTime - userAttempts.timestamp > 15 * 60 * 1000) {
+    if (currentTime - userAttempts.timestamp > RATE_LIMIT_WINDOW_MS) {
       this.sessionAttempts.set(userId, { count: 1, timestamp: currentTime });
     } else {
       if (userAttempts.count >= 5) {
@@ -39,25 +76,267 @@ export class GameSessionService {
     }
   }
 
+  /**
+   * Drop rate limit entries whose window has passed so the map does not grow without bound
+   */
+  pruneSessionAttempts(): void {
+    const cutoff = Date.now() - RATE_LIMIT_WINDOW_MS;
+    for (const [userId, attempts] of this.sessionAttempts) {
+      if (attempts.timestamp < cutoff) {
+        this.sessionAttempts.delete(userId);
+      }
+    }
+  }
+
   async create(userId: string, createGameSessionDto: CreateGameSessionDto): Promise<GameSession> {
     this.checkRateLimit(userId);
-    const session = new this.gameSessionModel({
-      ...createGameSessionDto,
-      id: uuidv4(),
-      roomCode: this.generateRoomCode(),
-      host: userId,
-    });
-    
-    await session.save();
-    this.eventEmitter.emit('gameSession.created', session);
-    return session;
+    return this.createSession(userId, createGameSessionDto);
+  }
+
+  /**
+   * Create a session the server sets up for players, such as a matchmaking or tournament match.
+   * The host's rate limit is for sessions players create themselves, so it does not apply.
+   */
+  async createForHost(hostId: string, createGameSessionDto: CreateGameSessionDto): Promise<GameSession> {
+    return this.createSession(hostId, createGameSessionDto);
+  }
+
+  /**
+   * Delete a session the server created when setting it up failed part way
+   */
+  async discard(id: string): Promise<void> {
+    await this.gameSessionModel.deleteOne({ id }).exec();
+    this.eventEmitter.emit('gameSession.deleted', { id });
+  }
+
+  private async createSession(userId: string, createGameSessionDto: CreateGameSessionDto): Promise<GameSession> {
+    const { passcode, ...sessionData } = createGameSessionDto;
+    const settings = resolveGameSessionSettings(createGameSessionDto.settings);
+    const settingsProblem = gameSessionSettingsProblem(settings);
+    if (settingsProblem) {
+      throw new BadRequestException(settingsProblem);
+    }
+    const passcodeHash = passcode ? await this.hashPasscode(passcode) : null;
+
+    for (let attempt = 1; attempt <= ROOM_CODE_MAX_ATTEMPTS; attempt++) {
+      const session = new this.gameSessionModel({
+        ...sessionData,
+        passcodeHash,
+        settings,
+        id: uuidv4(),
+        roomCode: this.generateRoomCode(),
+        host: userId,
+      });
+
+      try {
+        await session.save();
+      } catch (error: any) {
+        // Another live session already holds this code, roll a new one
+        if (error?.code === 11000 && error.keyPattern?.roomCode) {
+          continue;
+        }
+        throw error;
+      }
+
+      this.eventEmitter.emit('gameSession.created', session);
+      return session;
+    }
+
+    throw new ConflictException('Could not allocate a unique room code. Please try again.');
+  }
+
+  /**
+   * Join a session using the room code shared by the host
+   */
+  async joinByRoomCode(userId: string, roomCode: string, joinGameSessionDto: JoinGameSessionDto = {}): Promise<GameSession> {
+    const session = await this.gameSessionModel
+      .findOne({ roomCode: this.normalizeRoomCode(roomCode) })
+      .select('+passcodeHash +invites')
+      .exec();
+    if (!session) {
+      throw new NotFoundException('No open game session found for this room code');
+    }
+
+    return this.addPlayer(session, userId, joinGameSessionDto);
+  }
+
+  /**
+   * Join a session straight from an invite link
+   */
+  async joinByInvite(userId: string, inviteToken: string): Promise<GameSession> {
+    const { sessionId } = this.gameSessionInviteService.verifyInviteToken(inviteToken);
+    const session = await this.gameSessionModel
+      .findOne({ id: sessionId })
+      .select('+passcodeHash +invites')
+      .exec();
+    if (!session) {
+      throw new NotFoundException('Game session not found');
+    }
+
+    return this.addPlayer(session, userId, { inviteToken });
+  }
+
+  /**
+   * Helper method to admit a player after checking status, capacity and private-session credentials.
+   * A claim, such as a rematch invite, is checked and recorded in the same write and stands in for the credentials.
+   */
+  private async addPlayer(
+    session: GameSession,
+    userId: string,
+    credentials: JoinGameSessionDto,
+    claim?: { filter: Record<string, any>; update: Record<string, any> },
+  ): Promise<GameSessionDocument> {
+    if (session.players.includes(userId)) {
+      // Re-read without the credential fields that were selected for the checks below
+      return this.findOne(session.id);
+    }
+
+    if (!JOINABLE_STATUSES.includes(session.status)) {
+      throw new BadRequestException('Cannot join a session that has already started or ended');
+    }
+
+    const { maxPlayers, wagerAmount } = resolveGameSessionSettings(session.settings);
+    if (session.players.length >= maxPlayers) {
+      throw new BadRequestException('Game session is full');
+    }
+
+    // Re-check status and capacity in the update itself so concurrent joins cannot overfill the room
+    const filter: Record<string, any> = {
+      id: session.id,
+      status: { $in: JOINABLE_STATUSES },
+      players: { $ne: userId },
+      [`players.${maxPlayers - 1}`]: { $exists: false },
+      ...claim?.filter,
+    };
+    const update: Record<string, any> = { ...claim?.update, $addToSet: { players: userId } };
+
+    if (!claim && session.visibility === SessionVisibility.Private && session.host !== userId) {
+      const passcodeAccepted = await this.checkPasscode(session, credentials.passcode);
+
+      if (!passcodeAccepted) {
+        const invite = credentials.inviteToken && this.resolveInvite(session, credentials.inviteToken);
+        if (!invite) {
+          throw new ForbiddenException('A valid passcode or invite link is required to join this private session');
+        }
+
+        // Consume one use of the invite in the same write that admits the player
+        filter.invites = {
+          $elemMatch: {
+            tokenId: invite.tokenId,
+            revokedAt: null,
+            expiresAt: { $gt: new Date() },
+            usesLeft: invite.usesLeft === null ? null : { $gt: 0 },
+          },
+        };
+        update.$inc =
+          invite.usesLeft === null
+            ? { 'invites.$.uses': 1 }
+            : { 'invites.$.uses': 1, 'invites.$.usesLeft': -1 };
+      }
+    }
+
+    // Players stake the session's wager as they join; it is given back if they are not let in after all
+    const wager = wagerAmount > 0 ? await this.walletService.lockWager(userId, session.id, wagerAmount) : null;
+
+    let updated: GameSessionDocument | null = null;
+    try {
+      updated = await this.gameSessionModel.findOneAndUpdate(filter, update, { new: true }).exec();
+    } finally {
+      if (wager && !updated) {
+        await this.walletService.refundWager(wager);
+      }
+    }
+
+    if (!updated) {
+      throw new ConflictException('Game session changed while joining. Please try again.');
+    }
+
+    this.eventEmitter.emit('gameSession.playerJoined', new GameSessionPlayerJoinedEvent(updated, userId));
+    return updated;
+  }
+
+  private resolveInvite(session: GameSession, inviteToken: string) {
+    const { sessionId, tokenId } = this.gameSessionInviteService.verifyInviteToken(inviteToken);
+    if (sessionId !== session.id) {
+      return undefined;
+    }
+    return this.gameSessionInviteService.findUsableInvite(session, tokenId);
+  }
+
+  private async checkPasscode(session: GameSession, passcode?: string): Promise<boolean> {
+    if (!passcode || !session.passcodeHash) {
+      return false;
+    }
+    return bcrypt.compare(passcode, session.passcodeHash);
+  }
+
+  private async hashPasscode(passcode: string): Promise<string> {
+    const salt = await bcrypt.genSalt(10);
+    return bcrypt.hash(passcode, salt);
   }
 
   async findAll(): Promise<GameSession[]> {
-    return await this.gameSessionModel.find().exec();
+    return await this.gameSessionModel.find({ visibility: SessionVisibility.Public }).exec();
+  }
+
+  /**
+   * Public sessions that can still be joined, newest first, for the lobby browser
+   */
+  async findOpenPublicSessions(limit: number, offset: number): Promise<{ data: GameSessionDocument[]; total: number }> {
+    const query = {
+      visibility: SessionVisibility.Public,
+      status: { $in: JOINABLE_STATUSES },
+    };
+
+    const [data, total] = await Promise.all([
+      this.gameSessionModel.find(query).sort({ createdAt: -1 }).skip(offset).limit(limit).exec(),
+      this.gameSessionModel.countDocuments(query).exec(),
+    ]);
+
+    return { data, total };
   }
 
-  async findOne(id: string): Promise<GameSession> {
+  /**
+   * Sessions that have not ended and have not changed since the given time, oldest first
+   */
+  async findInactiveSessions(updatedBefore: Date, limit: number): Promise<GameSessionDocument[]> {
+    return this.gameSessionModel
+      .find({ status: { $in: LIVE_STATUSES }, updatedAt: { $lt: updatedBefore } })
+      .sort({ updatedAt: 1 })
+      .limit(limit)
+      .exec();
+  }
+
+  /**
+   * Rematches past their response deadline that still have unanswered invites, oldest deadline first
+   */
+  async findExpiredRematches(now: Date, limit: number): Promise<GameSessionDocument[]> {
+    return this.gameSessionModel
+      .find({ rematchDeadline: { $lte: now }, 'rematchInvites.status': RematchInviteStatus.Pending })
+      .sort({ rematchDeadline: 1 })
+      .limit(limit)
+      .exec();
+  }
+
+  /**
+   * Live sessions whose host has been disconnected since before the given time, longest gone first
+   */
+  async findSessionsWithAbsentHost(disconnectedBefore: Date, limit: number): Promise<GameSessionDocument[]> {
+    return this.gameSessionModel
+      .find({ status: { $in: LIVE_STATUSES }, hostDisconnectedAt: { $lte: disconnectedBefore } })
+      .sort({ hostDisconnectedAt: 1 })
+      .limit(limit)
+      .exec();
+  }
+
+  /**
+   * Look up a session by its document ID, as players and rounds refer to it
+   */
+  async findByDocumentId(documentId: string): Promise<GameSessionDocument | null> {
+    return this.gameSessionModel.findById(documentId).exec();
+  }
+
+  async findOne(id: string): Promise<GameSessionDocument> {
     const session = await this.gameSessionModel.findOne({ id }).exec();
     if (!session) {
       throw new NotFoundException('Game session not found');
@@ -70,11 +349,55 @@ export class GameSessionService {
     if (session.host !== userId) {
       throw new ForbiddenException('You are not authorized to update this session');
     }
-    
-    Object.assign(session, updateGameSessionDto);
-    await this.gameSessionModel.updateOne({ id }, session).exec();
-    this.eventEmitter.emit('gameSession.updated', session);
-    return session;
+
+    if (!JOINABLE_STATUSES.includes(session.status)) {
+      throw new BadRequestException(`Cannot update a session with status ${session.status}`);
+    }
+
+    const { passcode, settings: settingsUpdate, ...sessionData } = updateGameSessionDto;
+    const changes: Record<string, any> = Object.fromEntries(
+      Object.entries(sessionData).filter(([, value]) => value !== undefined),
+    );
+    // Only the fields sent are written, and only while the session is as it was read,
+    // so a join, host change or transition in between is not undone
+    const filter: Record<string, any> = { id, host: userId, status: session.status };
+
+    if (settingsUpdate) {
+      // Players join and stake their wager on the settings shown in the lobby
+      if (session.status !== SessionStatus.Created) {
+        throw new BadRequestException('Settings cannot be changed once the lobby is open');
+      }
+
+      const current = resolveGameSessionSettings(session.settings);
+      const settings = resolveGameSessionSettings(settingsUpdate, current);
+      if (settings.maxPlayers < session.players.length) {
+        throw new BadRequestException('settings.maxPlayers cannot be lower than the number of players already in the session');
+      }
+      if (settings.wagerAmount !== current.wagerAmount && session.players.length > 0) {
+        throw new BadRequestException('settings.wagerAmount cannot be changed once players have joined');
+      }
+      const settingsProblem = gameSessionSettingsProblem(settings);
+      if (settingsProblem) {
+        throw new BadRequestException(settingsProblem);
+      }
+
+      filter[`players.${settings.maxPlayers}`] = { $exists: false };
+      if (settings.wagerAmount !== current.wagerAmount) {
+        filter['players.0'] = { $exists: false };
+      }
+      changes.settings = settings;
+    }
+
+    if (passcode) {
+      changes.passcodeHash = await this.hashPasscode(passcode);
+    }
+
+    const updated = await this.gameSessionModel.findOneAndUpdate(filter, { $set: changes }, { new: true }).exec();
+    if (!updated) {
+      throw new ConflictException('Game session changed while updating. Please try again.');
+    }
+    this.eventEmitter.emit('gameSession.updated', updated);
+    return updated;
   }
 
   async remove(userId: string, id: string): Promise<void> {
@@ -87,7 +410,459 @@ export class GameSessionService {
     this.eventEmitter.emit('gameSession.deleted', { id });
   }
 
+  /**
+   * Allowed values, ranges and defaults for session settings
+   */
+  getSettingsOptions() {
+    return getGameSessionSettingsOptions();
+  }
+
+  /**
+   * Open the lobby so players can join
+   */
+  async openLobby(userId: string, id: string): Promise<GameSession> {
+    return this.transitionStatus(userId, id, SessionStatus.Waiting);
+  }
+
+  /**
+   * Start the game; the lobby is closed from here on
+   */
+  async start(userId: string, id: string): Promise<GameSession> {
+    return this.transitionStatus(userId, id, SessionStatus.Active);
+  }
+
+  /**
+   * Finish a running game
+   */
+  async finish(userId: string, id: string): Promise<GameSession> {
+    return this.transitionStatus(userId, id, SessionStatus.completed);
+  }
+
+  /**
+   * Abandon a session that has not finished
+   */
+  async abandon(userId: string, id: string, reason?: string): Promise<GameSession> {
+    return this.transitionStatus(userId, id, SessionStatus.Abandoned, reason);
+  }
+
+  /**
+   * Split the session into teams before it starts; players already in it are spread evenly over the new teams
+   */
+  async configureTeams(userId: string, id: string, configureTeamsDto: ConfigureTeamsDto): Promise<GameSession> {
+    const names = configureTeamsDto.teams.map((team) => team.name.trim());
+    if (new Set(names.map((name) => name.toLowerCase())).size !== names.length) {
+      throw new BadRequestException('Team names must be unique');
+    }
+
+    const teams = names.map((name) => ({ teamId: uuidv4(), name }));
+    return this.setTeams(userId, id, teams, {
+      firstCorrectOnly: configureTeamsDto.firstCorrectOnly ?? false,
+      captainsAnswer: configureTeamsDto.captainsAnswer ?? false,
+    });
+  }
+
+  /**
+   * Go back to free-for-all before the session starts
+   */
+  async clearTeams(userId: string, id: string): Promise<GameSession> {
+    return this.setTeams(userId, id, [], { firstCorrectOnly: false, captainsAnswer: false });
+  }
+
+  /**
+   * Start a rematch of a finished session with the same settings; the requester hosts it
+   */
+  async createRematch(userId: string, id: string): Promise<GameSession> {
+    const previous = await this.findOne(id);
+    if (previous.host !== userId && !previous.players.includes(userId)) {
+      throw new ForbiddenException('Only players of this session can ask for a rematch');
+    }
+    if (previous.status !== SessionStatus.completed) {
+      throw new BadRequestException('A rematch can only be started once the game has finished');
+    }
+    if (previous.rematchSessionId) {
+      throw new ConflictException('A rematch of this session already exists');
+    }
+
+    const rematch = await this.create(userId, {
+      name: previous.name,
+      host: userId,
+      visibility: previous.visibility,
+      settings: resolveGameSessionSettings(previous.settings),
+    });
+
+    // Link the sessions; only one rematch can win if several players ask at once
+    const linked = await this.gameSessionModel
+      .findOneAndUpdate(
+        { id, rematchSessionId: null },
+        { $set: { rematchSessionId: rematch.id } },
+        { new: true },
+      )
+      .exec();
+    if (!linked) {
+      await this.gameSessionModel.deleteOne({ id: rematch.id }).exec();
+      throw new ConflictException('A rematch of this session already exists');
+    }
+
+    const prepared = await this.gameSessionModel
+      .findOneAndUpdate(
+        { id: rematch.id },
+        {
+          $set: {
+            rematchOf: id,
+            rematchDeadline: new Date(Date.now() + REMATCH_RESPONSE_WINDOW_MS),
+            rematchInvites: [{ userId, status: RematchInviteStatus.Accepted, respondedAt: new Date() }],
+          },
+        },
+        { new: true },
+      )
+      .exec();
+    if (!prepared) {
+      throw new NotFoundException('Game session not found');
+    }
+
+    // The requester takes the first seat and stakes the wager like any other player
+    let updated: GameSessionDocument;
+    try {
+      updated = await this.addPlayer(prepared, userId, {});
+    } catch (error) {
+      // Without the requester there is no rematch; free the previous session for another request
+      await this.gameSessionModel
+        .updateOne({ id, rematchSessionId: rematch.id }, { $set: { rematchSessionId: null } })
+        .exec();
+      await this.discard(rematch.id);
+      throw error;
+    }
+
+    this.eventEmitter.emit(
+      'gameSession.rematchCreated',
+      new GameSessionRematchCreatedEvent(linked, updated, userId),
+    );
+    return updated;
+  }
+
+  /**
+   * Record rematch invites for players of the previous session; players already invited are skipped
+   */
+  async addRematchInvites(rematchId: string, userIds: string[]): Promise<GameSession> {
+    const rematch = await this.findOne(rematchId);
+    const invited = new Set(rematch.rematchInvites.map((invite) => invite.userId));
+    const invites = [...new Set(userIds)]
+      .filter((userId) => !invited.has(userId))
+      .map((userId) => ({ userId, status: RematchInviteStatus.Pending, respondedAt: null }));
+
+    if (invites.length === 0) {
+      return rematch;
+    }
+
+    const updated = await this.gameSessionModel
+      .findOneAndUpdate({ id: rematchId }, { $push: { rematchInvites: { $each: invites } } }, { new: true })
+      .exec();
+    if (!updated) {
+      throw new NotFoundException('Game session not found');
+    }
+    return updated;
+  }
+
+  /**
+   * Accept or decline a rematch invite; accepting puts the player in the new session
+   */
+  async respondToRematch(userId: string, rematchId: string, accept: boolean): Promise<GameSession> {
+    const now = new Date();
+    const filter = {
+      rematchDeadline: { $gt: now },
+      rematchInvites: { $elemMatch: { userId, status: RematchInviteStatus.Pending } },
+    };
+    const response = {
+      $set: {
+        'rematchInvites.$.status': accept ? RematchInviteStatus.Accepted : RematchInviteStatus.Declined,
+        'rematchInvites.$.respondedAt': now,
+      },
+    };
+    const noPendingInvite = 'You have no pending invite to this rematch, or it has expired';
+
+    let updated: GameSessionDocument | null;
+    if (accept) {
+      const rematch = await this.findOne(rematchId);
+      const pending = rematch.rematchInvites.some(
+        (invite) => invite.userId === userId && invite.status === RematchInviteStatus.Pending,
+      );
+      if (!pending || !rematch.rematchDeadline || rematch.rematchDeadline <= now) {
+        throw new BadRequestException(noPendingInvite);
+      }
+
+      // Accepting is a join like any other, so the seat is capped and the wager held
+      updated = await this.addPlayer(rematch, userId, {}, { filter, update: response });
+    } else {
+      updated = await this.gameSessionModel
+        .findOneAndUpdate({ id: rematchId, status: { $in: JOINABLE_STATUSES }, ...filter }, response, { new: true })
+        .exec();
+    }
+
+    if (!updated) {
+      throw new BadRequestException(noPendingInvite);
+    }
+
+    this.eventEmitter.emit(
+      'gameSession.rematchResponded',
+      new GameSessionRematchRespondedEvent(updated, userId, accept),
+    );
+    return updated;
+  }
+
+  /**
+   * Drop every player who has not answered a rematch invite in time
+   */
+  async expireRematchInvites(rematchId: string): Promise<string[]> {
+    const rematch = await this.findOne(rematchId);
+    const dropped = rematch.rematchInvites
+      .filter((invite) => invite.status === RematchInviteStatus.Pending)
+      .map((invite) => invite.userId);
+
+    if (dropped.length === 0) {
+      return [];
+    }
+
+    const updated = await this.gameSessionModel
+      .findOneAndUpdate(
+        { id: rematchId },
+        { $set: { 'rematchInvites.$[invite].status': RematchInviteStatus.Expired } },
+        { new: true, arrayFilters: [{ 'invite.status': RematchInviteStatus.Pending, 'invite.userId': { $in: dropped } }] },
+      )
+      .exec();
+    if (!updated) {
+      throw new NotFoundException('Game session not found');
+    }
+
+    this.eventEmitter.emit('gameSession.rematchExpired', new GameSessionRematchExpiredEvent(updated, dropped));
+    return dropped;
+  }
+
+  /**
+   * Abandon a session on the server's behalf, e.g. when it has been left idle
+   */
+  async expire(id: string, reason: string): Promise<GameSession> {
+    const session = await this.findOne(id);
+    return this.applyTransition(session, SessionStatus.Abandoned, SYSTEM_ACTOR, reason);
+  }
+
+  /**
+   * Hand the host role to another player in the session, e.g. back to the previous host
+   */
+  async transferHost(userId: string, id: string, newHostId: string): Promise<GameSession> {
+    const session = await this.findOne(id);
+    if (session.host !== userId) {
+      throw new ForbiddenException('Only the session host can hand over the host role');
+    }
+    if (newHostId === userId) {
+      throw new BadRequestException('You are already the host of this session');
+    }
+    if (!session.players.includes(newHostId)) {
+      throw new BadRequestException('The new host must be a player in this session');
+    }
+    if (!LIVE_STATUSES.includes(session.status)) {
+      throw new BadRequestException('Cannot change the host of a session that has ended');
+    }
+
+    const updated = await this.changeHost(id, userId, newHostId, HostChangeReason.Transferred);
+    if (!updated) {
+      throw new ConflictException('Session host was changed by another request');
+    }
+    return updated;
+  }
+
+  /**
+   * Start the grace period of every live session the user hosts, as their last connection dropped
+   */
+  async markHostDisconnected(userId: string): Promise<void> {
+    await this.gameSessionModel
+      .updateMany(
+        { host: userId, status: { $in: LIVE_STATUSES }, hostDisconnectedAt: null },
+        { $set: { hostDisconnectedAt: new Date() } },
+      )
+      .exec();
+  }
+
+  /**
+   * A host who reconnects within the grace period keeps the role
+   */
+  async markHostReconnected(userId: string): Promise<void> {
+    await this.gameSessionModel
+      .updateMany({ host: userId, hostDisconnectedAt: { $ne: null } }, { $set: { hostDisconnectedAt: null } })
+      .exec();
+  }
+
+  /**
+   * Move the host role away from a host who left or dropped; returns null if it already moved
+   */
+  async migrateHost(id: string, previousHostId: string, newHostId: string): Promise<GameSession | null> {
+    return this.changeHost(id, previousHostId, newHostId, HostChangeReason.Migrated);
+  }
+
+  /**
+   * Helper method to swap the host, guarded on the current host so concurrent changes cannot both win
+   */
+  private async changeHost(
+    id: string,
+    previousHostId: string,
+    newHostId: string,
+    reason: HostChangeReason,
+  ): Promise<GameSessionDocument | null> {
+    const updated = await this.gameSessionModel
+      .findOneAndUpdate(
+        { id, host: previousHostId, status: { $in: LIVE_STATUSES } },
+        { $set: { host: newHostId, hostDisconnectedAt: null } },
+        { new: true },
+      )
+      .exec();
+
+    if (updated) {
+      this.eventEmitter.emit(
+        'gameSession.hostChanged',
+        new GameSessionHostChangedEvent(updated, previousHostId, reason),
+      );
+    }
+    return updated;
+  }
+
+  /**
+   * Helper method to replace the teams of a session that has not started and rebalance its players
+   */
+  private async setTeams(
+    userId: string,
+    id: string,
+    teams: SessionTeam[],
+    teamRules: SessionTeamRules,
+  ): Promise<GameSession> {
+    const session = await this.findOne(id);
+    if (session.host !== userId) {
+      throw new ForbiddenException('Only the session host can set up teams');
+    }
+    if (!JOINABLE_STATUSES.includes(session.status)) {
+      throw new BadRequestException('Teams can only be changed before the game starts');
+    }
+
+    const updated = await this.gameSessionModel
+      .findOneAndUpdate(
+        { id, status: { $in: JOINABLE_STATUSES } },
+        { $set: { teams, teamRules } },
+        { new: true },
+      )
+      .exec();
+    if (!updated) {
+      throw new ConflictException('Session status was changed by another request');
+    }
+
+    await this.playerService.balanceTeams(
+      updated._id.toString(),
+      teams.map((team) => team.teamId),
+    );
+
+    this.eventEmitter.emit('gameSession.teamsConfigured', new GameSessionTeamsConfiguredEvent(updated, userId));
+    return updated;
+  }
+
+  /**
+   * Helper method to validate state transitions
+   */
+  private validateStatusTransition(currentStatus: SessionStatus, newStatus: SessionStatus): void {
+    const validTransitions: Record<SessionStatus, SessionStatus[]> = {
+      [SessionStatus.Created]: [SessionStatus.Waiting, SessionStatus.Abandoned],
+      [SessionStatus.Waiting]: [SessionStatus.Active, SessionStatus.Abandoned],
+      [SessionStatus.Active]: [SessionStatus.completed, SessionStatus.Abandoned],
+      [SessionStatus.completed]: [],
+      [SessionStatus.Abandoned]: [],
+    };
+
+    if (!validTransitions[currentStatus].includes(newStatus)) {
+      throw new BadRequestException(`Cannot transition session from ${currentStatus} to ${newStatus}`);
+    }
+  }
+
+  /**
+   * Helper method to move a session to a new status on behalf of its host
+   */
+  private async transitionStatus(
+    userId: string,
+    id: string,
+    newStatus: SessionStatus,
+    reason?: string,
+  ): Promise<GameSession> {
+    const session = await this.findOne(id);
+    if (session.host !== userId) {
+      throw new ForbiddenException('Only the session host can change its status');
+    }
+
+    return this.applyTransition(session, newStatus, userId, reason);
+  }
+
+  /**
+   * Helper method to validate and apply a status change, stamp the transition and emit events
+   */
+  private async applyTransition(
+    session: GameSession,
+    newStatus: SessionStatus,
+    changedBy: string,
+    reason?: string,
+  ): Promise<GameSession> {
+    const { id } = session;
+    const previousStatus = session.status;
+    this.validateStatusTransition(previousStatus, newStatus);
+
+    const timestampField = {
+      [SessionStatus.Waiting]: 'lobbyOpenedAt',
+      [SessionStatus.Active]: 'startedAt',
+      [SessionStatus.completed]: 'completedAt',
+      [SessionStatus.Abandoned]: 'abandonedAt',
+    }[newStatus];
+
+    const changes: Record<string, any> = { status: newStatus, [timestampField]: new Date() };
+
+    // Ended sessions give their room code back to the pool
+    if (newStatus === SessionStatus.completed || newStatus === SessionStatus.Abandoned) {
+      changes.roomCode = null;
+    }
+
+    // Guard on the previous status so concurrent transitions cannot both succeed
+    const updated = await this.gameSessionModel
+      .findOneAndUpdate({ id, status: previousStatus }, { $set: changes }, { new: true })
+      .exec();
+
+    if (!updated) {
+      throw new ConflictException('Session status was changed by another request');
+    }
+
+    this.eventEmitter.emit(
+      'gameSession.statusChanged',
+      new GameSessionStatusChangedEvent(updated, previousStatus, changedBy),
+    );
+
+    switch (newStatus) {
+      case SessionStatus.Waiting:
+        this.eventEmitter.emit('gameSession.lobbyOpened', new GameSessionLobbyOpenedEvent(updated));
+        break;
+      case SessionStatus.Active:
+        this.eventEmitter.emit('gameSession.started', new GameSessionStartedEvent(updated));
+        break;
+      case SessionStatus.completed:
+        this.eventEmitter.emit('gameSession.completed', new GameSessionCompletedEvent(updated));
+        break;
+      case SessionStatus.Abandoned:
+        this.eventEmitter.emit('gameSession.abandoned', new GameSessionAbandonedEvent(updated, reason));
+        break;
+    }
+
+    return updated;
+  }
+
   private generateRoomCode(): string {
-    return Math.random().toString(36).substr(2, 6).toUpperCase();
+    let code = '';
+    for (let i = 0; i < ROOM_CODE_LENGTH; i++) {
+      code += ROOM_CODE_ALPHABET[randomInt(ROOM_CODE_ALPHABET.length)];
+    }
+    return code;
+  }
+
+  private normalizeRoomCode(roomCode: string): string {
+    return roomCode.trim().toUpperCase();
   }
 }
\ No newline at end of file
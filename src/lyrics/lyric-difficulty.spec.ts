@@ -0,0 +1,85 @@
+import { SessionDifficulty } from '../enum/game-session.enum';
+import { LyricDifficultySource } from '../enum/lyric.enum';
+import {
+  AnswerOutcome,
+  MIN_CALIBRATION_ANSWERS,
+  calibrateSongDifficulties,
+  difficultyMultiplier,
+  fitItemDifficulties,
+  vocabularyDifficulty,
+} from './lyric-difficulty';
+
+describe('lyric difficulty', () => {
+  // Every player answers the song once; the first `correct` of them get it right
+  const answers = (
+    songId: string,
+    players: number,
+    correct: number,
+    responseShare = 0.2,
+  ): AnswerOutcome[] =>
+    Array.from({ length: players }, (_, index) => ({
+      songId,
+      questionType: 'songTitle',
+      playerId: `player-${index}`,
+      isCorrect: index < correct,
+      responseShare,
+    }));
+
+  it('should rate songs players miss as harder than songs they get', () => {
+    const calibrated = calibrateSongDifficulties([
+      ...answers('easy', 30, 28),
+      ...answers('medium', 30, 15),
+      ...answers('hard', 30, 3),
+    ]);
+
+    const easy = calibrated.get('easy')!;
+    const hard = calibrated.get('hard')!;
+    expect(easy.score).toBeLessThan(calibrated.get('medium')!.score);
+    expect(calibrated.get('medium')!.score).toBeLessThan(hard.score);
+    expect(easy).toMatchObject({
+      level: SessionDifficulty.Easy,
+      source: LyricDifficultySource.Answers,
+      answerCount: 30,
+    });
+    expect(hard.level).toBe(SessionDifficulty.Hard);
+    expect(hard.questionTypes.songTitle).toBeCloseTo(hard.score, 2);
+  });
+
+  it('should rate slow correct answers harder than fast ones', () => {
+    const [fast, slow] = fitItemDifficulties([
+      ...answers('fast', 30, 20, 0.1),
+      ...answers('slow', 30, 20, 0.9),
+    ]);
+
+    expect(fast.songId).toBe('fast');
+    expect(fast.difficulty).toBeLessThan(slow.difficulty);
+  });
+
+  it('should leave songs with too few answers uncalibrated', () => {
+    const calibrated = calibrateSongDifficulties(
+      answers('rare', MIN_CALIBRATION_ANSWERS - 1, 0),
+    );
+
+    expect(calibrated.size).toBe(0);
+  });
+
+  it('should rate songs full of rare words harder by vocabulary', () => {
+    const plain = vocabularyDifficulty(
+      'Baby I love you\nBaby I need you\nLove me tonight',
+    );
+    const wordy = vocabularyDifficulty(
+      'Kaleidoscopic lighthouses\nTranscendental pilgrimage',
+    );
+
+    expect(plain.source).toBe(LyricDifficultySource.Vocabulary);
+    expect(plain.level).toBe(SessionDifficulty.Easy);
+    expect(wordy.level).toBe(SessionDifficulty.Hard);
+    expect(plain.score).toBeLessThan(wordy.score);
+  });
+
+  it('should scale scores from half for the easiest songs to one and a half for the hardest', () => {
+    expect(difficultyMultiplier({ score: 0 })).toBe(0.5);
+    expect(difficultyMultiplier({ score: 1 })).toBe(1.5);
+    expect(difficultyMultiplier(null)).toBe(1);
+  });
+});
@@ -0,0 +1,207 @@
+import { SessionDifficulty } from '../enum/game-session.enum';
+import { LyricDifficultySource } from '../enum/lyric.enum';
+import {
+  difficultyForRarity,
+  vocabularyRarity,
+} from '../gam-rounds/missing-words';
+import type { QuestionDifficulty } from '../gam-rounds/round-question-generator';
+import { parseLyricSections, selectSectionLines } from './lyric-sections';
+
+// Songs with fewer answers than this are rated by their vocabulary instead
+export const MIN_CALIBRATION_ANSWERS = 20;
+
+// How much of a correct answer's credit a slow answer loses, at the very end of the round
+const SLOW_ANSWER_PENALTY = 0.3;
+
+// Pulls abilities and difficulties towards average, so a handful of answers cannot push them far
+const PRIOR_WEIGHT = 1;
+
+const FIT_ITERATIONS = 30;
+
+export interface LyricDifficulty {
+  // 0 (everyone gets it) to 1 (nobody does)
+  score: number;
+  level: QuestionDifficulty;
+  source: LyricDifficultySource;
+  // Answers the score was fitted from; 0 for vocabulary ratings
+  answerCount: number;
+  // Score per question type the song was asked with
+  questionTypes: Record<string, number>;
+  calibratedAt: Date;
+}
+
+export interface AnswerOutcome {
+  songId: string;
+  questionType: string;
+  playerId: string;
+  isCorrect: boolean;
+  // Response time as a share of the round duration
+  responseShare: number;
+}
+
+export interface ItemDifficulty {
+  songId: string;
+  questionType: string;
+  // Logit difficulty; 0 is average
+  difficulty: number;
+  answerCount: number;
+}
+
+/**
+ * Fit a Rasch model to the answers: a player of ability `a` answers a question of difficulty
+ * `d` correctly with probability 1 / (1 + e^(d - a)). Every song and question type pair is
+ * its own question, and slow correct answers count for a little less than fast ones.
+ */
+export function fitItemDifficulties(
+  outcomes: AnswerOutcome[],
+): ItemDifficulty[] {
+  const itemKey = (outcome: AnswerOutcome) =>
+    `${outcome.songId}:${outcome.questionType}`;
+  const credit = outcomes.map((outcome) =>
+    outcome.isCorrect
+      ? 1 -
+        SLOW_ANSWER_PENALTY * Math.min(1, Math.max(0, outcome.responseShare))
+      : 0,
+  );
+
+  const abilities = new Map<string, number>();
+  const difficulties = new Map<string, number>();
+  const expected = (index: number) =>
+    logistic(
+      (abilities.get(outcomes[index].playerId) ?? 0) -
+        (difficulties.get(itemKey(outcomes[index])) ?? 0),
+    );
+
+  // Alternating Newton steps on the players and then the questions
+  for (let iteration = 0; iteration < FIT_ITERATIONS; iteration++) {
+    newtonStep(abilities, outcomes, (o) => o.playerId, credit, expected, 1);
+    newtonStep(difficulties, outcomes, itemKey, credit, expected, -1);
+  }
+
+  const items = new Map<string, ItemDifficulty>();
+  for (const outcome of outcomes) {
+    const key = itemKey(outcome);
+    const item = items.get(key) ?? {
+      songId: outcome.songId,
+      questionType: outcome.questionType,
+      difficulty: difficulties.get(key) ?? 0,
+      answerCount: 0,
+    };
+    item.answerCount++;
+    items.set(key, item);
+  }
+  return [...items.values()];
+}
+
+/**
+ * Difficulty of every song with enough answers, from the fitted difficulty of its questions
+ */
+export function calibrateSongDifficulties(
+  outcomes: AnswerOutcome[],
+  calibratedAt = new Date(),
+): Map<string, LyricDifficulty> {
+  const bySong = new Map<string, ItemDifficulty[]>();
+  for (const item of fitItemDifficulties(outcomes)) {
+    bySong.set(item.songId, [...(bySong.get(item.songId) ?? []), item]);
+  }
+
+  const calibrated = new Map<string, LyricDifficulty>();
+  for (const [songId, items] of bySong) {
+    const answerCount = items.reduce((sum, item) => sum + item.answerCount, 0);
+    if (answerCount < MIN_CALIBRATION_ANSWERS) {
+      continue;
+    }
+    const difficulty =
+      items.reduce((sum, item) => sum + item.difficulty * item.answerCount, 0) /
+      answerCount;
+    const score = round(logistic(difficulty));
+    calibrated.set(songId, {
+      score,
+      level: difficultyLevel(score),
+      source: LyricDifficultySource.Answers,
+      answerCount,
+      questionTypes: Object.fromEntries(
+        items.map((item) => [
+          item.questionType,
+          round(logistic(item.difficulty)),
+        ]),
+      ),
+      calibratedAt,
+    });
+  }
+  return calibrated;
+}
+
+/**
+ * Difficulty guessed from the lyrics alone: songs full of rare words are harder
+ */
+export function vocabularyDifficulty(
+  content: string,
+  calibratedAt = new Date(),
+): LyricDifficulty {
+  const rarity = vocabularyRarity(
+    selectSectionLines(parseLyricSections(content)),
+  );
+  return {
+    score: round(rarity),
+    level: difficultyForRarity([rarity]),
+    source: LyricDifficultySource.Vocabulary,
+    answerCount: 0,
+    questionTypes: {},
+    calibratedAt,
+  };
+}
+
+export function difficultyLevel(score: number): QuestionDifficulty {
+  if (score < 0.4) {
+    return SessionDifficulty.Easy;
+  }
+  return score < 0.6 ? SessionDifficulty.Medium : SessionDifficulty.Hard;
+}
+
+/**
+ * Score multiplier for a round of a song: from 0.5 for the easiest songs to 1.5 for the hardest
+ */
+export function difficultyMultiplier(
+  difficulty?: Pick<LyricDifficulty, 'score'> | null,
+): number {
+  return difficulty
+    ? round(0.5 + Math.min(1, Math.max(0, difficulty.score)))
+    : 1;
+}
+
+// One Newton-Raphson step per parameter of the log-likelihood with a normal prior;
+// `sign` is 1 for abilities and -1 for difficulties, which pull the other way
+function newtonStep(
+  parameters: Map<string, number>,
+  outcomes: AnswerOutcome[],
+  keyOf: (outcome: AnswerOutcome) => string,
+  credit: number[],
+  expected: (index: number) => number,
+  sign: 1 | -1,
+): void {
+  const sums = new Map<string, { gradient: number; information: number }>();
+  outcomes.forEach((outcome, index) => {
+    const p = expected(index);
+    const sum = sums.get(keyOf(outcome)) ?? { gradient: 0, information: 0 };
+    sum.gradient += sign * (credit[index] - p);
+    sum.information += p * (1 - p);
+    sums.set(keyOf(outcome), sum);
+  });
+
+  for (const [key, { gradient, information }] of sums) {
+    const value = parameters.get(key) ?? 0;
+    parameters.set(
+      key,
+      value + (gradient - PRIOR_WEIGHT * value) / (information + PRIOR_WEIGHT),
+    );
+  }
+}
+
+function logistic(value: number): number {
+  return 1 / (1 + Math.exp(-value));
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
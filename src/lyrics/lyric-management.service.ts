@@ -1,6 +1,9 @@
 import { Injectable } from '@nestjs/common';
-import { lyric, lyricDocument } from 'src/schemas/lyric.schema';
-import { LyricExtractionOptionsDto } from 'src/dto/lyric.dto';
+import { lyric, lyricDocument } from '../schemas/lyric.schema';
+import { LyricExtractionOptionsDto } from '../dto/lyric.dto';
+import { LyricDifficultySource, LyricSectionType } from '../enum/lyric.enum';
+import { parseLyricSections, selectSectionLines } from './lyric-sections';
+import { vocabularyDifficulty } from './lyric-difficulty';
 import * as sanitizeHtml from 'sanitize-html';
 
 @Injectable()
@@ -14,34 +17,37 @@ public extractPartialLyrics(
   ): string[] {
     if (!lyrics) return [];
 
-    const lines = lyrics.split('\n').filter((line) => line.trim() !== '');
-    let extractedLines: string[] = [];
+    // Section headers are parsed out, so they never reach gameplay
+    const sections = parseLyricSections(lyrics).filter(
+      (section) =>
+        (!options.sections?.length || options.sections.includes(section.type)) &&
+        !options.excludeSections?.includes(section.type),
+    );
+    const lines = selectSectionLines(sections);
 
     const minLines = options.minLines || 1;
     const maxLines = options.maxLines || Math.min(20, lines.length);
 
-    if (options.includeChorus) {
-      const chorus = lines.filter((line) =>
-        line.toLowerCase().includes('chorus'),
-      );
-      extractedLines = [...extractedLines, ...chorus];
-    }
+    // The first chorus leads, followed by the rest of the song
+    const chorus = options.includeChorus
+      ? sections.find((section) => section.type === LyricSectionType.Chorus)
+      : undefined;
+    const extractedLines = chorus
+      ? [
+          ...chorus.lines,
+          ...selectSectionLines(sections.filter((section) => section !== chorus)),
+        ]
+      : lines;
 
-    extractedLines = [...extractedLines, ...lines.slice(0, maxLines)];
-    extractedLines = extractedLines.slice(0, maxLines);
-
-    return extractedLines;
+    return extractedLines.slice(0, maxLines);
   }
 
-  // this fn classifies lyrics according to difficulty levels
+  // this fn classifies lyrics according to difficulty levels, by how rare their words are;
+  // songs with enough answers get calibrated by DifficultyCalibrationService instead
  public classifyDifficulty(lyrics: string): 'easy' | 'medium' | 'hard' {
     if (!lyrics) return 'easy';
 
-    const wordCount = lyrics.split(/\s+/).length;
-
-    if (wordCount < 50) return 'easy';
-    if (wordCount < 150) return 'medium';
-    return 'hard';
+    return vocabularyDifficulty(lyrics).level;
   }
 
   // this fn will format and sanitize lyrics
@@ -54,8 +60,13 @@ public extractPartialLyrics(
       allowedAttributes: {},
     });
 
-    // this is to normalize spacing
-    return cleanLyrics.replace(/\s+/g, ' ').trim();
+    // this is to normalize spacing; line breaks and blank lines between sections are kept
+    return cleanLyrics
+      .split(/\r?\n/)
+      .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
   }
 
   // Batch processing
@@ -64,7 +75,11 @@ public extractPartialLyrics(
   ): Promise<lyricDocument[]> {
     return lyricsList.map((lyric) => {
       lyric.lyrics.content = this.formatAndSanitizeLyrics(lyric.lyrics.content);
-      lyric['difficulty'] = this.classifyDifficulty(lyric.lyrics.content);
+      lyric.sections = parseLyricSections(lyric.lyrics.content);
+      // Ratings fitted from answers beat anything the lyrics alone can tell
+      if (lyric.difficulty?.source !== LyricDifficultySource.Answers) {
+        lyric.difficulty = vocabularyDifficulty(lyric.lyrics.content);
+      }
       return lyric;
     });
   }
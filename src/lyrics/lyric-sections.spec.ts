@@ -0,0 +1,106 @@
+import { LyricSectionType } from '../enum/lyric.enum';
+import {
+  parseLyricSections,
+  sectionTypeOf,
+  selectSectionLines,
+} from './lyric-sections';
+
+describe('lyric sections', () => {
+  const summary = (content: string) =>
+    parseLyricSections(content).map(({ type, label, lines }) => [
+      type,
+      label,
+      lines.length,
+    ]);
+
+  it('should name sections from bracketed and plain headers', () => {
+    expect(sectionTypeOf('Verse 2')).toBe(LyricSectionType.Verse);
+    expect(sectionTypeOf('Pre-Chorus')).toBe(LyricSectionType.PreChorus);
+    expect(sectionTypeOf('Hook: Artist')).toBe(LyricSectionType.Chorus);
+    expect(sectionTypeOf('Guitar Solo')).toBeNull();
+  });
+
+  it('should split marked lyrics into sections without the header lines', () => {
+    const sections = parseLyricSections(
+      [
+        '[Verse 1]',
+        'Walking down the road',
+        'Nowhere left to go',
+        '(Pre-Chorus)',
+        'And I know',
+        '[Chorus: Nova]',
+        'Sing it loud',
+        'Bridge:',
+        'Slow it down',
+      ].join('\n'),
+    );
+
+    expect(sections.map(({ type, label }) => [type, label])).toEqual([
+      [LyricSectionType.Verse, 'Verse 1'],
+      [LyricSectionType.PreChorus, 'Pre-Chorus'],
+      [LyricSectionType.Chorus, 'Chorus'],
+      [LyricSectionType.Bridge, 'Bridge'],
+    ]);
+    expect(selectSectionLines(sections)).not.toContain('[Verse 1]');
+    expect(sections[0].lines).toEqual([
+      'Walking down the road',
+      'Nowhere left to go',
+    ]);
+  });
+
+  it('should keep sung lines in parentheses', () => {
+    const [verse] = parseLyricSections('[Verse]\nHold on\n(Ooh, baby)');
+
+    expect(verse.lines).toEqual(['Hold on', '(Ooh, baby)']);
+  });
+
+  it('should repeat the chorus for a bare chorus header', () => {
+    const sections = parseLyricSections(
+      '[Chorus]\nSing it loud\n\n[Verse 2]\nAnother day\n\n[Chorus]',
+    );
+
+    expect(sections[2]).toEqual({
+      type: LyricSectionType.Chorus,
+      label: 'Chorus',
+      lines: ['Sing it loud'],
+    });
+  });
+
+  it('should spot the chorus of unmarked lyrics by its repetition', () => {
+    expect(
+      summary(
+        [
+          'First verse line',
+          'Second verse line',
+          '',
+          'This is the chorus',
+          'Sing along',
+          '',
+          'Another verse',
+          '',
+          'This is the chorus!',
+          'Sing along',
+        ].join('\n'),
+      ),
+    ).toEqual([
+      [LyricSectionType.Verse, 'Verse 1', 2],
+      [LyricSectionType.Chorus, 'Chorus', 2],
+      [LyricSectionType.Verse, 'Verse 2', 1],
+      [LyricSectionType.Chorus, 'Chorus', 2],
+    ]);
+  });
+
+  it('should take lines only from the targeted sections', () => {
+    const sections = parseLyricSections(
+      '[Verse]\nVerse line\n[Chorus]\nChorus line\n[Outro]\nOutro line',
+    );
+
+    expect(selectSectionLines(sections, [LyricSectionType.Chorus])).toEqual([
+      'Chorus line',
+    ]);
+    expect(selectSectionLines(sections, [], [LyricSectionType.Outro])).toEqual([
+      'Verse line',
+      'Chorus line',
+    ]);
+  });
+});
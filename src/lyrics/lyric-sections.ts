@@ -0,0 +1,173 @@
+import { LyricSectionType } from '../enum/lyric.enum';
+
+export interface LyricSection {
+  type: LyricSectionType;
+  label: string;
+  lines: string[];
+}
+
+// A header on a line of its own: "[Chorus]", "(Verse 2)", "[Chorus: Artist]" or "Bridge:"
+const BRACKETED_MARKER = /^[[(]\s*([^\])]+?)\s*[\])]\s*:?$/;
+const PLAIN_MARKER =
+  /^((?:intro|verse|pre[\s-]?chorus|chorus|hook|refrain|bridge|outro)(?:\s+\d+)?)\s*:$/i;
+
+const SECTION_LABELS: Record<LyricSectionType, string> = {
+  [LyricSectionType.Intro]: 'Intro',
+  [LyricSectionType.Verse]: 'Verse',
+  [LyricSectionType.PreChorus]: 'Pre-Chorus',
+  [LyricSectionType.Chorus]: 'Chorus',
+  [LyricSectionType.Bridge]: 'Bridge',
+  [LyricSectionType.Outro]: 'Outro',
+};
+
+interface Block {
+  // Null for blocks without a recognised header; they are classified afterwards
+  type: LyricSectionType | null;
+  label: string | null;
+  lines: string[];
+}
+
+/**
+ * The section a header names, or null for headers such as "[Guitar Solo]"
+ */
+export function sectionTypeOf(header: string): LyricSectionType | null {
+  const name = header.trim().toLowerCase();
+  if (/^pre[\s-]?chorus/.test(name)) {
+    return LyricSectionType.PreChorus;
+  }
+  if (/^(chorus|hook|refrain)/.test(name)) {
+    return LyricSectionType.Chorus;
+  }
+  if (/^verse/.test(name)) {
+    return LyricSectionType.Verse;
+  }
+  if (/^bridge/.test(name)) {
+    return LyricSectionType.Bridge;
+  }
+  if (/^(outro|coda)/.test(name)) {
+    return LyricSectionType.Outro;
+  }
+  if (/^intro/.test(name)) {
+    return LyricSectionType.Intro;
+  }
+  return null;
+}
+
+/**
+ * Split lyrics into sections. Headers name the section that follows; blocks without one
+ * (split on blank lines) are a chorus when the same block comes back later, otherwise a verse.
+ * Header lines never end up in a section's lines.
+ */
+export function parseLyricSections(content: string): LyricSection[] {
+  const blocks: Block[] = [];
+  let current: Block | null = null;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const header = markerText(line);
+
+    if (header !== null) {
+      current = { type: sectionTypeOf(header), label: header, lines: [] };
+      blocks.push(current);
+    } else if (line === '') {
+      // A blank line ends the block, but keeps a header that has no lines yet
+      if (current && current.lines.length > 0) {
+        current = null;
+      }
+    } else {
+      if (!current) {
+        current = { type: null, label: null, lines: [] };
+        blocks.push(current);
+      }
+      current.lines.push(line);
+    }
+  }
+
+  // A bare "[Chorus]" stands for the lines of the chorus before it
+  const filled = blocks.filter((block, index) => {
+    if (block.lines.length > 0) {
+      return true;
+    }
+    const earlier = blocks
+      .slice(0, index)
+      .reverse()
+      .find(
+        (other) =>
+          other.type !== null &&
+          other.type === block.type &&
+          other.lines.length > 0,
+      );
+    block.lines = earlier ? [...earlier.lines] : [];
+    return block.lines.length > 0;
+  });
+
+  const occurrences = new Map<string, number>();
+  const knownTypes = new Map<string, LyricSectionType>();
+  for (const block of filled) {
+    const key = blockKey(block.lines);
+    occurrences.set(key, (occurrences.get(key) ?? 0) + 1);
+    if (block.type && !knownTypes.has(key)) {
+      knownTypes.set(key, block.type);
+    }
+  }
+
+  let verses = 0;
+  return filled.map((block) => {
+    const key = blockKey(block.lines);
+    const type =
+      block.type ??
+      knownTypes.get(key) ??
+      ((occurrences.get(key) ?? 0) > 1
+        ? LyricSectionType.Chorus
+        : LyricSectionType.Verse);
+
+    let label = block.type ? block.label!.split(':')[0].trim() : null;
+    if (type === LyricSectionType.Verse) {
+      verses++;
+      label = label ?? `Verse ${verses}`;
+    }
+    return {
+      type,
+      label: label ?? SECTION_LABELS[type],
+      lines: block.lines,
+    };
+  });
+}
+
+/**
+ * Lines of the sections to play from: only `include` types when given, never `exclude` types
+ */
+export function selectSectionLines(
+  sections: LyricSection[],
+  include: LyricSectionType[] = [],
+  exclude: LyricSectionType[] = [],
+): string[] {
+  return sections
+    .filter(
+      (section) =>
+        (include.length === 0 || include.includes(section.type)) &&
+        !exclude.includes(section.type),
+    )
+    .flatMap((section) => section.lines);
+}
+
+// Square brackets always hold a header; parentheses only when they name a section,
+// since lines like "(Ooh, baby)" are sung
+function markerText(line: string): string | null {
+  const bracketed = BRACKETED_MARKER.exec(line);
+  if (bracketed && (line.startsWith('[') || sectionTypeOf(bracketed[1]))) {
+    return bracketed[1];
+  }
+  return PLAIN_MARKER.exec(line)?.[1] ?? null;
+}
+
+function blockKey(lines: string[]): string {
+  return lines
+    .map((line) =>
+      line
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}]+/gu, ' ')
+        .trim(),
+    )
+    .join('\n');
+}
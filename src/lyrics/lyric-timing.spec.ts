@@ -0,0 +1,75 @@
+import {
+  formatLrc,
+  formatSongTime,
+  lineTimings,
+  parseLrc,
+  timedContent,
+  timingProblem,
+} from './lyric-timing';
+
+describe('lyric timing', () => {
+  const lrc = [
+    '[ti:Harbour Lights]',
+    '[ar:Nova]',
+    '[00:12.50]Walking down the road',
+    '[00:15.20][01:05.20]Sing it loud',
+    '[00:18.00]',
+    '[00:20.00]Nowhere <00:21.00>left to go',
+  ].join('\n');
+
+  it('should read timed lines and tags from LRC', () => {
+    const { lines, tags } = parseLrc(lrc);
+
+    expect(tags).toEqual({ ti: 'Harbour Lights', ar: 'Nova' });
+    expect(lines).toEqual([
+      { time: 12500, text: 'Walking down the road' },
+      { time: 15200, text: 'Sing it loud' },
+      { time: 18000, text: '' },
+      { time: 20000, text: 'Nowhere left to go' },
+      { time: 65200, text: 'Sing it loud' },
+    ]);
+  });
+
+  it('should shift every line by the offset tag', () => {
+    const { lines } = parseLrc('[offset:+500]\n[00:01.00]One\n[00:00.20]Zero');
+
+    expect(lines.map((line) => line.time)).toEqual([0, 500]);
+  });
+
+  it('should write back the LRC it reads', () => {
+    const { lines, tags } = parseLrc(lrc);
+
+    expect(parseLrc(formatLrc(lines, tags))).toEqual({ lines, tags });
+    expect(formatLrc([{ time: 83450, text: 'Hi' }], { al: undefined })).toBe(
+      '[01:23.45]Hi',
+    );
+  });
+
+  it('should reject lines that go back in time', () => {
+    expect(timingProblem(parseLrc(lrc).lines)).toBeNull();
+    expect(
+      timingProblem([
+        { time: 2000, text: 'Two' },
+        { time: 1000, text: 'One' },
+      ]),
+    ).toMatch(/^Line 2 at 00:01.00 starts before/);
+    expect(timingProblem([{ time: -1, text: 'Early' }])).toMatch(/invalid/);
+  });
+
+  it('should time plain lyric lines only while they match the timed lines', () => {
+    const { lines } = parseLrc(lrc);
+    const content = timedContent(lines);
+
+    expect(content).toBe(
+      'Walking down the road\nSing it loud\n\nNowhere left to go\nSing it loud',
+    );
+    expect(
+      lineTimings(lines, content.split('\n').filter(Boolean))?.slice(0, 2),
+    ).toEqual([
+      { start: 12500, end: 15200 },
+      { start: 15200, end: 18000 },
+    ]);
+    expect(lineTimings(lines, ['Something else'])).toBeNull();
+    expect(formatSongTime(83450)).toBe('1:23');
+  });
+});
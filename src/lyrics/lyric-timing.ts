@@ -0,0 +1,163 @@
+export interface TimedLyricLine {
+  // Milliseconds from the start of the song
+  time: number;
+  // Empty for instrumental breaks
+  text: string;
+}
+
+// When a line is sung; the end is when the next line or break starts, null for the last line
+export interface LineTiming {
+  start: number;
+  end: number | null;
+}
+
+export interface LrcDocument {
+  lines: TimedLyricLine[];
+  // ID tags such as "ti", "ar" and "al"
+  tags: Record<string, string>;
+}
+
+// "[01:23.45]", "[1:23]", "[01:23.456]" and the odd "[01:23:45]"
+const LRC_TIMESTAMP = /\[(\d{1,3}):(\d{1,2})(?:[.:](\d{1,3}))?\]/g;
+const LRC_TAG = /^\[([a-z#]+):(.*)\]$/i;
+// Word-level timings of enhanced LRC, "<01:23.45>", which only the line timing is kept of
+const LRC_WORD_TIMESTAMP = /<\d{1,3}:\d{1,2}(?:[.:]\d{1,3})?>/g;
+
+/**
+ * Read LRC lyrics. A line with several timestamps is sung at each of them, an `offset`
+ * tag shifts every line, and lines without a timestamp are skipped. Lines come back in
+ * the order they are sung.
+ */
+export function parseLrc(lrc: string): LrcDocument {
+  const lines: TimedLyricLine[] = [];
+  const tags: Record<string, string> = {};
+
+  for (const rawLine of lrc.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const stamps = [...line.matchAll(LRC_TIMESTAMP)];
+
+    if (stamps.length === 0) {
+      const tag = LRC_TAG.exec(line);
+      if (tag) {
+        tags[tag[1].toLowerCase()] = tag[2].trim();
+      }
+      continue;
+    }
+
+    // Timestamps lead the line; whatever follows the last one is the text
+    const last = stamps[stamps.length - 1];
+    const text = line
+      .slice(last.index! + last[0].length)
+      .replace(LRC_WORD_TIMESTAMP, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+    for (const [, minutes, seconds, fraction = '0'] of stamps) {
+      lines.push({
+        time:
+          (Number(minutes) * 60 + Number(seconds)) * 1000 +
+          Math.round(Number(`0.${fraction}`) * 1000),
+        text,
+      });
+    }
+  }
+
+  // A positive offset makes the lyrics come sooner
+  const offset = Number.parseInt(tags.offset ?? '0', 10) || 0;
+  return {
+    lines: lines
+      .map((line) => ({ ...line, time: Math.max(0, line.time - offset) }))
+      .sort((a, b) => a.time - b.time),
+    tags,
+  };
+}
+
+/**
+ * Write timed lines as LRC, ID tags first
+ */
+export function formatLrc(
+  lines: TimedLyricLine[],
+  tags: Record<string, string | undefined> = {},
+): string {
+  const header = Object.entries(tags)
+    .filter((entry): entry is [string, string] => Boolean(entry[1]))
+    .map(([tag, value]) => `[${tag}:${value}]`);
+  const body = lines.map((line) =>
+    `[${formatLrcTime(line.time)}]${line.text}`.trimEnd(),
+  );
+  return [...header, ...body].join('\n');
+}
+
+/**
+ * LRC timestamp of a time in milliseconds: "01:23.45"
+ */
+export function formatLrcTime(time: number): string {
+  const hundredths = Math.round(time / 10);
+  const minutes = Math.floor(hundredths / 6000);
+  const seconds = Math.floor((hundredths % 6000) / 100);
+  return `${pad(minutes)}:${pad(seconds)}.${pad(hundredths % 100)}`;
+}
+
+/**
+ * Time as players read it: "1:23"
+ */
+export function formatSongTime(time: number): string {
+  const seconds = Math.floor(time / 1000);
+  return `${Math.floor(seconds / 60)}:${pad(seconds % 60)}`;
+}
+
+/**
+ * Why timed lines cannot be stored, or null when they can: every time has to be a whole
+ * number of milliseconds, and no line may start before the one before it
+ */
+export function timingProblem(lines: TimedLyricLine[]): string | null {
+  for (let i = 0; i < lines.length; i++) {
+    const { time } = lines[i];
+    if (!Number.isInteger(time) || time < 0) {
+      return `Line ${i + 1} has an invalid time: ${time}`;
+    }
+    if (i > 0 && time < lines[i - 1].time) {
+      return `Line ${i + 1} at ${formatLrcTime(time)} starts before the line before it at ${formatLrcTime(lines[i - 1].time)}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Plain lyrics of timed lines; instrumental breaks become blank lines, so the sections
+ * still split where the song pauses
+ */
+export function timedContent(lines: TimedLyricLine[]): string {
+  return lines
+    .map((line) => line.text)
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Timing of each of the given lyric lines, or null when the timed lines do not match them
+ * line for line, such as after the lyrics were edited
+ */
+export function lineTimings(
+  timedLines: TimedLyricLine[],
+  lines: string[],
+): LineTiming[] | null {
+  const timings: LineTiming[] = [];
+  for (let i = 0; i < timedLines.length; i++) {
+    if (timedLines[i].text === '') {
+      continue;
+    }
+    if (timedLines[i].text !== lines[timings.length]) {
+      return null;
+    }
+    timings.push({
+      start: timedLines[i].time,
+      end: timedLines[i + 1]?.time ?? null,
+    });
+  }
+  return timings.length === lines.length ? timings : null;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
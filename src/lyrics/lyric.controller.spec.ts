@@ -0,0 +1,94 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { EventEmitterModule } from '@nestjs/event-emitter';
+import * as request from 'supertest';
+import { LyricModule } from './lyric.module';
+import { lyricController } from './lyric.controller';
+import { lyric } from '../schemas/lyric.schema';
+import { LyricSectionType } from '../enum/lyric.enum';
+
+describe('lyricController', () => {
+  let app: INestApplication;
+  let controller: lyricController;
+  let stored: Record<string, any>;
+
+  const lrc = ['[00:01.00]Hello darkness', '[00:04.50]My old friend'].join(
+    '\n',
+  );
+
+  beforeEach(async () => {
+    stored = {
+      _id: 'lyric-1',
+      title: 'The Sound of Silence',
+      artist: 'Simon & Garfunkel',
+      timedLines: [],
+      lyrics: { content: '', language: 'en' },
+    };
+    stored.save = jest.fn().mockImplementation(() => Promise.resolve(stored));
+    const model = {
+      findById: jest.fn().mockReturnValue({
+        exec: jest.fn().mockImplementation(() => Promise.resolve(stored)),
+      }),
+    };
+
+    // The whole module is loaded, so the routes are the ones the app serves
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [LyricModule, EventEmitterModule.forRoot()],
+    })
+      .overrideProvider(getModelToken(lyric.name))
+      .useValue(model)
+      .compile();
+
+    app = module.createNestApplication();
+    await app.init();
+    controller = module.get<lyricController>(lyricController);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should import synced lyrics from LRC', async () => {
+    const result = await controller.importLrc('lyric-1', { lrc });
+
+    expect(result.timedLines).toEqual([
+      { time: 1000, text: 'Hello darkness' },
+      { time: 4500, text: 'My old friend' },
+    ]);
+    expect(result.lyrics.content).toBe('Hello darkness\nMy old friend');
+  });
+
+  it('should extract the sections asked for from the stored lyrics', async () => {
+    stored.lyrics.content = [
+      '[Verse 1]',
+      'Hello darkness',
+      '[Chorus]',
+      'The sound of silence',
+    ].join('\n');
+
+    const lines = await controller.extractPartialLyrics('lyric-1', {
+      sections: [LyricSectionType.Chorus],
+    });
+
+    expect(lines).toEqual(['The sound of silence']);
+  });
+
+  it('should serve the synced lyrics as LRC', async () => {
+    await controller.importLrc('lyric-1', { lrc });
+
+    const response = await request(app.getHttpServer())
+      .get('/lyrics/lyric-1/lrc')
+      .expect(200);
+
+    expect(response.headers['content-type']).toContain('text/plain');
+    expect(response.text).toBe(
+      [
+        '[ti:The Sound of Silence]',
+        '[ar:Simon & Garfunkel]',
+        '[00:01.00]Hello darkness',
+        '[00:04.50]My old friend',
+      ].join('\n'),
+    );
+  });
+});
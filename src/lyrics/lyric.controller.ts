@@ -10,6 +10,7 @@ import {
   HttpStatus,
   HttpCode,
   UseGuards,
+  Header,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -19,15 +20,16 @@ import {
   ApiQuery,
   ApiBody,
 } from '@nestjs/swagger';
-// import type { lyricService } from './lyric.service';
+import { lyricService } from './lyric.service';
 import {
   CreatelyricDto,
+  ImportLrcDto,
   LyricExtractionOptionsDto,
   QuerylyricDto,
   UpdatelyricDto,
-} from 'src/dto/lyric.dto';
+} from '../dto/lyric.dto';
 import { LyricsManagementService } from './lyric-management.service';
-import { lyricDocument } from 'src/schemas/lyric.schema';
+import { lyricDocument } from '../schemas/lyric.schema';
 // import { JwtAuthGuard } from 'src/authentication/guards/jwt.guard';
 
 
@@ -35,7 +37,7 @@ import { lyricDocument } from 'src/schemas/lyric.schema';
 @Controller('lyrics')
 export class lyricController {
   constructor(
-    // private readonly lyricService: lyricService,
+    private readonly lyricService: lyricService,
 
     private readonly lyricManagementService: LyricsManagementService,
   ) {}
@@ -133,12 +135,49 @@ export class lyricController {
   public async extractPartialLyrics(
     @Param('id') id: string,
     @Body() options: LyricExtractionOptionsDto,
-  ): Promise<string> {
-    const result = this.lyricManagementService.extractPartialLyrics(
-      id,
+  ): Promise<string[]> {
+    const lyric = await this.lyricService.findOne(id);
+    return this.lyricManagementService.extractPartialLyrics(
+      lyric.lyrics?.content,
       options,
     );
-    return result[0];
+  }
+
+  // Synced lyrics in LRC format
+  @Post(':id/lrc')
+  @ApiOperation({ summary: 'Import synced lyrics in LRC format' })
+  @ApiParam({ name: 'id', description: 'Lyric ID' })
+  @ApiBody({ type: ImportLrcDto, description: 'LRC lyrics to import' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Synced lyrics imported successfully',
+    type: CreatelyricDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'LRC has no timed lyric lines',
+  })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'lyric not found' })
+  importLrc(@Param('id') id: string, @Body() importLrcDto: ImportLrcDto) {
+    return this.lyricService.importLrc(
+      id,
+      importLrcDto.lrc,
+      importLrcDto.language,
+    );
+  }
+
+  @Get(':id/lrc')
+  @Header('Content-Type', 'text/plain; charset=utf-8')
+  @ApiOperation({ summary: 'Export synced lyrics in LRC format' })
+  @ApiParam({ name: 'id', description: 'Lyric ID' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'LRC lyrics' })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'lyric has no synced lyrics',
+  })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'lyric not found' })
+  exportLrc(@Param('id') id: string) {
+    return this.lyricService.exportLrc(id);
   }
 
   // Batch processing for multiple lyrics
@@ -1,19 +1,16 @@
-// import { Module } from '@nestjs/common';
-// import { MongooseModule } from '@nestjs/mongoose';
-// // import { lyricService } from './lyric.service';
-// import { lyricController } from './lyric.controller';
-// import { lyric, lyricschema } from 'src/schemas/lyric.schema';
-// import { LyricsManagementService } from './lyric-management.service';
-// import { CategoryModule } from 'src/category/category.module';
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { lyricService } from './lyric.service';
+import { lyricController } from './lyric.controller';
+import { lyric, lyricschema } from '../schemas/lyric.schema';
+import { LyricsManagementService } from './lyric-management.service';
 
-// @Module({
-//   imports: [
-//     MongooseModule.forFeature([{ name: lyric.name, schema: lyricschema }]),
-//     CategoryModule
-//   ],
-//   controllers: [lyricController],
-//   providers: [LyricsManagementService],
-//   exports: [LyricsManagementService]
-
-// })
-// export class LyricModule {}
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: lyric.name, schema: lyricschema }]),
+  ],
+  controllers: [lyricController],
+  providers: [lyricService, LyricsManagementService],
+  exports: [lyricService, LyricsManagementService],
+})
+export class LyricModule {}
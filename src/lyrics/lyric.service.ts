@@ -1,25 +1,38 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import type { Model } from 'mongoose';
 import {
   CreatelyricDto,
   QuerylyricDto,
   UpdatelyricDto,
-} from 'src/dto/lyric.dto';
-import { Lyric, lyric, type lyricDocument } from 'src/schemas/lyric.schema';
-import { CategoryService } from '../category/category.service';
+} from '../dto/lyric.dto';
+import { lyric, type lyricDocument } from '../schemas/lyric.schema';
+import {
+  TimedLyricLine,
+  formatLrc,
+  parseLrc,
+  timedContent,
+  timingProblem,
+} from './lyric-timing';
 
 @Injectable()
 export class lyricService {
   constructor(
     @InjectModel(lyric.name) 
     private lyricModel: Model<lyricDocument>, 
-    private categoryService: CategoryService,
+    private eventEmitter: EventEmitter2,
 
   ) {}
 
   async create(createlyricDto: CreatelyricDto): Promise<lyric> {
-    const createdlyric = new this.lyricModel(createlyricDto);
+    const createdlyric = new this.lyricModel(
+      this.withTimedContent(createlyricDto),
+    );
     return createdlyric.save();
   }
 
@@ -31,8 +44,8 @@ export class lyricService {
       artist,
       album,
       releaseYear,
-      genre,
-      decade,
+      genres,
+      decades,
       search,
       limit,
       skip,
@@ -50,8 +63,8 @@ export class lyricService {
     if (artist) query.artist = { $regex: artist, $options: 'i' };
     if (album) query.album = { $regex: album, $options: 'i' };
     if (releaseYear) query.releaseYear = releaseYear;
-    if (genre) query.genre = genre;
-    if (decade) query.decade = decade;
+    if (genres?.length) query.genre = { $in: genres };
+    if (decades?.length) query.decade = { $in: decades };
 
     // Text search if provided
     if (search) {
@@ -94,7 +107,9 @@ export class lyricService {
 
   async update(id: string, updatelyricDto: UpdatelyricDto): Promise<lyric> {
     const updatedlyric = await this.lyricModel
-      .findByIdAndUpdate(id, updatelyricDto, { new: true })
+      .findByIdAndUpdate(id, this.withTimedContent(updatelyricDto), {
+        new: true,
+      })
       .exec();
 
     if (!updatedlyric) {
@@ -116,9 +131,71 @@ export class lyricService {
     return this.lyricModel.find({ _id: { $in: ids } }).exec();
   }
 
+  /**
+   * Replace a lyric's lyrics with synced LRC lyrics; the plain lyrics follow the timed lines
+   */
+  async importLrc(id: string, lrc: string, language?: string): Promise<lyric> {
+    const { lines } = parseLrc(lrc);
+    if (!lines.some((line) => line.text !== '')) {
+      throw new BadRequestException('LRC has no timed lyric lines');
+    }
+
+    const lyric = await this.lyricModel.findById(id).exec();
+    if (!lyric) {
+      throw new NotFoundException(`lyric not found`);
+    }
+    lyric.timedLines = lines;
+    lyric.lyrics = {
+      content: timedContent(lines),
+      language: language ?? lyric.lyrics?.language ?? 'en',
+    };
+    return lyric.save();
+  }
+
+  async exportLrc(id: string): Promise<string> {
+    const lyric = await this.lyricModel.findById(id).exec();
+    if (!lyric) {
+      throw new NotFoundException(`lyric not found`);
+    }
+    if (!lyric.timedLines?.length) {
+      throw new BadRequestException('lyric has no synced lyrics');
+    }
+    return formatLrc(lyric.timedLines, {
+      ti: lyric.title,
+      ar: lyric.artist,
+      al: lyric.album,
+    });
+  }
+
+  // Timed lines have to be in the order they are sung, and stand in for missing plain lyrics
+  private withTimedContent<
+    T extends {
+      timedLines?: TimedLyricLine[];
+      lyrics?: { content?: string; language?: string };
+    },
+  >(dto: T): T {
+    if (!dto.timedLines) {
+      return dto;
+    }
+    const problem = timingProblem(dto.timedLines);
+    if (problem) {
+      throw new BadRequestException(problem);
+    }
+    return dto.lyrics?.content
+      ? dto
+      : {
+          ...dto,
+          lyrics: {
+            language: 'en',
+            ...dto.lyrics,
+            content: timedContent(dto.timedLines),
+          },
+        };
+  }
+
 
   
-  async addCategory(lyricId: string, categoryId: string, type: 'genres' | 'decades' | 'tags'): Promise<Lyric> {
+  async addCategory(lyricId: string, categoryId: string, type: 'genres' | 'decades' | 'tags'): Promise<lyric> {
     const lyric = await this.lyricModel.findById(lyricId);
     if (!lyric) {
       throw new NotFoundException(`Lyric with ID "${lyricId}" not found`);
@@ -129,14 +206,14 @@ export class lyricService {
       lyric[type].push(categoryId);
       await lyric.save();
       
-      // Increment the usage count for the category
-      await this.categoryService.incrementUsageCount(categoryId);
+      // Category usage counts are kept by whoever listens, so lyrics do not depend on the category store
+      this.eventEmitter.emit('lyric.categoryAdded', { lyricId, categoryId, type });
     }
 
     return lyric;
   }
 
-  async removeCategory(lyricId: string, categoryId: string, type: 'genres' | 'decades' | 'tags'): Promise<Lyric> {
+  async removeCategory(lyricId: string, categoryId: string, type: 'genres' | 'decades' | 'tags'): Promise<lyric> {
     const lyric = await this.lyricModel.findById(lyricId);
     if (!lyric) {
       throw new NotFoundException(`Lyric with ID "${lyricId}" not found`);
@@ -147,14 +224,13 @@ export class lyricService {
       lyric[type] = lyric[type].filter(id => id.toString() !== categoryId);
       await lyric.save();
       
-      // Decrement the usage count for the category
-      await this.categoryService.decrementUsageCount(categoryId);
+      this.eventEmitter.emit('lyric.categoryRemoved', { lyricId, categoryId, type });
     }
 
     return lyric;
   }
 
-  async findByCategory(categoryId: string, type?: 'genres' | 'decades' | 'tags'): Promise<Lyric[]> {
+  async findByCategory(categoryId: string, type?: 'genres' | 'decades' | 'tags'): Promise<lyric[]> {
     const query: any = {};
     
     if (type) {
@@ -186,9 +262,9 @@ async searchByCategories(
   searchTerm?: string,
   page: number = 1,
   limit: number = 10
-): Promise<{ data: Lyric[]; total: number; page: number; limit: number }> {
+): Promise<{ data: lyric[]; total: number; page: number; limit: number }> {
   const query: any = {};
-  const conditions = [];
+  const conditions: Record<string, any>[] = [];
   
   // Add genre conditions if provided
   if (genreIds.length > 0) {
@@ -0,0 +1,26 @@
+import { IsArray, IsEnum, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { SessionDifficulty } from '../../enum/game-session.enum';
+import { Decade, Genre } from '../../enum/lyric.enum';
+import { GAME_SESSION_SETTINGS_LIMITS as LIMITS } from '../../game-session/game-session-settings';
+
+export class EnqueueMatchmakingDto {
+  @IsOptional()
+  @IsArray()
+  @IsEnum(Genre, { each: true })
+  genres?: Genre[];
+
+  @IsOptional()
+  @IsArray()
+  @IsEnum(Decade, { each: true })
+  decades?: Decade[];
+
+  @IsOptional()
+  @IsEnum(SessionDifficulty)
+  difficulty?: SessionDifficulty;
+
+  @IsOptional()
+  @IsInt()
+  @Min(LIMITS.maxPlayers.min)
+  @Max(LIMITS.maxPlayers.max)
+  playerCount?: number;
+}
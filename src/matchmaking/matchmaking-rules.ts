@@ -0,0 +1,133 @@
+import { SessionDifficulty } from '../enum/game-session.enum';
+import type { GameSessionSettings } from '../schemas/game-session.schema';
+import type { MatchmakingTicket } from '../schemas/matchmaking-ticket.schema';
+
+export const DEFAULT_MATCH_PLAYER_COUNT = 4;
+
+// Every interval a ticket spends in the queue widens what it will accept, up to the max level
+export const MATCHMAKING_WIDEN_INTERVAL_MS = 30 * 1000;
+export const MATCHMAKING_MAX_WIDEN_LEVEL = 3;
+
+const BASE_SKILL_WINDOW = 0.1;
+const SKILL_WINDOW_STEP = 0.15;
+
+/**
+ * How far a ticket's search has widened given how long it has been waiting
+ */
+export function getWidenLevel(
+  ticket: MatchmakingTicket,
+  now: Date = new Date(),
+): number {
+  const waitedMs = now.getTime() - new Date(ticket.enqueuedAt).getTime();
+  return Math.min(
+    MATCHMAKING_MAX_WIDEN_LEVEL,
+    Math.max(0, Math.floor(waitedMs / MATCHMAKING_WIDEN_INTERVAL_MS)),
+  );
+}
+
+/**
+ * Whether a candidate fits the anchor's preferences at the anchor's widen level.
+ * Level 1 drops the exact player count, level 2 drops genre and decade,
+ * level 3 drops difficulty; the skill window grows at every level.
+ */
+export function areTicketsCompatible(
+  anchor: MatchmakingTicket,
+  candidate: MatchmakingTicket,
+  level: number,
+): boolean {
+  const skillWindow = BASE_SKILL_WINDOW + SKILL_WINDOW_STEP * level;
+  if (Math.abs(anchor.skillRating - candidate.skillRating) > skillWindow) {
+    return false;
+  }
+  if (level < 1 && anchor.playerCount !== candidate.playerCount) {
+    return false;
+  }
+  if (
+    level < 2 &&
+    (!overlaps(anchor.genres, candidate.genres) ||
+      !overlaps(anchor.decades, candidate.decades))
+  ) {
+    return false;
+  }
+  if (
+    level < 3 &&
+    anchor.difficulty !== candidate.difficulty &&
+    anchor.difficulty !== SessionDifficulty.Mixed &&
+    candidate.difficulty !== SessionDifficulty.Mixed
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Pick a group for the anchor out of the candidates, which must be ordered oldest first.
+ * The group is full at the anchor's preferred size; once the anchor has waited through every
+ * widen level, any group of two or more is good enough.
+ */
+export function findMatchGroup<T extends MatchmakingTicket>(
+  anchor: T,
+  candidates: T[],
+  now: Date = new Date(),
+): T[] | null {
+  const level = getWidenLevel(anchor, now);
+  const group = [anchor];
+
+  for (const candidate of candidates) {
+    if (group.length >= anchor.playerCount) {
+      break;
+    }
+    if (
+      candidate.userId !== anchor.userId &&
+      areTicketsCompatible(anchor, candidate, level)
+    ) {
+      group.push(candidate);
+    }
+  }
+
+  if (group.length >= anchor.playerCount) {
+    return group;
+  }
+  if (level >= MATCHMAKING_MAX_WIDEN_LEVEL && group.length >= 2) {
+    return group;
+  }
+  return null;
+}
+
+/**
+ * Settings for the session created for a group: only preferences every member shares are kept
+ */
+export function buildMatchSettings(
+  group: MatchmakingTicket[],
+): Partial<GameSessionSettings> {
+  const difficulties = new Set(
+    group
+      .map((ticket) => ticket.difficulty)
+      .filter((difficulty) => difficulty !== SessionDifficulty.Mixed),
+  );
+
+  return {
+    genres: sharedValues(group.map((ticket) => ticket.genres)),
+    decades: sharedValues(group.map((ticket) => ticket.decades)),
+    difficulty:
+      difficulties.size === 1 ? [...difficulties][0] : SessionDifficulty.Mixed,
+    maxPlayers: Math.max(group.length, group[0].playerCount),
+  };
+}
+
+// An empty preference list means "anything"
+function overlaps<T>(a: T[] = [], b: T[] = []): boolean {
+  return (
+    a.length === 0 || b.length === 0 || a.some((value) => b.includes(value))
+  );
+}
+
+function sharedValues<T>(lists: T[][]): T[] {
+  const stated = lists.filter((list) => list && list.length > 0);
+  if (stated.length === 0) {
+    return [];
+  }
+  return stated.reduce((shared, list) =>
+    shared.filter((value) => list.includes(value)),
+  );
+}
@@ -0,0 +1,45 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { MatchmakingService } from './matchmaking.service';
+import { EnqueueMatchmakingDto } from './dto/enqueue-matchmaking.dto';
+import { PaginationQueryDto } from '../dto/pagination-query-dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@Controller('matchmaking')
+export class MatchmakingController {
+  constructor(private readonly matchmakingService: MatchmakingService) {}
+
+  @Post('queue')
+  @UseGuards(JwtAuthGuard)
+  enqueue(
+    @CurrentUser('userId') userId: string,
+    @Body() enqueueMatchmakingDto: EnqueueMatchmakingDto,
+  ) {
+    return this.matchmakingService.enqueue(userId, enqueueMatchmakingDto);
+  }
+
+  @Get('queue')
+  @UseGuards(JwtAuthGuard)
+  getTicket(@CurrentUser('userId') userId: string) {
+    return this.matchmakingService.getTicket(userId);
+  }
+
+  @Delete('queue')
+  @UseGuards(JwtAuthGuard)
+  cancel(@CurrentUser('userId') userId: string) {
+    return this.matchmakingService.cancel(userId);
+  }
+
+  @Get('lobbies')
+  getLobbies(@Query() query: PaginationQueryDto) {
+    return this.matchmakingService.getLobbies(query);
+  }
+}
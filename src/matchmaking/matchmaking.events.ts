@@ -0,0 +1,7 @@
+export class MatchmakingMatchedEvent {
+  constructor(
+    public readonly sessionId: string,
+    public readonly roomCode: string | null,
+    public readonly userIds: string[],
+  ) {}
+}
@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ScheduleModule } from '@nestjs/schedule';
+import { MatchmakingController } from './matchmaking.controller';
+import { MatchmakingService } from './matchmaking.service';
+import {
+  MatchmakingTicket,
+  MatchmakingTicketSchema,
+} from '../schemas/matchmaking-ticket.schema';
+import { GameSessionModule } from '../game-session/game-session.module';
+import { PlayerModule } from '../player/player.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: MatchmakingTicket.name, schema: MatchmakingTicketSchema },
+    ]),
+    ScheduleModule.forRoot(),
+    GameSessionModule,
+    PlayerModule,
+  ],
+  controllers: [MatchmakingController],
+  providers: [MatchmakingService],
+})
+export class MatchmakingModule {}
@@ -0,0 +1,281 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { ConflictException } from '@nestjs/common';
+import { MatchmakingService } from './matchmaking.service';
+import { MatchmakingTicket } from '../schemas/matchmaking-ticket.schema';
+import { MatchmakingTicketStatus } from '../enum/matchmaking.enum';
+import { SessionDifficulty } from '../enum/game-session.enum';
+import { Genre } from '../enum/lyric.enum';
+import { GameSessionService } from '../game-session/game-session.service';
+import { PlayerService } from '../player/services/player.service';
+import {
+  MATCHMAKING_WIDEN_INTERVAL_MS,
+  buildMatchSettings,
+  findMatchGroup,
+} from './matchmaking-rules';
+
+describe('MatchmakingService', () => {
+  const now = new Date('2025-01-01T12:00:00Z');
+
+  const ticket = (
+    userId: string,
+    overrides: Partial<MatchmakingTicket> = {},
+  ): any => ({
+    _id: `ticket-${userId}`,
+    userId,
+    status: MatchmakingTicketStatus.Waiting,
+    genres: [],
+    decades: [],
+    difficulty: SessionDifficulty.Mixed,
+    playerCount: 2,
+    skillRating: 0.5,
+    enqueuedAt: now,
+    matchedSessionId: null,
+    matchedAt: null,
+    ...overrides,
+  });
+
+  const waitedFor = (intervals: number) =>
+    new Date(now.getTime() - intervals * MATCHMAKING_WIDEN_INTERVAL_MS);
+
+  describe('matching rules', () => {
+    it('should group players with the same preferences and skill', () => {
+      const anchor = ticket('a', { genres: [Genre.Rock] });
+      const group = findMatchGroup(
+        anchor,
+        [ticket('b', { genres: [Genre.Rock, Genre.Pop] })],
+        now,
+      );
+
+      expect(group?.map((t) => t.userId)).toEqual(['a', 'b']);
+    });
+
+    it('should keep players with clashing preferences apart at first', () => {
+      const anchor = ticket('a', { genres: [Genre.Rock] });
+      const candidates = [
+        ticket('b', { genres: [Genre.Jazz] }),
+        ticket('c', { skillRating: 0.9 }),
+      ];
+
+      expect(findMatchGroup(anchor, candidates, now)).toBeNull();
+    });
+
+    it('should widen matching for players who waited too long', () => {
+      const anchor = ticket('a', {
+        genres: [Genre.Rock],
+        skillRating: 0.3,
+        enqueuedAt: waitedFor(2),
+      });
+      const candidate = ticket('b', { genres: [Genre.Jazz], skillRating: 0.6 });
+
+      expect(findMatchGroup(anchor, [candidate], now)).toHaveLength(2);
+    });
+
+    it('should settle for a smaller group once fully widened', () => {
+      const anchor = ticket('a', { playerCount: 4, enqueuedAt: waitedFor(1) });
+      const candidates = [ticket('b', { playerCount: 4 })];
+
+      expect(findMatchGroup(anchor, candidates, now)).toBeNull();
+
+      anchor.enqueuedAt = waitedFor(3);
+      expect(findMatchGroup(anchor, candidates, now)).toHaveLength(2);
+    });
+
+    it('should only keep preferences the whole group shares', () => {
+      const settings = buildMatchSettings([
+        ticket('a', {
+          genres: [Genre.Rock, Genre.Pop],
+          difficulty: SessionDifficulty.Hard,
+        }),
+        ticket('b', { genres: [Genre.Pop] }),
+        ticket('c'),
+      ]);
+
+      expect(settings.genres).toEqual([Genre.Pop]);
+      expect(settings.difficulty).toBe(SessionDifficulty.Hard);
+      expect(settings.maxPlayers).toBe(3);
+    });
+  });
+
+  describe('queue', () => {
+    let service: MatchmakingService;
+    let ticketModel: any;
+    let gameSessionService: Record<string, jest.Mock>;
+    let eventEmitter: { emit: jest.Mock };
+
+    const withExec = (value: any) => ({
+      sort: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      exec: jest.fn().mockResolvedValue(value),
+    });
+
+    beforeEach(async () => {
+      ticketModel = jest.fn().mockImplementation((data) => ({
+        ...data,
+        save: jest.fn().mockResolvedValue(undefined),
+      }));
+      ticketModel.find = jest.fn();
+      ticketModel.findOne = jest.fn();
+      ticketModel.findOneAndUpdate = jest.fn();
+      ticketModel.updateMany = jest.fn().mockReturnValue(withExec(undefined));
+
+      gameSessionService = {
+        createForHost: jest
+          .fn()
+          .mockResolvedValue({ id: 'session-1', roomCode: 'ABC123' }),
+        joinByRoomCode: jest.fn().mockResolvedValue(undefined),
+        openLobby: jest.fn().mockResolvedValue(undefined),
+        discard: jest.fn().mockResolvedValue(undefined),
+        findOpenPublicSessions: jest.fn(),
+      };
+      eventEmitter = { emit: jest.fn() };
+
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [
+          MatchmakingService,
+          {
+            provide: getModelToken(MatchmakingTicket.name),
+            useValue: ticketModel,
+          },
+          { provide: GameSessionService, useValue: gameSessionService },
+          {
+            provide: PlayerService,
+            useValue: {
+              getSkillRating: jest.fn().mockResolvedValue(0.7),
+              countActivePlayersBySession: jest
+                .fn()
+                .mockResolvedValue(new Map([['oid-1', 3]])),
+            },
+          },
+          { provide: EventEmitter2, useValue: eventEmitter },
+        ],
+      }).compile();
+
+      service = module.get<MatchmakingService>(MatchmakingService);
+    });
+
+    it('should queue a player with their skill rating', async () => {
+      ticketModel.findOne.mockReturnValue(withExec(null));
+
+      const result = await service.enqueue('user-1', {
+        genres: [Genre.Rock],
+      });
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          userId: 'user-1',
+          genres: [Genre.Rock],
+          skillRating: 0.7,
+        }),
+      );
+      expect(eventEmitter.emit).toHaveBeenCalledWith(
+        'matchmaking.enqueued',
+        expect.anything(),
+      );
+    });
+
+    it('should not queue a player twice', async () => {
+      ticketModel.findOne.mockReturnValue(withExec(ticket('user-1')));
+
+      await expect(service.enqueue('user-1', {})).rejects.toThrow(
+        ConflictException,
+      );
+    });
+
+    it('should create a session for a full group', async () => {
+      const tickets = [ticket('a'), ticket('b')];
+      ticketModel.find.mockReturnValue(withExec(tickets));
+      ticketModel.findOneAndUpdate.mockImplementation(({ _id }) =>
+        withExec(tickets.find((t) => t._id === _id)),
+      );
+
+      await service.processQueue();
+
+      expect(gameSessionService.createForHost).toHaveBeenCalledWith(
+        'a',
+        expect.objectContaining({ host: 'a' }),
+      );
+      expect(gameSessionService.joinByRoomCode).toHaveBeenCalledTimes(2);
+      expect(gameSessionService.openLobby).toHaveBeenCalledWith(
+        'a',
+        'session-1',
+      );
+      expect(eventEmitter.emit).toHaveBeenCalledWith(
+        'matchmaking.matched',
+        expect.objectContaining({
+          sessionId: 'session-1',
+          userIds: ['a', 'b'],
+        }),
+      );
+    });
+
+    it('should put players back in the queue if the session cannot be created', async () => {
+      const tickets = [ticket('a'), ticket('b')];
+      ticketModel.find.mockReturnValue(withExec(tickets));
+      ticketModel.findOneAndUpdate.mockImplementation(({ _id }) =>
+        withExec(tickets.find((t) => t._id === _id)),
+      );
+      gameSessionService.createForHost.mockRejectedValue(new Error('boom'));
+
+      await service.processQueue();
+
+      expect(ticketModel.updateMany).toHaveBeenLastCalledWith(
+        { _id: { $in: ['ticket-a', 'ticket-b'] }, matchedSessionId: null },
+        { $set: { status: MatchmakingTicketStatus.Waiting, matchedAt: null } },
+      );
+      expect(gameSessionService.discard).not.toHaveBeenCalled();
+      expect(eventEmitter.emit).not.toHaveBeenCalled();
+    });
+
+    it('should drop the session it created if a player cannot join it', async () => {
+      const tickets = [ticket('a'), ticket('b')];
+      ticketModel.find.mockReturnValue(withExec(tickets));
+      ticketModel.findOneAndUpdate.mockImplementation(({ _id }) =>
+        withExec(tickets.find((t) => t._id === _id)),
+      );
+      gameSessionService.joinByRoomCode.mockRejectedValueOnce(
+        new Error('boom'),
+      );
+
+      await service.processQueue();
+
+      expect(gameSessionService.discard).toHaveBeenCalledWith('session-1');
+      expect(ticketModel.updateMany).toHaveBeenLastCalledWith(
+        { _id: { $in: ['ticket-a', 'ticket-b'] }, matchedSessionId: null },
+        { $set: { status: MatchmakingTicketStatus.Waiting, matchedAt: null } },
+      );
+      expect(eventEmitter.emit).not.toHaveBeenCalled();
+    });
+
+    it('should list open lobbies with player counts', async () => {
+      gameSessionService.findOpenPublicSessions.mockResolvedValue({
+        data: [
+          {
+            _id: 'oid-1',
+            id: 'session-1',
+            name: 'Open room',
+            players: ['a'],
+            settings: { maxPlayers: 8 },
+          },
+        ],
+        total: 1,
+      });
+
+      const result = await service.getLobbies({ limit: 10, offset: 0 });
+
+      expect(gameSessionService.findOpenPublicSessions).toHaveBeenCalledWith(
+        10,
+        0,
+      );
+      expect(result.total).toBe(1);
+      expect(result.data[0]).toEqual(
+        expect.objectContaining({
+          id: 'session-1',
+          playerCount: 3,
+          maxPlayers: 8,
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,305 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Interval } from '@nestjs/schedule';
+import { Model } from 'mongoose';
+import {
+  MatchmakingTicket,
+  MatchmakingTicketDocument,
+} from '../schemas/matchmaking-ticket.schema';
+import { MatchmakingTicketStatus } from '../enum/matchmaking.enum';
+import { SessionDifficulty } from '../enum/game-session.enum';
+import { GameSessionService } from '../game-session/game-session.service';
+import { GameSession } from '../schemas/game-session.schema';
+import { PlayerService } from '../player/services/player.service';
+import { PaginationQueryDto } from '../dto/pagination-query-dto';
+import { EnqueueMatchmakingDto } from './dto/enqueue-matchmaking.dto';
+import { MatchmakingMatchedEvent } from './matchmaking.events';
+import {
+  DEFAULT_MATCH_PLAYER_COUNT,
+  buildMatchSettings,
+  findMatchGroup,
+} from './matchmaking-rules';
+
+const MATCHMAKING_TICK_MS = 5 * 1000;
+const MATCHMAKING_BATCH_SIZE = 500;
+// Claims older than this without a session were interrupted, e.g. by a restart
+const STALE_CLAIM_MS = 60 * 1000;
+
+@Injectable()
+export class MatchmakingService {
+  private readonly logger = new Logger(MatchmakingService.name);
+  private processing = false;
+
+  constructor(
+    @InjectModel(MatchmakingTicket.name)
+    private readonly ticketModel: Model<MatchmakingTicketDocument>,
+    private readonly gameSessionService: GameSessionService,
+    private readonly playerService: PlayerService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  /**
+   * Put a player in the queue with their match preferences
+   */
+  async enqueue(
+    userId: string,
+    enqueueMatchmakingDto: EnqueueMatchmakingDto,
+  ): Promise<MatchmakingTicket> {
+    const existing = await this.ticketModel
+      .findOne({ userId, status: MatchmakingTicketStatus.Waiting })
+      .exec();
+    if (existing) {
+      throw new ConflictException('You are already in the matchmaking queue');
+    }
+
+    const skillRating = await this.playerService.getSkillRating(userId);
+    const ticket = new this.ticketModel({
+      userId,
+      genres: enqueueMatchmakingDto.genres ?? [],
+      decades: enqueueMatchmakingDto.decades ?? [],
+      difficulty: enqueueMatchmakingDto.difficulty ?? SessionDifficulty.Mixed,
+      playerCount:
+        enqueueMatchmakingDto.playerCount ?? DEFAULT_MATCH_PLAYER_COUNT,
+      skillRating,
+      enqueuedAt: new Date(),
+    });
+
+    try {
+      await ticket.save();
+    } catch (error: any) {
+      if (error?.code === 11000) {
+        throw new ConflictException('You are already in the matchmaking queue');
+      }
+      throw error;
+    }
+
+    this.eventEmitter.emit('matchmaking.enqueued', ticket);
+    return ticket;
+  }
+
+  /**
+   * Take a player out of the queue
+   */
+  async cancel(userId: string): Promise<void> {
+    const ticket = await this.ticketModel
+      .findOneAndUpdate(
+        { userId, status: MatchmakingTicketStatus.Waiting },
+        { $set: { status: MatchmakingTicketStatus.Cancelled } },
+        { new: true },
+      )
+      .exec();
+    if (!ticket) {
+      throw new NotFoundException('You are not in the matchmaking queue');
+    }
+
+    this.eventEmitter.emit('matchmaking.cancelled', ticket);
+  }
+
+  /**
+   * The player's most recent ticket, so clients can poll for their match
+   */
+  async getTicket(userId: string): Promise<MatchmakingTicket> {
+    const ticket = await this.ticketModel
+      .findOne({ userId })
+      .sort({ createdAt: -1 })
+      .exec();
+    if (!ticket) {
+      throw new NotFoundException('You have not joined the matchmaking queue');
+    }
+    return ticket;
+  }
+
+  /**
+   * Group waiting tickets, oldest first, and start a session for each full group.
+   * Tickets live in Mongo, so a restarted process carries on with the same queue.
+   */
+  @Interval(MATCHMAKING_TICK_MS)
+  async processQueue(): Promise<void> {
+    if (this.processing) {
+      return;
+    }
+    this.processing = true;
+
+    try {
+      await this.releaseStaleClaims();
+
+      const waiting = await this.ticketModel
+        .find({ status: MatchmakingTicketStatus.Waiting })
+        .sort({ enqueuedAt: 1 })
+        .limit(MATCHMAKING_BATCH_SIZE)
+        .exec();
+
+      const now = new Date();
+      let remaining = waiting;
+      while (remaining.length > 1) {
+        const [anchor, ...candidates] = remaining;
+        const group = findMatchGroup(anchor, candidates, now);
+
+        if (!group) {
+          remaining = candidates;
+          continue;
+        }
+
+        remaining = candidates.filter((ticket) => !group.includes(ticket));
+        await this.startMatch(group);
+      }
+    } catch (error: any) {
+      this.logger.error(
+        `Matchmaking pass failed: ${error?.message}`,
+        error?.stack,
+      );
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Open public sessions with how many players are in each, for the lobby browser
+   */
+  async getLobbies(query: PaginationQueryDto) {
+    const limit = query.limit ?? 10;
+    const offset = query.offset ?? 0;
+    const { data, total } =
+      await this.gameSessionService.findOpenPublicSessions(limit, offset);
+
+    const counts = await this.playerService.countActivePlayersBySession(
+      data.map((session) => String(session._id)),
+    );
+
+    return {
+      data: data.map((session) => ({
+        id: session.id,
+        name: session.name,
+        host: session.host,
+        roomCode: session.roomCode,
+        status: session.status,
+        genres: session.settings.genres,
+        decades: session.settings.decades,
+        difficulty: session.settings.difficulty,
+        roundCount: session.settings.roundCount,
+        maxPlayers: session.settings.maxPlayers,
+        // Sessions nobody has joined through the player module yet still count their roster
+        playerCount: counts.get(String(session._id)) ?? session.players.length,
+      })),
+      total,
+      limit,
+      offset,
+    };
+  }
+
+  private async startMatch(group: MatchmakingTicketDocument[]): Promise<void> {
+    const claimed = await this.claimTickets(group);
+    if (claimed.length !== group.length) {
+      // Someone left the queue in the meantime; the rest get picked up next pass
+      await this.releaseTickets(claimed);
+      return;
+    }
+
+    const [host, ...guests] = claimed;
+    let session: GameSession | null = null;
+    try {
+      session = await this.gameSessionService.createForHost(host.userId, {
+        name: 'Quick match',
+        host: host.userId,
+        settings: buildMatchSettings(claimed),
+      });
+
+      for (const ticket of [host, ...guests]) {
+        await this.gameSessionService.joinByRoomCode(
+          ticket.userId,
+          session.roomCode!,
+        );
+      }
+      await this.gameSessionService.openLobby(host.userId, session.id);
+
+      await this.ticketModel
+        .updateMany(
+          { _id: { $in: claimed.map((ticket) => ticket._id) } },
+          { $set: { matchedSessionId: session.id } },
+        )
+        .exec();
+
+      this.eventEmitter.emit(
+        'matchmaking.matched',
+        new MatchmakingMatchedEvent(
+          session.id,
+          session.roomCode,
+          claimed.map((ticket) => ticket.userId),
+        ),
+      );
+    } catch (error: any) {
+      this.logger.error(
+        `Failed to start a match for ${claimed.length} players: ${error?.message}`,
+        error?.stack,
+      );
+      // The session was set up part way; drop it so it does not linger with nobody to play
+      if (session) {
+        await this.gameSessionService
+          .discard(session.id)
+          .catch(() => undefined);
+      }
+      await this.releaseTickets(claimed);
+    }
+  }
+
+  private async claimTickets(
+    group: MatchmakingTicketDocument[],
+  ): Promise<MatchmakingTicketDocument[]> {
+    const claimed: MatchmakingTicketDocument[] = [];
+    for (const ticket of group) {
+      const updated = await this.ticketModel
+        .findOneAndUpdate(
+          { _id: ticket._id, status: MatchmakingTicketStatus.Waiting },
+          {
+            $set: {
+              status: MatchmakingTicketStatus.Matched,
+              matchedAt: new Date(),
+            },
+          },
+          { new: true },
+        )
+        .exec();
+      if (updated) {
+        claimed.push(updated);
+      }
+    }
+    return claimed;
+  }
+
+  // Released tickets keep their enqueuedAt, so they do not lose the wider matching they earned
+  private async releaseTickets(
+    tickets: MatchmakingTicketDocument[],
+  ): Promise<void> {
+    if (tickets.length === 0) {
+      return;
+    }
+    await this.ticketModel
+      .updateMany(
+        {
+          _id: { $in: tickets.map((ticket) => ticket._id) },
+          matchedSessionId: null,
+        },
+        { $set: { status: MatchmakingTicketStatus.Waiting, matchedAt: null } },
+      )
+      .exec();
+  }
+
+  private async releaseStaleClaims(): Promise<void> {
+    await this.ticketModel
+      .updateMany(
+        {
+          status: MatchmakingTicketStatus.Matched,
+          matchedSessionId: null,
+          matchedAt: { $lt: new Date(Date.now() - STALE_CLAIM_MS) },
+        },
+        { $set: { status: MatchmakingTicketStatus.Waiting, matchedAt: null } },
+      )
+      .exec();
+  }
+}
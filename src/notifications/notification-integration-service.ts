@@ -3,6 +3,8 @@ import { OnEvent } from '@nestjs/event-emitter';
 import { NotificationFactoryService } from './notification-factory.service';
 import { NotificationGateway } from './notification.gateway';
 import { ContentType, NotificationType } from './notification.schema';
+import { AnswerDisputeResolvedEvent } from '../round-answer/answer-dispute-events';
+import { DisputeStatus } from '../enum/game-round.enum';
 
 /**
  * Service to integrate notifications with other system events
@@ -377,6 +379,31 @@ export class NotificationIntegrationService {
     }
   }
   
+  /**
+   * Handle answer dispute resolved event
+   */
+  @OnEvent('answerDispute.resolved')
+  async handleAnswerDisputeResolvedEvent(payload: AnswerDisputeResolvedEvent): Promise<void> {
+    const upheld = payload.status === DisputeStatus.Upheld;
+    const title = upheld ? 'Answer dispute upheld' : 'Answer dispute dismissed';
+    const outcome = upheld
+      ? `Your answer now counts as correct and your score changed by ${payload.scoreChange}`
+      : 'Your answer stays as it was scored';
+    
+    await this.sendSystemNotification(
+      title,
+      payload.moderatorNote ? `${outcome}. ${payload.moderatorNote}` : outcome,
+      [payload.userId],
+      {
+        disputeId: payload.disputeId,
+        answerId: payload.answerId,
+        sessionId: payload.sessionId,
+        status: payload.status,
+        scoreChange: payload.scoreChange
+      }
+    );
+  }
+
   /**
    * Send a system notification to specific users or all users
    */
@@ -24,7 +24,8 @@ import {
   import { CreatePlayerDto } from '../dto/create-player.dto';
   import { UpdatePlayerStatusDto } from '../dto/update-player-status.dto';
   import { SubmitAnswerDto } from '../dto/submit-answer.dto';
-  import { PlayerResponseDto } from '../dto/player-response.dto';
+  import { JoinTeamDto } from '../dto/join-team.dto';
+  import { PlayerResponseDto, TeamLeaderboardEntryDto } from '../dto/player-response.dto';
   import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
   import { CurrentUser } from '../../auth/decorators/current-user.decorator';
   import { RolesGuard } from '../../auth/guards/roles.guard';
@@ -92,6 +93,18 @@ import {
       return players.map(player => this.mapToPlayerResponse(player));
     }
   
+    @Get('session/:sessionId/teams/leaderboard')
+    @ApiOperation({ summary: 'Get team standings for a session' })
+    @ApiParam({ name: 'sessionId', description: 'Game Session ID' })
+    @ApiResponse({
+      status: HttpStatus.OK,
+      description: 'Team leaderboard retrieved successfully',
+      type: [TeamLeaderboardEntryDto]
+    })
+    async getTeamLeaderboard(@Param('sessionId') sessionId: string) {
+      return this.playerService.getTeamLeaderboard(sessionId);
+    }
+  
     @Get('user/:userId/history')
     @ApiOperation({ summary: 'Get player history' })
     @ApiParam({ name: 'userId', description: 'User ID' })
@@ -141,6 +154,25 @@ import {
       return this.mapToPlayerResponse(player);
     }
   
+    @Put(':id/team')
+    @UseGuards(JwtAuthGuard)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Join a team, or the smallest team when none is given' })
+    @ApiParam({ name: 'id', description: 'Player ID' })
+    @ApiBody({ type: JoinTeamDto })
+    @ApiResponse({
+      status: HttpStatus.OK,
+      description: 'Player moved to the team successfully',
+      type: PlayerResponseDto
+    })
+    async joinTeam(
+      @Param('id') id: string,
+      @Body() joinTeamDto: JoinTeamDto
+    ) {
+      const player = await this.playerService.joinTeam(id, joinTeamDto.teamId);
+      return this.mapToPlayerResponse(player);
+    }
+  
     @Post(':id/answers')
     @UseGuards(JwtAuthGuard)
     @ApiBearerAuth()
@@ -216,6 +248,8 @@ import {
         joinedAt: player.joinedAt,
         score: player.score,
         position: player.position,
+        teamId: player.teamId ?? null,
+        isCaptain: player.isCaptain ?? false,
         activeTime: player.activeTime,
         lastActive: player.lastActive,
         answers: player.answers.map(answer => ({
@@ -1,5 +1,5 @@
 // File: src/modules/player/dto/create-player.dto.ts
-import { IsEnum, IsMongoId, IsNotEmpty, IsOptional, IsObject } from 'class-validator';
+import { IsEnum, IsMongoId, IsNotEmpty, IsOptional, IsObject, IsString } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { PlayerStatus } from '../schemas/player.schema';
 
@@ -32,4 +32,13 @@ export class CreatePlayerDto {
   @IsObject()
   @IsOptional()
   metadata?: Record<string, any>;
+
+  @ApiProperty({
+    description: 'Team to join in a team session; the player is put on the smallest team when left out',
+    example: '3f1c2a9e-5b7d-4e0a-9c1f-2d8e6b4a7c10',
+    required: false
+  })
+  @IsString()
+  @IsOptional()
+  teamId?: string;
 }
\ No newline at end of file
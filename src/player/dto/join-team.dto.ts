@@ -0,0 +1,15 @@
+// File: src/modules/player/dto/join-team.dto.ts
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class JoinTeamDto {
+  @ApiProperty({
+    description: 'Team to join; the player is put on the smallest team when left out',
+    example: '3f1c2a9e-5b7d-4e0a-9c1f-2d8e6b4a7c10',
+    required: false
+  })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  teamId?: string;
+}
\ No newline at end of file
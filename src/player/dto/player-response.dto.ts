@@ -61,6 +61,12 @@ export class PlayerResponseDto {
   @ApiProperty({ example: 2 })
   position: number;
 
+  @ApiProperty({ example: '3f1c2a9e-5b7d-4e0a-9c1f-2d8e6b4a7c10', nullable: true })
+  teamId: string | null;
+
+  @ApiProperty({ example: false })
+  isCaptain: boolean;
+
   @ApiProperty({ example: 180 })
   activeTime: number;
 
@@ -84,4 +90,24 @@ export class PlayerResponseDto {
 
   @ApiProperty({ example: '2023-05-01T12:15:00.000Z' })
   updatedAt: Date;
+}
+
+export class TeamLeaderboardEntryDto {
+  @ApiProperty({ example: '3f1c2a9e-5b7d-4e0a-9c1f-2d8e6b4a7c10' })
+  teamId: string;
+
+  @ApiProperty({ example: 'The Harmonizers' })
+  name: string;
+
+  @ApiProperty({ example: 720 })
+  score: number;
+
+  @ApiProperty({ example: 7 })
+  correctAnswers: number;
+
+  @ApiProperty({ example: 3 })
+  players: number;
+
+  @ApiProperty({ example: 1 })
+  position: number;
 }
\ No newline at end of file
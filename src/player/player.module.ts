@@ -5,11 +5,13 @@ import { EventEmitterModule } from '@nestjs/event-emitter';
 import { PlayerController } from './controllers/player.controller';
 import { PlayerService } from './services/player.service';
 import { Player, PlayerSchema } from './schemas/player.schema';
+import { GameSession, GameSessionSchema } from '../schemas/game-session.schema';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
-      { name: Player.name, schema: PlayerSchema }
+      { name: Player.name, schema: PlayerSchema },
+      { name: GameSession.name, schema: GameSessionSchema }
     ]),
     EventEmitterModule.forRoot()
   ],
@@ -1,6 +1,6 @@
 // File: src/modules/player/schemas/player.schema.ts
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
-import { Document, Schema as MongooseSchema } from 'mongoose';
+import { Document, Schema as MongooseSchema, Types } from 'mongoose';
 import { ApiProperty } from '@nestjs/swagger';
 
 export enum PlayerStatus {
@@ -12,7 +12,7 @@ export enum PlayerStatus {
 }
 
 export interface Answer {
-  questionId: string;
+  questionId: Types.ObjectId | string;
   value: any;
   isCorrect: boolean;
   timeToAnswer: number; // in ms
@@ -64,10 +64,18 @@ export class Player {
   @Prop({ type: Date, default: Date.now })
   joinedAt: Date;
 
-  @ApiProperty({ description: 'Current player score' })
-  @Prop({ type: Number, default: 0, min: 0 })
+  @ApiProperty({ description: 'Current player score; below zero when penalised wrong answers outweigh the points' })
+  @Prop({ type: Number, default: 0 })
   score: number;
 
+  @ApiProperty({ description: 'Team the player is on; null in free-for-all sessions', nullable: true })
+  @Prop({ type: String, default: null })
+  teamId: string | null;
+
+  @ApiProperty({ description: 'Whether the player captains their team' })
+  @Prop({ type: Boolean, default: false })
+  isCaptain: boolean;
+
   @ApiProperty({ description: 'Player position in the leaderboard' })
   @Prop({ type: Number, default: 0 })
   position: number;
@@ -80,7 +88,7 @@ export class Player {
   @Prop({ type: Date })
   lastActive: Date;
 
-  @ApiProperty({ description: 'Player's answers to questions' })
+  @ApiProperty({ description: "Player's answers to questions" })
   @Prop({
     type: [{
       questionId: { type: MongooseSchema.Types.ObjectId, ref: 'Question' },
@@ -109,6 +117,7 @@ export const PlayerSchema = SchemaFactory.createForClass(Player);
 // Create compound indexes for efficient querying
 PlayerSchema.index({ sessionId: 1, status: 1 });
 PlayerSchema.index({ sessionId: 1, score: -1 }); // For leaderboard
+PlayerSchema.index({ sessionId: 1, teamId: 1 }); // For team standings
 PlayerSchema.index({ sessionId: 1, userId: 1 }, { unique: true }); // Prevent duplicate players in session
 PlayerSchema.index({ userId: 1, joinedAt: -1 }); // For player history
 
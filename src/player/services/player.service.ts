@@ -1,19 +1,26 @@
 // File: src/modules/player/services/player.service.ts
-import { Injectable, Logger, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException, BadRequestException, ConflictException, ForbiddenException } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import { Player, PlayerDocument, PlayerStatus } from '../schemas/player.schema';
+import { GameSession, GameSessionDocument } from '../../schemas/game-session.schema';
+import { SessionStatus } from '../../enum/game-session.enum';
 import { CreatePlayerDto } from '../dto/create-player.dto';
 import { UpdatePlayerStatusDto } from '../dto/update-player-status.dto';
 import { SubmitAnswerDto } from '../dto/submit-answer.dto';
+import { TeamLeaderboardEntryDto } from '../dto/player-response.dto';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 
+// Players who left or only watch are not placed on teams
+const TEAMLESS_STATUSES = [PlayerStatus.LEFT, PlayerStatus.SPECTATING];
+
 @Injectable()
 export class PlayerService {
   private readonly logger = new Logger(PlayerService.name);
 
   constructor(
     @InjectModel(Player.name) private playerModel: Model<PlayerDocument>,
+    @InjectModel(GameSession.name) private gameSessionModel: Model<GameSessionDocument>,
     private eventEmitter: EventEmitter2
   ) {}
 
@@ -22,7 +29,7 @@ export class PlayerService {
    */
   async create(userId: string, createPlayerDto: CreatePlayerDto): Promise<PlayerDocument> {
     try {
-      const { sessionId, status = PlayerStatus.JOINED, metadata = {} } = createPlayerDto;
+      const { sessionId, status = PlayerStatus.JOINED, metadata = {}, teamId } = createPlayerDto;
 
       // Check if player already exists in this session
       const existingPlayer = await this.playerModel.findOne({
@@ -50,6 +57,12 @@ export class PlayerService {
         throw new ConflictException('Player already exists in this session');
       }
 
+      // In team sessions every new player lands on a team straight away
+      const session = await this.findTeamSession(sessionId);
+      if (teamId && !session.teams.some(team => team.teamId === teamId)) {
+        throw new BadRequestException('Team not found in this session');
+      }
+
       // Create a new player
       const newPlayer = new this.playerModel({
         userId: new Types.ObjectId(userId),
@@ -60,7 +73,7 @@ export class PlayerService {
         metadata
       });
 
-      const savedPlayer = await newPlayer.save();
+      let savedPlayer: PlayerDocument = await newPlayer.save();
 
       // Emit player joined event
       this.eventEmitter.emit('player.joined', {
@@ -69,9 +82,13 @@ export class PlayerService {
         userId
       });
 
+      if (session.teams.length > 0 && !TEAMLESS_STATUSES.includes(status)) {
+        savedPlayer = await this.assignToTeam(savedPlayer, session, teamId);
+      }
+
       return savedPlayer;
-    } catch (error) {
-      if (error instanceof ConflictException) {
+    } catch (error: any) {
+      if (error instanceof ConflictException || error instanceof NotFoundException || error instanceof BadRequestException) {
         throw error;
       }
       this.logger.error(`Failed to create player: ${error.message}`, error.stack);
@@ -147,6 +164,205 @@ export class PlayerService {
     return players;
   }
 
+  /**
+   * Get team standings for a session, summing the scores of everyone who played on each team
+   */
+  async getTeamLeaderboard(sessionId: string): Promise<TeamLeaderboardEntryDto[]> {
+    const session = await this.findTeamSession(sessionId);
+    if (session.teams.length === 0) {
+      return [];
+    }
+
+    const totals = await this.playerModel.aggregate<{
+      _id: string;
+      score: number;
+      correctAnswers: number;
+      players: number;
+    }>([
+      {
+        $match: {
+          sessionId: new Types.ObjectId(sessionId),
+          teamId: { $in: session.teams.map(team => team.teamId) }
+        }
+      },
+      {
+        $group: {
+          _id: '$teamId',
+          score: { $sum: '$score' },
+          correctAnswers: { $sum: '$correctAnswers' },
+          players: { $sum: { $cond: [{ $in: ['$status', TEAMLESS_STATUSES] }, 0, 1] } }
+        }
+      }
+    ]).exec();
+    const totalsByTeam = new Map(totals.map(total => [total._id, total]));
+
+    return session.teams
+      .map(team => ({
+        teamId: team.teamId,
+        name: team.name,
+        score: totalsByTeam.get(team.teamId)?.score ?? 0,
+        correctAnswers: totalsByTeam.get(team.teamId)?.correctAnswers ?? 0,
+        players: totalsByTeam.get(team.teamId)?.players ?? 0,
+        position: 0
+      }))
+      .sort((a, b) => b.score - a.score)
+      .map((entry, index) => ({ ...entry, position: index + 1 }));
+  }
+
+  /**
+   * Put a player on the team they picked, or on the smallest team when they did not pick one
+   */
+  async joinTeam(playerId: string, teamId?: string): Promise<PlayerDocument> {
+    const player = await this.playerModel.findById(playerId).exec();
+
+    if (!player) {
+      throw new NotFoundException('Player not found');
+    }
+
+    if (TEAMLESS_STATUSES.includes(player.status)) {
+      throw new BadRequestException('Spectators and players who left cannot join a team');
+    }
+
+    const session = await this.findTeamSession(player.sessionId.toString());
+    if (session.teams.length === 0) {
+      throw new BadRequestException('This session is not played in teams');
+    }
+    if (session.status !== SessionStatus.Created && session.status !== SessionStatus.Waiting) {
+      throw new BadRequestException('Teams can only be changed before the game starts');
+    }
+
+    return this.assignToTeam(player, session, teamId);
+  }
+
+  /**
+   * Spread the players of a session evenly over its teams in join order; the first player
+   * placed on each team captains it. An empty team list takes everyone off their team.
+   */
+  async balanceTeams(sessionId: string, teamIds: string[]): Promise<void> {
+    const sessionObjectId = new Types.ObjectId(sessionId);
+
+    await this.playerModel.updateMany(
+      { sessionId: sessionObjectId },
+      { $set: { teamId: null, isCaptain: false } }
+    ).exec();
+
+    if (teamIds.length === 0) {
+      return;
+    }
+
+    const players = await this.playerModel.find({
+      sessionId: sessionObjectId,
+      status: { $nin: TEAMLESS_STATUSES }
+    })
+      .sort({ joinedAt: 1 })
+      .select('_id')
+      .exec();
+
+    if (players.length === 0) {
+      return;
+    }
+
+    await this.playerModel.bulkWrite(
+      players.map((player, index) => ({
+        updateOne: {
+          filter: { _id: player._id },
+          update: {
+            $set: {
+              teamId: teamIds[index % teamIds.length],
+              isCaptain: index < teamIds.length
+            }
+          }
+        }
+      }))
+    );
+  }
+
+  /**
+   * Count players still in each session, keyed by session ID
+   */
+  async countActivePlayersBySession(sessionIds: string[]): Promise<Map<string, number>> {
+    const counts = await this.playerModel.aggregate<{ _id: Types.ObjectId; count: number }>([
+      {
+        $match: {
+          sessionId: { $in: sessionIds.map(id => new Types.ObjectId(id)) },
+          status: { $ne: PlayerStatus.LEFT }
+        }
+      },
+      { $group: { _id: '$sessionId', count: { $sum: 1 } } }
+    ]).exec();
+
+    return new Map(counts.map(({ _id, count }) => [_id.toString(), count]));
+  }
+
+  /**
+   * Sessions the user has joined and not left
+   */
+  async findCurrentSessionIds(userId: string): Promise<string[]> {
+    const players = await this.playerModel.find({
+      userId: new Types.ObjectId(userId),
+      status: { $ne: PlayerStatus.LEFT }
+    })
+      .select('sessionId')
+      .exec();
+
+    return players.map(player => player.sessionId.toString());
+  }
+
+  /**
+   * The player in a session the longest, other than the departing host, to take over the host role
+   */
+  async findHostSuccessor(sessionId: string, departedUserId: string): Promise<string | null> {
+    const successor = await this.playerModel.findOne({
+      sessionId: new Types.ObjectId(sessionId),
+      userId: { $ne: new Types.ObjectId(departedUserId) },
+      status: { $in: [PlayerStatus.JOINED, PlayerStatus.READY, PlayerStatus.ACTIVE] }
+    })
+      .sort({ joinedAt: 1 })
+      .exec();
+
+    return successor ? successor.userId.toString() : null;
+  }
+
+  /**
+   * Final scores of everyone who joined a session, and whether they are still in it
+   */
+  async getSessionResults(sessionId: string): Promise<{ userId: string; score: number; present: boolean }[]> {
+    const players = await this.playerModel.find({
+      sessionId: new Types.ObjectId(sessionId)
+    })
+      .select('userId score status')
+      .lean()
+      .exec();
+
+    return players.map(player => ({
+      userId: player.userId.toString(),
+      score: player.score,
+      present: player.status !== PlayerStatus.LEFT
+    }));
+  }
+
+  /**
+   * Estimate a user's skill as their share of correct answers over recent games
+   */
+  async getSkillRating(userId: string, recentGames = 20): Promise<number> {
+    const players = await this.playerModel.find({
+      userId: new Types.ObjectId(userId)
+    })
+      .sort({ joinedAt: -1 })
+      .limit(recentGames)
+      .select('correctAnswers answers')
+      .lean()
+      .exec();
+
+    const answered = players.reduce((sum, player) => sum + (player.answers?.length || 0), 0);
+    if (answered === 0) {
+      return 0.5; // No history yet, start in the middle
+    }
+
+    const correct = players.reduce((sum, player) => sum + (player.correctAnswers || 0), 0);
+    return Math.min(1, correct / answered);
+  }
+
   /**
    * Update player status
    */
@@ -171,8 +387,18 @@ export class PlayerService {
       player.activeTime += activeSeconds;
     }
 
+    // A captain who leaves or starts spectating hands the role to a teammate
+    const handsOverCaptaincy = player.isCaptain && TEAMLESS_STATUSES.includes(updatePlayerStatusDto.status);
+    if (handsOverCaptaincy) {
+      player.isCaptain = false;
+    }
+
     const updatedPlayer = await player.save();
 
+    if (handsOverCaptaincy && player.teamId) {
+      await this.promoteCaptain(player.sessionId.toString(), player.teamId);
+    }
+
     // Emit status change event
     this.eventEmitter.emit('player.status.updated', {
       playerId,
@@ -202,7 +428,29 @@ export class PlayerService {
       throw new BadRequestException('Only active players can submit answers');
     }
 
-    const { questionId, value, isCorrect, timeToAnswer, pointsEarned = 0 } = submitAnswerDto;
+    const { questionId, value, isCorrect, timeToAnswer } = submitAnswerDto;
+    let { pointsEarned = 0 } = submitAnswerDto;
+
+    if (player.teamId) {
+      const session = await this.findTeamSession(player.sessionId.toString());
+
+      if (session.teamRules?.captainsAnswer && !player.isCaptain) {
+        throw new ForbiddenException('Only the team captain can submit answers for the team');
+      }
+
+      // Later correct answers from the same team still count towards the player's stats, but score nothing
+      if (isCorrect && session.teamRules?.firstCorrectOnly) {
+        const teammateScored = await this.playerModel.exists({
+          _id: { $ne: player._id },
+          sessionId: player.sessionId,
+          teamId: player.teamId,
+          answers: { $elemMatch: { questionId: new Types.ObjectId(questionId), isCorrect: true } }
+        });
+        if (teammateScored) {
+          pointsEarned = 0;
+        }
+      }
+    }
 
     // Create new answer
     const answer = {
@@ -233,12 +481,32 @@ export class PlayerService {
       userId: player.userId,
       questionId,
       isCorrect,
-      pointsEarned
+      pointsEarned,
+      teamId: player.teamId
     });
 
+    await this.publishLeaderboards(player.sessionId.toString());
+
     return updatedPlayer;
   }
 
+  /**
+   * Change a player's totals after one of their round answers was rescored, and send the new standings
+   */
+  async adjustScore(playerId: string, scoreChange: number, correctAnswersChange: number): Promise<PlayerDocument> {
+    const player = await this.playerModel.findByIdAndUpdate(
+      playerId,
+      { $inc: { score: scoreChange, correctAnswers: correctAnswersChange } },
+      { new: true }
+    ).exec();
+    if (!player) {
+      throw new NotFoundException(`Player with ID ${playerId} not found`);
+    }
+
+    await this.publishLeaderboards(player.sessionId.toString());
+    return player;
+  }
+
   /**
    * Get player history (sessions played)
    */
@@ -290,4 +558,151 @@ export class PlayerService {
     // Emit scores reset event
     this.eventEmitter.emit('session.scores.reset', { sessionId });
   }
+
+  /**
+   * Helper method to load the team setup of a session
+   */
+  private async findTeamSession(sessionId: string): Promise<Pick<GameSession, 'teams' | 'teamRules' | 'status'>> {
+    const session = await this.gameSessionModel.findById(sessionId)
+      .select('teams teamRules status')
+      .lean()
+      .exec();
+
+    if (!session) {
+      throw new NotFoundException('Game session not found');
+    }
+
+    return { ...session, teams: session.teams ?? [] };
+  }
+
+  /**
+   * Helper method to move a player onto a team; a player joining a team without a captain becomes its captain
+   */
+  private async assignToTeam(
+    player: PlayerDocument,
+    session: Pick<GameSession, 'teams'>,
+    teamId?: string
+  ): Promise<PlayerDocument> {
+    let targetTeamId = teamId;
+    if (targetTeamId) {
+      if (!session.teams.some(team => team.teamId === targetTeamId)) {
+        throw new BadRequestException('Team not found in this session');
+      }
+    } else {
+      targetTeamId = await this.findSmallestTeam(player, session.teams.map(team => team.teamId));
+    }
+
+    if (player.teamId === targetTeamId) {
+      return player;
+    }
+
+    const previousTeamId = player.teamId;
+    const wasCaptain = player.isCaptain;
+
+    const hasCaptain = await this.playerModel.exists({
+      _id: { $ne: player._id },
+      sessionId: player.sessionId,
+      teamId: targetTeamId,
+      isCaptain: true
+    });
+
+    player.teamId = targetTeamId;
+    player.isCaptain = !hasCaptain;
+    player.lastActive = new Date();
+    const updatedPlayer = await player.save();
+
+    if (wasCaptain && previousTeamId) {
+      await this.promoteCaptain(player.sessionId.toString(), previousTeamId);
+    }
+
+    this.eventEmitter.emit('player.team.changed', {
+      playerId: player._id,
+      sessionId: player.sessionId,
+      userId: player.userId,
+      teamId: targetTeamId,
+      previousTeamId,
+      isCaptain: updatedPlayer.isCaptain
+    });
+
+    return updatedPlayer;
+  }
+
+  /**
+   * Helper method to pick the team with the fewest players, leaving the player being moved out of the count
+   */
+  private async findSmallestTeam(player: PlayerDocument, teamIds: string[]): Promise<string> {
+    const sizes = await this.playerModel.aggregate<{ _id: string; count: number }>([
+      {
+        $match: {
+          _id: { $ne: player._id },
+          sessionId: player.sessionId,
+          teamId: { $in: teamIds },
+          status: { $nin: TEAMLESS_STATUSES }
+        }
+      },
+      { $group: { _id: '$teamId', count: { $sum: 1 } } }
+    ]).exec();
+    const sizeByTeam = new Map(sizes.map(({ _id, count }) => [_id, count]));
+
+    // Ties go to the team listed first, so balancing is predictable
+    return teamIds.reduce((smallest, teamId) =>
+      (sizeByTeam.get(teamId) ?? 0) < (sizeByTeam.get(smallest) ?? 0) ? teamId : smallest
+    );
+  }
+
+  /**
+   * Helper method to make the longest-standing remaining member captain of a team that lost its captain
+   */
+  private async promoteCaptain(sessionId: string, teamId: string): Promise<void> {
+    const sessionObjectId = new Types.ObjectId(sessionId);
+    const hasCaptain = await this.playerModel.exists({ sessionId: sessionObjectId, teamId, isCaptain: true });
+    if (hasCaptain) {
+      return;
+    }
+
+    const successor = await this.playerModel.findOneAndUpdate(
+      { sessionId: sessionObjectId, teamId, status: { $nin: TEAMLESS_STATUSES } },
+      { $set: { isCaptain: true } },
+      { new: true, sort: { joinedAt: 1 } }
+    ).exec();
+
+    if (successor) {
+      this.eventEmitter.emit('player.team.changed', {
+        playerId: successor._id,
+        sessionId: successor.sessionId,
+        userId: successor.userId,
+        teamId,
+        previousTeamId: teamId,
+        isCaptain: true
+      });
+    }
+  }
+
+  /**
+   * Helper method to send the individual and team standings of a session to everyone in it
+   */
+  private async publishLeaderboards(sessionId: string): Promise<void> {
+    const [players, teams] = await Promise.all([
+      this.playerModel.find({ sessionId: new Types.ObjectId(sessionId) })
+        .sort({ score: -1 })
+        .select('userId score correctAnswers teamId isCaptain')
+        .lean()
+        .exec(),
+      this.getTeamLeaderboard(sessionId)
+    ]);
+
+    this.eventEmitter.emit('session.leaderboard.updated', {
+      sessionId,
+      players: players.map((player, index) => ({
+        playerId: player._id.toString(),
+        userId: player.userId.toString(),
+        score: player.score,
+        correctAnswers: player.correctAnswers,
+        teamId: player.teamId,
+        isCaptain: player.isCaptain,
+        position: index + 1
+      })),
+      teams
+    });
+  }
 }
\ No newline at end of file
@@ -5,6 +5,7 @@ import { EventEmitter2 } from '@nestjs/event-emitter';
 import { Model, Types } from 'mongoose';
 import { PlayerService } from '../services/player.service';
 import { Player, PlayerDocument, PlayerStatus } from '../schemas/player.schema';
+import { GameSession } from '../../schemas/game-session.schema';
 import { CreatePlayerDto } from '../dto/create-player.dto';
 import { SubmitAnswerDto } from '../dto/submit-answer.dto';
 import { ConflictException, NotFoundException, BadRequestException } from '@nestjs/common';
@@ -52,6 +53,12 @@ describe('PlayerService', () => {
             save: jest.fn(),
           },
         },
+        {
+          provide: getModelToken(GameSession.name),
+          useValue: {
+            findById: jest.fn(),
+          },
+        },
         {
           provide: EventEmitter2,
           useValue: {
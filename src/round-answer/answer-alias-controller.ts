@@ -0,0 +1,178 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiBody,
+  ApiParam,
+} from '@nestjs/swagger';
+
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { UserRole } from '../schemas/user.schema';
+import { AnswerAliasService } from './answer-alias-service';
+import {
+  AliasQueryDto,
+  CreateAliasDto,
+  ProposeAliasDto,
+  ReviewAliasDto,
+} from './answer-alias-dtos';
+
+@ApiTags('answer-aliases')
+@Controller('answer-aliases')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class AnswerAliasController {
+  constructor(private readonly answerAliasService: AnswerAliasService) {}
+
+  @Get()
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.MODERATOR)
+  @ApiOperation({
+    summary: 'List answer aliases, e.g. the pending ones to review',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Aliases retrieved successfully',
+  })
+  async listAliases(@Query() query: AliasQueryDto) {
+    return this.answerAliasService.listAliases(query);
+  }
+
+  @Get(':aliasId')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.MODERATOR)
+  @ApiOperation({ summary: 'Get an answer alias with its audit history' })
+  @ApiParam({ name: 'aliasId', description: 'ID of the alias' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Alias retrieved successfully',
+  })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Alias not found' })
+  async getAlias(@Param('aliasId') aliasId: string) {
+    return this.answerAliasService.getAlias(aliasId);
+  }
+
+  @Post()
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.MODERATOR)
+  @ApiOperation({
+    summary: 'Add an approved alias for a song title or an artist',
+  })
+  @ApiBody({ type: CreateAliasDto })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Alias added and accepted by validation',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'The alias is already accepted, pending or approved',
+  })
+  async addAlias(
+    @CurrentUser('sub') userId: string,
+    @Body() createAliasDto: CreateAliasDto,
+  ) {
+    return this.answerAliasService.addAlias(createAliasDto, userId);
+  }
+
+  @Post('proposals')
+  @ApiOperation({ summary: 'Propose a rejected answer of yours as an alias' })
+  @ApiBody({ type: ProposeAliasDto })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Alias proposed for review',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'The answer was not rejected, or its question takes no aliases',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'The answer is not yours',
+  })
+  async proposeAlias(
+    @CurrentUser('sub') userId: string,
+    @Body() proposeAliasDto: ProposeAliasDto,
+  ) {
+    return this.answerAliasService.proposeAlias(proposeAliasDto, userId);
+  }
+
+  @Post(':aliasId/approve')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.MODERATOR)
+  @ApiOperation({
+    summary: 'Approve a proposed alias, optionally rescoring open rounds',
+  })
+  @ApiParam({ name: 'aliasId', description: 'ID of the alias' })
+  @ApiBody({ type: ReviewAliasDto })
+  @ApiResponse({ status: HttpStatus.CREATED, description: 'Alias approved' })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'The alias is not pending',
+  })
+  async approveAlias(
+    @CurrentUser('sub') userId: string,
+    @Param('aliasId') aliasId: string,
+    @Body() reviewAliasDto: ReviewAliasDto,
+  ) {
+    return this.answerAliasService.approveAlias(
+      aliasId,
+      userId,
+      reviewAliasDto,
+    );
+  }
+
+  @Post(':aliasId/reject')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.MODERATOR)
+  @ApiOperation({ summary: 'Reject a proposed alias' })
+  @ApiParam({ name: 'aliasId', description: 'ID of the alias' })
+  @ApiBody({ type: ReviewAliasDto })
+  @ApiResponse({ status: HttpStatus.CREATED, description: 'Alias rejected' })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'The alias is not pending',
+  })
+  async rejectAlias(
+    @CurrentUser('sub') userId: string,
+    @Param('aliasId') aliasId: string,
+    @Body() reviewAliasDto: ReviewAliasDto,
+  ) {
+    return this.answerAliasService.rejectAlias(aliasId, userId, reviewAliasDto);
+  }
+
+  @Delete(':aliasId')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.MODERATOR)
+  @ApiOperation({
+    summary: 'Remove an alias; it stays on record with its history',
+  })
+  @ApiParam({ name: 'aliasId', description: 'ID of the alias' })
+  @ApiBody({ type: ReviewAliasDto, required: false })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Alias removed' })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'The alias was already rejected or removed',
+  })
+  async removeAlias(
+    @CurrentUser('sub') userId: string,
+    @Param('aliasId') aliasId: string,
+    @Body() reviewAliasDto: ReviewAliasDto,
+  ) {
+    return this.answerAliasService.removeAlias(aliasId, userId, reviewAliasDto);
+  }
+}
@@ -0,0 +1,114 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsEnum,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+import { AliasKind, AliasStatus } from '../enum/game-round.enum';
+
+export class CreateAliasDto {
+  @ApiProperty({
+    enum: AliasKind,
+    description:
+      'Whether the alias is another song title or another artist name',
+  })
+  @IsEnum(AliasKind)
+  kind: AliasKind;
+
+  @ApiPropertyOptional({
+    description:
+      'Song the alias belongs to; required for title aliases, and names the artist of an artist alias when artist is left out',
+  })
+  @ValidateIf(
+    (dto: CreateAliasDto) => dto.kind === AliasKind.Title || !dto.artist,
+  )
+  @IsMongoId()
+  songId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Artist an artist alias belongs to, as named on their songs',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  artist?: string;
+
+  @ApiProperty({ description: 'The alias text', example: 'Harbour Lights' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  text: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Re-validate the answers of active rounds the alias applies to',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  rescoreOpenRounds?: boolean;
+}
+
+export class ProposeAliasDto {
+  @ApiProperty({
+    description: 'The rejected answer the alias is proposed from',
+  })
+  @IsMongoId()
+  answerId: string;
+
+  @ApiPropertyOptional({
+    description: 'The alias text; defaults to the answer as it was given',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  text?: string;
+}
+
+export class ReviewAliasDto {
+  @ApiPropertyOptional({
+    description:
+      'Why the alias was approved, rejected or removed; kept in its history',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'On approval, re-validate the answers of active rounds the alias applies to',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  rescoreOpenRounds?: boolean;
+}
+
+export class AliasQueryDto {
+  @ApiPropertyOptional({ enum: AliasStatus })
+  @IsOptional()
+  @IsEnum(AliasStatus)
+  status?: AliasStatus;
+
+  @ApiPropertyOptional({ enum: AliasKind })
+  @IsOptional()
+  @IsEnum(AliasKind)
+  kind?: AliasKind;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsMongoId()
+  songId?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  artist?: string;
+}
@@ -0,0 +1,96 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import * as mongoose from 'mongoose';
+import { AliasAction, AliasKind, AliasStatus } from '../enum/game-round.enum';
+
+export type AnswerAliasDocument = AnswerAlias & Document;
+
+// One change to an alias, kept so every alias can be traced back to who proposed and reviewed it
+export interface AliasAuditEntry {
+  action: AliasAction;
+  // The user who made the change
+  by: string;
+  at: Date;
+  note: string | null;
+}
+
+/**
+ * Another answer validation accepts for a song title or an artist name. Approved aliases are copied onto
+ * the songs they apply to; the alias itself keeps the status and the audit history.
+ */
+@Schema({ collection: 'answer_aliases', timestamps: true })
+export class AnswerAlias {
+  @Prop({
+    type: String,
+    enum: Object.values(AliasKind),
+    required: true,
+    immutable: true,
+  })
+  kind: AliasKind;
+
+  // The song a title alias belongs to
+  @Prop({
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'lyric',
+    default: null,
+    immutable: true,
+  })
+  songId: mongoose.Types.ObjectId | null;
+
+  // The artist an artist alias belongs to, as named on their songs
+  @Prop({ type: String, default: null, immutable: true })
+  artist: string | null;
+
+  @Prop({ type: String, required: true, trim: true, immutable: true })
+  text: string;
+
+  // From aliasKey: aliases with the same key are the same alias
+  @Prop({ type: String, required: true, immutable: true })
+  key: string;
+
+  @Prop({
+    type: String,
+    enum: Object.values(AliasStatus),
+    default: AliasStatus.Pending,
+    index: true,
+  })
+  status: AliasStatus;
+
+  // The player who proposed it, or the moderator who added it
+  @Prop({ type: String, required: true, immutable: true })
+  proposedBy: string;
+
+  // The rejected answer a player proposed it from
+  @Prop({
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'RoundAnswer',
+    default: null,
+    immutable: true,
+  })
+  answerId: mongoose.Types.ObjectId | null;
+
+  @Prop({ type: String, default: null })
+  reviewedBy: string | null;
+
+  @Prop({ type: Date, default: null })
+  reviewedAt: Date | null;
+
+  @Prop({
+    type: [
+      {
+        _id: false,
+        action: { type: String, enum: Object.values(AliasAction) },
+        by: String,
+        at: Date,
+        note: { type: String, default: null },
+      },
+    ],
+    default: [],
+  })
+  history: AliasAuditEntry[];
+}
+
+export const AnswerAliasSchema = SchemaFactory.createForClass(AnswerAlias);
+
+// Duplicate checks look aliases up by target and key
+AnswerAliasSchema.index({ kind: 1, songId: 1, artist: 1, key: 1 });
@@ -0,0 +1,382 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, Types } from 'mongoose';
+import { AnswerAlias, AnswerAliasDocument } from './answer-alias-schema';
+import {
+  AliasQueryDto,
+  CreateAliasDto,
+  ProposeAliasDto,
+  ReviewAliasDto,
+} from './answer-alias-dtos';
+import { AnswerValidationService } from './answer-validation-service';
+import { RoundAnswer } from './round-answer-schema';
+import {
+  GameRound,
+  GameRoundDocument,
+  GameRoundStatus,
+} from '../gam-rounds/game-round-schema';
+import { Player, PlayerDocument } from '../player/schemas/player.schema';
+import { lyric, lyricDocument } from '../schemas/lyric.schema';
+import {
+  ALIAS_QUESTION_TYPES,
+  aliasKey,
+  aliasKindFor,
+} from '../gam-rounds/answer-aliases';
+import { matchAnswer } from '../gam-rounds/answer-matching';
+import { AliasAction, AliasKind, AliasStatus } from '../enum/game-round.enum';
+
+// Statuses in which an alias still counts, or may yet, and so blocks a duplicate
+const LIVE_STATUSES = [AliasStatus.Pending, AliasStatus.Approved];
+
+@Injectable()
+export class AnswerAliasService {
+  private readonly logger = new Logger(AnswerAliasService.name);
+
+  constructor(
+    @InjectModel(AnswerAlias.name)
+    private aliasModel: Model<AnswerAliasDocument>,
+    @InjectModel(lyric.name) private lyricModel: Model<lyricDocument>,
+    @InjectModel(RoundAnswer.name) private roundAnswerModel: Model<RoundAnswer>,
+    @InjectModel(GameRound.name)
+    private gameRoundModel: Model<GameRoundDocument>,
+    @InjectModel(Player.name) private playerModel: Model<PlayerDocument>,
+    private readonly answerValidationService: AnswerValidationService,
+  ) {}
+
+  async listAliases(query: AliasQueryDto): Promise<AnswerAliasDocument[]> {
+    const filter: FilterQuery<AnswerAliasDocument> = {};
+    if (query.status) filter.status = query.status;
+    if (query.kind) filter.kind = query.kind;
+    if (query.songId) filter.songId = new Types.ObjectId(query.songId);
+    if (query.artist) filter.artist = query.artist;
+
+    return this.aliasModel.find(filter).sort({ createdAt: -1 }).exec();
+  }
+
+  async getAlias(aliasId: string): Promise<AnswerAliasDocument> {
+    const alias = await this.aliasModel.findById(aliasId);
+    if (!alias) {
+      throw new NotFoundException('Alias not found');
+    }
+    return alias;
+  }
+
+  /**
+   * Add an alias as a moderator; it is approved, and accepted by validation, from the start
+   */
+  async addAlias(
+    dto: CreateAliasDto,
+    moderatorId: string,
+  ): Promise<AnswerAliasDocument> {
+    const song = dto.songId ? await this.findSong(dto.songId) : null;
+    const target =
+      dto.kind === AliasKind.Title
+        ? { songId: song!._id, artist: null }
+        : { songId: null, artist: dto.artist ?? song!.artist };
+    if (
+      dto.kind === AliasKind.Artist &&
+      !(await this.lyricModel.exists({ artist: target.artist }))
+    ) {
+      throw new NotFoundException('No songs by this artist');
+    }
+    await this.assertNewAlias(dto.kind, target, dto.text, song);
+
+    const now = new Date();
+    const alias = await this.aliasModel.create({
+      kind: dto.kind,
+      ...target,
+      text: dto.text,
+      key: aliasKey(dto.text),
+      status: AliasStatus.Approved,
+      proposedBy: moderatorId,
+      reviewedBy: moderatorId,
+      reviewedAt: now,
+      history: [
+        { action: AliasAction.Added, by: moderatorId, at: now, note: null },
+      ],
+    });
+    this.logger.log(
+      `Alias "${alias.text}" (${alias.kind}) added by ${moderatorId}`,
+    );
+
+    await this.applyAlias(alias);
+    if (dto.rescoreOpenRounds) {
+      await this.rescoreOpenRounds(alias);
+    }
+    return alias;
+  }
+
+  /**
+   * Propose the answer a player gave, and had rejected, as an alias for a moderator to review
+   */
+  async proposeAlias(
+    dto: ProposeAliasDto,
+    userId: string,
+  ): Promise<AnswerAliasDocument> {
+    const answer = await this.roundAnswerModel.findById(dto.answerId);
+    if (!answer) {
+      throw new NotFoundException('Answer not found');
+    }
+
+    const player = await this.playerModel.findById(answer.playerId);
+    if (!player || String(player.userId) !== userId) {
+      throw new ForbiddenException(
+        'Only the player who gave the answer can propose it as an alias',
+      );
+    }
+
+    const round = await this.gameRoundModel.findById(answer.roundId);
+    if (!round) {
+      throw new NotFoundException('Game round not found');
+    }
+    if (round.status !== GameRoundStatus.COMPLETED || answer.isCorrect) {
+      throw new BadRequestException(
+        'Only answers that were rejected can be proposed as aliases',
+      );
+    }
+
+    const kind = aliasKindFor(round.questionType);
+    if (!kind || round.options?.length) {
+      throw new BadRequestException(
+        'Aliases can only be proposed for typed song title and artist answers',
+      );
+    }
+
+    const song = await this.findSong(String(round.songId));
+    const target =
+      kind === AliasKind.Title
+        ? { songId: song._id, artist: null }
+        : { songId: null, artist: song.artist };
+    const text = (dto.text ?? answer.answer).trim();
+    await this.assertNewAlias(kind, target, text, song);
+
+    const alias = await this.aliasModel.create({
+      kind,
+      ...target,
+      text,
+      key: aliasKey(text),
+      status: AliasStatus.Pending,
+      proposedBy: userId,
+      answerId: answer._id,
+      history: [
+        {
+          action: AliasAction.Proposed,
+          by: userId,
+          at: new Date(),
+          note: null,
+        },
+      ],
+    });
+    this.logger.log(
+      `Alias "${alias.text}" (${alias.kind}) proposed by ${userId}`,
+    );
+    return alias;
+  }
+
+  /**
+   * Approve a proposed alias; validation accepts it from then on
+   */
+  async approveAlias(
+    aliasId: string,
+    moderatorId: string,
+    dto: ReviewAliasDto,
+  ): Promise<AnswerAliasDocument> {
+    const { alias } = await this.review(
+      aliasId,
+      [AliasStatus.Pending],
+      AliasStatus.Approved,
+      AliasAction.Approved,
+      moderatorId,
+      dto.note,
+    );
+
+    await this.applyAlias(alias);
+    if (dto.rescoreOpenRounds) {
+      await this.rescoreOpenRounds(alias);
+    }
+    return alias;
+  }
+
+  async rejectAlias(
+    aliasId: string,
+    moderatorId: string,
+    dto: ReviewAliasDto,
+  ): Promise<AnswerAliasDocument> {
+    const { alias } = await this.review(
+      aliasId,
+      [AliasStatus.Pending],
+      AliasStatus.Rejected,
+      AliasAction.Rejected,
+      moderatorId,
+      dto.note,
+    );
+    return alias;
+  }
+
+  /**
+   * Take back a pending or approved alias. It stays on record with its history; an approved one stops
+   * being accepted by validation.
+   */
+  async removeAlias(
+    aliasId: string,
+    moderatorId: string,
+    dto: ReviewAliasDto,
+  ): Promise<AnswerAliasDocument> {
+    const { alias, previousStatus } = await this.review(
+      aliasId,
+      LIVE_STATUSES,
+      AliasStatus.Removed,
+      AliasAction.Removed,
+      moderatorId,
+      dto.note,
+    );
+
+    if (previousStatus === AliasStatus.Approved) {
+      await this.retractAlias(alias);
+    }
+    return alias;
+  }
+
+  /**
+   * Move an alias from one of the given statuses to the next, recording who did it. Done in one update
+   * so two moderators reviewing the same alias cannot both succeed.
+   */
+  private async review(
+    aliasId: string,
+    from: AliasStatus[],
+    to: AliasStatus,
+    action: AliasAction,
+    moderatorId: string,
+    note?: string,
+  ): Promise<{ alias: AnswerAliasDocument; previousStatus: AliasStatus }> {
+    const now = new Date();
+    const previous = await this.aliasModel.findOneAndUpdate(
+      { _id: aliasId, status: { $in: from } },
+      {
+        $set: { status: to, reviewedBy: moderatorId, reviewedAt: now },
+        $push: {
+          history: { action, by: moderatorId, at: now, note: note ?? null },
+        },
+      },
+      { new: false },
+    );
+    if (!previous) {
+      const alias = await this.getAlias(aliasId);
+      throw new ConflictException(`Alias is already ${alias.status}`);
+    }
+
+    this.logger.log(
+      `Alias "${previous.text}" (${previous.kind}) ${action} by ${moderatorId}`,
+    );
+    return {
+      alias: await this.getAlias(aliasId),
+      previousStatus: previous.status,
+    };
+  }
+
+  private async findSong(songId: string): Promise<lyricDocument> {
+    const song = await this.lyricModel.findById(songId);
+    if (!song) {
+      throw new NotFoundException('Song not found');
+    }
+    return song;
+  }
+
+  /**
+   * Refuse an alias validation would accept already, or one that is pending or approved for the same target
+   */
+  private async assertNewAlias(
+    kind: AliasKind,
+    target: { songId: Types.ObjectId | null; artist: string | null },
+    text: string,
+    song: lyricDocument | null,
+  ): Promise<void> {
+    const key = aliasKey(text);
+    if (key === '') {
+      throw new BadRequestException('Alias has no letters or digits');
+    }
+
+    const canonical = kind === AliasKind.Title ? song?.title : target.artist;
+    if (canonical && matchAnswer(text, [canonical]).isCorrect) {
+      throw new ConflictException('This answer is already accepted');
+    }
+
+    const existing = await this.aliasModel.exists({
+      kind,
+      ...target,
+      key,
+      status: { $in: LIVE_STATUSES },
+    });
+    if (existing) {
+      throw new ConflictException(
+        'This alias has already been proposed or approved',
+      );
+    }
+  }
+
+  // Approved aliases are copied onto the songs they apply to, which is where validation reads them
+  private async applyAlias(alias: AnswerAliasDocument): Promise<void> {
+    if (alias.kind === AliasKind.Title) {
+      await this.lyricModel.updateOne(
+        { _id: alias.songId },
+        { $addToSet: { alternateTitles: alias.text } },
+      );
+    } else {
+      await this.lyricModel.updateMany(
+        { artist: alias.artist },
+        { $addToSet: { alternateArtistNames: alias.text } },
+      );
+    }
+  }
+
+  private async retractAlias(alias: AnswerAliasDocument): Promise<void> {
+    if (alias.kind === AliasKind.Title) {
+      await this.lyricModel.updateOne(
+        { _id: alias.songId },
+        { $pull: { alternateTitles: alias.text } },
+      );
+    } else {
+      await this.lyricModel.updateMany(
+        { artist: alias.artist },
+        { $pull: { alternateArtistNames: alias.text } },
+      );
+    }
+  }
+
+  /**
+   * Re-validate the answers of the active rounds an alias applies to, so answers it makes right are
+   * scored as right before the round ends
+   */
+  private async rescoreOpenRounds(alias: AnswerAliasDocument): Promise<number> {
+    const songIds =
+      alias.kind === AliasKind.Title
+        ? [alias.songId]
+        : await this.lyricModel.find({ artist: alias.artist }).distinct('_id');
+
+    const rounds = await this.gameRoundModel
+      .find({
+        songId: { $in: songIds },
+        status: GameRoundStatus.ACTIVE,
+        questionType: ALIAS_QUESTION_TYPES[alias.kind],
+      })
+      .select('_id');
+
+    let rescored = 0;
+    for (const round of rounds) {
+      rescored += await this.answerValidationService.validateRoundAnswers(
+        String(round._id),
+      );
+    }
+    this.logger.log(
+      `Rescored ${rescored} answers in ${rounds.length} open rounds for alias "${alias.text}"`,
+    );
+    return rescored;
+  }
+}
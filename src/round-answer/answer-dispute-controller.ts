@@ -0,0 +1,147 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiBody,
+  ApiParam,
+} from '@nestjs/swagger';
+
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { UserRole } from '../schemas/user.schema';
+import { AnswerDisputeService } from './answer-dispute-service';
+import {
+  CreateDisputeDto,
+  DisputeQueryDto,
+  ResolveDisputeDto,
+} from './answer-dispute-dtos';
+
+@ApiTags('answer-disputes')
+@Controller('answer-disputes')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class AnswerDisputeController {
+  constructor(private readonly answerDisputeService: AnswerDisputeService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Dispute one of your rejected answers' })
+  @ApiBody({ type: CreateDisputeDto })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Dispute sent to the moderators',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'The answer was accepted, or the dispute window is closed',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'The answer is not yours',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'The answer was disputed already',
+  })
+  async openDispute(
+    @CurrentUser('sub') userId: string,
+    @Body() createDisputeDto: CreateDisputeDto,
+  ) {
+    return this.answerDisputeService.openDispute(createDisputeDto, userId);
+  }
+
+  @Get()
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.MODERATOR)
+  @ApiOperation({
+    summary:
+      'Moderator queue of disputes with the accepted answers and how close each came',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Disputes retrieved successfully',
+  })
+  async getQueue(@Query() query: DisputeQueryDto) {
+    return this.answerDisputeService.getQueue(query);
+  }
+
+  @Get(':disputeId')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.MODERATOR)
+  @ApiOperation({ summary: 'Get a dispute for review' })
+  @ApiParam({ name: 'disputeId', description: 'ID of the dispute' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Dispute retrieved successfully',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Dispute not found',
+  })
+  async getDispute(@Param('disputeId') disputeId: string) {
+    return this.answerDisputeService.getDispute(disputeId);
+  }
+
+  @Post(':disputeId/uphold')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.MODERATOR)
+  @ApiOperation({ summary: 'Uphold a dispute and rescore the answer as right' })
+  @ApiParam({ name: 'disputeId', description: 'ID of the dispute' })
+  @ApiBody({ type: ResolveDisputeDto })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Dispute upheld and the answer rescored',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'The dispute is not open',
+  })
+  async upholdDispute(
+    @CurrentUser('sub') userId: string,
+    @Param('disputeId') disputeId: string,
+    @Body() resolveDisputeDto: ResolveDisputeDto,
+  ) {
+    return this.answerDisputeService.upholdDispute(
+      disputeId,
+      userId,
+      resolveDisputeDto,
+    );
+  }
+
+  @Post(':disputeId/dismiss')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.MODERATOR)
+  @ApiOperation({
+    summary: 'Dismiss a dispute, leaving the answer as it was scored',
+  })
+  @ApiParam({ name: 'disputeId', description: 'ID of the dispute' })
+  @ApiBody({ type: ResolveDisputeDto })
+  @ApiResponse({ status: HttpStatus.CREATED, description: 'Dispute dismissed' })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'The dispute is not open',
+  })
+  async dismissDispute(
+    @CurrentUser('sub') userId: string,
+    @Param('disputeId') disputeId: string,
+    @Body() resolveDisputeDto: ResolveDisputeDto,
+  ) {
+    return this.answerDisputeService.dismissDispute(
+      disputeId,
+      userId,
+      resolveDisputeDto,
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsInt,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { DisputeStatus } from '../enum/game-round.enum';
+
+export class CreateDisputeDto {
+  @ApiProperty({ description: 'The rejected answer being disputed' })
+  @IsMongoId()
+  answerId: string;
+
+  @ApiProperty({
+    description: 'Why the answer should have been accepted',
+    example: 'Harbour is the British spelling',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
+
+export class ResolveDisputeDto {
+  @ApiPropertyOptional({
+    description:
+      'Why the dispute was upheld or dismissed; shown to the player and kept in the answer history',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
+
+export class DisputeQueryDto {
+  @ApiPropertyOptional({ enum: DisputeStatus, default: DisputeStatus.Open })
+  @IsOptional()
+  @IsEnum(DisputeStatus)
+  status?: DisputeStatus;
+
+  @ApiPropertyOptional({ default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
@@ -0,0 +1,15 @@
+import { DisputeStatus } from '../enum/game-round.enum';
+
+export class AnswerDisputeResolvedEvent {
+  constructor(
+    public readonly disputeId: string,
+    public readonly answerId: string,
+    public readonly sessionId: string,
+    // The player who disputed the answer
+    public readonly userId: string,
+    public readonly status: DisputeStatus,
+    // What the disputing player's score changed by; 0 when the dispute was dismissed
+    public readonly scoreChange: number,
+    public readonly moderatorNote: string | null,
+  ) {}
+}
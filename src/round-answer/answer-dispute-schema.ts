@@ -0,0 +1,72 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import * as mongoose from 'mongoose';
+import { DisputeStatus } from '../enum/game-round.enum';
+
+export type AnswerDisputeDocument = AnswerDispute & Document;
+
+/**
+ * A player's claim that one of their answers was wrongly rejected, waiting for or settled by a moderator
+ */
+@Schema({ collection: 'answer_disputes', timestamps: true })
+export class AnswerDispute {
+  // An answer can be disputed once
+  @Prop({
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'RoundAnswer',
+    required: true,
+    unique: true,
+    immutable: true,
+  })
+  answerId: mongoose.Types.ObjectId;
+
+  @Prop({
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'GameRound',
+    required: true,
+    index: true,
+    immutable: true,
+  })
+  roundId: mongoose.Types.ObjectId;
+
+  @Prop({
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'GameSession',
+    required: true,
+    immutable: true,
+  })
+  sessionId: mongoose.Types.ObjectId;
+
+  // The player who disputed the answer
+  @Prop({ type: String, required: true, index: true, immutable: true })
+  userId: string;
+
+  @Prop({ type: String, required: true, trim: true, immutable: true })
+  reason: string;
+
+  @Prop({
+    type: String,
+    enum: Object.values(DisputeStatus),
+    default: DisputeStatus.Open,
+    index: true,
+  })
+  status: DisputeStatus;
+
+  @Prop({ type: String, default: null })
+  moderatorId: string | null;
+
+  @Prop({ type: String, default: null })
+  moderatorNote: string | null;
+
+  @Prop({ type: Date, default: null })
+  resolvedAt: Date | null;
+
+  // What upholding the dispute changed the disputing player's score by; null until then
+  @Prop({ type: Number, default: null })
+  scoreChange: number | null;
+}
+
+export const AnswerDisputeSchema = SchemaFactory.createForClass(AnswerDispute);
+
+// The moderator queue lists open disputes oldest first
+AnswerDisputeSchema.index({ status: 1, createdAt: 1 });
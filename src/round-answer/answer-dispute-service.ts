@@ -0,0 +1,417 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Model } from 'mongoose';
+import { AnswerDispute, AnswerDisputeDocument } from './answer-dispute-schema';
+import {
+  CreateDisputeDto,
+  DisputeQueryDto,
+  ResolveDisputeDto,
+} from './answer-dispute-dtos';
+import { AnswerDisputeResolvedEvent } from './answer-dispute-events';
+import { AnswerValidationService } from './answer-validation-service';
+import { AnswerRevision, RoundAnswer } from './round-answer-schema';
+import {
+  GameRound,
+  GameRoundDocument,
+  GameRoundStatus,
+} from '../gam-rounds/game-round-schema';
+import { RoundResultsService } from '../gam-rounds/round-results-service';
+import {
+  DisputeComparison,
+  compareWithAccepted,
+  disputeDeadline,
+} from '../gam-rounds/answer-disputes';
+import { Player, PlayerDocument } from '../player/schemas/player.schema';
+import { PlayerService } from '../player/services/player.service';
+import {
+  GameSession,
+  GameSessionDocument,
+} from '../schemas/game-session.schema';
+import { resolveGameSessionSettings } from '../game-session/game-session-settings';
+import { DisputeStatus } from '../enum/game-round.enum';
+
+// Mongo duplicate key error, raised when the answer was disputed already
+const DUPLICATE_KEY = 11000;
+
+// A dispute as the moderator queue shows it
+export interface DisputeReview {
+  dispute: AnswerDisputeDocument;
+  round: { roundId: string; roundNumber: number; questionType: string };
+  score: number;
+  matchRule: string | null;
+  comparison: DisputeComparison;
+}
+
+@Injectable()
+export class AnswerDisputeService {
+  private readonly logger = new Logger(AnswerDisputeService.name);
+
+  constructor(
+    @InjectModel(AnswerDispute.name)
+    private disputeModel: Model<AnswerDisputeDocument>,
+    @InjectModel(RoundAnswer.name) private roundAnswerModel: Model<RoundAnswer>,
+    @InjectModel(GameRound.name)
+    private gameRoundModel: Model<GameRoundDocument>,
+    @InjectModel(Player.name) private playerModel: Model<PlayerDocument>,
+    @InjectModel(GameSession.name)
+    private gameSessionModel: Model<GameSessionDocument>,
+    private readonly answerValidationService: AnswerValidationService,
+    private readonly roundResultsService: RoundResultsService,
+    private readonly playerService: PlayerService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  /**
+   * Dispute one of the player's rejected answers while the session's dispute window is open
+   */
+  async openDispute(
+    dto: CreateDisputeDto,
+    userId: string,
+  ): Promise<AnswerDisputeDocument> {
+    const answer = await this.roundAnswerModel.findById(dto.answerId);
+    if (!answer) {
+      throw new NotFoundException('Answer not found');
+    }
+
+    const player = await this.playerModel.findById(answer.playerId);
+    if (!player || String(player.userId) !== userId) {
+      throw new ForbiddenException(
+        'Only the player who gave the answer can dispute it',
+      );
+    }
+
+    const round = await this.gameRoundModel.findById(answer.roundId);
+    if (!round) {
+      throw new NotFoundException('Game round not found');
+    }
+    if (round.status !== GameRoundStatus.COMPLETED) {
+      throw new BadRequestException(
+        'Answers can only be disputed once their round has ended',
+      );
+    }
+    if (answer.isCorrect) {
+      throw new BadRequestException('Only rejected answers can be disputed');
+    }
+
+    const session = await this.gameSessionModel.findById(round.sessionId);
+    const settings = resolveGameSessionSettings(session?.settings);
+    const deadline = disputeDeadline(
+      round.endTime,
+      settings.disputeWindowMinutes,
+    );
+    if (!deadline) {
+      throw new BadRequestException('This game session does not take disputes');
+    }
+    if (Date.now() > deadline.getTime()) {
+      throw new BadRequestException(
+        'The dispute window for this round has closed',
+      );
+    }
+
+    try {
+      const dispute = await this.disputeModel.create({
+        answerId: answer._id,
+        roundId: round._id,
+        sessionId: round.sessionId,
+        userId,
+        reason: dto.reason,
+      });
+      this.logger.log(`Answer ${answer._id} disputed by ${userId}`);
+      return dispute;
+    } catch (error: any) {
+      if (error?.code === DUPLICATE_KEY) {
+        throw new ConflictException('This answer has already been disputed');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Disputes for moderators to review, oldest first, each with the answers its round accepts
+   */
+  async getQueue(query: DisputeQueryDto): Promise<DisputeReview[]> {
+    const disputes = await this.disputeModel
+      .find({ status: query.status ?? DisputeStatus.Open })
+      .sort({ createdAt: 1 })
+      .limit(query.limit ?? 50)
+      .exec();
+
+    return Promise.all(disputes.map((dispute) => this.review(dispute)));
+  }
+
+  async getDispute(disputeId: string): Promise<DisputeReview> {
+    const dispute = await this.disputeModel.findById(disputeId);
+    if (!dispute) {
+      throw new NotFoundException('Dispute not found');
+    }
+    return this.review(dispute);
+  }
+
+  /**
+   * Uphold a dispute: the answer is rescored as right, along with the answers whose bonuses hang on it,
+   * and the players' totals and the round results are brought in line with the new scores
+   */
+  async upholdDispute(
+    disputeId: string,
+    moderatorId: string,
+    dto: ResolveDisputeDto,
+  ): Promise<AnswerDisputeDocument> {
+    const dispute = await this.resolve(
+      disputeId,
+      DisputeStatus.Upheld,
+      moderatorId,
+      dto.note,
+    );
+
+    try {
+      const answer = await this.roundAnswerModel.findById(dispute.answerId);
+      const round = await this.gameRoundModel.findById(dispute.roundId);
+      if (!answer || !round) {
+        throw new NotFoundException(
+          'The disputed answer or its round no longer exists',
+        );
+      }
+
+      const reason = `Dispute upheld${dto.note ? `: ${dto.note}` : ''}`;
+      const changes = new Map<string, { score: number; correct: number }>();
+      for (const affected of await this.affectedAnswers(answer, round)) {
+        const change = await this.rescore(affected, moderatorId, reason);
+        const playerId = String(affected.playerId);
+        const total = changes.get(playerId) ?? { score: 0, correct: 0 };
+        changes.set(playerId, {
+          score: total.score + change.score,
+          correct: total.correct + change.correct,
+        });
+      }
+
+      for (const [playerId, change] of changes) {
+        if (change.score !== 0 || change.correct !== 0) {
+          await this.playerService.adjustScore(
+            playerId,
+            change.score,
+            change.correct,
+          );
+        }
+      }
+      await this.roundResultsService.reviseResults(round, reason);
+
+      const scoreChange = changes.get(String(answer.playerId))?.score ?? 0;
+      await this.disputeModel.updateOne(
+        { _id: dispute._id },
+        { $set: { scoreChange } },
+      );
+      dispute.scoreChange = scoreChange;
+
+      this.logger.log(
+        `Dispute ${dispute._id} upheld by ${moderatorId}; answer ${answer._id} rescored, player score changed by ${scoreChange}`,
+      );
+    } catch (error) {
+      // The dispute was closed up front so no other moderator settles it meanwhile; reopen it for a retry
+      await this.disputeModel.updateOne(
+        { _id: dispute._id, status: DisputeStatus.Upheld },
+        {
+          $set: {
+            status: DisputeStatus.Open,
+            moderatorId: null,
+            moderatorNote: null,
+            resolvedAt: null,
+          },
+        },
+      );
+      throw error;
+    }
+
+    this.emitResolved(dispute, dispute.scoreChange ?? 0);
+    return dispute;
+  }
+
+  async dismissDispute(
+    disputeId: string,
+    moderatorId: string,
+    dto: ResolveDisputeDto,
+  ): Promise<AnswerDisputeDocument> {
+    const dispute = await this.resolve(
+      disputeId,
+      DisputeStatus.Dismissed,
+      moderatorId,
+      dto.note,
+    );
+
+    this.logger.log(`Dispute ${dispute._id} dismissed by ${moderatorId}`);
+    this.emitResolved(dispute, 0);
+    return dispute;
+  }
+
+  /**
+   * Close an open dispute in one update, so two moderators cannot both settle it
+   */
+  private async resolve(
+    disputeId: string,
+    status: DisputeStatus,
+    moderatorId: string,
+    note?: string,
+  ): Promise<AnswerDisputeDocument> {
+    const dispute = await this.disputeModel.findOneAndUpdate(
+      { _id: disputeId, status: DisputeStatus.Open },
+      {
+        $set: {
+          status,
+          moderatorId,
+          moderatorNote: note ?? null,
+          resolvedAt: new Date(),
+        },
+      },
+      { new: true },
+    );
+    if (!dispute) {
+      const existing = await this.disputeModel.findById(disputeId);
+      if (!existing) {
+        throw new NotFoundException('Dispute not found');
+      }
+      throw new ConflictException(`Dispute is already ${existing.status}`);
+    }
+    return dispute;
+  }
+
+  /**
+   * The disputed answer and the answers whose bonuses it decides, in the order they were scored: the
+   * round's later correct answers (first-correct bonus) and the player's correct answers in later rounds
+   * (streak bonus)
+   */
+  private async affectedAnswers(
+    answer: RoundAnswer,
+    round: GameRoundDocument,
+  ): Promise<RoundAnswer[]> {
+    const laterInRound = await this.roundAnswerModel
+      .find({
+        roundId: round._id,
+        _id: { $ne: answer._id },
+        isCorrect: true,
+        submittedAt: { $gt: answer.submittedAt },
+      })
+      .sort({ submittedAt: 1 })
+      .exec();
+
+    const laterRounds = await this.gameRoundModel
+      .find({
+        sessionId: round.sessionId,
+        roundNumber: { $gt: round.roundNumber },
+      })
+      .sort({ roundNumber: 1 })
+      .select('_id')
+      .exec();
+    const order = new Map(
+      laterRounds.map((later, i) => [String(later._id), i]),
+    );
+    const playerLater = await this.roundAnswerModel
+      .find({
+        playerId: answer.playerId,
+        roundId: { $in: laterRounds.map((later) => later._id) },
+        isCorrect: true,
+      })
+      .exec();
+    playerLater.sort(
+      (a, b) => order.get(String(a.roundId))! - order.get(String(b.roundId))!,
+    );
+
+    return [answer, ...laterInRound, ...playerLater];
+  }
+
+  /**
+   * Validate an answer again, keeping it accepted, and record what changed in its history. Each answer is
+   * saved before the next is scored, as the bonuses of later answers read the earlier ones.
+   */
+  private async rescore(
+    answer: RoundAnswer,
+    moderatorId: string,
+    reason: string,
+  ): Promise<{ score: number; correct: number }> {
+    const rescored = await this.answerValidationService.validateAnswer(
+      String(answer._id),
+      { accept: true },
+    );
+    const changes = [
+      { field: 'isCorrect', from: answer.isCorrect, to: rescored.isCorrect },
+      { field: 'score', from: answer.score, to: rescored.score },
+      { field: 'matchRule', from: answer.matchRule, to: rescored.matchRule },
+    ].filter((change) => change.from !== change.to);
+    if (changes.length === 0) {
+      return { score: 0, correct: 0 };
+    }
+
+    const revision: AnswerRevision = {
+      timestamp: new Date(),
+      updatedBy: moderatorId,
+      reason,
+      changes,
+    };
+    await this.roundAnswerModel.updateOne(
+      { _id: answer._id },
+      {
+        $set: {
+          score: rescored.score,
+          isCorrect: rescored.isCorrect,
+          scoreBreakdown: rescored.breakdown,
+          matchRule: rescored.matchRule,
+        },
+        $push: { revisionHistory: revision },
+      },
+    );
+    return {
+      score: rescored.score - answer.score,
+      correct: Number(rescored.isCorrect) - Number(answer.isCorrect),
+    };
+  }
+
+  private async review(dispute: AnswerDisputeDocument): Promise<DisputeReview> {
+    const [answer, round] = await Promise.all([
+      this.roundAnswerModel.findById(dispute.answerId),
+      this.gameRoundModel.findById(dispute.roundId),
+    ]);
+    if (!answer || !round) {
+      throw new NotFoundException(
+        'The disputed answer or its round no longer exists',
+      );
+    }
+
+    const accepted =
+      await this.answerValidationService.getAcceptedAnswers(round);
+    return {
+      dispute,
+      round: {
+        roundId: round.roundId,
+        roundNumber: round.roundNumber,
+        questionType: round.questionType,
+      },
+      score: answer.score,
+      matchRule: answer.matchRule,
+      comparison: compareWithAccepted(answer.answer, round, accepted),
+    };
+  }
+
+  private emitResolved(
+    dispute: AnswerDisputeDocument,
+    scoreChange: number,
+  ): void {
+    this.eventEmitter.emit(
+      'answerDispute.resolved',
+      new AnswerDisputeResolvedEvent(
+        String(dispute._id),
+        String(dispute.answerId),
+        String(dispute.sessionId),
+        dispute.userId,
+        dispute.status,
+        scoreChange,
+        dispute.moderatorNote,
+      ),
+    );
+  }
+}
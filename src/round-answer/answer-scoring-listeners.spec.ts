@@ -0,0 +1,160 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Types } from 'mongoose';
+import { AnswerScoringListeners } from './answer-scoring-listeners';
+import { AnswerValidationService } from './answer-validation-service';
+import { RoundAnswer } from './round-answer-schema';
+import { RoundResultsService } from '../gam-rounds/round-results-service';
+import { GameRoundEndedEvent } from '../gam-rounds/game-round-events';
+import { GameRound, GameRoundStatus } from '../gam-rounds/game-round-schema';
+import { RoundResult } from '../gam-rounds/round-result-schema';
+import { Player } from '../player/schemas/player.schema';
+import { PlayerService } from '../player/services/player.service';
+import { GameSession } from '../schemas/game-session.schema';
+import { lyric } from '../schemas/lyric.schema';
+import { RoundQuestionType } from '../enum/game-round.enum';
+
+describe('AnswerScoringListeners', () => {
+  const playerId = new Types.ObjectId();
+  const round = {
+    _id: new Types.ObjectId(),
+    roundId: 'round-1',
+    sessionId: new Types.ObjectId(),
+    songId: new Types.ObjectId(),
+    roundNumber: 1,
+    status: GameRoundStatus.COMPLETED,
+    questionType: RoundQuestionType.SongTitle,
+    correctAnswers: [],
+    options: [],
+    durationSeconds: 30,
+    baseScore: 100,
+  };
+
+  let listeners: AnswerScoringListeners;
+  let answer: Record<string, any>;
+  let roundResultModel: { findOne: jest.Mock; create: jest.Mock };
+  let playerService: { adjustScore: jest.Mock };
+
+  beforeEach(async () => {
+    // Stored the way submitAnswer leaves it, before the round ends
+    answer = {
+      _id: new Types.ObjectId(),
+      roundId: round._id,
+      playerId,
+      answer: 'Yesterday',
+      submittedAt: new Date(),
+      responseTimeMs: 3000,
+      score: 0,
+      isCorrect: false,
+      hints: [],
+    };
+
+    const roundAnswerModel = {
+      find: jest.fn().mockReturnValue({
+        sort: jest.fn().mockResolvedValue([answer]),
+        select: jest.fn().mockResolvedValue([]),
+      }),
+      findById: jest.fn().mockResolvedValue(answer),
+      findByIdAndUpdate: jest.fn().mockImplementation((id, update) => {
+        answer = { ...answer, ...update };
+        return Promise.resolve(answer);
+      }),
+      exists: jest.fn().mockResolvedValue(null),
+    };
+    const gameRoundModel = {
+      findById: jest.fn().mockResolvedValue(round),
+      find: jest.fn().mockReturnValue({
+        sort: jest.fn().mockReturnValue({
+          select: jest.fn().mockResolvedValue([]),
+        }),
+      }),
+      aggregate: jest.fn().mockImplementation(() => ({
+        exec: () =>
+          Promise.resolve([
+            { _id: round._id, roundNumber: 1, answers: [answer] },
+          ]),
+      })),
+    };
+    roundResultModel = {
+      findOne: jest.fn().mockReturnValue({
+        sort: jest.fn().mockReturnValue({
+          exec: jest.fn().mockResolvedValue(null),
+        }),
+      }),
+      create: jest.fn().mockImplementation((result) => Promise.resolve(result)),
+    };
+    const playerModel = {
+      find: jest.fn().mockReturnValue({
+        lean: jest.fn().mockReturnValue({
+          exec: jest
+            .fn()
+            .mockResolvedValue([{ _id: playerId, userId: 'user-1' }]),
+        }),
+      }),
+    };
+    playerService = { adjustScore: jest.fn().mockResolvedValue(undefined) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AnswerScoringListeners,
+        AnswerValidationService,
+        RoundResultsService,
+        {
+          provide: getModelToken(RoundAnswer.name),
+          useValue: roundAnswerModel,
+        },
+        { provide: getModelToken(GameRound.name), useValue: gameRoundModel },
+        {
+          provide: getModelToken(RoundResult.name),
+          useValue: roundResultModel,
+        },
+        { provide: getModelToken(Player.name), useValue: playerModel },
+        {
+          provide: getModelToken(lyric.name),
+          useValue: {
+            findById: jest.fn().mockResolvedValue({
+              title: 'Yesterday',
+              alternateTitles: [],
+            }),
+          },
+        },
+        {
+          provide: getModelToken(GameSession.name),
+          useValue: { findById: jest.fn().mockResolvedValue({ settings: {} }) },
+        },
+        { provide: PlayerService, useValue: playerService },
+        { provide: EventEmitter2, useValue: { emit: jest.fn() } },
+      ],
+    }).compile();
+
+    listeners = module.get<AnswerScoringListeners>(AnswerScoringListeners);
+  });
+
+  it('should score the answers before the round results are stored', async () => {
+    await listeners.handleRoundEnded(
+      new GameRoundEndedEvent(round as any, false),
+    );
+
+    expect(answer.isCorrect).toBe(true);
+    expect(answer.score).toBeGreaterThan(0);
+    expect(roundResultModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        roundId: 'round-1',
+        answered: 1,
+        correct: 1,
+        rankings: [
+          expect.objectContaining({
+            playerId: String(playerId),
+            roundScore: answer.score,
+          }),
+        ],
+      }),
+    );
+    expect(playerService.adjustScore).toHaveBeenCalledWith(
+      String(playerId),
+      answer.score,
+      1,
+    );
+  });
+});
@@ -0,0 +1,47 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { AnswerValidationService } from './answer-validation-service';
+import { RoundResultsService } from '../gam-rounds/round-results-service';
+import { GameRoundEndedEvent } from '../gam-rounds/game-round-events';
+
+/**
+ * Scores the answers of a round once it ends. Answers are stored unscored while the round runs,
+ * so the results are only written after the answers and the players' totals are up to date.
+ */
+@Injectable()
+export class AnswerScoringListeners {
+  private readonly logger = new Logger(AnswerScoringListeners.name);
+
+  constructor(
+    private readonly answerValidationService: AnswerValidationService,
+    private readonly roundResults: RoundResultsService,
+  ) {}
+
+  @OnEvent('gameRound.ended')
+  async handleRoundEnded(event: GameRoundEndedEvent) {
+    try {
+      const scored = await this.answerValidationService.validateRoundAnswers(
+        String(event.round._id),
+      );
+      this.logger.debug(
+        `Scored ${scored} answers of round ${event.round.roundId}`,
+      );
+    } catch (error: any) {
+      this.logger.error(
+        `Could not score the answers of round ${event.round.roundId}: ${error.message}`,
+        error.stack,
+      );
+      return;
+    }
+
+    // A failure here is retried the first time the results are asked for
+    try {
+      await this.roundResults.processRoundResults(event.round);
+    } catch (error: any) {
+      this.logger.error(
+        `Could not process results of round ${event.round.roundId}: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+}
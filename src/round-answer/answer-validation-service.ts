@@ -2,10 +2,20 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
-import { RoundAnswer } from './schemas/round-answer.schema';
-import { GameRound } from '../game-round/schemas/game-round.schema';
-import { Song } from '../song/schemas/song.schema';
-import { UpdateAnswerScoreDto } from './dto/update-answer-score.dto';
+import { RoundAnswer } from './round-answer-schema';
+import { GameRound, GameRoundStatus } from '../gam-rounds/game-round-schema';
+import { lyric, lyricDocument } from '../schemas/lyric.schema';
+import { UpdateAnswerScoreDto } from './round-answer-dto';
+import { GameSession, GameSessionDocument } from '../schemas/game-session.schema';
+import { scoreMissingWords } from '../gam-rounds/missing-words';
+import { hintScoreShare } from '../gam-rounds/round-hints';
+import { ScoredAnswer, scoreAnswer } from '../gam-rounds/round-scoring';
+import { resolveGameSessionSettings } from '../game-session/game-session-settings';
+import { matchAnswer } from '../gam-rounds/answer-matching';
+import { withApprovedAliases } from '../gam-rounds/answer-aliases';
+import { MatchRule, RoundQuestionType } from '../enum/game-round.enum';
+import { AnswerMode } from '../enum/game-session.enum';
+import { PlayerService } from '../player/services/player.service';
 
 @Injectable()
 export class AnswerValidationService {
@@ -14,13 +24,20 @@ export class AnswerValidationService {
   constructor(
     @InjectModel(RoundAnswer.name) private roundAnswerModel: Model<RoundAnswer>,
     @InjectModel(GameRound.name) private gameRoundModel: Model<GameRound>,
-    @InjectModel(Song.name) private songModel: Model<Song>,
+    @InjectModel(lyric.name) private songModel: Model<lyricDocument>,
+    @InjectModel(GameSession.name) private gameSessionModel: Model<GameSessionDocument>,
+    private readonly playerService: PlayerService,
   ) {}
 
   /**
-   * Validate an answer against correct options
+   * Validate an answer against correct options and score it under the session's scoring profile and rules.
+   * With `accept`, an answer the matching rejects counts as right in full, as when a moderator upholds a
+   * dispute of it.
    */
-  async validateAnswer(answerId: string): Promise<UpdateAnswerScoreDto> {
+  async validateAnswer(
+    answerId: string,
+    options: { accept?: boolean } = {},
+  ): Promise<UpdateAnswerScoreDto & Pick<ScoredAnswer, 'breakdown'> & { matchRule: MatchRule | null }> {
     // Get the answer
     const answer = await this.roundAnswerModel.findById(answerId);
     if (!answer) {
@@ -39,56 +56,114 @@ export class AnswerValidationService {
       throw new Error('Song not found');
     }
 
+    const session = await this.gameSessionModel.findById(round.sessionId);
+    const settings = resolveGameSessionSettings(session?.settings);
+
     // Get the correct answer(s) based on the round configuration
     const correctAnswers = this.getCorrectAnswers(round, song);
 
-    // Calculate response time factor (faster = higher score)
-    const maxTimeMs = round.timeLimit * 1000; // convert seconds to ms
-    const responseTimeFactor = Math.max(0, 1 - (answer.responseTimeMs / maxTimeMs));
+    // Validate the answer; every blank of a missing-words round earns its own share of the credit
+    const matched = round.questionType === RoundQuestionType.MissingWords
+      ? this.checkMissingWords(answer.answer, correctAnswers)
+      : this.checkAnswer(answer.answer, correctAnswers, round.answerMode);
+    const validationResult = options.accept && !matched.isCorrect
+      ? { isCorrect: true, partialCredit: undefined, rule: null }
+      : matched;
 
-    // Validate the answer
-    const validationResult = this.checkAnswer(answer.answer, correctAnswers, round.answerType);
+    // Streak and first-correct bonuses depend on the answers around this one
+    const [streak, firstCorrect] = validationResult.isCorrect
+      ? await Promise.all([this.countStreak(answer, round), this.isFirstCorrect(answer)])
+      : [0, false];
 
-    // Calculate score
-    let score = 0;
-    if (validationResult.isCorrect) {
+    const { score, breakdown } = scoreAnswer({
+      profile: settings.scoringProfile,
+      rules: settings.scoringRules,
       // Base score (can be configured per round/difficulty)
-      const baseScore = round.baseScore || 100;
-      
-      // Apply response time factor (faster answers get higher scores)
-      score = Math.round(baseScore * (0.5 + (0.5 * responseTimeFactor)));
-      
-      // Apply difficulty multiplier if present
-      if (round.difficultyMultiplier) {
-        score = Math.round(score * round.difficultyMultiplier);
-      }
-      
-      // Apply partial credit if applicable
-      if (validationResult.partialCredit) {
-        score = Math.round(score * validationResult.partialCredit);
-      }
-    }
+      baseScore: round.baseScore || 100,
+      isCorrect: validationResult.isCorrect,
+      responseShare: answer.responseTimeMs / (round.durationSeconds * 1000),
+      difficultyMultiplier: round.difficultyMultiplier,
+      partialCredit: validationResult.partialCredit,
+      // Every hint taken lowers the most the answer can earn
+      hintShare: hintScoreShare(answer.hints ?? []),
+      streak,
+      firstCorrect,
+      lastRound: round.roundNumber >= settings.roundCount,
+    });
 
     return {
       score,
       isCorrect: validationResult.isCorrect,
+      breakdown,
+      matchRule: validationResult.rule,
     };
   }
 
+  /**
+   * The answers a round accepts, approved aliases included, as validation compares answers with them
+   */
+  async getAcceptedAnswers(round: GameRound): Promise<string[]> {
+    const song = await this.songModel.findById(round.songId);
+    return song ? this.getCorrectAnswers(round, song) : round.correctAnswers ?? [];
+  }
+
+  /**
+   * Correct answers the player gave in a row in the completed rounds before this answer's round
+   */
+  private async countStreak(answer: RoundAnswer, round: GameRound): Promise<number> {
+    const earlierRounds = await this.gameRoundModel
+      .find({
+        sessionId: round.sessionId,
+        roundNumber: { $lt: round.roundNumber },
+        status: GameRoundStatus.COMPLETED,
+      })
+      .sort({ roundNumber: -1 })
+      .select('_id');
+
+    const correct = await this.roundAnswerModel
+      .find({
+        playerId: answer.playerId,
+        roundId: { $in: earlierRounds.map((earlier) => earlier._id) },
+        isCorrect: true,
+      })
+      .select('roundId');
+    const correctRounds = new Set(correct.map((earlier) => earlier.roundId.toString()));
+
+    // A round the player got wrong or skipped ends the streak
+    let streak = 0;
+    while (streak < earlierRounds.length && correctRounds.has(earlierRounds[streak]._id.toString())) {
+      streak++;
+    }
+    return streak;
+  }
+
+  /**
+   * Whether no answer submitted earlier in the round was found correct
+   */
+  private async isFirstCorrect(answer: RoundAnswer): Promise<boolean> {
+    const earlier = await this.roundAnswerModel.exists({
+      roundId: answer.roundId,
+      _id: { $ne: answer._id },
+      isCorrect: true,
+      submittedAt: { $lt: answer.submittedAt },
+    });
+    return !earlier;
+  }
+
   /**
    * Get correct answers based on round configuration
    */
-  private getCorrectAnswers(round: GameRound, song: Song): string[] {
-    // This will depend on your game's specific logic
-    // For example:
+  private getCorrectAnswers(round: GameRound, song: lyric): string[] {
+    // Rounds built by the question generator carry their accepted answers; aliases approved since count too
+    if (round.correctAnswers?.length) {
+      return withApprovedAliases(round, song);
+    }
+
     switch (round.questionType) {
       case 'artistName':
         return [song.artist, ...song.alternateArtistNames || []];
       case 'songTitle':
         return [song.title, ...song.alternateTitles || []];
-      case 'lyrics':
-        // For lyric questions, the correct answer might be in the round data
-        return round.correctAnswers || [song.title];
       case 'album':
         return [song.album];
       case 'year':
@@ -99,116 +174,40 @@ export class AnswerValidationService {
   }
 
   /**
-   * Check if an answer is correct
+   * Check if an answer is correct, and by which rule of the matching pipeline
    */
   private checkAnswer(
     userAnswer: string, 
     correctAnswers: string[], 
-    answerType: string = 'exact'
-  ): { isCorrect: boolean; partialCredit?: number } {
-    // Normalize answers for comparison
-    const normalizedUserAnswer = this.normalizeAnswer(userAnswer);
-    const normalizedCorrectAnswers = correctAnswers.map(answer => this.normalizeAnswer(answer));
-    
-    // Different matching strategies based on answerType
-    switch (answerType) {
-      case 'exact':
-        // Exact match (after normalization)
-        return {
-          isCorrect: normalizedCorrectAnswers.includes(normalizedUserAnswer),
-        };
-        
-      case 'fuzzy':
-        // Fuzzy matching (e.g., allowing some typos)
-        for (const correctAnswer of normalizedCorrectAnswers) {
-          const similarity = this.calculateSimilarity(normalizedUserAnswer, correctAnswer);
-          if (similarity >= 0.8) { // 80% similarity threshold
-            return {
-              isCorrect: true,
-              partialCredit: similarity,
-            };
-          }
-        }
-        return { isCorrect: false };
-        
-      case 'contains':
-        // Check if user answer contains any correct answer or vice versa
-        for (const correctAnswer of normalizedCorrectAnswers) {
-          if (normalizedUserAnswer.includes(correctAnswer) || 
-              correctAnswer.includes(normalizedUserAnswer)) {
-            // Calculate partial credit based on length ratio
-            const partialCredit = Math.min(
-              normalizedUserAnswer.length / correctAnswer.length,
-              correctAnswer.length / normalizedUserAnswer.length
-            );
-            return {
-              isCorrect: true,
-              partialCredit: Math.max(0.7, partialCredit), // Minimum 70% credit
-            };
-          }
-        }
-        return { isCorrect: false };
-        
-      case 'multiple-choice':
-        // For multiple choice, just check exact match (answer should be the option ID)
-        return {
-          isCorrect: normalizedCorrectAnswers.includes(normalizedUserAnswer),
-        };
-        
-      default:
-        return { isCorrect: false };
-    }
+    answerType: AnswerMode = AnswerMode.Exact
+  ): { isCorrect: boolean; partialCredit?: number; rule: MatchRule | null } {
+    const { isCorrect, partialCredit, rule } = matchAnswer(userAnswer, correctAnswers, answerType);
+    return { isCorrect, partialCredit, rule };
   }
 
   /**
-   * Normalize answer for comparison
+   * Check the words given for the blanks of a missing-words round
    */
-  private normalizeAnswer(answer: string): string {
-    return answer
-      .toLowerCase()
-      .trim()
-      .replace(/\s+/g, ' ')
-      .replace(/[^\w\s]/g, ''); // Remove punctuation
-  }
-
-  /**
-   * Calculate similarity between two strings (Levenshtein distance)
-   */
-  private calculateSimilarity(str1: string, str2: string): number {
-    const track = Array(str2.length + 1).fill(null).map(() => 
-      Array(str1.length + 1).fill(null));
-    
-    for (let i = 0; i <= str1.length; i += 1) {
-      track[0][i] = i;
-    }
-    
-    for (let j = 0; j <= str2.length; j += 1) {
-      track[j][0] = j;
-    }
-    
-    for (let j = 1; j <= str2.length; j += 1) {
-      for (let i = 1; i <= str1.length; i += 1) {
-        const indicator = str1[i - 1] === str2[j - 1] ? 0 : 1;
-        track[j][i] = Math.min(
-          track[j][i - 1] + 1, // deletion
-          track[j - 1][i] + 1, // insertion
-          track[j - 1][i - 1] + indicator, // substitution
-        );
-      }
-    }
-    
-    const distance = track[str2.length][str1.length];
-    const maxLength = Math.max(str1.length, str2.length);
-    
-    return maxLength > 0 ? 1 - distance / maxLength : 1;
+  private checkMissingWords(
+    userAnswer: string,
+    maskedWords: string[]
+  ): { isCorrect: boolean; partialCredit?: number; rule: MatchRule | null } {
+    const { credit } = scoreMissingWords(userAnswer, maskedWords);
+    return {
+      isCorrect: credit > 0,
+      partialCredit: credit,
+      rule: credit === 1 ? MatchRule.Exact : credit > 0 ? MatchRule.Fuzzy : null,
+    };
   }
 
   /**
-   * Batch validate all answers for a round
+   * Batch validate all answers for a round and move the players' totals by what their scores changed,
+   * so validating a round again leaves the totals as they are
    */
   async validateRoundAnswers(roundId: string): Promise<number> {
-    // Get all answers for this round
-    const answers = await this.roundAnswerModel.find({ roundId });
+    // Get all answers for this round, earliest first so the first correct one is known when the rest are scored
+    const answers = await this.roundAnswerModel.find({ roundId }).sort({ submittedAt: 1 });
+    const changes = new Map<string, { score: number; correct: number }>();
     let updatedCount = 0;
     
     // Validate each answer
@@ -222,14 +221,28 @@ export class AnswerValidationService {
           { 
             score: validationResult.score,
             isCorrect: validationResult.isCorrect,
+            scoreBreakdown: validationResult.breakdown,
+            matchRule: validationResult.matchRule,
           },
         );
-        
+
+        const playerId = String(answer.playerId);
+        const total = changes.get(playerId) ?? { score: 0, correct: 0 };
+        changes.set(playerId, {
+          score: total.score + validationResult.score - answer.score,
+          correct: total.correct + Number(validationResult.isCorrect) - Number(answer.isCorrect),
+        });
         updatedCount++;
-      } catch (error) {
+      } catch (error: any) {
         this.logger.error(`Error validating answer ${answer._id}: ${error.message}`);
       }
     }
+
+    for (const [playerId, change] of changes) {
+      if (change.score !== 0 || change.correct !== 0) {
+        await this.playerService.adjustScore(playerId, change.score, change.correct);
+      }
+    }
     
     return updatedCount;
   }
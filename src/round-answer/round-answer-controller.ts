@@ -25,12 +25,15 @@ import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
-import { RoundAnswerService } from './round-answer.service';
-import { PlayerService } from '../player/player.service';
-import { SubmitAnswerDto } from './dto/submit-answer.dto';
-import { UpdateAnswerScoreDto } from './dto/update-answer-score.dto';
-import { GetAnswersQueryDto } from './dto/get-answers-query.dto';
-import { AnswerResponseDto } from './dto/answer-response.dto';
+import { RoundAnswerService } from './round-answer-service';
+import { PlayerService } from '../player/services/player.service';
+import { GameRoundService } from '../gam-rounds/game-round-service';
+import {
+  SubmitAnswerDto,
+  UpdateAnswerScoreDto,
+  GetAnswersQueryDto,
+  AnswerResponseDto,
+} from './round-answer-dto';
 
 @ApiTags('round-answers')
 @Controller('round-answers')
@@ -40,6 +43,7 @@ export class RoundAnswerController {
   constructor(
     private readonly roundAnswerService: RoundAnswerService,
     private readonly playerService: PlayerService,
+    private readonly gameRoundService: GameRoundService,
   ) {}
 
   @Post()
@@ -54,14 +58,15 @@ export class RoundAnswerController {
     @CurrentUser('sub') userId: string,
     @Body() submitAnswerDto: SubmitAnswerDto,
   ) {
-    // Get player ID from user ID and game session
-    const gameRound = await this.playerService.getPlayerByUserId(
+    // Get player ID from user ID and the round's game session
+    const gameRound = await this.gameRoundService.findOne(submitAnswerDto.roundId);
+    const player = await this.playerService.findByUserAndSession(
       userId,
-      submitAnswerDto.roundId
+      gameRound.sessionId.toString()
     );
 
     const answer = await this.roundAnswerService.submitAnswer(
-      gameRound.player._id,
+      player._id.toString(),
       submitAnswerDto,
     );
 
@@ -159,8 +164,11 @@ export class RoundAnswerController {
       answer: answer.answer,
       submittedAt: answer.submittedAt,
       score: answer.score,
+      scoreBreakdown: answer.scoreBreakdown ?? [],
       isCorrect: answer.isCorrect,
+      matchRule: answer.matchRule ?? null,
       responseTimeMs: answer.responseTimeMs,
+      revisionHistory: answer.revisionHistory ?? [],
       metadata: answer.metadata,
     };
 
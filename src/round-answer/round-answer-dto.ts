@@ -1,6 +1,7 @@
 // src/modules/round-answer/dto/submit-answer.dto.ts
 import { ApiProperty } from '@nestjs/swagger';
-import { IsNotEmpty, IsString, IsMongoId, IsObject, IsOptional } from 'class-validator';
+import { IsNotEmpty, IsString, IsMongoId, IsObject, IsOptional, IsNumber, IsBoolean, Min, Max } from 'class-validator';
+import { Transform } from 'class-transformer';
 
 export class SubmitAnswerDto {
   @ApiProperty({
@@ -12,7 +13,7 @@ export class SubmitAnswerDto {
   roundId: string;
 
   @ApiProperty({
-    description: 'Answer text submitted by the player',
+    description: 'Answer text submitted by the player; for missing-words rounds the word for each blank, in order, separated by "|"',
     example: 'Yellow Submarine',
   })
   @IsNotEmpty()
@@ -30,8 +31,6 @@ export class SubmitAnswerDto {
 }
 
 // src/modules/round-answer/dto/update-answer-score.dto.ts
-import { ApiProperty } from '@nestjs/swagger';
-import { IsNotEmpty, IsNumber, IsBoolean, Min, Max } from 'class-validator';
 
 export class UpdateAnswerScoreDto {
   @ApiProperty({
@@ -54,9 +53,6 @@ export class UpdateAnswerScoreDto {
 }
 
 // src/modules/round-answer/dto/get-answers-query.dto.ts
-import { ApiProperty } from '@nestjs/swagger';
-import { IsOptional, IsBoolean, IsMongoId } from 'class-validator';
-import { Transform } from 'class-transformer';
 
 export class GetAnswersQueryDto {
   @ApiProperty({
@@ -80,7 +76,6 @@ export class GetAnswersQueryDto {
 }
 
 // src/modules/round-answer/dto/answer-response.dto.ts
-import { ApiProperty } from '@nestjs/swagger';
 
 export class PlayerDto {
   @ApiProperty({ example: '60d21b4667d0d8992e610c86' })
@@ -109,12 +104,36 @@ export class AnswerResponseDto {
   @ApiProperty({ example: 100 })
   score: number;
 
+  @ApiProperty({
+    example: [
+      { component: 'base', points: 50, detail: 'Correct answer' },
+      { component: 'speed', points: 40, detail: 'Answered 80% of the round early' },
+    ],
+  })
+  scoreBreakdown: { component: string; points: number; detail: string }[];
+
   @ApiProperty({ example: true })
   isCorrect: boolean;
 
+  @ApiProperty({ example: 'normalized', nullable: true, description: 'Matching rule that accepted the answer' })
+  matchRule: string | null;
+
   @ApiProperty({ example: 1250 })
   responseTimeMs: number;
 
+  @ApiProperty({
+    example: [
+      {
+        timestamp: '2023-06-24T12:40:00.000Z',
+        updatedBy: '60d21b4667d0d8992e610c99',
+        reason: 'Dispute upheld: Harbour is the British spelling',
+        changes: [{ field: 'score', from: 0, to: 80 }],
+      },
+    ],
+    description: 'Changes made to the answer after it was scored, oldest first',
+  })
+  revisionHistory: { timestamp: Date; updatedBy: string; reason: string; changes: { field: string; from: unknown; to: unknown }[] }[];
+
   @ApiProperty({ 
     example: { confidence: 'high', selectedOptionId: '123' },
     required: false,
@@ -1,12 +1,23 @@
 // src/modules/round-answer/round-answer.module.ts
 import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
-import { RoundAnswerController } from './round-answer.controller';
-import { RoundAnswerService } from './round-answer.service';
-import { RoundAnswer, RoundAnswerSchema } from './schemas/round-answer.schema';
-import { GameRound, GameRoundSchema } from '../game-round/schemas/game-round.schema';
+import { RoundAnswerController } from './round-answer-controller';
+import { RoundAnswerService } from './round-answer-service';
+import { AnswerValidationService } from './answer-validation-service';
+import { AnswerScoringListeners } from './answer-scoring-listeners';
+import { AnswerAliasController } from './answer-alias-controller';
+import { AnswerAliasService } from './answer-alias-service';
+import { AnswerAlias, AnswerAliasSchema } from './answer-alias-schema';
+import { AnswerDisputeController } from './answer-dispute-controller';
+import { AnswerDisputeService } from './answer-dispute-service';
+import { AnswerDispute, AnswerDisputeSchema } from './answer-dispute-schema';
+import { RoundAnswer, RoundAnswerSchema } from './round-answer-schema';
+import { GameRound, GameRoundSchema } from '../gam-rounds/game-round-schema';
 import { Player, PlayerSchema } from '../player/schemas/player.schema';
 import { PlayerModule } from '../player/player.module';
+import { GameSession, GameSessionSchema } from '../schemas/game-session.schema';
+import { lyric, lyricschema } from '../schemas/lyric.schema';
+import { GameRoundModule } from '../gam-rounds/game-round-module';
 
 @Module({
   imports: [
@@ -14,11 +25,16 @@ import { PlayerModule } from '../player/player.module';
       { name: RoundAnswer.name, schema: RoundAnswerSchema },
       { name: GameRound.name, schema: GameRoundSchema },
       { name: Player.name, schema: PlayerSchema },
+      { name: AnswerAlias.name, schema: AnswerAliasSchema },
+      { name: AnswerDispute.name, schema: AnswerDisputeSchema },
+      { name: GameSession.name, schema: GameSessionSchema },
+      { name: lyric.name, schema: lyricschema },
     ]),
     PlayerModule,
+    GameRoundModule,
   ],
-  controllers: [RoundAnswerController],
-  providers: [RoundAnswerService],
-  exports: [RoundAnswerService],
+  controllers: [RoundAnswerController, AnswerAliasController, AnswerDisputeController],
+  providers: [RoundAnswerService, AnswerValidationService, AnswerAliasService, AnswerDisputeService, AnswerScoringListeners],
+  exports: [RoundAnswerService, AnswerValidationService, AnswerAliasService, AnswerDisputeService],
 })
 export class RoundAnswerModule {}
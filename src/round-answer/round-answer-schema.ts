@@ -1,8 +1,20 @@
 // src/modules/round-answer/schemas/round-answer.schema.ts
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Schema as MongooseSchema } from 'mongoose';
-import { GameRound } from '../../game-round/schemas/game-round.schema';
-import { Player } from '../../player/schemas/player.schema';
+import { GameRound } from '../gam-rounds/game-round-schema';
+import { Player } from '../player/schemas/player.schema';
+import { HintType, MatchRule } from '../enum/game-round.enum';
+import type { AnswerHint } from '../gam-rounds/round-hints';
+import type { ScoreBreakdownEntry } from '../gam-rounds/round-scoring';
+
+// One change made to an answer after it was first scored
+export interface AnswerRevision {
+  timestamp: Date;
+  // The user who made the change
+  updatedBy: string;
+  reason: string;
+  changes: { field: string; from: unknown; to: unknown }[];
+}
 
 @Schema({ timestamps: true })
 export class RoundAnswer extends Document {
@@ -41,18 +53,53 @@ export class RoundAnswer extends Document {
   })
   score: number;
 
+  // What each scoring rule contributed to the score
+  @Prop({
+    type: [{ _id: false, component: String, points: Number, detail: String }],
+    default: [],
+  })
+  scoreBreakdown: ScoreBreakdownEntry[];
+
   @Prop({
     type: Boolean,
     default: false,
   })
   isCorrect: boolean;
 
+  // The rule of the matching pipeline that accepted the answer; null when it was wrong
+  @Prop({
+    type: String,
+    enum: [...Object.values(MatchRule), null],
+    default: null,
+  })
+  matchRule: MatchRule | null;
+
   @Prop({
     type: Number,
     default: 0,
   })
   responseTimeMs: number;
 
+  // Hints the player took before answering; each lowers the maximum score
+  @Prop({
+    type: [{ _id: false, type: { type: String, enum: Object.values(HintType) }, cost: Number }],
+    default: [],
+  })
+  hints: AnswerHint[];
+
+  // Who changed the answer's outcome after it was scored, what they changed and why, oldest first
+  @Prop({
+    type: [{
+      _id: false,
+      timestamp: Date,
+      updatedBy: String,
+      reason: String,
+      changes: [{ _id: false, field: String, from: MongooseSchema.Types.Mixed, to: MongooseSchema.Types.Mixed }],
+    }],
+    default: [],
+  })
+  revisionHistory: AnswerRevision[];
+
   @Prop({
     type: Object,
     default: {},
@@ -2,12 +2,11 @@
 import { Injectable, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
-import { RoundAnswer } from './schemas/round-answer.schema';
-import { GameRound } from '../game-round/schemas/game-round.schema';
+import { RoundAnswer } from './round-answer-schema';
+import { GameRound } from '../gam-rounds/game-round-schema';
 import { Player } from '../player/schemas/player.schema';
-import { SubmitAnswerDto } from './dto/submit-answer.dto';
-import { UpdateAnswerScoreDto } from './dto/update-answer-score.dto';
-import { GetAnswersQueryDto } from './dto/get-answers-query.dto';
+import { SubmitAnswerDto, UpdateAnswerScoreDto, GetAnswersQueryDto } from './round-answer-dto';
+import { roundDeadline } from '../gam-rounds/game-round-clock-service';
 
 @Injectable()
 export class RoundAnswerService {
@@ -23,6 +22,9 @@ export class RoundAnswerService {
   async submitAnswer(playerId: string, submitAnswerDto: SubmitAnswerDto): Promise<RoundAnswer> {
     const { roundId, answer, metadata } = submitAnswerDto;
 
+    // Lateness is judged by when the server received the answer, not by the client clock
+    const now = new Date();
+
     // Verify the round exists
     const round = await this.gameRoundModel.findById(roundId);
     if (!round) {
@@ -45,6 +47,17 @@ export class RoundAnswerService {
       throw new BadRequestException('Cannot submit answer for inactive round');
     }
 
+    // Multiple-choice rounds are answered with the id of one of their options
+    if (round.options?.length && !round.options.some((option) => option.id === answer)) {
+      throw new BadRequestException('Answer must be the id of one of the round options');
+    }
+
+    // The round clock may not have closed the round yet when an answer arrives right at the deadline
+    const deadline = roundDeadline(round);
+    if (deadline && now.getTime() > deadline.getTime()) {
+      throw new BadRequestException('Answer received after the round closed');
+    }
+
     // Check if player already answered
     const existingAnswer = await this.roundAnswerModel.findOne({
       roundId,
@@ -56,7 +69,6 @@ export class RoundAnswerService {
     }
 
     // Calculate response time
-    const now = new Date();
     const responseTimeMs = now.getTime() - round.startTime.getTime();
 
     // Create answer with initial score (will be updated later)
@@ -68,6 +80,9 @@ export class RoundAnswerService {
       score: 0,
       isCorrect: false,
       responseTimeMs,
+      hints: round.hintsUsed
+        .filter((hint) => hint.userId === String(player.userId))
+        .map(({ type, cost }) => ({ type, cost })),
       metadata: metadata || {},
     });
 
@@ -1,8 +1,174 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document } from 'mongoose';
+import {
+  AnswerMode,
+  RematchInviteStatus,
+  ScoringProfile,
+  ScoringRule,
+  SessionDifficulty,
+  SessionStatus,
+  SessionVisibility,
+} from '../enum/game-session.enum';
+import { Decade, Genre } from '../enum/lyric.enum';
+import { HintType } from '../enum/game-round.enum';
 
 export type GameSessionDocument = GameSession & Document;
 
+@Schema({ _id: false })
+export class GameSessionSettings {
+  @Prop({ type: Number, required: true })
+  version: number;
+
+  @Prop({ type: Number, required: true })
+  roundCount: number;
+
+  @Prop({ type: [{ type: String }], default: [] })
+  categories: string[];
+
+  @Prop({ type: [{ type: String, enum: Object.values(Genre) }], default: [] })
+  genres: Genre[];
+
+  @Prop({ type: [{ type: String, enum: Object.values(Decade) }], default: [] })
+  decades: Decade[];
+
+  @Prop({
+    type: String,
+    enum: Object.values(SessionDifficulty),
+    required: true,
+  })
+  difficulty: SessionDifficulty;
+
+  @Prop({ type: Number, required: true })
+  secondsPerRound: number;
+
+  @Prop({ type: String, enum: Object.values(AnswerMode), required: true })
+  answerMode: AnswerMode;
+
+  @Prop({ type: Number, required: true })
+  maxPlayers: number;
+
+  @Prop({ type: Number, default: 0 })
+  wagerAmount: number;
+
+  // Move the difficulty of each next round with how the room did on the last one
+  @Prop({ type: Boolean, default: false })
+  adaptiveDifficulty: boolean;
+
+  // Bounds the adaptive difficulty stays within
+  @Prop({
+    type: String,
+    enum: Object.values(SessionDifficulty),
+    default: SessionDifficulty.Easy,
+  })
+  minDifficulty: SessionDifficulty;
+
+  @Prop({
+    type: String,
+    enum: Object.values(SessionDifficulty),
+    default: SessionDifficulty.Hard,
+  })
+  maxDifficulty: SessionDifficulty;
+
+  // Hints each player may take per round; 0 turns hints off
+  @Prop({ type: Number, default: 2 })
+  hintsPerRound: number;
+
+  // Share of the maximum score each kind of hint takes off the player's answer
+  @Prop({ type: Object, default: null })
+  hintCosts: Record<HintType, number>;
+
+  @Prop({
+    type: String,
+    enum: Object.values(ScoringProfile),
+    default: ScoringProfile.Classic,
+  })
+  scoringProfile: ScoringProfile;
+
+  // Bonuses and penalties scored on top of the profile
+  @Prop({
+    type: [{ type: String, enum: Object.values(ScoringRule) }],
+    default: [],
+  })
+  scoringRules: ScoringRule[];
+
+  // How long after a round ends players may dispute a rejected answer; 0 turns disputes off
+  @Prop({ type: Number, default: 10 })
+  disputeWindowMinutes: number;
+}
+
+export const GameSessionSettingsSchema =
+  SchemaFactory.createForClass(GameSessionSettings);
+
+@Schema({ _id: false })
+export class SessionInvite {
+  @Prop({ type: String, required: true })
+  tokenId: string;
+
+  @Prop({ type: String, required: true })
+  createdBy: string;
+
+  @Prop({ type: Date, default: Date.now })
+  createdAt: Date;
+
+  @Prop({ type: Date, required: true })
+  expiresAt: Date;
+
+  // null means the invite can be used until it expires
+  @Prop({ type: Number, default: null })
+  usesLeft: number | null;
+
+  @Prop({ type: Number, default: 0 })
+  uses: number;
+
+  @Prop({ type: Date, default: null })
+  revokedAt: Date | null;
+}
+
+export const SessionInviteSchema = SchemaFactory.createForClass(SessionInvite);
+
+@Schema({ _id: false })
+export class RematchInvite {
+  @Prop({ type: String, required: true })
+  userId: string;
+
+  @Prop({
+    type: String,
+    enum: Object.values(RematchInviteStatus),
+    default: RematchInviteStatus.Pending,
+  })
+  status: RematchInviteStatus;
+
+  @Prop({ type: Date, default: null })
+  respondedAt: Date | null;
+}
+
+export const RematchInviteSchema = SchemaFactory.createForClass(RematchInvite);
+
+@Schema({ _id: false })
+export class SessionTeam {
+  @Prop({ type: String, required: true })
+  teamId: string;
+
+  @Prop({ type: String, required: true })
+  name: string;
+}
+
+export const SessionTeamSchema = SchemaFactory.createForClass(SessionTeam);
+
+@Schema({ _id: false })
+export class SessionTeamRules {
+  // Only the first correct answer on a team scores for a question
+  @Prop({ type: Boolean, default: false })
+  firstCorrectOnly: boolean;
+
+  // Only team captains submit answers, on behalf of their team
+  @Prop({ type: Boolean, default: false })
+  captainsAnswer: boolean;
+}
+
+export const SessionTeamRulesSchema =
+  SchemaFactory.createForClass(SessionTeamRules);
+
 @Schema({ timestamps: true })
 export class GameSession {
   @Prop({ required: true, unique: true })
@@ -14,14 +180,101 @@ export class GameSession {
   @Prop({ required: true })
   host: string;
 
-  @Prop({ required: true })
-  roomCode: string;
+  // Set while the host has no connection; the role moves on if they do not come back in time
+  @Prop({ type: Date, default: null })
+  hostDisconnectedAt: Date | null;
+
+  // Only live sessions hold a code; it is cleared once the session ends
+  @Prop({ type: String, default: null })
+  roomCode: string | null;
 
   @Prop({ type: [String], default: [] })
   players: string[];
 
-  @Prop({ default: {} })
-  settings: Record<string, any>;
+  @Prop({ type: GameSessionSettingsSchema, required: true })
+  settings: GameSessionSettings;
+
+  @Prop({
+    type: String,
+    enum: Object.values(SessionStatus),
+    default: SessionStatus.Created,
+    index: true,
+  })
+  status: SessionStatus;
+
+  @Prop({
+    type: String,
+    enum: Object.values(SessionVisibility),
+    default: SessionVisibility.Public,
+    index: true,
+  })
+  visibility: SessionVisibility;
+
+  // Empty for free-for-all sessions; players pick or are balanced onto a team otherwise
+  @Prop({ type: [SessionTeamSchema], default: [] })
+  teams: SessionTeam[];
+
+  @Prop({ type: SessionTeamRulesSchema, default: () => ({}) })
+  teamRules: SessionTeamRules;
+
+  @Prop({ type: String, default: null, select: false })
+  passcodeHash: string | null;
+
+  @Prop({ type: [SessionInviteSchema], default: [], select: false })
+  invites: SessionInvite[];
+
+  // Set on a rematch: the session it was cloned from
+  @Prop({ type: String, default: null, index: true })
+  rematchOf: string | null;
+
+  // Set on a finished session once a rematch of it has been created
+  @Prop({ type: String, default: null })
+  rematchSessionId: string | null;
+
+  @Prop({ type: [RematchInviteSchema], default: [] })
+  rematchInvites: RematchInvite[];
+
+  @Prop({ type: Date, default: null })
+  rematchDeadline: Date | null;
+
+  @Prop({ type: Date, default: null })
+  lobbyOpenedAt: Date | null;
+
+  @Prop({ type: Date, default: null })
+  startedAt: Date | null;
+
+  @Prop({ type: Date, default: null })
+  completedAt: Date | null;
+
+  @Prop({ type: Date, default: null })
+  abandonedAt: Date | null;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
 }
 
-export const GameSessionSchema = SchemaFactory.createForClass(GameSession);
\ No newline at end of file
+export const GameSessionSchema = SchemaFactory.createForClass(GameSession);
+
+// Lets the reaper find stale live sessions
+GameSessionSchema.index({ status: 1, updatedAt: 1 });
+
+// Lets host migration find sessions whose host has been gone too long
+GameSessionSchema.index(
+  { hostDisconnectedAt: 1 },
+  { partialFilterExpression: { hostDisconnectedAt: { $type: 'date' } } },
+);
+
+// Lets the reaper find rematches whose invites have run out
+GameSessionSchema.index(
+  { rematchDeadline: 1 },
+  { partialFilterExpression: { rematchDeadline: { $type: 'date' } } },
+);
+
+// Room codes must be unique among sessions that still hold one
+GameSessionSchema.index(
+  { roomCode: 1 },
+  { unique: true, partialFilterExpression: { roomCode: { $type: 'string' } } },
+);
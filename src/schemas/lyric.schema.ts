@@ -1,7 +1,19 @@
 // import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose"
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document } from 'mongoose';
-import { Decade, Genre } from 'src/enum/lyric.enum';
+import {
+  Decade,
+  Genre,
+  LyricDifficultySource,
+  LyricSectionType,
+} from '../enum/lyric.enum';
+import { SessionDifficulty } from '../enum/game-session.enum';
+import { LyricSection, parseLyricSections } from '../lyrics/lyric-sections';
+import { TimedLyricLine, timingProblem } from '../lyrics/lyric-timing';
+import {
+  LyricDifficulty,
+  vocabularyDifficulty,
+} from '../lyrics/lyric-difficulty';
 
 import mongoose from 'mongoose';
 import { Category } from './category.schema';
@@ -97,6 +109,61 @@ export class lyric {
     },
   })
   decade!: string;
+
+  // Kept in step with the approved answer aliases of the song and its artist
+  @Prop({ type: [String], default: [] })
+  alternateTitles!: string[];
+
+  @Prop({ type: [String], default: [] })
+  alternateArtistNames!: string[];
+
+  // Parsed from lyrics.content whenever it changes
+  @Prop({
+    type: [
+      {
+        _id: false,
+        type: { type: String, enum: Object.values(LyricSectionType) },
+        label: String,
+        lines: [String],
+      },
+    ],
+    default: [],
+  })
+  sections!: LyricSection[];
+
+  // Synced lyrics, one entry per line of lyrics.content in the order they are sung
+  @Prop({
+    type: [{ _id: false, time: Number, text: String }],
+    default: [],
+    validate: {
+      validator: (lines: TimedLyricLine[]) => timingProblem(lines) === null,
+      message: (props: { value: TimedLyricLine[] }) =>
+        timingProblem(props.value) ?? 'Invalid timed lines',
+    },
+  })
+  timedLines!: TimedLyricLine[];
+
+  // Set by the difficulty calibration job; null until it first runs
+  @Prop({
+    type: {
+      _id: false,
+      score: Number,
+      level: {
+        type: String,
+        enum: [
+          SessionDifficulty.Easy,
+          SessionDifficulty.Medium,
+          SessionDifficulty.Hard,
+        ],
+      },
+      source: { type: String, enum: Object.values(LyricDifficultySource) },
+      answerCount: Number,
+      questionTypes: { type: Object, default: {} },
+      calibratedAt: Date,
+    },
+    default: null,
+  })
+  difficulty!: LyricDifficulty | null;
 }
 
 export const lyricschema = SchemaFactory.createForClass(lyric);
@@ -109,11 +176,54 @@ lyricschema.index({
   'lyrics.content': 'text',
 });
 
+// Round selection picks songs by calibrated difficulty
+lyricschema.index({ 'difficulty.level': 1 });
+
 // Pre-save hook to set decade based on releaseYear
 lyricschema.pre('save', function (next) {
   if (this.releaseYear && !this.decade) {
     const decade = Math.floor(this.releaseYear / 10) * 10;
     this.decade = `${decade}s`;
   }
+  if (this.isModified('lyrics')) {
+    this.sections = parseLyricSections(this.lyrics?.content ?? '');
+    // Timings of the old lyrics no longer line up with the new ones
+    if (!this.isNew && !this.isModified('timedLines')) {
+      this.timedLines = [];
+    }
+    // Until the calibration job has enough answers, the words are all there is to go on
+    if (this.difficulty?.source !== LyricDifficultySource.Answers) {
+      this.difficulty = vocabularyDifficulty(this.lyrics?.content ?? '');
+    }
+  }
   next();
 });
+
+// Updates skip the save hook, so re-parse the sections and re-rate the words when they replace the lyrics
+lyricschema.pre('findOneAndUpdate', async function () {
+  const update: any = this.getUpdate() ?? {};
+  const content =
+    update.lyrics?.content ??
+    update.$set?.lyrics?.content ??
+    update['lyrics.content'] ??
+    update.$set?.['lyrics.content'];
+  if (typeof content === 'string') {
+    this.set('sections', parseLyricSections(content));
+    if (!update.timedLines && !update.$set?.timedLines) {
+      this.set('timedLines', []);
+    }
+    if (
+      update.difficulty === undefined &&
+      update.$set?.difficulty === undefined
+    ) {
+      const current = await this.model
+        .findOne(this.getQuery())
+        .select('difficulty.source')
+        .lean<{ difficulty: LyricDifficulty | null }>()
+        .exec();
+      if (current?.difficulty?.source !== LyricDifficultySource.Answers) {
+        this.set('difficulty', vocabularyDifficulty(content));
+      }
+    }
+  }
+});
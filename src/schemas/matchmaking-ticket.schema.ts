@@ -0,0 +1,64 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { SessionDifficulty } from '../enum/game-session.enum';
+import { MatchmakingTicketStatus } from '../enum/matchmaking.enum';
+import { Decade, Genre } from '../enum/lyric.enum';
+
+export type MatchmakingTicketDocument = MatchmakingTicket & Document;
+
+@Schema({ timestamps: true })
+export class MatchmakingTicket {
+  @Prop({ type: String, required: true, index: true })
+  userId: string;
+
+  @Prop({
+    type: String,
+    enum: Object.values(MatchmakingTicketStatus),
+    default: MatchmakingTicketStatus.Waiting,
+    index: true,
+  })
+  status: MatchmakingTicketStatus;
+
+  @Prop({ type: [{ type: String, enum: Object.values(Genre) }], default: [] })
+  genres: Genre[];
+
+  @Prop({ type: [{ type: String, enum: Object.values(Decade) }], default: [] })
+  decades: Decade[];
+
+  @Prop({
+    type: String,
+    enum: Object.values(SessionDifficulty),
+    default: SessionDifficulty.Mixed,
+  })
+  difficulty: SessionDifficulty;
+
+  // Preferred number of players in the match, host included
+  @Prop({ type: Number, required: true })
+  playerCount: number;
+
+  // Share of correct answers over recent games, captured when the ticket is queued
+  @Prop({ type: Number, default: 0.5 })
+  skillRating: number;
+
+  @Prop({ type: Date, default: Date.now })
+  enqueuedAt: Date;
+
+  @Prop({ type: String, default: null })
+  matchedSessionId: string | null;
+
+  @Prop({ type: Date, default: null })
+  matchedAt: Date | null;
+}
+
+export const MatchmakingTicketSchema =
+  SchemaFactory.createForClass(MatchmakingTicket);
+
+// A player can only wait in the queue once at a time
+MatchmakingTicketSchema.index(
+  { userId: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { status: MatchmakingTicketStatus.Waiting },
+  },
+);
+MatchmakingTicketSchema.index({ status: 1, enqueuedAt: 1 });
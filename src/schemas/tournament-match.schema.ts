@@ -0,0 +1,83 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import {
+  TournamentMatchOutcome,
+  TournamentMatchStatus,
+} from '../enum/tournament.enum';
+
+export type TournamentMatchDocument = TournamentMatch & Document;
+
+@Schema({ _id: false })
+export class TournamentMatchScore {
+  @Prop({ type: String, required: true })
+  userId: string;
+
+  @Prop({ type: Number, default: 0 })
+  score: number;
+}
+
+export const TournamentMatchScoreSchema =
+  SchemaFactory.createForClass(TournamentMatchScore);
+
+@Schema({ timestamps: true })
+export class TournamentMatch {
+  @Prop({ type: String, required: true })
+  tournamentId: string;
+
+  @Prop({ type: Number, required: true })
+  round: number;
+
+  // Position in the round; in elimination brackets slots 2n and 2n+1 feed slot n of the next round
+  @Prop({ type: Number, required: true })
+  slot: number;
+
+  // Better seed first; fewer than two players means a bye or an empty slot
+  @Prop({ type: [String], default: [] })
+  playerIds: string[];
+
+  @Prop({
+    type: String,
+    enum: Object.values(TournamentMatchStatus),
+    default: TournamentMatchStatus.Pending,
+  })
+  status: TournamentMatchStatus;
+
+  // GameSession.id of the session the match is played in
+  @Prop({ type: String, default: null })
+  sessionId: string | null;
+
+  @Prop({ type: Date, default: null })
+  scheduledAt: Date | null;
+
+  @Prop({ type: String, default: null })
+  winnerId: string | null;
+
+  @Prop({
+    type: String,
+    enum: Object.values(TournamentMatchOutcome),
+    default: null,
+  })
+  outcome: TournamentMatchOutcome | null;
+
+  @Prop({ type: [TournamentMatchScoreSchema], default: [] })
+  scores: TournamentMatchScore[];
+
+  @Prop({ type: String, default: null })
+  overriddenBy: string | null;
+
+  @Prop({ type: String, default: null })
+  overrideReason: string | null;
+
+  @Prop({ type: Date, default: null })
+  completedAt: Date | null;
+}
+
+export const TournamentMatchSchema =
+  SchemaFactory.createForClass(TournamentMatch);
+
+TournamentMatchSchema.index(
+  { tournamentId: 1, round: 1, slot: 1 },
+  { unique: true },
+);
+TournamentMatchSchema.index({ sessionId: 1 });
+TournamentMatchSchema.index({ status: 1, scheduledAt: 1 });
@@ -0,0 +1,130 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+import { TournamentFormat, TournamentStatus } from '../enum/tournament.enum';
+import type { GameSessionSettings } from './game-session.schema';
+
+export type TournamentDocument = Tournament & Document;
+
+@Schema({ _id: false })
+export class TournamentParticipant {
+  @Prop({ type: String, required: true })
+  userId: string;
+
+  @Prop({ type: Date, default: Date.now })
+  registeredAt: Date;
+
+  // Share of correct answers over recent games, captured at registration and used for seeding
+  @Prop({ type: Number, default: 0.5 })
+  skillRating: number;
+
+  // 1 is the top seed; assigned when the tournament starts
+  @Prop({ type: Number, default: null })
+  seed: number | null;
+}
+
+export const TournamentParticipantSchema = SchemaFactory.createForClass(
+  TournamentParticipant,
+);
+
+@Schema({ _id: false })
+export class TournamentStanding {
+  @Prop({ type: String, required: true })
+  userId: string;
+
+  @Prop({ type: Number, required: true })
+  position: number;
+
+  @Prop({ type: Number, default: 0 })
+  wins: number;
+
+  @Prop({ type: Number, default: 0 })
+  losses: number;
+
+  // Swiss: sum of the opponents' wins. Elimination: the last round reached
+  @Prop({ type: Number, default: 0 })
+  tiebreak: number;
+}
+
+export const TournamentStandingSchema =
+  SchemaFactory.createForClass(TournamentStanding);
+
+@Schema({ timestamps: true })
+export class Tournament {
+  @Prop({ required: true })
+  name: string;
+
+  @Prop({ type: String, default: '' })
+  description: string;
+
+  @Prop({ type: String, required: true, index: true })
+  organizerId: string;
+
+  @Prop({
+    type: String,
+    enum: Object.values(TournamentFormat),
+    required: true,
+  })
+  format: TournamentFormat;
+
+  @Prop({
+    type: String,
+    enum: Object.values(TournamentStatus),
+    default: TournamentStatus.Registration,
+    index: true,
+  })
+  status: TournamentStatus;
+
+  // Settings every match session is created with
+  @Prop({ type: MongooseSchema.Types.Mixed, default: {} })
+  sessionSettings: Partial<GameSessionSettings>;
+
+  @Prop({ type: Date, required: true })
+  registrationOpensAt: Date;
+
+  // The tournament starts on its own once registration closes
+  @Prop({ type: Date, required: true })
+  registrationClosesAt: Date;
+
+  @Prop({ type: Number, default: 2 })
+  minParticipants: number;
+
+  @Prop({ type: Number, required: true })
+  maxParticipants: number;
+
+  @Prop({ type: [TournamentParticipantSchema], default: [] })
+  participants: TournamentParticipant[];
+
+  // Swiss rounds asked for by the organizer; worked out from the field size when not set
+  @Prop({ type: Number, default: null })
+  swissRounds: number | null;
+
+  // Set when the tournament starts
+  @Prop({ type: Number, default: 0 })
+  roundCount: number;
+
+  @Prop({ type: Number, default: 0 })
+  currentRound: number;
+
+  @Prop({ type: [TournamentStandingSchema], default: [] })
+  standings: TournamentStanding[];
+
+  @Prop({ type: Date, default: null })
+  startedAt: Date | null;
+
+  @Prop({ type: Date, default: null })
+  completedAt: Date | null;
+
+  @Prop({ type: Date, default: null })
+  cancelledAt: Date | null;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const TournamentSchema = SchemaFactory.createForClass(Tournament);
+
+// Lets the scheduler find tournaments whose registration has closed
+TournamentSchema.index({ status: 1, registrationClosesAt: 1 });
@@ -0,0 +1,38 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export enum WagerLockStatus {
+  LOCKED = 'locked',
+  REFUNDED = 'refunded',
+  SETTLED = 'settled',
+}
+
+// Funds held from a wallet while the game session they were wagered on is running
+@Schema({ timestamps: true })
+export class WagerLock extends Document {
+  @Prop({ type: Types.ObjectId, ref: 'Wallet', required: true })
+  walletId: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: string;
+
+  @Prop({ type: String, required: true })
+  sessionId: string;
+
+  @Prop({ type: Number, required: true, min: 0 })
+  amount: number;
+
+  @Prop({
+    type: String,
+    enum: WagerLockStatus,
+    default: WagerLockStatus.LOCKED,
+  })
+  status: WagerLockStatus;
+
+  @Prop({ type: Date, default: null })
+  releasedAt: Date | null;
+}
+
+export const WagerLockSchema = SchemaFactory.createForClass(WagerLock);
+WagerLockSchema.index({ sessionId: 1, status: 1 });
+WagerLockSchema.index({ sessionId: 1, userId: 1 }, { unique: true });
@@ -0,0 +1,64 @@
+import {
+  IsDate,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { TournamentFormat } from '../../enum/tournament.enum';
+import { GameSessionSettingsDto } from '../../game-session/dto/game-session-settings.dto';
+import { TOURNAMENT_LIMITS as LIMITS } from '../tournament-bracket';
+
+export class CreateTournamentDto {
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(80)
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  description?: string;
+
+  @IsEnum(TournamentFormat)
+  format: TournamentFormat;
+
+  // Defaults to now
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  registrationOpensAt?: Date;
+
+  @Type(() => Date)
+  @IsDate()
+  registrationClosesAt: Date;
+
+  @IsOptional()
+  @IsInt()
+  @Min(LIMITS.participants.min)
+  @Max(LIMITS.participants.max)
+  minParticipants?: number;
+
+  @IsInt()
+  @Min(LIMITS.participants.min)
+  @Max(LIMITS.participants.max)
+  maxParticipants: number;
+
+  // Swiss only; defaults to enough rounds to separate a single winner
+  @IsOptional()
+  @IsInt()
+  @Min(LIMITS.swissRounds.min)
+  @Max(LIMITS.swissRounds.max)
+  swissRounds?: number;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => GameSessionSettingsDto)
+  sessionSettings?: GameSessionSettingsDto;
+}
@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class OverrideMatchResultDto {
+  @IsNotEmpty()
+  @IsString()
+  winnerId: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  reason?: string;
+}
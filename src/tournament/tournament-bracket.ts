@@ -0,0 +1,265 @@
+import { TournamentMatchOutcome } from '../enum/tournament.enum';
+import type {
+  TournamentParticipant,
+  TournamentStanding,
+} from '../schemas/tournament.schema';
+import type { TournamentMatch } from '../schemas/tournament-match.schema';
+
+export const TOURNAMENT_LIMITS = {
+  participants: { min: 2, max: 256 },
+  swissRounds: { min: 1, max: 12 },
+};
+
+// The slice of a match the bracket maths needs
+export type MatchResult = Pick<
+  TournamentMatch,
+  'round' | 'slot' | 'playerIds' | 'winnerId' | 'outcome'
+>;
+
+/**
+ * Order participants into seeds: best skill rating first, earlier registration breaks ties
+ */
+export function seedParticipants(
+  participants: TournamentParticipant[],
+): TournamentParticipant[] {
+  return [...participants]
+    .sort(
+      (a, b) =>
+        b.skillRating - a.skillRating ||
+        new Date(a.registeredAt).getTime() - new Date(b.registeredAt).getTime(),
+    )
+    .map((participant, index) => ({
+      userId: participant.userId,
+      registeredAt: participant.registeredAt,
+      skillRating: participant.skillRating,
+      seed: index + 1,
+    }));
+}
+
+/**
+ * Rounds needed to get down to one player; also the default number of Swiss rounds
+ */
+export function roundsForField(participantCount: number): number {
+  return Math.max(1, Math.ceil(Math.log2(participantCount)));
+}
+
+/**
+ * Bracket positions of the seeds, so the top two seeds can only meet in the final: 1, 8, 4, 5, 2, 7, 3, 6 for eight
+ */
+export function eliminationSeedOrder(bracketSize: number): number[] {
+  let order = [1];
+  while (order.length < bracketSize) {
+    const size = order.length * 2;
+    order = order.flatMap((seed) => [seed, size + 1 - seed]);
+  }
+  return order;
+}
+
+/**
+ * First round of a single-elimination bracket; missing seeds leave the top seeds with a bye
+ */
+export function firstEliminationRound(seededUserIds: string[]): string[][] {
+  const bracketSize = 2 ** roundsForField(seededUserIds.length);
+  const order = eliminationSeedOrder(bracketSize);
+  const pairs: string[][] = [];
+
+  for (let i = 0; i < order.length; i += 2) {
+    pairs.push(
+      [order[i], order[i + 1]]
+        .map((seed) => seededUserIds[seed - 1])
+        .filter((userId): userId is string => Boolean(userId)),
+    );
+  }
+  return pairs;
+}
+
+/**
+ * Next elimination round from the previous one: winners of slots 2n and 2n+1 meet in slot n.
+ * A slot nobody won leaves its opponent with a walkover.
+ */
+export function nextEliminationRound(
+  previousRound: MatchResult[],
+  seeds: Map<string, number>,
+): string[][] {
+  const winners = [...previousRound]
+    .sort((a, b) => a.slot - b.slot)
+    .map((match) => match.winnerId);
+  const pairs: string[][] = [];
+
+  for (let i = 0; i < winners.length; i += 2) {
+    pairs.push(
+      [winners[i], winners[i + 1]]
+        .filter((userId): userId is string => Boolean(userId))
+        .sort((a, b) => (seeds.get(a) ?? 0) - (seeds.get(b) ?? 0)),
+    );
+  }
+  return pairs;
+}
+
+/**
+ * Pair a Swiss round down the standings, avoiding rematches where possible.
+ * With an odd field the lowest-ranked player who has not had a bye yet sits out.
+ */
+export function pairSwissRound(
+  standings: TournamentStanding[],
+  previousMatches: MatchResult[],
+): string[][] {
+  const opponents = new Map<string, Set<string>>();
+  const hadBye = new Set<string>();
+  for (const match of previousMatches) {
+    if (match.outcome === TournamentMatchOutcome.Bye) {
+      hadBye.add(match.playerIds[0]);
+    }
+    for (const userId of match.playerIds) {
+      const played = opponents.get(userId) ?? new Set<string>();
+      match.playerIds
+        .filter((other) => other !== userId)
+        .forEach((other) => played.add(other));
+      opponents.set(userId, played);
+    }
+  }
+
+  const remaining = standings.map((standing) => standing.userId);
+  let bye: string | null = null;
+  if (remaining.length % 2 === 1) {
+    const lowestFirst = [...remaining].reverse();
+    bye = lowestFirst.find((userId) => !hadBye.has(userId)) ?? lowestFirst[0];
+    remaining.splice(remaining.indexOf(bye), 1);
+  }
+
+  const pairs: string[][] = [];
+  while (remaining.length > 0) {
+    const player = remaining.shift()!;
+    const played = opponents.get(player);
+    const fresh = remaining.findIndex((other) => !played?.has(other));
+    const [opponent] = remaining.splice(fresh === -1 ? 0 : fresh, 1);
+    pairs.push([player, opponent]);
+  }
+
+  if (bye) {
+    pairs.push([bye]);
+  }
+  return pairs;
+}
+
+/**
+ * Swiss standings: most wins first, then the combined wins of everyone a player faced, then seed
+ */
+export function swissStandings(
+  participants: TournamentParticipant[],
+  matches: MatchResult[],
+): TournamentStanding[] {
+  const records = tallyRecords(participants, matches);
+
+  const rows = participants.map((participant) => {
+    const record = records.get(participant.userId)!;
+    const tiebreak = [...record.opponents].reduce(
+      (sum, opponent) => sum + (records.get(opponent)?.wins ?? 0),
+      0,
+    );
+    return {
+      userId: participant.userId,
+      seed: participant.seed ?? Number.MAX_SAFE_INTEGER,
+      wins: record.wins,
+      losses: record.losses,
+      tiebreak,
+    };
+  });
+
+  rows.sort(
+    (a, b) => b.wins - a.wins || b.tiebreak - a.tiebreak || a.seed - b.seed,
+  );
+  return rows.map(({ seed, ...row }, index) => ({
+    ...row,
+    position: index + 1,
+  }));
+}
+
+/**
+ * Elimination standings: the champion, then everyone by the round they went out in.
+ * Players knocked out in the same round share a position.
+ */
+export function eliminationStandings(
+  participants: TournamentParticipant[],
+  matches: MatchResult[],
+): TournamentStanding[] {
+  const records = tallyRecords(participants, matches);
+  const finalRound = Math.max(0, ...matches.map((match) => match.round));
+  const champion = matches.find(
+    (match) => match.round === finalRound,
+  )?.winnerId;
+
+  const rows = participants.map((participant) => {
+    const reached = Math.max(
+      0,
+      ...matches
+        .filter((match) => match.playerIds.includes(participant.userId))
+        .map((match) => match.round),
+    );
+    const record = records.get(participant.userId)!;
+    return {
+      userId: participant.userId,
+      seed: participant.seed ?? Number.MAX_SAFE_INTEGER,
+      wins: record.wins,
+      losses: record.losses,
+      // The champion is the only player to get past the final
+      tiebreak: participant.userId === champion ? finalRound + 1 : reached,
+    };
+  });
+
+  rows.sort((a, b) => b.tiebreak - a.tiebreak || a.seed - b.seed);
+  return rows.map(({ seed, ...row }) => ({
+    ...row,
+    position: rows.filter((other) => other.tiebreak > row.tiebreak).length + 1,
+  }));
+}
+
+/**
+ * Winner of a played match: the higher score, with the better seed (listed first) taking a tie
+ */
+export function pickWinner(
+  playerIds: string[],
+  scores: Map<string, number>,
+): string | null {
+  let winner: string | null = null;
+  for (const userId of playerIds) {
+    if (
+      winner === null ||
+      (scores.get(userId) ?? 0) > (scores.get(winner) ?? 0)
+    ) {
+      winner = userId;
+    }
+  }
+  return winner;
+}
+
+// Byes count as wins; a forfeit counts as a loss for both players
+function tallyRecords(
+  participants: TournamentParticipant[],
+  matches: MatchResult[],
+) {
+  const records = new Map(
+    participants.map((participant) => [
+      participant.userId,
+      { wins: 0, losses: 0, opponents: new Set<string>() },
+    ]),
+  );
+
+  for (const match of matches) {
+    for (const userId of match.playerIds) {
+      const record = records.get(userId);
+      if (!record) {
+        continue;
+      }
+      match.playerIds
+        .filter((other) => other !== userId)
+        .forEach((other) => record.opponents.add(other));
+      if (match.winnerId === userId) {
+        record.wins++;
+      } else {
+        record.losses++;
+      }
+    }
+  }
+  return records;
+}
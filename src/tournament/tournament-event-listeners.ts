@@ -0,0 +1,23 @@
+import { Injectable } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { TournamentService } from './tournament.service';
+import {
+  GameSessionAbandonedEvent,
+  GameSessionCompletedEvent,
+} from '../game-session/game-session.events';
+
+@Injectable()
+export class TournamentEventListeners {
+  constructor(private readonly tournamentService: TournamentService) {}
+
+  @OnEvent('gameSession.completed')
+  async handleSessionCompleted(event: GameSessionCompletedEvent) {
+    await this.tournamentService.settleSessionMatch(event.session);
+  }
+
+  @OnEvent('gameSession.abandoned')
+  async handleSessionAbandoned(event: GameSessionAbandonedEvent) {
+    // Covers no-shows too: the scheduler abandons sessions a player never turned up for
+    await this.tournamentService.settleSessionMatch(event.session, true);
+  }
+}
@@ -0,0 +1,79 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { TournamentService } from './tournament.service';
+import { CreateTournamentDto } from './dto/create-tournament.dto';
+import { OverrideMatchResultDto } from './dto/override-match-result.dto';
+import { PaginationQueryDto } from '../dto/pagination-query-dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@Controller('tournaments')
+export class TournamentController {
+  constructor(private readonly tournamentService: TournamentService) {}
+
+  @Post()
+  @UseGuards(JwtAuthGuard)
+  create(
+    @CurrentUser('userId') userId: string,
+    @Body() createTournamentDto: CreateTournamentDto,
+  ) {
+    return this.tournamentService.create(userId, createTournamentDto);
+  }
+
+  @Get()
+  findAll(@Query() query: PaginationQueryDto) {
+    return this.tournamentService.findAll(query);
+  }
+
+  @Get(':id')
+  findOne(@Param('id') id: string) {
+    return this.tournamentService.findOne(id);
+  }
+
+  @Get(':id/bracket')
+  getBracket(@Param('id') id: string) {
+    return this.tournamentService.getBracket(id);
+  }
+
+  @Post(':id/registration')
+  @UseGuards(JwtAuthGuard)
+  register(@CurrentUser('userId') userId: string, @Param('id') id: string) {
+    return this.tournamentService.register(userId, id);
+  }
+
+  @Delete(':id/registration')
+  @UseGuards(JwtAuthGuard)
+  withdraw(@CurrentUser('userId') userId: string, @Param('id') id: string) {
+    return this.tournamentService.withdraw(userId, id);
+  }
+
+  @Post(':id/start')
+  @UseGuards(JwtAuthGuard)
+  start(@CurrentUser('userId') userId: string, @Param('id') id: string) {
+    return this.tournamentService.start(userId, id);
+  }
+
+  @Post(':id/matches/:matchId/result')
+  @UseGuards(JwtAuthGuard)
+  overrideResult(
+    @CurrentUser('userId') userId: string,
+    @Param('id') id: string,
+    @Param('matchId') matchId: string,
+    @Body() overrideMatchResultDto: OverrideMatchResultDto,
+  ) {
+    return this.tournamentService.overrideResult(
+      userId,
+      id,
+      matchId,
+      overrideMatchResultDto,
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { TournamentDocument } from '../schemas/tournament.schema';
+import { TournamentMatchDocument } from '../schemas/tournament-match.schema';
+
+export class TournamentStartedEvent {
+  constructor(public readonly tournament: TournamentDocument) {}
+}
+
+export class TournamentMatchReadyEvent {
+  constructor(
+    public readonly match: TournamentMatchDocument,
+    public readonly roomCode: string | null,
+  ) {}
+}
+
+export class TournamentMatchCompletedEvent {
+  constructor(public readonly match: TournamentMatchDocument) {}
+}
+
+export class TournamentCompletedEvent {
+  constructor(public readonly tournament: TournamentDocument) {}
+}
@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ScheduleModule } from '@nestjs/schedule';
+import { TournamentController } from './tournament.controller';
+import { TournamentService } from './tournament.service';
+import { TournamentEventListeners } from './tournament-event-listeners';
+import { Tournament, TournamentSchema } from '../schemas/tournament.schema';
+import {
+  TournamentMatch,
+  TournamentMatchSchema,
+} from '../schemas/tournament-match.schema';
+import { GameSessionModule } from '../game-session/game-session.module';
+import { PlayerModule } from '../player/player.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Tournament.name, schema: TournamentSchema },
+      { name: TournamentMatch.name, schema: TournamentMatchSchema },
+    ]),
+    ScheduleModule.forRoot(),
+    GameSessionModule,
+    PlayerModule,
+  ],
+  controllers: [TournamentController],
+  providers: [TournamentService, TournamentEventListeners],
+})
+export class TournamentModule {}
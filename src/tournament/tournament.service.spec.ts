@@ -0,0 +1,336 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { ConflictException, ForbiddenException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { TournamentService } from './tournament.service';
+import { Tournament } from '../schemas/tournament.schema';
+import { TournamentMatch } from '../schemas/tournament-match.schema';
+import {
+  TournamentFormat,
+  TournamentMatchOutcome,
+  TournamentMatchStatus,
+  TournamentStatus,
+} from '../enum/tournament.enum';
+import { GameSessionService } from '../game-session/game-session.service';
+import { PlayerService } from '../player/services/player.service';
+import {
+  MatchResult,
+  eliminationSeedOrder,
+  eliminationStandings,
+  firstEliminationRound,
+  pairSwissRound,
+  swissStandings,
+} from './tournament-bracket';
+
+describe('TournamentService', () => {
+  const participant = (userId: string, seed: number) => ({
+    userId,
+    seed,
+    skillRating: 1 - seed / 10,
+    registeredAt: new Date('2025-01-01T12:00:00Z'),
+  });
+
+  const result = (
+    round: number,
+    slot: number,
+    playerIds: string[],
+    winnerId: string | null,
+    outcome = TournamentMatchOutcome.Played,
+  ): MatchResult => ({ round, slot, playerIds, winnerId, outcome });
+
+  describe('bracket rules', () => {
+    it('should keep the top seeds apart until the final', () => {
+      expect(eliminationSeedOrder(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+    });
+
+    it('should give the top seeds a bye when the field is short', () => {
+      expect(firstEliminationRound(['a', 'b', 'c', 'd', 'e', 'f'])).toEqual([
+        ['a'],
+        ['d', 'e'],
+        ['b'],
+        ['c', 'f'],
+      ]);
+    });
+
+    it('should avoid Swiss rematches and hand the bye to someone new', () => {
+      const players = ['a', 'b', 'c', 'd', 'e'].map((userId, index) =>
+        participant(userId, index + 1),
+      );
+      const roundOne = [
+        result(1, 0, ['a', 'b'], 'a'),
+        result(1, 1, ['c', 'd'], 'c'),
+        result(1, 2, ['e'], 'e', TournamentMatchOutcome.Bye),
+      ];
+
+      const pairs = pairSwissRound(swissStandings(players, roundOne), roundOne);
+
+      expect(pairs).toEqual([['a', 'c'], ['e', 'b'], ['d']]);
+    });
+
+    it('should share positions between players knocked out in the same round', () => {
+      const players = ['a', 'b', 'c', 'd'].map((userId, index) =>
+        participant(userId, index + 1),
+      );
+      const matches = [
+        result(1, 0, ['a', 'd'], 'a'),
+        result(1, 1, ['b', 'c'], 'b'),
+        result(2, 0, ['a', 'b'], 'b'),
+      ];
+
+      const standings = eliminationStandings(players, matches);
+
+      expect(
+        standings.map(({ userId, position }) => [userId, position]),
+      ).toEqual([
+        ['b', 1],
+        ['a', 2],
+        ['c', 3],
+        ['d', 3],
+      ]);
+    });
+  });
+
+  describe('tournaments', () => {
+    let service: TournamentService;
+    let tournamentModel: any;
+    let matchModel: any;
+    let gameSessionService: Record<string, jest.Mock>;
+    let playerService: Record<string, jest.Mock>;
+    let eventEmitter: { emit: jest.Mock };
+
+    const tournamentId = new Types.ObjectId().toString();
+    const organizerId = 'organizer-1';
+
+    const withExec = (value: any) => ({
+      sort: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      exec: jest.fn().mockResolvedValue(value),
+    });
+
+    const mockTournament = (overrides: Record<string, any> = {}) => ({
+      _id: tournamentId,
+      name: 'Weekly cup',
+      organizerId,
+      format: TournamentFormat.SingleElimination,
+      status: TournamentStatus.Registration,
+      sessionSettings: {},
+      registrationOpensAt: new Date(Date.now() - 60 * 1000),
+      registrationClosesAt: new Date(Date.now() + 60 * 1000),
+      minParticipants: 2,
+      maxParticipants: 8,
+      participants: [],
+      swissRounds: null,
+      roundCount: 0,
+      currentRound: 0,
+      standings: [],
+      ...overrides,
+    });
+
+    beforeEach(async () => {
+      tournamentModel = {
+        findById: jest.fn(),
+        findOneAndUpdate: jest.fn(),
+      };
+      matchModel = {
+        find: jest.fn(),
+        findOne: jest.fn(),
+        findOneAndUpdate: jest.fn(),
+        countDocuments: jest.fn().mockReturnValue(withExec(1)),
+        insertMany: jest.fn(async (matches: any[]) =>
+          matches.map((match, index) => ({
+            _id: `match-${index}`,
+            status: TournamentMatchStatus.Pending,
+            ...match,
+          })),
+        ),
+      };
+      gameSessionService = {
+        createForHost: jest
+          .fn()
+          .mockResolvedValue({ id: 'session-1', roomCode: 'ABC123' }),
+        joinByRoomCode: jest.fn().mockResolvedValue(undefined),
+        openLobby: jest.fn().mockResolvedValue(undefined),
+        discard: jest.fn().mockResolvedValue(undefined),
+      };
+      playerService = {
+        getSkillRating: jest.fn().mockResolvedValue(0.6),
+        getSessionResults: jest.fn().mockResolvedValue([]),
+      };
+      eventEmitter = { emit: jest.fn() };
+
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [
+          TournamentService,
+          {
+            provide: getModelToken(Tournament.name),
+            useValue: tournamentModel,
+          },
+          {
+            provide: getModelToken(TournamentMatch.name),
+            useValue: matchModel,
+          },
+          { provide: GameSessionService, useValue: gameSessionService },
+          { provide: PlayerService, useValue: playerService },
+          { provide: EventEmitter2, useValue: eventEmitter },
+        ],
+      }).compile();
+
+      service = module.get<TournamentService>(TournamentService);
+    });
+
+    it('should register a player with their skill rating', async () => {
+      tournamentModel.findById.mockReturnValue(withExec(mockTournament()));
+      tournamentModel.findOneAndUpdate.mockReturnValue(
+        withExec(mockTournament({ participants: [participant('a', 1)] })),
+      );
+
+      await service.register('a', tournamentId);
+
+      expect(tournamentModel.findOneAndUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ 'participants.7': { $exists: false } }),
+        {
+          $push: {
+            participants: expect.objectContaining({
+              userId: 'a',
+              skillRating: 0.6,
+            }),
+          },
+        },
+        { new: true },
+      );
+    });
+
+    it('should report a full field as a conflict', async () => {
+      tournamentModel.findById.mockReturnValue(withExec(mockTournament()));
+      tournamentModel.findOneAndUpdate.mockReturnValue(withExec(null));
+
+      await expect(service.register('a', tournamentId)).rejects.toThrow(
+        ConflictException,
+      );
+    });
+
+    it('should seed the field and open a session for every first-round match', async () => {
+      const registered = mockTournament({
+        participants: [
+          participant('low', 3),
+          participant('top', 1),
+          participant('mid', 2),
+        ],
+      });
+      tournamentModel.findById.mockReturnValue(withExec(registered));
+      tournamentModel.findOneAndUpdate.mockImplementation((filter, update) =>
+        withExec({ ...registered, ...update.$set }),
+      );
+      matchModel.findOneAndUpdate.mockImplementation((filter, update) =>
+        withExec({ _id: filter._id, ...update.$set }),
+      );
+
+      await service.start(organizerId, tournamentId);
+
+      const [matches] = matchModel.insertMany.mock.calls[0];
+      expect(matches).toEqual([
+        expect.objectContaining({
+          playerIds: ['top'],
+          status: TournamentMatchStatus.Completed,
+          outcome: TournamentMatchOutcome.Bye,
+          winnerId: 'top',
+        }),
+        expect.objectContaining({ playerIds: ['mid', 'low'] }),
+      ]);
+      expect(gameSessionService.createForHost).toHaveBeenCalledTimes(1);
+      expect(gameSessionService.joinByRoomCode).toHaveBeenCalledWith(
+        'low',
+        'ABC123',
+        { passcode: expect.any(String) },
+      );
+      expect(eventEmitter.emit).toHaveBeenCalledWith(
+        'tournament.matchReady',
+        expect.anything(),
+      );
+    });
+
+    it('should drop the match session and leave the match pending when a player cannot join', async () => {
+      const registered = mockTournament({
+        participants: [participant('top', 1), participant('low', 2)],
+      });
+      tournamentModel.findById.mockReturnValue(withExec(registered));
+      tournamentModel.findOneAndUpdate.mockImplementation((filter, update) =>
+        withExec({ ...registered, ...update.$set }),
+      );
+      gameSessionService.joinByRoomCode
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error('boom'));
+
+      await service.start(organizerId, tournamentId);
+
+      expect(gameSessionService.discard).toHaveBeenCalledWith('session-1');
+      expect(matchModel.findOneAndUpdate).not.toHaveBeenCalled();
+      expect(eventEmitter.emit).not.toHaveBeenCalledWith(
+        'tournament.matchReady',
+        expect.anything(),
+      );
+    });
+
+    it('should only let the organizer start the tournament', async () => {
+      tournamentModel.findById.mockReturnValue(withExec(mockTournament()));
+
+      await expect(service.start('a', tournamentId)).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it('should give a walkover to the only player who turned up', async () => {
+      matchModel.findOne.mockReturnValue(
+        withExec({
+          _id: 'match-1',
+          tournamentId,
+          round: 1,
+          playerIds: ['a', 'b'],
+          status: TournamentMatchStatus.Active,
+        }),
+      );
+      matchModel.findOneAndUpdate.mockImplementation((filter, update) =>
+        withExec({ _id: filter._id, tournamentId, round: 1, ...update.$set }),
+      );
+      playerService.getSessionResults.mockResolvedValue([
+        { userId: 'b', score: 0, present: true },
+      ]);
+
+      await service.settleSessionMatch(
+        { _id: 'oid-1', id: 'session-1' } as any,
+        true,
+      );
+
+      expect(matchModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: 'match-1', status: { $in: [TournamentMatchStatus.Active] } },
+        {
+          $set: expect.objectContaining({
+            winnerId: 'b',
+            outcome: TournamentMatchOutcome.Walkover,
+            status: TournamentMatchStatus.Completed,
+          }),
+        },
+        { new: true },
+      );
+    });
+
+    it('should only override results in the current round', async () => {
+      const matchId = new Types.ObjectId().toString();
+      tournamentModel.findById.mockReturnValue(
+        withExec(
+          mockTournament({ status: TournamentStatus.Active, currentRound: 2 }),
+        ),
+      );
+      matchModel.findOne.mockReturnValue(
+        withExec({ _id: matchId, round: 1, playerIds: ['a', 'b'] }),
+      );
+
+      await expect(
+        service.overrideResult(organizerId, tournamentId, matchId, {
+          winnerId: 'a',
+        }),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+});
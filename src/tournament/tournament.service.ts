@@ -0,0 +1,805 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Model, Types } from 'mongoose';
+import { randomBytes } from 'crypto';
+import {
+  Tournament,
+  TournamentDocument,
+  TournamentStanding,
+} from '../schemas/tournament.schema';
+import {
+  TournamentMatch,
+  TournamentMatchDocument,
+} from '../schemas/tournament-match.schema';
+import {
+  GameSession,
+  GameSessionDocument,
+} from '../schemas/game-session.schema';
+import {
+  TournamentFormat,
+  TournamentMatchOutcome,
+  TournamentMatchStatus,
+  TournamentStatus,
+} from '../enum/tournament.enum';
+import { SessionStatus, SessionVisibility } from '../enum/game-session.enum';
+import { GameSessionService } from '../game-session/game-session.service';
+import { PlayerService } from '../player/services/player.service';
+import { PaginationQueryDto } from '../dto/pagination-query-dto';
+import { CreateTournamentDto } from './dto/create-tournament.dto';
+import { OverrideMatchResultDto } from './dto/override-match-result.dto';
+import {
+  TournamentCompletedEvent,
+  TournamentMatchCompletedEvent,
+  TournamentMatchReadyEvent,
+  TournamentStartedEvent,
+} from './tournament.events';
+import {
+  MatchResult,
+  TOURNAMENT_LIMITS,
+  eliminationStandings,
+  firstEliminationRound,
+  nextEliminationRound,
+  pairSwissRound,
+  pickWinner,
+  roundsForField,
+  seedParticipants,
+  swissStandings,
+} from './tournament-bracket';
+
+// Players who have not both turned up this long after their match opened forfeit it
+const NO_SHOW_GRACE_MS = 10 * 60 * 1000;
+// Matches still pending after this long failed to get a session and are retried
+const PENDING_RETRY_MS = 60 * 1000;
+const SCHEDULER_BATCH_SIZE = 50;
+const NO_SHOW_REASON = 'tournament no-show';
+
+@Injectable()
+export class TournamentService {
+  private readonly logger = new Logger(TournamentService.name);
+  private running = false;
+
+  constructor(
+    @InjectModel(Tournament.name)
+    private readonly tournamentModel: Model<TournamentDocument>,
+    @InjectModel(TournamentMatch.name)
+    private readonly matchModel: Model<TournamentMatchDocument>,
+    private readonly gameSessionService: GameSessionService,
+    private readonly playerService: PlayerService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  /**
+   * Announce a tournament; players can register until registration closes
+   */
+  async create(
+    userId: string,
+    createTournamentDto: CreateTournamentDto,
+  ): Promise<Tournament> {
+    const registrationOpensAt =
+      createTournamentDto.registrationOpensAt ?? new Date();
+    const minParticipants =
+      createTournamentDto.minParticipants ?? TOURNAMENT_LIMITS.participants.min;
+
+    if (createTournamentDto.registrationClosesAt <= registrationOpensAt) {
+      throw new BadRequestException('Registration must close after it opens');
+    }
+    if (minParticipants > createTournamentDto.maxParticipants) {
+      throw new BadRequestException(
+        'minParticipants cannot be higher than maxParticipants',
+      );
+    }
+    if (
+      createTournamentDto.swissRounds &&
+      createTournamentDto.format !== TournamentFormat.Swiss
+    ) {
+      throw new BadRequestException(
+        'swissRounds only applies to Swiss tournaments',
+      );
+    }
+
+    const tournament = new this.tournamentModel({
+      name: createTournamentDto.name,
+      description: createTournamentDto.description ?? '',
+      organizerId: userId,
+      format: createTournamentDto.format,
+      sessionSettings: createTournamentDto.sessionSettings ?? {},
+      registrationOpensAt,
+      registrationClosesAt: createTournamentDto.registrationClosesAt,
+      minParticipants,
+      maxParticipants: createTournamentDto.maxParticipants,
+      swissRounds: createTournamentDto.swissRounds ?? null,
+    });
+    await tournament.save();
+
+    this.eventEmitter.emit('tournament.created', tournament);
+    return tournament;
+  }
+
+  async findAll(query: PaginationQueryDto) {
+    const limit = query.limit ?? 10;
+    const offset = query.offset ?? 0;
+
+    const [data, total] = await Promise.all([
+      this.tournamentModel
+        .find()
+        .sort({ registrationClosesAt: -1 })
+        .skip(offset)
+        .limit(limit)
+        .exec(),
+      this.tournamentModel.countDocuments().exec(),
+    ]);
+
+    return { data, total, limit, offset };
+  }
+
+  async findOne(id: string): Promise<TournamentDocument> {
+    const tournament = Types.ObjectId.isValid(id)
+      ? await this.tournamentModel.findById(id).exec()
+      : null;
+    if (!tournament) {
+      throw new NotFoundException('Tournament not found');
+    }
+    return tournament;
+  }
+
+  /**
+   * Sign a player up while registration is open; their skill rating is kept for seeding
+   */
+  async register(userId: string, id: string): Promise<Tournament> {
+    const tournament = await this.findOne(id);
+    const now = new Date();
+
+    if (
+      tournament.status !== TournamentStatus.Registration ||
+      now < tournament.registrationOpensAt ||
+      now >= tournament.registrationClosesAt
+    ) {
+      throw new BadRequestException(
+        'Registration for this tournament is not open',
+      );
+    }
+    if (
+      tournament.participants.some(
+        (participant) => participant.userId === userId,
+      )
+    ) {
+      throw new ConflictException(
+        'You are already registered for this tournament',
+      );
+    }
+
+    const skillRating = await this.playerService.getSkillRating(userId);
+
+    // Re-check the window and capacity in the update so concurrent sign-ups cannot overfill the field
+    const updated = await this.tournamentModel
+      .findOneAndUpdate(
+        {
+          _id: tournament._id,
+          status: TournamentStatus.Registration,
+          registrationClosesAt: { $gt: now },
+          'participants.userId': { $ne: userId },
+          [`participants.${tournament.maxParticipants - 1}`]: {
+            $exists: false,
+          },
+        },
+        {
+          $push: {
+            participants: {
+              userId,
+              registeredAt: now,
+              skillRating,
+              seed: null,
+            },
+          },
+        },
+        { new: true },
+      )
+      .exec();
+    if (!updated) {
+      throw new ConflictException(
+        'The tournament is full or registration has just closed',
+      );
+    }
+
+    return updated;
+  }
+
+  /**
+   * Take a player off the list before the tournament starts
+   */
+  async withdraw(userId: string, id: string): Promise<Tournament> {
+    const tournament = await this.findOne(id);
+
+    const updated = await this.tournamentModel
+      .findOneAndUpdate(
+        {
+          _id: tournament._id,
+          status: TournamentStatus.Registration,
+          'participants.userId': userId,
+        },
+        { $pull: { participants: { userId } } },
+        { new: true },
+      )
+      .exec();
+    if (!updated) {
+      throw new BadRequestException(
+        'You are not registered, or the tournament has already started',
+      );
+    }
+
+    return updated;
+  }
+
+  /**
+   * Close registration early and start the tournament
+   */
+  async start(userId: string, id: string): Promise<Tournament> {
+    const tournament = await this.findOne(id);
+    if (tournament.organizerId !== userId) {
+      throw new ForbiddenException(
+        'Only the organizer can start this tournament',
+      );
+    }
+    if (tournament.status !== TournamentStatus.Registration) {
+      throw new BadRequestException('This tournament has already started');
+    }
+
+    return this.begin(tournament);
+  }
+
+  /**
+   * Rounds with their matches, plus the standings so far
+   */
+  async getBracket(id: string) {
+    const tournament = await this.findOne(id);
+    const matches = await this.matchModel
+      .find({ tournamentId: String(tournament._id) })
+      .sort({ round: 1, slot: 1 })
+      .exec();
+
+    const rounds = new Map<number, TournamentMatchDocument[]>();
+    for (const match of matches) {
+      rounds.set(match.round, [...(rounds.get(match.round) ?? []), match]);
+    }
+
+    return {
+      tournament,
+      rounds: [...rounds.entries()].map(([round, roundMatches]) => ({
+        round,
+        matches: roundMatches,
+      })),
+      standings:
+        tournament.status === TournamentStatus.Completed
+          ? tournament.standings
+          : this.computeStandings(
+              tournament,
+              matches.filter(
+                (match) => match.status === TournamentMatchStatus.Completed,
+              ),
+            ),
+    };
+  }
+
+  /**
+   * Set the winner of a match in the current round by hand, e.g. after a dispute or a crash.
+   * Any session still running for the match is left alone; its result no longer counts.
+   */
+  async overrideResult(
+    userId: string,
+    id: string,
+    matchId: string,
+    overrideMatchResultDto: OverrideMatchResultDto,
+  ): Promise<TournamentMatch> {
+    const tournament = await this.findOne(id);
+    if (tournament.organizerId !== userId) {
+      throw new ForbiddenException('Only the organizer can override results');
+    }
+    if (tournament.status !== TournamentStatus.Active) {
+      throw new BadRequestException(
+        'Results can only be overridden while the tournament is running',
+      );
+    }
+
+    const match = Types.ObjectId.isValid(matchId)
+      ? await this.matchModel
+          .findOne({ _id: matchId, tournamentId: String(tournament._id) })
+          .exec()
+      : null;
+    if (!match) {
+      throw new NotFoundException('Match not found');
+    }
+    if (match.round !== tournament.currentRound) {
+      throw new ConflictException(
+        'Only matches in the current round can be overridden',
+      );
+    }
+    if (!match.playerIds.includes(overrideMatchResultDto.winnerId)) {
+      throw new BadRequestException(
+        'The winner must be one of the players in the match',
+      );
+    }
+
+    const updated = await this.completeMatch(
+      match,
+      Object.values(TournamentMatchStatus),
+      {
+        winnerId: overrideMatchResultDto.winnerId,
+        outcome: TournamentMatchOutcome.Override,
+        overriddenBy: userId,
+        overrideReason: overrideMatchResultDto.reason ?? null,
+      },
+    );
+    if (!updated) {
+      throw new ConflictException('Match was changed by another request');
+    }
+    return updated;
+  }
+
+  /**
+   * Settle the match played in a session that finished or was abandoned.
+   * An abandoned match goes to whoever was still there; if nobody was, nobody advances.
+   */
+  async settleSessionMatch(
+    session: GameSessionDocument,
+    abandoned = false,
+  ): Promise<void> {
+    const match = await this.matchModel
+      .findOne({ sessionId: session.id, status: TournamentMatchStatus.Active })
+      .exec();
+    if (!match) {
+      return;
+    }
+
+    const results = await this.playerService.getSessionResults(
+      String(session._id),
+    );
+    const scores = new Map(
+      results.map((result) => [result.userId, result.score]),
+    );
+    const present = match.playerIds.filter((userId) =>
+      results.some((result) => result.userId === userId && result.present),
+    );
+
+    let winnerId = pickWinner(match.playerIds, scores);
+    let outcome = TournamentMatchOutcome.Played;
+    if (abandoned && present.length < match.playerIds.length) {
+      winnerId = present[0] ?? null;
+      outcome = winnerId
+        ? TournamentMatchOutcome.Walkover
+        : TournamentMatchOutcome.Forfeit;
+    }
+
+    await this.completeMatch(match, [TournamentMatchStatus.Active], {
+      winnerId,
+      outcome,
+      scores: match.playerIds.map((userId) => ({
+        userId,
+        score: scores.get(userId) ?? 0,
+      })),
+    });
+  }
+
+  /**
+   * Start tournaments whose registration closed, retry matches that have no session yet and
+   * abandon match sessions the players never showed up for
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async runSchedule(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      await this.closeRegistrations();
+      await this.retryPendingMatches();
+      await this.abandonNoShowMatches();
+    } catch (error: any) {
+      this.logger.error(
+        `Tournament scheduler run failed: ${error?.message}`,
+        error?.stack,
+      );
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async closeRegistrations(): Promise<void> {
+    const now = new Date();
+    const due = await this.tournamentModel
+      .find({
+        status: TournamentStatus.Registration,
+        registrationClosesAt: { $lte: now },
+      })
+      .limit(SCHEDULER_BATCH_SIZE)
+      .exec();
+
+    for (const tournament of due) {
+      if (tournament.participants.length < tournament.minParticipants) {
+        const cancelled = await this.tournamentModel
+          .findOneAndUpdate(
+            { _id: tournament._id, status: TournamentStatus.Registration },
+            {
+              $set: { status: TournamentStatus.Cancelled, cancelledAt: now },
+            },
+            { new: true },
+          )
+          .exec();
+        if (cancelled) {
+          this.eventEmitter.emit('tournament.cancelled', cancelled);
+        }
+        continue;
+      }
+
+      try {
+        await this.begin(tournament);
+      } catch (error: any) {
+        this.logger.warn(
+          `Could not start tournament ${tournament._id}: ${error?.message}`,
+        );
+      }
+    }
+  }
+
+  private async retryPendingMatches(): Promise<void> {
+    const pending = await this.matchModel
+      .find({
+        status: TournamentMatchStatus.Pending,
+        createdAt: { $lte: new Date(Date.now() - PENDING_RETRY_MS) },
+      })
+      .limit(SCHEDULER_BATCH_SIZE)
+      .exec();
+
+    for (const match of pending) {
+      const tournament = await this.tournamentModel
+        .findById(match.tournamentId)
+        .exec();
+      if (tournament?.status === TournamentStatus.Active) {
+        await this.launchMatch(tournament, match);
+      }
+    }
+  }
+
+  private async abandonNoShowMatches(): Promise<void> {
+    const stale = await this.matchModel
+      .find({
+        status: TournamentMatchStatus.Active,
+        scheduledAt: { $lte: new Date(Date.now() - NO_SHOW_GRACE_MS) },
+      })
+      .limit(SCHEDULER_BATCH_SIZE)
+      .exec();
+
+    for (const match of stale) {
+      try {
+        const session = (await this.gameSessionService.findOne(
+          match.sessionId!,
+        )) as GameSessionDocument;
+        if (
+          session.status !== SessionStatus.Created &&
+          session.status !== SessionStatus.Waiting
+        ) {
+          continue;
+        }
+
+        const results = await this.playerService.getSessionResults(
+          String(session._id),
+        );
+        const present = match.playerIds.filter((userId) =>
+          results.some((result) => result.userId === userId && result.present),
+        );
+        // Both players are in the lobby; it is up to them to start
+        if (present.length === match.playerIds.length) {
+          continue;
+        }
+
+        // Listeners of `gameSession.abandoned` settle the match as a walkover
+        await this.gameSessionService.expire(session.id, NO_SHOW_REASON);
+      } catch (error: any) {
+        this.logger.warn(
+          `Could not check match ${match._id} for no-shows: ${error?.message}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Helper method to seed the field, fix the number of rounds and open the first round
+   */
+  private async begin(tournament: TournamentDocument): Promise<Tournament> {
+    if (tournament.participants.length < tournament.minParticipants) {
+      throw new BadRequestException(
+        `At least ${tournament.minParticipants} players must register before the tournament can start`,
+      );
+    }
+
+    const seeded = seedParticipants(tournament.participants);
+    const roundCount =
+      tournament.format === TournamentFormat.Swiss
+        ? (tournament.swissRounds ?? roundsForField(seeded.length))
+        : roundsForField(seeded.length);
+
+    const started = await this.tournamentModel
+      .findOneAndUpdate(
+        { _id: tournament._id, status: TournamentStatus.Registration },
+        {
+          $set: {
+            status: TournamentStatus.Active,
+            participants: seeded,
+            roundCount,
+            currentRound: 1,
+            startedAt: new Date(),
+          },
+        },
+        { new: true },
+      )
+      .exec();
+    if (!started) {
+      throw new ConflictException(
+        'Tournament status was changed by another request',
+      );
+    }
+
+    this.eventEmitter.emit(
+      'tournament.started',
+      new TournamentStartedEvent(started),
+    );
+
+    const pairs =
+      started.format === TournamentFormat.Swiss
+        ? pairSwissRound(swissStandings(seeded, []), [])
+        : firstEliminationRound(
+            seeded.map((participant) => participant.userId),
+          );
+    await this.startRound(started, 1, pairs);
+
+    return started;
+  }
+
+  /**
+   * Helper method to create a round's matches; a lone player advances on a bye straight away
+   */
+  private async startRound(
+    tournament: TournamentDocument,
+    round: number,
+    pairs: string[][],
+  ): Promise<void> {
+    const now = new Date();
+    const matches = await this.matchModel.insertMany(
+      pairs.map((playerIds, slot) => {
+        const match = {
+          tournamentId: String(tournament._id),
+          round,
+          slot,
+          playerIds,
+        };
+        if (playerIds.length === 2) {
+          return match;
+        }
+        return {
+          ...match,
+          status: TournamentMatchStatus.Completed,
+          winnerId: playerIds[0] ?? null,
+          outcome: playerIds.length
+            ? TournamentMatchOutcome.Bye
+            : TournamentMatchOutcome.Forfeit,
+          completedAt: now,
+        };
+      }),
+    );
+
+    for (const match of matches) {
+      if (match.status === TournamentMatchStatus.Pending) {
+        await this.launchMatch(tournament, match);
+      }
+    }
+
+    await this.advanceIfRoundComplete(String(tournament._id), round);
+  }
+
+  /**
+   * Helper method to open a private session for a match with both players already in it.
+   * A failure leaves the match pending for the scheduler to retry.
+   */
+  private async launchMatch(
+    tournament: TournamentDocument,
+    match: TournamentMatchDocument,
+  ): Promise<void> {
+    const [host, guest] = match.playerIds;
+    const passcode = randomBytes(12).toString('hex');
+
+    let session: GameSession | null = null;
+    try {
+      session = await this.gameSessionService.createForHost(host, {
+        name: `${tournament.name} - round ${match.round}`,
+        host,
+        visibility: SessionVisibility.Private,
+        passcode,
+        settings: { ...tournament.sessionSettings, maxPlayers: 2 },
+      });
+      await this.gameSessionService.joinByRoomCode(host, session.roomCode!);
+      await this.gameSessionService.joinByRoomCode(guest, session.roomCode!, {
+        passcode,
+      });
+      await this.gameSessionService.openLobby(host, session.id);
+
+      const updated = await this.matchModel
+        .findOneAndUpdate(
+          { _id: match._id, status: TournamentMatchStatus.Pending },
+          {
+            $set: {
+              status: TournamentMatchStatus.Active,
+              sessionId: session.id,
+              scheduledAt: new Date(),
+            },
+          },
+          { new: true },
+        )
+        .exec();
+      if (updated) {
+        this.eventEmitter.emit(
+          'tournament.matchReady',
+          new TournamentMatchReadyEvent(updated, session.roomCode),
+        );
+      }
+    } catch (error: any) {
+      this.logger.error(
+        `Failed to open a session for match ${match._id}: ${error?.message}`,
+        error?.stack,
+      );
+      // The session was set up part way; drop it so the retry starts afresh
+      if (session) {
+        await this.gameSessionService
+          .discard(session.id)
+          .catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * Helper method to record a result, guarded on the match status so a result is only taken once
+   */
+  private async completeMatch(
+    match: TournamentMatchDocument,
+    fromStatuses: TournamentMatchStatus[],
+    result: Partial<TournamentMatch>,
+  ): Promise<TournamentMatchDocument | null> {
+    const updated = await this.matchModel
+      .findOneAndUpdate(
+        { _id: match._id, status: { $in: fromStatuses } },
+        {
+          $set: {
+            ...result,
+            status: TournamentMatchStatus.Completed,
+            completedAt: new Date(),
+          },
+        },
+        { new: true },
+      )
+      .exec();
+    if (!updated) {
+      return null;
+    }
+
+    this.eventEmitter.emit(
+      'tournament.matchCompleted',
+      new TournamentMatchCompletedEvent(updated),
+    );
+    await this.advanceIfRoundComplete(updated.tournamentId, updated.round);
+    return updated;
+  }
+
+  /**
+   * Helper method to open the next round, or finish the tournament, once every match in a round is done
+   */
+  private async advanceIfRoundComplete(
+    tournamentId: string,
+    round: number,
+  ): Promise<void> {
+    const open = await this.matchModel
+      .countDocuments({
+        tournamentId,
+        round,
+        status: { $ne: TournamentMatchStatus.Completed },
+      })
+      .exec();
+    if (open > 0) {
+      return;
+    }
+
+    const tournament = await this.tournamentModel.findById(tournamentId).exec();
+    if (
+      !tournament ||
+      tournament.status !== TournamentStatus.Active ||
+      tournament.currentRound !== round
+    ) {
+      return;
+    }
+
+    const matches = await this.matchModel.find({ tournamentId }).exec();
+    if (round >= tournament.roundCount) {
+      await this.finish(tournament, matches);
+      return;
+    }
+
+    // Guard on the round so only one of several results finishing at once opens the next one
+    const claimed = await this.tournamentModel
+      .findOneAndUpdate(
+        {
+          _id: tournament._id,
+          status: TournamentStatus.Active,
+          currentRound: round,
+        },
+        { $set: { currentRound: round + 1 } },
+        { new: true },
+      )
+      .exec();
+    if (!claimed) {
+      return;
+    }
+
+    const pairs =
+      claimed.format === TournamentFormat.Swiss
+        ? pairSwissRound(swissStandings(claimed.participants, matches), matches)
+        : nextEliminationRound(
+            matches.filter((match) => match.round === round),
+            new Map(
+              claimed.participants.map((participant) => [
+                participant.userId,
+                participant.seed ?? 0,
+              ]),
+            ),
+          );
+    await this.startRound(claimed, round + 1, pairs);
+  }
+
+  private async finish(
+    tournament: TournamentDocument,
+    matches: MatchResult[],
+  ): Promise<void> {
+    const completed = await this.tournamentModel
+      .findOneAndUpdate(
+        {
+          _id: tournament._id,
+          status: TournamentStatus.Active,
+          currentRound: tournament.currentRound,
+        },
+        {
+          $set: {
+            status: TournamentStatus.Completed,
+            standings: this.computeStandings(tournament, matches),
+            completedAt: new Date(),
+          },
+        },
+        { new: true },
+      )
+      .exec();
+
+    if (completed) {
+      this.eventEmitter.emit(
+        'tournament.completed',
+        new TournamentCompletedEvent(completed),
+      );
+    }
+  }
+
+  private computeStandings(
+    tournament: Tournament,
+    matches: MatchResult[],
+  ): TournamentStanding[] {
+    if (tournament.status === TournamentStatus.Registration) {
+      return [];
+    }
+    return tournament.format === TournamentFormat.Swiss
+      ? swissStandings(tournament.participants, matches)
+      : eliminationStandings(tournament.participants, matches);
+  }
+}
@@ -0,0 +1,21 @@
+import { Injectable } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { WalletService } from './wallet.service';
+import { GameSessionAbandonedEvent } from '../game-session/game-session.events';
+
+@Injectable()
+export class WalletEventListeners {
+  constructor(private readonly walletService: WalletService) {}
+
+  @OnEvent('gameSession.abandoned')
+  async handleSessionAbandoned(event: GameSessionAbandonedEvent) {
+    // Nobody wins an abandoned game, so every held wager goes back
+    await this.walletService.refundSessionWagers(event.session.id);
+  }
+
+  @OnEvent('gameSession.deleted')
+  async handleSessionDeleted(event: { id: string }) {
+    // Wagers still held on a deleted session have nothing left to be settled against
+    await this.walletService.refundSessionWagers(event.id);
+  }
+}
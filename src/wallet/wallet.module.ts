@@ -4,14 +4,19 @@ import { WalletController } from './wallet.controller';
 import { MongooseModule } from '@nestjs/mongoose';
 import { Wallet, WalletSchema } from 'src/schemas/wallet.schema';
 import { User, UserSchema } from 'src/schemas/user.schema'
+import { WagerLock, WagerLockSchema } from 'src/schemas/wager-lock.schema';
+import { WalletEventListeners } from './wallet-event-listeners';
 
 @Module({
   imports: [
     MongooseModule.forFeature([{ name: Wallet.name, schema: WalletSchema }]),
     MongooseModule.forFeature([{ name: User.name, schema: UserSchema }]),
+    MongooseModule.forFeature([
+      { name: WagerLock.name, schema: WagerLockSchema },
+    ]),
   ],
   controllers: [WalletController],
-  providers: [WalletService],
+  providers: [WalletService, WalletEventListeners],
   exports: [WalletService],
 })
 export class WalletModule {}
@@ -1,15 +1,25 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
 import { CreateWalletDto, UpdateWalletDto } from '../dto/wallet.dto';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
-import { Wallet } from '../schemas/wallet.schema';
-import { User } from 'src/schemas/user.schema';
+import { Wallet, WalletStatus } from '../schemas/wallet.schema';
+import { WagerLock, WagerLockStatus } from '../schemas/wager-lock.schema';
+import { User } from '../schemas/user.schema';
 
 @Injectable()
 export class WalletService {
+  private readonly logger = new Logger(WalletService.name);
+
   constructor(
     @InjectModel(Wallet.name) private readonly walletModel: Model<Wallet>,
     @InjectModel(User.name) private readonly userModel: Model<User>,
+    @InjectModel(WagerLock.name)
+    private readonly wagerLockModel: Model<WagerLock>,
   ) {}
 
   async createWallet(userId: string, payload: CreateWalletDto): Promise<any> {
@@ -77,4 +87,77 @@ export class WalletService {
 
     return { message: 'Wallet successfully deleted' };
   }
+
+  async lockWager(
+    userId: string,
+    sessionId: string,
+    amount: number,
+  ): Promise<WagerLock> {
+    // Take the funds in the same write that checks the balance so it cannot go negative
+    const wallet = await this.walletModel.findOneAndUpdate(
+      { userId, status: WalletStatus.ACTIVE, balance: { $gte: amount } },
+      { $inc: { balance: -amount } },
+      { new: true },
+    );
+    if (!wallet) {
+      throw new BadRequestException('Insufficient balance to cover the wager');
+    }
+
+    try {
+      return await this.wagerLockModel.create({
+        walletId: wallet._id,
+        userId,
+        sessionId,
+        amount,
+      });
+    } catch (error) {
+      // Already wagered on this session; give the second hold back
+      await this.walletModel.updateOne(
+        { _id: wallet._id },
+        { $inc: { balance: amount } },
+      );
+      throw error;
+    }
+  }
+
+  async refundSessionWagers(sessionId: string): Promise<number> {
+    const locks = await this.wagerLockModel.find({
+      sessionId,
+      status: WagerLockStatus.LOCKED,
+    });
+
+    let refunded = 0;
+    for (const lock of locks) {
+      if (await this.refundWager(lock)) {
+        refunded++;
+      }
+    }
+
+    if (refunded > 0) {
+      this.logger.log(`Refunded ${refunded} wagers for session ${sessionId}`);
+    }
+    return refunded;
+  }
+
+  /**
+   * Give a held wager back to its wallet; false when it was no longer held
+   */
+  async refundWager(lock: WagerLock): Promise<boolean> {
+    // Flip the lock first so a concurrent refund cannot pay it out twice
+    const released = await this.wagerLockModel.findOneAndUpdate(
+      { _id: lock._id, status: WagerLockStatus.LOCKED },
+      {
+        $set: { status: WagerLockStatus.REFUNDED, releasedAt: new Date() },
+      },
+    );
+    if (!released) {
+      return false;
+    }
+
+    await this.walletModel.updateOne(
+      { _id: lock.walletId },
+      { $inc: { balance: lock.amount } },
+    );
+    return true;
+  }
 }